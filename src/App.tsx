@@ -4,10 +4,12 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { PresenceProvider } from "@/contexts/PresenceContext";
 import ErrorBoundary from "@/components/ErrorBoundary";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
 import Signup from "./pages/Signup";
+import AcceptInvite from "./pages/AcceptInvite";
 import Dashboard from "./pages/Dashboard";
 import ProjectDetail from "./pages/ProjectDetail";
 import AdminDashboard from "./pages/AdminDashboard";
@@ -15,7 +17,9 @@ import AdminClientDetail from "./pages/AdminClientDetail";
 import TestUpload from "./pages/TestUpload";
 import AdminDeliverables from "./pages/AdminDeliverables";
 import Messages from "./pages/Messages";
+import Inbox from "./pages/Inbox";
 import ProtectedRoute from "./components/ProtectedRoute";
+import ImpersonationBanner from "./components/ImpersonationBanner";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -24,14 +28,17 @@ const App = () => (
   <ErrorBoundary>
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
+        <PresenceProvider>
         <TooltipProvider>
           <Toaster />
           <Sonner />
           <BrowserRouter>
+          <ImpersonationBanner />
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/login" element={<Login />} />
             <Route path="/signup" element={<Signup />} />
+            <Route path="/accept-invite" element={<AcceptInvite />} />
             <Route
               path="/dashboard"
               element={
@@ -59,7 +66,7 @@ const App = () => (
             <Route
               path="/admin/client/:clientId"
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute requirePermission="projects.read_all">
                   <AdminClientDetail />
                 </ProtectedRoute>
               }
@@ -67,7 +74,7 @@ const App = () => (
             <Route
               path="/admin/deliverables"
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute requirePermission="deliverables.send">
                   <AdminDeliverables />
                 </ProtectedRoute>
               }
@@ -75,11 +82,19 @@ const App = () => (
             <Route
               path="/messages"
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute requirePermission="messages.read_all">
                   <Messages />
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/inbox"
+              element={
+                <ProtectedRoute>
+                  <Inbox />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/test-upload"
               element={
@@ -93,6 +108,7 @@ const App = () => (
           </Routes>
           </BrowserRouter>
         </TooltipProvider>
+        </PresenceProvider>
       </AuthProvider>
     </QueryClientProvider>
   </ErrorBoundary>
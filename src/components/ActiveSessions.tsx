@@ -0,0 +1,189 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Loader2, Monitor, Smartphone, LogOut, RefreshCw, AlertCircle } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { listSessions, revokeSession, revokeAllSessions, UserSession } from '@/lib/sessions';
+
+const isMobileDevice = (session: UserSession): boolean => {
+  return /iOS|Android/.test(session.device || '');
+};
+
+const ActiveSessions = () => {
+  const { user, logout } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const result = await listSessions();
+      if (result.success && result.data) {
+        setSessions(result.data);
+      } else {
+        setError(result.error || 'Failed to load sessions');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (sessionId: string) => {
+    if (!user) return;
+
+    setRevokingId(sessionId);
+    try {
+      const result = await revokeSession(user.id, sessionId);
+      if (result.success) {
+        setSessions(prev => prev.filter(session => session.id !== sessionId));
+        toast({
+          title: "Session revoked",
+          description: "That device will be signed out shortly.",
+        });
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to revoke session",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleLogoutEverywhere = async () => {
+    if (!user) return;
+
+    const result = await revokeAllSessions(user.id);
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to log out everywhere",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await logout();
+    navigate('/login');
+  };
+
+  return (
+    <Card className="border-border-light">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle>Where You're Logged In</CardTitle>
+            <CardDescription>
+              Devices that currently have access to your account
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={loadSessions} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {sessions.map((session) => {
+              const DeviceIcon = isMobileDevice(session) ? Smartphone : Monitor;
+              return (
+                <div
+                  key={session.id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-muted/30 rounded-lg"
+                >
+                  <div className="flex items-start gap-3">
+                    <DeviceIcon className="h-5 w-5 mt-0.5 text-muted-foreground" />
+                    <div>
+                      <h4 className="font-medium text-foreground flex items-center gap-2">
+                        {session.device || 'Unknown device'}
+                        {session.is_current && (
+                          <Badge className="bg-green-100 text-green-800">This device</Badge>
+                        )}
+                      </h4>
+                      <p className="text-sm text-muted-foreground">
+                        {session.ip_address || 'Unknown IP'} · Last active {new Date(session.last_seen_at).toLocaleString()}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Signed in {new Date(session.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.is_current && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full sm:w-auto"
+                      onClick={() => handleRevoke(session.id)}
+                      disabled={revokingId === session.id}
+                    >
+                      {revokingId === session.id ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+
+            {sessions.length === 0 && !error && (
+              <p className="text-sm text-muted-foreground text-center py-4">No active sessions found</p>
+            )}
+          </div>
+        )}
+
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" className="w-full sm:w-auto text-red-600 hover:text-red-700">
+              <LogOut className="h-4 w-4 mr-2" />
+              Log Out Everywhere
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Log out everywhere?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This signs out every device, including this one. You'll need your password to sign in again.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleLogoutEverywhere} className="bg-red-600 hover:bg-red-700">
+                Log Out Everywhere
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActiveSessions;
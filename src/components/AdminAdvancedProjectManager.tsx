@@ -40,6 +40,7 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { publishProjectStatusChange } from '@/lib/notifications';
 import { Link } from 'react-router-dom';
 
 interface Project {
@@ -271,6 +272,14 @@ const AdminAdvancedProjectManager = () => {
           : project
       ));
 
+      await Promise.all(projects
+        .filter(project => selectedIds.includes(project.id) && project.status !== newStatus)
+        .map(project => publishProjectStatusChange(
+          project.user_id,
+          { id: project.id, name: project.name, previous_status: project.status },
+          newStatus
+        )));
+
       toast({
         title: "Projects Updated",
         description: `${selectedIds.length} projects updated to ${newStatus}`,
@@ -25,6 +25,14 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { formatDuration, getMessageReadStats, MessageReadStats } from '@/lib/messageReceipts';
+
+const TIME_RANGE_DAYS: Record<string, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365
+};
 
 interface AnalyticsData {
   totalUsers: number;
@@ -65,11 +73,18 @@ const AdminAnalytics = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [timeRange, setTimeRange] = useState('30d');
   const [activeTab, setActiveTab] = useState('overview');
+  const [readStats, setReadStats] = useState<MessageReadStats[]>([]);
 
   useEffect(() => {
     loadAnalytics();
   }, [timeRange]);
 
+  // Message read times for the selected range
+  useEffect(() => {
+    const since = new Date(Date.now() - (TIME_RANGE_DAYS[timeRange] || 30) * 24 * 60 * 60 * 1000);
+    getMessageReadStats(since).then(setReadStats);
+  }, [timeRange]);
+
   const loadAnalytics = async () => {
     setIsLoading(true);
     try {
@@ -573,6 +588,41 @@ const AdminAnalytics = () => {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Message Read Times</CardTitle>
+              <CardDescription>
+                How long messages wait before they are read. Clients who turn off read receipts are not counted.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {(['to_clients', 'to_staff'] as const).map((direction) => {
+                const stats = readStats.find(entry => entry.direction === direction);
+
+                return (
+                  <div key={direction} className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">
+                        {direction === 'to_clients' ? 'Sent to clients' : 'Sent to the team'}
+                      </span>
+                      <Badge variant="outline">
+                        {stats ? `${stats.read_count}/${stats.sent_count} read` : 'No messages'}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center justify-between text-sm text-muted-foreground">
+                      <span>Avg time to read</span>
+                      <span>{formatDuration(stats?.avg_seconds_to_read ?? null)}</span>
+                    </div>
+                    <div className="flex items-center justify-between text-sm text-muted-foreground">
+                      <span>Median time to read</span>
+                      <span>{formatDuration(stats?.median_seconds_to_read ?? null)}</span>
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Monthly Trends</CardTitle>
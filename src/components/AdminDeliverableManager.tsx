@@ -644,7 +644,8 @@ const AdminDeliverableManager = () => {
         await notifyClientOfDeliverable(
           deliverable.projects.user_id,
           deliverable.projects.name,
-          deliverable.title
+          deliverable.title,
+          { id: deliverable.id, project_id: deliverable.project_id }
         );
       }
 
@@ -715,7 +716,8 @@ const AdminDeliverableManager = () => {
           await notifyClientOfDeliverable(
             deliverable.projects.user_id,
             deliverable.projects.name,
-            deliverable.title
+            deliverable.title,
+            { id: deliverable.id, project_id: deliverable.project_id }
           );
         }
       }
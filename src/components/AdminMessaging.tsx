@@ -12,6 +12,8 @@ import {
   Clock
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePresence, useWatchPresence } from '@/hooks/usePresence';
+import { describePresence, PRESENCE_DOT_CLASSES } from '@/lib/presence';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import MessageInterface from '@/components/MessageInterface';
@@ -22,6 +24,7 @@ interface Client {
   company_name: string;
   phone_number: string;
   created_at: string;
+  last_seen_at?: string | null;
   last_message?: {
     content: string;
     created_at: string;
@@ -32,6 +35,7 @@ interface Client {
 
 const AdminMessaging = () => {
   const { user } = useAuth();
+  const { getStatus, getLastSeen } = usePresence();
   const { toast } = useToast();
   const [clients, setClients] = useState<Client[]>([]);
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
@@ -77,12 +81,11 @@ const AdminMessaging = () => {
                 console.error('Error fetching latest message:', messageError);
               }
 
-              // Get unread count (messages from client to admin that are unread)
+              // Get unread count (messages from the client the team has not read, whoever they were routed to)
               const { count: unreadCount, error: countError } = await supabase
                 .from('messages')
                 .select('*', { count: 'exact', head: true })
                 .eq('sender_id', client.id)
-                .eq('receiver_id', user.id)
                 .eq('is_read', false);
 
               if (countError) {
@@ -116,6 +119,9 @@ const AdminMessaging = () => {
     fetchClients();
   }, [user, toast]);
 
+  // Client presence is only shared with staff who join that client's channel
+  useWatchPresence(clients.map(client => client.id));
+
   const filteredClients = clients.filter(client =>
     client.full_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     client.company_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -206,11 +212,17 @@ const AdminMessaging = () => {
                       }`}
                     >
                       <div className="flex items-center space-x-3">
-                        <Avatar className="h-10 w-10 flex-shrink-0">
-                          <AvatarFallback className="bg-primary text-primary-foreground text-sm">
-                            {getInitials(client.full_name || '')}
-                          </AvatarFallback>
-                        </Avatar>
+                        <div className="relative flex-shrink-0">
+                          <Avatar className="h-10 w-10">
+                            <AvatarFallback className="bg-primary text-primary-foreground text-sm">
+                              {getInitials(client.full_name || '')}
+                            </AvatarFallback>
+                          </Avatar>
+                          <span
+                            className={`absolute bottom-0 right-0 h-3 w-3 rounded-full border-2 border-background ${PRESENCE_DOT_CLASSES[getStatus(client.id)]}`}
+                            aria-hidden="true"
+                          />
+                        </div>
                         
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center justify-between">
@@ -227,6 +239,11 @@ const AdminMessaging = () => {
                           <p className="text-sm text-muted-foreground truncate text-wrap">
                             {client.company_name || client.phone_number}
                           </p>
+
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            <Clock className="h-3 w-3 flex-shrink-0" />
+                            {describePresence(getStatus(client.id), getLastSeen(client.id, client.last_seen_at))}
+                          </p>
                           
                           {client.last_message && (
                             <div className="flex items-center justify-between mt-1">
@@ -42,6 +42,7 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { SecuritySettings, loadSecuritySettings, saveSecuritySettings } from '@/lib/securitySettings';
 
 interface AuditLog {
   id: string;
@@ -57,35 +58,6 @@ interface AuditLog {
   details: Record<string, any>;
 }
 
-interface SecuritySettings {
-  password_policy: {
-    min_length: number;
-    require_uppercase: boolean;
-    require_lowercase: boolean;
-    require_numbers: boolean;
-    require_symbols: boolean;
-    max_age_days: number;
-  };
-  session_settings: {
-    timeout_minutes: number;
-    max_concurrent_sessions: number;
-    require_2fa: boolean;
-  };
-  access_control: {
-    ip_whitelist_enabled: boolean;
-    ip_whitelist: string[];
-    geo_blocking_enabled: boolean;
-    blocked_countries: string[];
-  };
-  audit_settings: {
-    log_retention_days: number;
-    log_failed_attempts: boolean;
-    log_successful_logins: boolean;
-    log_admin_actions: boolean;
-    real_time_alerts: boolean;
-  };
-}
-
 interface SecurityAlert {
   id: string;
   type: 'failed_login' | 'suspicious_activity' | 'policy_violation' | 'system_breach';
@@ -150,61 +122,7 @@ const AdminSecurity = () => {
         resolved: alert.resolved
       }));
 
-      // Load security settings from system_settings table
-      const { data: settingsData, error: settingsError } = await supabase
-        .from('system_settings')
-        .select('setting_key, setting_value, setting_type')
-        .like('setting_key', 'security_%');
-
-      if (settingsError) {
-        console.error('Error loading security settings:', settingsError);
-      }
-
-      // Parse security settings
-      const settingsMap = (settingsData || []).reduce((acc, setting) => {
-        let value = setting.setting_value;
-        if (setting.setting_type === 'boolean') {
-          value = setting.setting_value === 'true';
-        } else if (setting.setting_type === 'number') {
-          value = parseFloat(setting.setting_value);
-        } else if (setting.setting_type === 'json') {
-          try {
-            value = JSON.parse(setting.setting_value);
-          } catch (e) {
-            value = setting.setting_value;
-          }
-        }
-        acc[setting.setting_key] = value;
-        return acc;
-      }, {} as any);
-
-      // Default security settings if not found in database
-      const defaultSettings: SecuritySettings = {
-        password_policy: {
-          min_length: settingsMap.security_password_min_length || 8,
-          require_uppercase: settingsMap.security_password_require_uppercase !== false,
-          require_lowercase: settingsMap.security_password_require_lowercase !== false,
-          require_numbers: settingsMap.security_password_require_numbers !== false,
-          require_symbols: settingsMap.security_password_require_symbols !== false,
-          max_age_days: settingsMap.security_password_max_age_days || 90
-        },
-        session_management: {
-          max_concurrent_sessions: settingsMap.security_max_concurrent_sessions || 3,
-          session_timeout_minutes: settingsMap.security_session_timeout_minutes || 30,
-          remember_me_duration_days: settingsMap.security_remember_me_duration_days || 30
-        },
-        two_factor: {
-          enabled: settingsMap.security_two_factor_enabled === true,
-          required_for_admins: settingsMap.security_two_factor_required_for_admins === true,
-          backup_codes_count: settingsMap.security_backup_codes_count || 10
-        },
-        audit_logging: {
-          log_failed_attempts: settingsMap.security_log_failed_attempts !== false,
-          log_successful_logins: settingsMap.security_log_successful_logins !== false,
-          log_admin_actions: settingsMap.security_log_admin_actions !== false,
-          real_time_alerts: settingsMap.security_real_time_alerts !== false
-        }
-      };
+      const settings = await loadSecuritySettings();
 
       // Load audit logs from security_alerts table (using it as audit log for now)
       const { data: auditData } = await supabase
@@ -242,7 +160,7 @@ const AdminSecurity = () => {
       }));
 
       setAuditLogs(auditLogs);
-      setSecuritySettings(defaultSettings);
+      setSecuritySettings(settings);
       setSecurityAlerts(securityAlerts);
     } catch (error) {
       console.error('Error loading security data:', error);
@@ -258,9 +176,18 @@ const AdminSecurity = () => {
 
   const updateSecuritySettings = async (newSettings: SecuritySettings) => {
     try {
-      // In a real implementation, this would update the security_settings table
+      const saved = await saveSecuritySettings(newSettings, user?.id);
+      if (!saved) {
+        toast({
+          title: "Error",
+          description: "Failed to update security settings",
+          variant: "destructive",
+        });
+        return;
+      }
+
       setSecuritySettings(newSettings);
-      
+
       toast({
         title: "Settings Updated",
         description: "Security settings have been updated successfully",
@@ -488,6 +415,217 @@ const AdminSecurity = () => {
           Security Settings
         </Button>
       </div>
+
+      {activeTab === 'settings' && securitySettings && (
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Key className="h-5 w-5" />
+                Password Policy
+              </CardTitle>
+              <CardDescription>
+                Applied at signup, password reset and password change. Common passwords are always rejected
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="min_length">Minimum Length</Label>
+                  <Input
+                    id="min_length"
+                    type="number"
+                    min={6}
+                    max={64}
+                    value={securitySettings.password_policy.min_length}
+                    onChange={(e) => setSecuritySettings({
+                      ...securitySettings,
+                      password_policy: {
+                        ...securitySettings.password_policy,
+                        min_length: parseInt(e.target.value) || 0
+                      }
+                    })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max_age_days">Maximum Password Age (days)</Label>
+                  <Input
+                    id="max_age_days"
+                    type="number"
+                    min={0}
+                    value={securitySettings.password_policy.max_age_days}
+                    onChange={(e) => setSecuritySettings({
+                      ...securitySettings,
+                      password_policy: {
+                        ...securitySettings.password_policy,
+                        max_age_days: parseInt(e.target.value) || 0
+                      }
+                    })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Users must choose a new password at next login once it is older than this. 0 disables expiry
+                  </p>
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="require_uppercase">Require Uppercase Letters</Label>
+                    <p className="text-sm text-muted-foreground">At least one A-Z</p>
+                  </div>
+                  <Switch
+                    id="require_uppercase"
+                    checked={securitySettings.password_policy.require_uppercase}
+                    onCheckedChange={(checked) => setSecuritySettings({
+                      ...securitySettings,
+                      password_policy: {
+                        ...securitySettings.password_policy,
+                        require_uppercase: checked
+                      }
+                    })}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="require_lowercase">Require Lowercase Letters</Label>
+                    <p className="text-sm text-muted-foreground">At least one a-z</p>
+                  </div>
+                  <Switch
+                    id="require_lowercase"
+                    checked={securitySettings.password_policy.require_lowercase}
+                    onCheckedChange={(checked) => setSecuritySettings({
+                      ...securitySettings,
+                      password_policy: {
+                        ...securitySettings.password_policy,
+                        require_lowercase: checked
+                      }
+                    })}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="require_numbers">Require Numbers</Label>
+                    <p className="text-sm text-muted-foreground">At least one 0-9</p>
+                  </div>
+                  <Switch
+                    id="require_numbers"
+                    checked={securitySettings.password_policy.require_numbers}
+                    onCheckedChange={(checked) => setSecuritySettings({
+                      ...securitySettings,
+                      password_policy: {
+                        ...securitySettings.password_policy,
+                        require_numbers: checked
+                      }
+                    })}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="require_symbols">Require Symbols</Label>
+                    <p className="text-sm text-muted-foreground">At least one character such as ! @ # $</p>
+                  </div>
+                  <Switch
+                    id="require_symbols"
+                    checked={securitySettings.password_policy.require_symbols}
+                    onCheckedChange={(checked) => setSecuritySettings({
+                      ...securitySettings,
+                      password_policy: {
+                        ...securitySettings.password_policy,
+                        require_symbols: checked
+                      }
+                    })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <Button onClick={() => updateSecuritySettings(securitySettings)}>
+                  Save Settings
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Lock className="h-5 w-5" />
+                Session Settings
+              </CardTitle>
+              <CardDescription>
+                Control how long sessions last and how administrators sign in
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="timeout_minutes">Session Timeout (minutes)</Label>
+                  <Input
+                    id="timeout_minutes"
+                    type="number"
+                    min={5}
+                    value={securitySettings.session_settings.timeout_minutes}
+                    onChange={(e) => setSecuritySettings({
+                      ...securitySettings,
+                      session_settings: {
+                        ...securitySettings.session_settings,
+                        timeout_minutes: parseInt(e.target.value) || 0
+                      }
+                    })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max_concurrent_sessions">Max Concurrent Sessions</Label>
+                  <Input
+                    id="max_concurrent_sessions"
+                    type="number"
+                    min={1}
+                    value={securitySettings.session_settings.max_concurrent_sessions}
+                    onChange={(e) => setSecuritySettings({
+                      ...securitySettings,
+                      session_settings: {
+                        ...securitySettings.session_settings,
+                        max_concurrent_sessions: parseInt(e.target.value) || 0
+                      }
+                    })}
+                  />
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="require_2fa">Require 2FA for Administrators</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Admins without two-factor authentication must enroll before using the admin area
+                  </p>
+                </div>
+                <Switch
+                  id="require_2fa"
+                  checked={securitySettings.session_settings.require_2fa}
+                  onCheckedChange={(checked) => setSecuritySettings({
+                    ...securitySettings,
+                    session_settings: {
+                      ...securitySettings.session_settings,
+                      require_2fa: checked
+                    }
+                  })}
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <Button onClick={() => updateSecuritySettings(securitySettings)}>
+                  Save Settings
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
     </div>
   );
 };
@@ -43,9 +43,11 @@ interface SystemSettings {
   sms_notifications: boolean;
   maintenance_mode: boolean;
   registration_enabled: boolean;
+  inbox_auto_assign: boolean;
   max_file_size: number;
   allowed_file_types: string[];
   session_timeout: number;
+  message_edit_window_minutes: number;
   backup_frequency: string;
   theme_mode: string;
   company_name: string;
@@ -75,9 +77,11 @@ const AdminSettings = () => {
     sms_notifications: false,
     maintenance_mode: false,
     registration_enabled: true,
+    inbox_auto_assign: true,
     max_file_size: 10,
     allowed_file_types: ['pdf', 'doc', 'docx', 'zip', 'rar', 'jpg', 'jpeg', 'png'],
     session_timeout: 30,
+    message_edit_window_minutes: 15,
     backup_frequency: 'daily',
     theme_mode: 'light',
     company_name: '',
@@ -271,9 +275,11 @@ const AdminSettings = () => {
         sms_notifications: false,
         maintenance_mode: false,
         registration_enabled: true,
+        inbox_auto_assign: true,
         max_file_size: 10,
         allowed_file_types: ['pdf', 'doc', 'docx', 'zip', 'rar', 'jpg', 'jpeg', 'png'],
         session_timeout: 30,
+        message_edit_window_minutes: 15,
         backup_frequency: 'daily',
         theme_mode: 'light',
         company_name: 'Muahib Solution',
@@ -500,6 +506,18 @@ const AdminSettings = () => {
                         />
                       </div>
 
+                      <div className="space-y-2">
+                        <Label htmlFor="message-edit-window">Message Edit Window (minutes)</Label>
+                        <Input
+                          id="message-edit-window"
+                          type="number"
+                          min="0"
+                          max="1440"
+                          value={settings.message_edit_window_minutes}
+                          onChange={(e) => updateSetting('message_edit_window_minutes', parseInt(e.target.value))}
+                        />
+                      </div>
+
                       <div className="space-y-2">
                         <Label htmlFor="max-file-size">Max File Size (MB)</Label>
                         <Input
@@ -561,6 +579,19 @@ const AdminSettings = () => {
                           onCheckedChange={(checked) => updateSetting('registration_enabled', checked)}
                         />
                       </div>
+
+                      <div className="flex items-center justify-between">
+                        <div className="space-y-0.5">
+                          <Label>Auto-assign Conversations</Label>
+                          <p className="text-sm text-muted-foreground">
+                            Assign new client conversations to staff in turn
+                          </p>
+                        </div>
+                        <Switch
+                          checked={settings.inbox_auto_assign}
+                          onCheckedChange={(checked) => updateSetting('inbox_auto_assign', checked)}
+                        />
+                      </div>
                     </div>
 
                     <Separator />
@@ -38,11 +38,18 @@ import {
   EyeOff,
   Save,
   Ban,
-  UserCheck
+  UserCheck,
+  KeyRound,
+  Link2,
+  Copy
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { formatPhoneNumber } from '@/lib/auth';
+import { resetUserTwoFactor } from '@/lib/twoFactor';
+import { Role, resolveRole } from '@/lib/permissions';
+import { createInvitation, CreatedInvitation, PENDING_PASSWORD_HASH } from '@/lib/invitations';
 
 interface User {
   id: string;
@@ -53,11 +60,14 @@ interface User {
   is_admin: boolean;
   is_active: boolean;
   is_suspended: boolean;
+  two_factor_enabled: boolean;
   created_at: string;
   updated_at: string;
   last_login: string;
   projects_count: number;
-  role: 'admin' | 'client' | 'manager';
+  role: Role;
+  // Still waiting for the invitee to set a password
+  is_pending_invite: boolean;
 }
 
 interface UserFormData {
@@ -65,9 +75,10 @@ interface UserFormData {
   email: string;
   company_name: string;
   phone_number: string;
-  role: 'admin' | 'client' | 'manager';
+  role: Role;
   is_active: boolean;
   send_welcome_email: boolean;
+  project_id: string; // 'none' or a staff-owned project handed over when the invitation is accepted
 }
 
 const AdminUserManagement = () => {
@@ -84,6 +95,8 @@ const AdminUserManagement = () => {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [isBulkOperating, setIsBulkOperating] = useState(false);
+  const [attachableProjects, setAttachableProjects] = useState<{ id: string; name: string }[]>([]);
+  const [createdInvitation, setCreatedInvitation] = useState<(CreatedInvitation & { full_name: string }) | null>(null);
   
   const [userForm, setUserForm] = useState<UserFormData>({
     full_name: '',
@@ -92,7 +105,8 @@ const AdminUserManagement = () => {
     phone_number: '',
     role: 'client',
     is_active: true,
-    send_welcome_email: true
+    send_welcome_email: true,
+    project_id: 'none'
   });
 
   // Load users
@@ -100,6 +114,28 @@ const AdminUserManagement = () => {
     loadUsers();
   }, []);
 
+  // Projects staff set up before the client had an account can be handed over with the invitation
+  useEffect(() => {
+    if (!isCreateModalOpen) return;
+
+    const loadAttachableProjects = async () => {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name, users!inner(is_admin)')
+        .eq('users.is_admin', true)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading projects:', error);
+        return;
+      }
+
+      setAttachableProjects((data || []).map(project => ({ id: project.id, name: project.name })));
+    };
+
+    loadAttachableProjects();
+  }, [isCreateModalOpen]);
+
   const loadUsers = async () => {
     setIsLoading(true);
     try {
@@ -128,11 +164,13 @@ const AdminUserManagement = () => {
           is_admin: userData.is_admin || false,
           is_active: userData.is_active !== false,
           is_suspended: userData.is_suspended || false,
+          two_factor_enabled: userData.two_factor_enabled || false,
           created_at: userData.created_at,
           updated_at: userData.updated_at,
           last_login: userData.last_login || userData.updated_at,
           projects_count: userData.projects?.[0]?.count || 0,
-          role: userData.is_admin ? 'admin' : 'client'
+          role: resolveRole(userData),
+          is_pending_invite: userData.password_hash === PENDING_PASSWORD_HASH
         }));
         setUsers(formattedUsers);
       }
@@ -195,11 +233,12 @@ const AdminUserManagement = () => {
           full_name: userForm.full_name.trim(),
           email: userForm.email.trim(),
           company_name: userForm.company_name.trim(),
-          phone_number: userForm.phone_number.trim(),
-          is_admin: userForm.role === 'admin',
+          phone_number: formatPhoneNumber(userForm.phone_number),
+          role: userForm.role,
+          is_admin: userForm.role !== 'client',
           is_active: userForm.is_active,
           is_suspended: false,
-          password_hash: 'temp_password_hash' // Would be properly handled in real implementation
+          password_hash: PENDING_PASSWORD_HASH // Unusable until the invitee sets a password from their invitation
         })
         .select()
         .single();
@@ -223,11 +262,13 @@ const AdminUserManagement = () => {
         is_admin: data.is_admin,
         is_active: data.is_active,
         is_suspended: data.is_suspended,
+        two_factor_enabled: false,
         created_at: data.created_at,
         updated_at: data.updated_at,
         last_login: data.last_login,
         projects_count: 0,
-        role: data.is_admin ? 'admin' : 'client'
+        role: resolveRole(data),
+        is_pending_invite: true
       };
 
       setUsers(prev => [newUser, ...prev]);
@@ -237,6 +278,8 @@ const AdminUserManagement = () => {
         description: `User ${userForm.full_name} has been created successfully`,
       });
 
+      await inviteUser(newUser, userForm.project_id === 'none' ? undefined : userForm.project_id, userForm.send_welcome_email);
+
       resetForm();
       setIsCreateModalOpen(false);
 
@@ -250,6 +293,31 @@ const AdminUserManagement = () => {
     }
   };
 
+  const inviteUser = async (invitee: Pick<User, 'id' | 'full_name'>, projectId?: string, send = false) => {
+    if (!user) return;
+
+    const response = await createInvitation(user.id, invitee.id, { projectId, send });
+    if (!response.success || !response.data) {
+      toast({
+        title: "Error",
+        description: response.error || "Failed to create invitation",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCreatedInvitation({ ...response.data, full_name: invitee.full_name });
+  };
+
+  const copyInvitationLink = async () => {
+    if (!createdInvitation) return;
+    await navigator.clipboard.writeText(createdInvitation.invite_url);
+    toast({
+      title: "Link Copied",
+      description: "The invitation link has been copied to your clipboard",
+    });
+  };
+
   const updateUser = async () => {
     if (!editingUser) return;
 
@@ -259,8 +327,9 @@ const AdminUserManagement = () => {
         .update({
           full_name: userForm.full_name.trim(),
           company_name: userForm.company_name.trim(),
-          phone_number: userForm.phone_number.trim(),
-          is_admin: userForm.role === 'admin',
+          phone_number: formatPhoneNumber(userForm.phone_number),
+          role: userForm.role,
+          is_admin: userForm.role !== 'client',
           updated_at: new Date().toISOString()
         })
         .eq('id', editingUser.id);
@@ -282,8 +351,8 @@ const AdminUserManagement = () => {
               ...u,
               full_name: userForm.full_name.trim(),
               company_name: userForm.company_name.trim(),
-              phone_number: userForm.phone_number.trim(),
-              is_admin: userForm.role === 'admin',
+              phone_number: formatPhoneNumber(userForm.phone_number),
+              is_admin: userForm.role !== 'client',
               role: userForm.role,
               updated_at: new Date().toISOString()
             }
@@ -311,7 +380,21 @@ const AdminUserManagement = () => {
 
   const suspendUser = async (userId: string) => {
     try {
-      // In a real implementation, this would update user status
+      const { error } = await supabase
+        .from('users')
+        .update({ is_suspended: true, is_active: false, updated_at: new Date().toISOString() })
+        .eq('id', userId);
+
+      if (error) {
+        console.error('Error suspending user:', error);
+        toast({
+          title: "Error",
+          description: "Failed to suspend user",
+          variant: "destructive",
+        });
+        return;
+      }
+
       setUsers(prev => prev.map(u => 
         u.id === userId 
           ? { ...u, is_suspended: true, is_active: false }
@@ -327,8 +410,55 @@ const AdminUserManagement = () => {
     }
   };
 
+  const resetTwoFactor = async (userId: string) => {
+    if (!user) return;
+
+    const result = await resetUserTwoFactor(user.id, userId);
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to reset two-factor authentication",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUsers(prev => prev.map(u =>
+      u.id === userId
+        ? { ...u, two_factor_enabled: false }
+        : u
+    ));
+
+    toast({
+      title: "2FA Reset",
+      description: "The user can now sign in with their password and enroll again",
+    });
+  };
+
   const activateUser = async (userId: string) => {
     try {
+      // Reactivating also clears any failed-login lockout
+      const { error } = await supabase
+        .from('users')
+        .update({
+          is_suspended: false,
+          is_active: true,
+          login_attempts: 0,
+          locked_until: null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', userId);
+
+      if (error) {
+        console.error('Error activating user:', error);
+        toast({
+          title: "Error",
+          description: "Failed to activate user",
+          variant: "destructive",
+        });
+        return;
+      }
+
       setUsers(prev => prev.map(u => 
         u.id === userId 
           ? { ...u, is_suspended: false, is_active: true }
@@ -387,6 +517,21 @@ const AdminUserManagement = () => {
     setIsBulkOperating(true);
     try {
       const selectedIds = Array.from(selectedUsers);
+
+      const { error } = await supabase
+        .from('users')
+        .update({ is_suspended: true, is_active: false, updated_at: new Date().toISOString() })
+        .in('id', selectedIds);
+
+      if (error) {
+        console.error('Error bulk suspending users:', error);
+        toast({
+          title: "Error",
+          description: "Failed to suspend users",
+          variant: "destructive",
+        });
+        return;
+      }
       
       setUsers(prev => prev.map(u =>
         selectedIds.includes(u.id)
@@ -461,7 +606,8 @@ const AdminUserManagement = () => {
       phone_number: '',
       role: 'client',
       is_active: true,
-      send_welcome_email: true
+      send_welcome_email: true,
+      project_id: 'none'
     });
   };
 
@@ -474,7 +620,8 @@ const AdminUserManagement = () => {
       phone_number: user.phone_number,
       role: user.role,
       is_active: user.is_active,
-      send_welcome_email: false
+      send_welcome_email: false,
+      project_id: 'none'
     });
     setIsEditModalOpen(true);
   };
@@ -621,7 +768,7 @@ const AdminUserManagement = () => {
                   <Label htmlFor="user-role">Role</Label>
                   <Select
                     value={userForm.role}
-                    onValueChange={(value: 'admin' | 'client' | 'manager') =>
+                    onValueChange={(value: Role) =>
                       setUserForm(prev => ({ ...prev, role: value }))
                     }
                   >
@@ -636,11 +783,32 @@ const AdminUserManagement = () => {
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="user-project">Attach Project (optional)</Label>
+                  <Select
+                    value={userForm.project_id}
+                    onValueChange={(value) => setUserForm(prev => ({ ...prev, project_id: value }))}
+                  >
+                    <SelectTrigger id="user-project">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No project</SelectItem>
+                      {attachableProjects.map(project => (
+                        <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    The project is moved to this user's account when they accept the invitation
+                  </p>
+                </div>
+
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
-                    <Label>Send Welcome Email</Label>
+                    <Label>Send Invitation by SMS</Label>
                     <p className="text-sm text-muted-foreground">
-                      Send account setup instructions to the user
+                      Text the user a link to set their password. You can also copy the link yourself
                     </p>
                   </div>
                   <Checkbox
@@ -952,6 +1120,17 @@ const AdminUserManagement = () => {
                             <Edit className="h-4 w-4" />
                           </Button>
 
+                          {user.is_pending_invite && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Create invitation link"
+                              onClick={() => inviteUser(user)}
+                            >
+                              <Link2 className="h-4 w-4 text-primary" />
+                            </Button>
+                          )}
+
                           {user.is_suspended ? (
                             <Button
                               variant="ghost"
@@ -970,6 +1149,30 @@ const AdminUserManagement = () => {
                             </Button>
                           )}
 
+                          {user.two_factor_enabled && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="sm" title="Reset 2FA">
+                                  <KeyRound className="h-4 w-4 text-blue-500" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Reset Two-Factor Authentication</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    This removes the authenticator and recovery codes for "{user.full_name}". Only do this after verifying their identity.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => resetTwoFactor(user.id)}>
+                                    Reset 2FA
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+
                           <AlertDialog>
                             <AlertDialogTrigger asChild>
                               <Button variant="ghost" size="sm">
@@ -1095,7 +1298,7 @@ const AdminUserManagement = () => {
               <Label htmlFor="edit-user-role">Role</Label>
               <Select
                 value={userForm.role}
-                onValueChange={(value: 'admin' | 'client' | 'manager') =>
+                onValueChange={(value: Role) =>
                   setUserForm(prev => ({ ...prev, role: value }))
                 }
               >
@@ -1128,6 +1331,30 @@ const AdminUserManagement = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Invitation Link Dialog */}
+      <Dialog open={!!createdInvitation} onOpenChange={(open) => !open && setCreatedInvitation(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invitation Link</DialogTitle>
+            <DialogDescription>
+              {createdInvitation?.sent
+                ? `The link was texted to ${createdInvitation.full_name}. `
+                : `Share this link with ${createdInvitation?.full_name || 'the user'}. `}
+              It works once and expires on {createdInvitation && new Date(createdInvitation.expires_at).toLocaleDateString()}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={createdInvitation?.invite_url || ''} className="font-mono text-xs" />
+            <Button variant="outline" size="sm" onClick={copyInvitationLink}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setCreatedInvitation(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { changePassword, validatePassword } from '@/lib/auth';
+import { useToast } from '@/hooks/use-toast';
+import { usePasswordPolicy } from '@/hooks/usePasswordPolicy';
+import PasswordPolicyPreview from '@/components/PasswordPolicyPreview';
+
+interface ChangePasswordFormProps {
+  onSuccess?: () => void;
+}
+
+const ChangePasswordForm: React.FC<ChangePasswordFormProps> = ({ onSuccess }) => {
+  const { user, updateUser } = useAuth();
+  const { toast } = useToast();
+  const passwordPolicy = usePasswordPolicy();
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    setError('');
+
+    const passwordValidation = validatePassword(newPassword, passwordPolicy);
+    if (!passwordValidation.isValid) {
+      setError(passwordValidation.errors.join(', '));
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await changePassword(user.id, currentPassword, newPassword);
+      if (!response.success) {
+        setError(response.error || 'Failed to change password');
+        return;
+      }
+
+      updateUser({ password_changed_at: new Date().toISOString() });
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+
+      toast({
+        title: 'Password Changed',
+        description: 'Your password has been updated and your other sessions were signed out.',
+      });
+      onSuccess?.();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="current_password">Current Password</Label>
+        <Input
+          id="current_password"
+          type="password"
+          autoComplete="current-password"
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+          disabled={isSaving}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="new_password">New Password</Label>
+        <Input
+          id="new_password"
+          type="password"
+          autoComplete="new-password"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+          disabled={isSaving}
+          required
+        />
+        <PasswordPolicyPreview policy={passwordPolicy} password={newPassword} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirm_new_password">Confirm New Password</Label>
+        <Input
+          id="confirm_new_password"
+          type="password"
+          autoComplete="new-password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          disabled={isSaving}
+          required
+        />
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isSaving}>
+        {isSaving ? (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Changing Password...
+          </>
+        ) : (
+          'Change Password'
+        )}
+      </Button>
+    </form>
+  );
+};
+
+export default ChangePasswordForm;
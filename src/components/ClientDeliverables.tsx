@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -15,12 +15,17 @@ import {
   CheckCircle,
   Search,
   Filter,
+  Loader2,
   X
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useRealTimeEvents } from '@/hooks/useRealTimeUpdates';
+import type { EventHandlers } from '@/lib/events';
 import SecurityManager from '@/lib/security';
+import { approveDeliverable, getMembership, getProjectScopeFilter } from '@/lib/organizations';
+import { organizationRoleAllows } from '@/lib/permissions';
 
 interface Deliverable {
   id: string;
@@ -36,13 +41,14 @@ interface Deliverable {
   type?: 'url' | 'file' | string;
   content?: string;
   delivered_at?: string;
+  approved_at?: string | null;
   projects?: {
     name: string;
   };
 }
 
 const ClientDeliverables = () => {
-  const { user } = useAuth();
+  const { user, impersonation } = useAuth();
   const { toast } = useToast();
   const [deliverables, setDeliverables] = useState<Deliverable[]>([]);
   const [filteredDeliverables, setFilteredDeliverables] = useState<Deliverable[]>([]);
@@ -53,6 +59,10 @@ const ClientDeliverables = () => {
   const [projects, setProjects] = useState<{id: string, name: string}[]>([]);
   const [selectedDeliverables, setSelectedDeliverables] = useState<Set<string>>(new Set());
   const [isBulkOperating, setIsBulkOperating] = useState(false);
+  const [approvableProjectIds, setApprovableProjectIds] = useState<Set<string>>(new Set());
+  const [approvingId, setApprovingId] = useState<string | null>(null);
+  // Bumped when the team sends a deliverable, to reload the list
+  const [refreshCount, setRefreshCount] = useState(0);
 
   // Helper function to safely get deliverable type
   const getDeliverableType = (deliverable: Deliverable): 'url' | 'file' => {
@@ -65,11 +75,12 @@ const ClientDeliverables = () => {
       if (!user) return;
 
       try {
-        // First get user's projects
+        // First get user's projects, including those shared with their organization
+        const membership = await getMembership(user.id);
         const { data: userProjects, error: projectsError } = await supabase
           .from('projects')
-          .select('id, name')
-          .eq('user_id', user.id);
+          .select('id, name, user_id')
+          .or(getProjectScopeFilter(user.id, membership));
 
         if (projectsError) {
           console.error('Error fetching user projects:', projectsError);
@@ -89,6 +100,11 @@ const ClientDeliverables = () => {
 
         // Set projects for filter dropdown
         setProjects(userProjects.map(p => ({ id: p.id, name: p.name })));
+        // A project's own user and the organization's approvers can sign off on its deliverables
+        const canApproveShared = !!membership && organizationRoleAllows(membership.role, 'approve');
+        setApprovableProjectIds(new Set(
+          userProjects.filter(p => p.user_id === user.id || canApproveShared).map(p => p.id)
+        ));
         const projectIds = userProjects.map(p => p.id);
 
         // Then get deliverables for those projects
@@ -120,7 +136,15 @@ const ClientDeliverables = () => {
     };
 
     fetchDeliverables();
-  }, [user, toast]);
+  }, [user, toast, refreshCount]);
+
+  // Pick up deliverables the team sends while this page is open (the notification toasts them)
+  const realTimeHandlers = useMemo<EventHandlers>(() => ({
+    'deliverable.sent': () => {
+      setRefreshCount(count => count + 1);
+    }
+  }), []);
+  useRealTimeEvents(user?.id, realTimeHandlers);
 
   // Filter deliverables based on search and filters
   useEffect(() => {
@@ -150,6 +174,33 @@ const ClientDeliverables = () => {
     setFilteredDeliverables(filtered);
   }, [deliverables, searchTerm, typeFilter, projectFilter]);
 
+  // Read-only "view as client" sessions cannot sign off on the client's behalf
+  const canApprove = (deliverable: Deliverable) =>
+    !impersonation?.read_only && !deliverable.approved_at && approvableProjectIds.has(deliverable.project_id);
+
+  const handleApprove = async (deliverable: Deliverable) => {
+    if (!user) return;
+
+    setApprovingId(deliverable.id);
+    const result = await approveDeliverable(user.id, deliverable.id);
+    setApprovingId(null);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to approve deliverable",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setDeliverables(prev => prev.map(d => d.id === deliverable.id ? { ...d, approved_at: result.data } : d));
+    toast({
+      title: "Deliverable approved",
+      description: `"${deliverable.title}" has been signed off.`,
+    });
+  };
+
   const clearFilters = () => {
     setSearchTerm('');
     setTypeFilter('all');
@@ -522,8 +573,31 @@ const ClientDeliverables = () => {
                         Delivered {(deliverable.sent_at || deliverable.delivered_at) ? formatDate(deliverable.sent_at || deliverable.delivered_at!) : 'Unknown'}
                       </span>
                     </div>
+
+                    {deliverable.approved_at && (
+                      <div className="flex items-center text-xs text-green-700">
+                        <CheckCircle className="h-3 w-3 mr-1 shrink-0" />
+                        <span className="truncate">Approved {formatDate(deliverable.approved_at)}</span>
+                      </div>
+                    )}
                   </div>
 
+                  {canApprove(deliverable) && (
+                    <Button
+                      variant="outline"
+                      onClick={() => handleApprove(deliverable)}
+                      disabled={approvingId === deliverable.id}
+                      className="w-full text-sm"
+                    >
+                      {approvingId === deliverable.id ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                      )}
+                      Approve
+                    </Button>
+                  )}
+
                   <Button
                     onClick={() => handleDownload(deliverable)}
                     className="bg-primary hover:bg-primary-hover w-full text-sm"
@@ -597,10 +671,31 @@ const ClientDeliverables = () => {
                         <Calendar className="h-3 w-3 mr-1" />
                         Delivered {(deliverable.sent_at || deliverable.delivered_at) ? formatDate(deliverable.sent_at || deliverable.delivered_at!) : 'Unknown'}
                       </div>
+
+                      {deliverable.approved_at && (
+                        <div className="flex items-center text-sm text-green-700 mt-1">
+                          <CheckCircle className="h-3 w-3 mr-1" />
+                          Approved {formatDate(deliverable.approved_at)}
+                        </div>
+                      )}
                       </div>
                     </div>
 
                     <div className="flex items-center space-x-2 shrink-0">
+                      {canApprove(deliverable) && (
+                        <Button
+                          variant="outline"
+                          onClick={() => handleApprove(deliverable)}
+                          disabled={approvingId === deliverable.id}
+                        >
+                          {approvingId === deliverable.id ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <CheckCircle className="h-4 w-4 mr-2" />
+                          )}
+                          Approve
+                        </Button>
+                      )}
                       <Button
                         onClick={() => handleDownload(deliverable)}
                         className="bg-primary hover:bg-primary-hover"
@@ -17,6 +17,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { notifyAdminOfClientUpdate } from "@/lib/notifications";
+import { getMembership } from "@/lib/organizations";
 import { useValidation } from "@/hooks/useValidation";
 import { Validator } from "@/lib/validation";
 
@@ -76,12 +77,15 @@ const CreateProjectModal: React.FC<CreateProjectModalProps> = ({
     setIsLoading(true);
 
     try {
+      // Projects created by organization members are shared with the whole team
+      const membership = await getMembership(user.id);
 
       // Create project
       const { data: project, error: projectError } = await supabase
         .from('projects')
         .insert({
           user_id: user.id,
+          organization_id: membership?.organization_id ?? null,
           name: formData.name.trim(),
           status: 'starting'
         })
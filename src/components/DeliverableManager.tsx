@@ -35,9 +35,11 @@ import {
   Download,
   Search,
   Filter,
+  CheckCircle,
   X
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { notifyClientOfDeliverable } from '@/lib/notifications';
 import SecurityManager from '@/lib/security';
@@ -53,6 +55,7 @@ interface Deliverable {
   is_sent: boolean;
   created_at: string;
   sent_at?: string;
+  approved_at?: string | null;
   type?: string;
 }
 
@@ -69,6 +72,7 @@ const DeliverableManager: React.FC<DeliverableManagerProps> = ({
   clientName,
   projectName
 }) => {
+  const { user } = useAuth();
   const [deliverables, setDeliverables] = useState<Deliverable[]>([]);
   const [filteredDeliverables, setFilteredDeliverables] = useState<Deliverable[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -505,7 +509,8 @@ const DeliverableManager: React.FC<DeliverableManagerProps> = ({
         await notifyClientOfDeliverable(
           clientId,
           projectName,
-          deliverable.title
+          deliverable.title,
+          { id: deliverable.id, project_id: projectId }
         );
       }
 
@@ -617,8 +622,8 @@ const DeliverableManager: React.FC<DeliverableManagerProps> = ({
 
   const deleteDeliverable = async (deliverableId: string) => {
     try {
-      // Security check: Verify user has permission to delete this deliverable
-      const canDelete = await SecurityManager.canDeleteDeliverable(clientId, deliverableId);
+      // Security check: Verify the signed-in user has permission to delete this deliverable
+      const canDelete = user ? await SecurityManager.canDeleteDeliverable(user.id) : false;
       if (!canDelete) {
         toast({
           title: "Access Denied",
@@ -991,6 +996,12 @@ const DeliverableManager: React.FC<DeliverableManagerProps> = ({
                           Sent {formatDate(deliverable.sent_at)}
                         </span>
                       )}
+                      {deliverable.approved_at && (
+                        <span className="flex items-center">
+                          <CheckCircle className="h-3 w-3 mr-1" />
+                          Approved {formatDate(deliverable.approved_at)}
+                        </span>
+                      )}
                     </div>
                   </div>
                   
@@ -36,6 +36,7 @@ interface FileUploadIconProps {
   onAttachmentsChange?: (attachments: InputAttachment[]) => void;
   maxFileSize?: number; // in MB
   allowedTypes?: string[];
+  readOnly?: boolean; // Download only, for colleagues who can view but not edit the project
 }
 
 const FileUploadIcon: React.FC<FileUploadIconProps> = ({
@@ -43,7 +44,8 @@ const FileUploadIcon: React.FC<FileUploadIconProps> = ({
   attachments = [],
   onAttachmentsChange,
   maxFileSize = 10,
-  allowedTypes = ['image/*', 'application/pdf', 'text/*']
+  allowedTypes = ['image/*', 'application/pdf', 'text/*'],
+  readOnly = false
 }) => {
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
@@ -329,15 +331,17 @@ const FileUploadIcon: React.FC<FileUploadIconProps> = ({
           <div className="space-y-3">
             <div className="flex items-center justify-between">
               <h4 className="font-medium text-sm">Attachments</h4>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => fileInputRef.current?.click()}
-                disabled={isUploading || !user}
-                className="h-7 text-xs"
-              >
-                {!user ? 'Login Required' : 'Add File'}
-              </Button>
+              {!readOnly && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isUploading || !user}
+                  className="h-7 text-xs"
+                >
+                  {!user ? 'Login Required' : 'Add File'}
+                </Button>
+              )}
             </div>
 
             {isUploading && (
@@ -373,14 +377,16 @@ const FileUploadIcon: React.FC<FileUploadIconProps> = ({
                       >
                         <Download className="h-3 w-3" />
                       </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleDeleteAttachment(attachment)}
-                        className="h-6 w-6 p-0 text-red-500 hover:text-red-700"
-                      >
-                        <X className="h-3 w-3" />
-                      </Button>
+                      {!readOnly && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteAttachment(attachment)}
+                          className="h-6 w-6 p-0 text-red-500 hover:text-red-700"
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -0,0 +1,315 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Loader2, KeyRound, Lock } from "lucide-react";
+import {
+  formatPhoneNumber,
+  requestPasswordReset,
+  resetPassword,
+  validatePassword,
+  PasswordResetChannel,
+} from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { CountryCode, DEFAULT_COUNTRY } from "@/lib/phone";
+import PhoneNumberInput from "@/components/PhoneNumberInput";
+import { usePasswordPolicy } from "@/hooks/usePasswordPolicy";
+
+interface ForgotPasswordModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialPhoneNumber?: string;
+  initialCountry?: CountryCode;
+}
+
+const CODE_LENGTH = 6;
+
+const ForgotPasswordModal: React.FC<ForgotPasswordModalProps> = ({
+  isOpen,
+  onClose,
+  initialPhoneNumber = "",
+  initialCountry = DEFAULT_COUNTRY,
+}) => {
+  const [step, setStep] = useState<"request" | "reset">("request"); // request: send code, reset: enter code + new password
+  const [phoneNumber, setPhoneNumber] = useState(initialPhoneNumber);
+  const [country, setCountry] = useState<CountryCode>(initialCountry);
+  const [channel, setChannel] = useState<PasswordResetChannel>("sms");
+  const [code, setCode] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [passwordErrors, setPasswordErrors] = useState<string[]>([]);
+
+  const passwordPolicy = usePasswordPolicy();
+  const { toast } = useToast();
+
+  const handleSendCode = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    setError("");
+
+    if (!phoneNumber.trim()) {
+      setError("Phone number is required");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await requestPasswordReset(formatPhoneNumber(phoneNumber, country), channel);
+      if (response.success) {
+        toast({
+          title: "Code sent",
+          description: `If an account exists for this number, a reset code has been sent by ${channel === "whatsapp" ? "WhatsApp" : "SMS"}.`,
+        });
+        setStep("reset");
+      } else {
+        setError(response.error || "Failed to send reset code");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setPasswordErrors([]);
+
+    if (code.length !== CODE_LENGTH) {
+      setError("Enter the 6-digit code you received");
+      return;
+    }
+
+    const passwordValidation = validatePassword(newPassword, passwordPolicy);
+    if (!passwordValidation.isValid) {
+      setPasswordErrors(passwordValidation.errors);
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await resetPassword(formatPhoneNumber(phoneNumber, country), code, newPassword);
+      if (response.success) {
+        toast({
+          title: "Password reset",
+          description: "Your password has been updated. You can now sign in.",
+        });
+        handleClose();
+      } else {
+        setError(response.error || "Failed to reset password");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setStep("request");
+    setCode("");
+    setNewPassword("");
+    setConfirmPassword("");
+    setError("");
+    setPasswordErrors([]);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <KeyRound className="h-5 w-5 text-primary" />
+            <span>Reset Password</span>
+          </DialogTitle>
+          <DialogDescription>
+            {step === "request"
+              ? "We'll send a one-time code to the phone number on your account."
+              : "Enter the code you received and choose a new password."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {step === "request" ? (
+          <form onSubmit={handleSendCode} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reset_phone_number" className="text-sm font-medium text-foreground">
+                Phone Number
+              </Label>
+              <PhoneNumberInput
+                id="reset_phone_number"
+                value={phoneNumber}
+                onChange={(e) => setPhoneNumber(e.target.value)}
+                country={country}
+                onCountryChange={setCountry}
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-foreground">Send code via</Label>
+              <RadioGroup
+                value={channel}
+                onValueChange={(value) => setChannel(value as PasswordResetChannel)}
+                className="flex space-x-4"
+                disabled={isLoading}
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="sms" id="channel_sms" />
+                  <Label htmlFor="channel_sms" className="font-normal">SMS</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="whatsapp" id="channel_whatsapp" />
+                  <Label htmlFor="channel_whatsapp" className="font-normal">WhatsApp</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            <DialogFooter className="flex flex-col sm:flex-row gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleClose}
+                disabled={isLoading}
+                className="w-full sm:w-auto"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isLoading}
+                className="w-full sm:w-auto bg-primary hover:bg-primary-hover text-primary-foreground"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Sending...
+                  </>
+                ) : (
+                  "Send Code"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        ) : (
+          <form onSubmit={handleResetPassword} className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-foreground">Reset Code</Label>
+              <InputOTP maxLength={CODE_LENGTH} value={code} onChange={setCode} disabled={isLoading}>
+                <InputOTPGroup>
+                  {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+              <button
+                type="button"
+                onClick={() => handleSendCode()}
+                className="text-xs font-medium text-primary hover:text-primary-hover transition-colors"
+                disabled={isLoading}
+              >
+                Didn't get a code? Send again
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="new_password" className="text-sm font-medium text-foreground">
+                New Password
+              </Label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="new_password"
+                  type="password"
+                  placeholder="Create a strong password"
+                  value={newPassword}
+                  onChange={(e) => {
+                    setNewPassword(e.target.value);
+                    if (passwordErrors.length > 0) setPasswordErrors([]);
+                  }}
+                  className="pl-10 border-input-border focus:border-ring"
+                  disabled={isLoading}
+                  required
+                />
+              </div>
+              {passwordErrors.length > 0 && (
+                <ul className="text-xs text-red-600 space-y-1">
+                  {passwordErrors.map((passwordError) => (
+                    <li key={passwordError}>{passwordError}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="confirm_new_password" className="text-sm font-medium text-foreground">
+                Confirm New Password
+              </Label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="confirm_new_password"
+                  type="password"
+                  placeholder="Confirm your new password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="pl-10 border-input-border focus:border-ring"
+                  disabled={isLoading}
+                  required
+                />
+              </div>
+            </div>
+
+            <DialogFooter className="flex flex-col sm:flex-row gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setStep("request")}
+                disabled={isLoading}
+                className="w-full sm:w-auto"
+              >
+                Back
+              </Button>
+              <Button
+                type="submit"
+                disabled={isLoading}
+                className="w-full sm:w-auto bg-primary hover:bg-primary-hover text-primary-foreground"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Resetting...
+                  </>
+                ) : (
+                  "Reset Password"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ForgotPasswordModal;
@@ -0,0 +1,54 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Clock } from 'lucide-react';
+
+interface IdleTimeoutDialogProps {
+  isOpen: boolean;
+  secondsLeft: number;
+  onStaySignedIn: () => void;
+  onLogout: () => void;
+}
+
+const formatSeconds = (totalSeconds: number): string => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const IdleTimeoutDialog: React.FC<IdleTimeoutDialogProps> = ({
+  isOpen,
+  secondsLeft,
+  onStaySignedIn,
+  onLogout,
+}) => {
+  return (
+    <AlertDialog open={isOpen}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5 text-primary" />
+            Are you still there?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            You've been inactive for a while. For your security you'll be signed out in{' '}
+            <span className="font-medium text-foreground">{formatSeconds(secondsLeft)}</span>.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onLogout}>Log Out</AlertDialogCancel>
+          <AlertDialogAction onClick={onStaySignedIn}>Stay Signed In</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default IdleTimeoutDialog;
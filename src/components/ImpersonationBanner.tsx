@@ -0,0 +1,76 @@
+import { useState, useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Eye, Loader2, LogOut } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { logImpersonationAction } from '@/lib/impersonation';
+
+const formatRemaining = (expiresAt: number, now: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(expiresAt - now / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Shown on every page while staff are viewing the portal as a client
+const ImpersonationBanner = () => {
+  const { impersonation, stopImpersonation } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [now, setNow] = useState(Date.now());
+  const [isStopping, setIsStopping] = useState(false);
+
+  // Every page the staff member opens is part of the audit trail
+  useEffect(() => {
+    if (!impersonation) return;
+    logImpersonationAction(impersonation, 'page_viewed', { path: location.pathname });
+  }, [impersonation, location.pathname]);
+
+  useEffect(() => {
+    if (!impersonation) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [impersonation]);
+
+  if (!impersonation) return null;
+
+  const handleStop = async () => {
+    const clientId = impersonation.client.id;
+    setIsStopping(true);
+    try {
+      await stopImpersonation('stopped');
+      navigate(`/admin/client/${clientId}`);
+    } finally {
+      setIsStopping(false);
+    }
+  };
+
+  const clientName = impersonation.client.full_name || impersonation.client.phone_number;
+
+  return (
+    <div className="sticky top-0 z-50 bg-amber-500 text-amber-950 shadow-md">
+      <div className="container mx-auto px-4 py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm">
+        <div className="flex items-center gap-2">
+          <Eye className="h-4 w-4 shrink-0" />
+          <span>
+            Viewing as <strong>{clientName}</strong>
+            {impersonation.read_only ? ' (read-only)' : ' (changes allowed)'}
+            {' · '}ends in {formatRemaining(impersonation.expires_at, now)}
+          </span>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          className="bg-white/80 hover:bg-white border-amber-700 text-amber-950 w-full sm:w-auto"
+          onClick={handleStop}
+          disabled={isStopping}
+        >
+          {isStopping ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LogOut className="h-4 w-4 mr-2" />}
+          Stop Viewing
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ImpersonationBanner;
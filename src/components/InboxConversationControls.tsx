@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UserCheck } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  InboxConversation,
+  InboxStaffMember,
+  InboxStatus,
+  INBOX_STATUSES,
+  INBOX_STATUS_LABELS,
+  assignInboxConversation,
+  updateInboxStatus
+} from '@/lib/inbox';
+
+const UNASSIGNED = 'unassigned';
+
+interface InboxConversationControlsProps {
+  clientId: string;
+  entry: Pick<InboxConversation, 'assigned_to' | 'status'>;
+  staff: InboxStaffMember[];
+  onChange: () => void;
+}
+
+// Assignee and status for the open conversation in the shared inbox
+const InboxConversationControls: React.FC<InboxConversationControlsProps> = ({
+  clientId,
+  entry,
+  staff,
+  onChange
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleResult = (result: { success: boolean; error?: string }) => {
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive",
+      });
+      return;
+    }
+    onChange();
+  };
+
+  const handleAssign = async (value: string) => {
+    setIsSaving(true);
+    handleResult(await assignInboxConversation(clientId, value === UNASSIGNED ? null : value));
+    setIsSaving(false);
+  };
+
+  const handleStatusChange = async (value: string) => {
+    setIsSaving(true);
+    handleResult(await updateInboxStatus(clientId, value as InboxStatus));
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={entry.assigned_to || UNASSIGNED}
+        onValueChange={handleAssign}
+        disabled={isSaving}
+      >
+        <SelectTrigger className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+          {staff.map(member => (
+            <SelectItem key={member.id} value={member.id}>
+              {member.id === user?.id ? `${member.full_name || 'Me'} (me)` : member.full_name || 'Unknown'}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={entry.status} onValueChange={handleStatusChange} disabled={isSaving}>
+        <SelectTrigger className="w-32">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {INBOX_STATUSES.map(status => (
+            <SelectItem key={status} value={status}>
+              {INBOX_STATUS_LABELS[status]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {user && entry.assigned_to !== user.id && (
+        <Button variant="outline" size="sm" onClick={() => handleAssign(user.id)} disabled={isSaving}>
+          <UserCheck className="h-4 w-4 mr-2" />
+          Assign to me
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default InboxConversationControls;
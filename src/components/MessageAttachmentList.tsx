@@ -0,0 +1,100 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Download, FileText, FolderInput } from 'lucide-react';
+import {
+  MessageAttachment,
+  formatFileSize,
+  getAttachmentUrl,
+  isImageAttachment
+} from '@/lib/messageAttachments';
+
+interface MessageAttachmentListProps {
+  attachments: MessageAttachment[];
+  isOwnMessage: boolean;
+  // Shown to staff only; opens the dialog that copies the file into a project
+  onPromote?: (attachment: MessageAttachment) => void;
+}
+
+const MessageAttachmentList: React.FC<MessageAttachmentListProps> = ({
+  attachments,
+  isOwnMessage,
+  onPromote
+}) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  // The bucket is private to participants, so thumbnails and downloads use signed links
+  useEffect(() => {
+    let isCancelled = false;
+
+    const fetchUrls = async () => {
+      const entries = await Promise.all(
+        attachments.map(async attachment => [attachment.id, await getAttachmentUrl(attachment)] as const)
+      );
+      if (isCancelled) return;
+
+      setUrls(Object.fromEntries(entries.filter(([, url]) => !!url)));
+    };
+
+    fetchUrls();
+    return () => {
+      isCancelled = true;
+    };
+  }, [attachments]);
+
+  return (
+    <div className="space-y-2 mt-1">
+      {attachments.map(attachment => {
+        const url = urls[attachment.id];
+        const isPromoted = !!attachment.promoted_input_id || !!attachment.promoted_deliverable_id;
+
+        return (
+          <div key={attachment.id} className="space-y-1">
+            {isImageAttachment(attachment) && url ? (
+              <a href={url} target="_blank" rel="noopener noreferrer" className="block">
+                <img
+                  src={url}
+                  alt={attachment.file_name}
+                  className="max-h-48 max-w-full rounded-md object-cover"
+                  loading="lazy"
+                />
+              </a>
+            ) : (
+              <div className={`flex items-center gap-2 rounded-md px-2 py-1.5 ${
+                isOwnMessage ? 'bg-primary-foreground/10' : 'bg-background'
+              }`}>
+                <FileText className="h-4 w-4 shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-xs font-medium truncate">{attachment.file_name}</p>
+                  <p className={`text-xs ${isOwnMessage ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
+                    {formatFileSize(attachment.file_size)}
+                  </p>
+                </div>
+                {url && (
+                  <a href={url} download={attachment.file_name} target="_blank" rel="noopener noreferrer">
+                    <Download className="h-4 w-4" />
+                    <span className="sr-only">Download {attachment.file_name}</span>
+                  </a>
+                )}
+              </div>
+            )}
+
+            {onPromote && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => onPromote(attachment)}
+              >
+                <FolderInput className="h-3 w-3 mr-1" />
+                {isPromoted ? 'Added to project' : 'Add to project'}
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MessageAttachmentList;
@@ -1,33 +1,124 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { ScrollArea } from '@/components/ui/scroll-area';
-import { Send, MessageSquare } from 'lucide-react';
-import { useMessages, Message } from '@/hooks/useMessages';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Send, MessageSquare, Paperclip, X, Check, CheckCheck, MoreHorizontal, Pencil, Trash2, History } from 'lucide-react';
+import { useMessages, Message, TEAM_CONVERSATION_ID } from '@/hooks/useMessages';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePresence, useUserPresence } from '@/hooks/usePresence';
+import { useTypingIndicator } from '@/hooks/useTypingIndicator';
+import { useVirtualList } from '@/hooks/useVirtualList';
+import { describePresence, PRESENCE_DOT_CLASSES } from '@/lib/presence';
+import { useToast } from '@/hooks/use-toast';
+import { formatFileSize, MAX_ATTACHMENTS_PER_MESSAGE, MessageAttachment } from '@/lib/messageAttachments';
+import { describeDeliveryState, getDeliveryState } from '@/lib/messageReceipts';
+import { DEFAULT_EDIT_WINDOW_MINUTES, isWithinEditWindow, loadEditWindowMinutes } from '@/lib/messageEdits';
+import MessageAttachmentList from '@/components/MessageAttachmentList';
+import PromoteAttachmentDialog from '@/components/PromoteAttachmentDialog';
+import MessageRevisionsDialog from '@/components/MessageRevisionsDialog';
+import SavedReplyMenu from '@/components/SavedReplyMenu';
+import SavedRepliesDialog from '@/components/SavedRepliesDialog';
+import {
+  SavedReply,
+  fetchSavedReplies,
+  filterSavedReplies,
+  getSlashQuery,
+  loadReplyVariableContext,
+  recordSavedReplyUse,
+  replaceSlashQuery,
+  resolveReplyVariables
+} from '@/lib/savedReplies';
 import { formatDistanceToNow } from 'date-fns';
 
 interface MessageInterfaceProps {
   conversationUserId: string;
   conversationUserName: string;
   conversationUserCompany?: string;
+  // Limits the conversation to one thread; see useMessages
+  projectId?: string | null;
+  // Scrolls to and highlights this message once loaded, e.g. a search result
+  highlightMessageId?: string | null;
 }
 
+const MAX_SAVED_REPLY_SUGGESTIONS = 8;
+const ESTIMATED_MESSAGE_HEIGHT = 72;
+// Start loading the previous page this close to the top of the history
+const LOAD_OLDER_THRESHOLD = 200;
+
 const MessageInterface: React.FC<MessageInterfaceProps> = ({
   conversationUserId,
   conversationUserName,
-  conversationUserCompany
+  conversationUserCompany,
+  projectId,
+  highlightMessageId
 }) => {
   const { user } = useAuth();
-  const { messages, isLoading, isSending, sendMessage } = useMessages(conversationUserId);
+  const { toast } = useToast();
+  const {
+    messages,
+    isLoading,
+    isSending,
+    sendError,
+    sendMessage,
+    editMessage,
+    deleteMessage,
+    hasOlderMessages,
+    isLoadingOlder,
+    loadOlderMessages,
+    refetchMessages
+  } = useMessages(conversationUserId, projectId);
   const [newMessage, setNewMessage] = useState('');
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [promotingAttachment, setPromotingAttachment] = useState<MessageAttachment | null>(null);
+  const [editWindowMinutes, setEditWindowMinutes] = useState(DEFAULT_EDIT_WINDOW_MINUTES);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [deletingMessageId, setDeletingMessageId] = useState<string | null>(null);
+  const [historyMessage, setHistoryMessage] = useState<Message | null>(null);
+  const [savedReplies, setSavedReplies] = useState<SavedReply[]>([]);
+  const [activeReplyIndex, setActiveReplyIndex] = useState(0);
+  const [isReplyMenuDismissed, setIsReplyMenuDismissed] = useState(false);
+  const [isSavedRepliesOpen, setIsSavedRepliesOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Clients talk to the team as a whole through the 'admin' placeholder conversation
+  const isTeamConversation = conversationUserId === TEAM_CONVERSATION_ID;
+  const { teamStatus } = usePresence();
+  const otherPresence = useUserPresence(isTeamConversation ? undefined : conversationUserId);
+  const presenceStatus = isTeamConversation ? teamStatus : otherPresence.status;
+  const presenceText = isTeamConversation && teamStatus === 'offline'
+    ? 'Offline'
+    : describePresence(presenceStatus, otherPresence.lastSeenAt);
+  const { isOtherTyping, notifyTyping } = useTypingIndicator(user?.is_admin ? conversationUserId : user?.id);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const [scrollElement, setScrollElement] = useState<HTMLDivElement | null>(null);
+  const scrolledToRef = useRef<string | null>(null);
+  const lastMessageId = messages.length > 0 ? messages[messages.length - 1].id : null;
+
+  // Only the messages near the viewport are rendered, so long histories stay fast
+  const getMessageKey = useCallback((index: number) => messages[index].id, [messages]);
+  const { virtualItems, paddingTop, paddingBottom, measureElement, scrollToIndex } = useVirtualList({
+    count: messages.length,
+    getKey: getMessageKey,
+    estimateSize: ESTIMATED_MESSAGE_HEIGHT,
+    scrollElement
+  });
+
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (e.currentTarget.scrollTop < LOAD_OLDER_THRESHOLD && hasOlderMessages && !isLoadingOlder) {
+      loadOlderMessages();
+    }
+  };
 
-  // Scroll to bottom when new messages arrive
+  // Scroll to bottom when a new message arrives (not when older ones load above), unless a
+  // specific message is being shown
   useEffect(() => {
+    if (highlightMessageId) return;
+
     const scrollToBottom = () => {
       if (messagesEndRef.current) {
         messagesEndRef.current.scrollIntoView({
@@ -41,7 +132,27 @@ const MessageInterface: React.FC<MessageInterfaceProps> = ({
     // Small delay to ensure DOM is updated
     const timeoutId = setTimeout(scrollToBottom, 100);
     return () => clearTimeout(timeoutId);
-  }, [messages]);
+  }, [lastMessageId, highlightMessageId]);
+
+  // Bring the highlighted message into the middle of the view with its neighbours around it,
+  // paging back through the history until it has loaded
+  useEffect(() => {
+    if (!highlightMessageId || isLoading || scrolledToRef.current === highlightMessageId) return;
+
+    const index = messages.findIndex(message => message.id === highlightMessageId);
+    if (index === -1) {
+      if (hasOlderMessages && !isLoadingOlder) {
+        loadOlderMessages();
+      }
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      scrollToIndex(index);
+      scrolledToRef.current = highlightMessageId;
+    }, 100);
+    return () => clearTimeout(timeoutId);
+  }, [highlightMessageId, isLoading, messages, hasOlderMessages, isLoadingOlder, loadOlderMessages, scrollToIndex]);
 
   const scrollToBottom = () => {
     if (messagesEndRef.current) {
@@ -53,18 +164,161 @@ const MessageInterface: React.FC<MessageInterfaceProps> = ({
     }
   };
 
+  useEffect(() => {
+    loadEditWindowMinutes().then(setEditWindowMinutes);
+  }, []);
+
+  // Staff insert saved replies by typing /shortcut in the composer
+  const loadSavedReplies = useCallback(async () => {
+    setSavedReplies(await fetchSavedReplies());
+  }, []);
+
+  useEffect(() => {
+    if (user?.is_admin) {
+      loadSavedReplies();
+    }
+  }, [user?.is_admin, loadSavedReplies]);
+
+  const slashQuery = user?.is_admin ? getSlashQuery(newMessage) : null;
+  const isReplyMenuOpen = slashQuery !== null && !isReplyMenuDismissed;
+  const replySuggestions = isReplyMenuOpen
+    ? filterSavedReplies(savedReplies, slashQuery).slice(0, MAX_SAVED_REPLY_SUGGESTIONS)
+    : [];
+
+  // Surface upload and attachment failures from the last send
+  useEffect(() => {
+    if (sendError) {
+      toast({
+        title: "Message not sent",
+        description: sendError,
+        variant: "destructive",
+      });
+    }
+  }, [sendError, toast]);
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (selected.length === 0) return;
+
+    const combined = [...pendingFiles, ...selected];
+    if (combined.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      toast({
+        title: "Too many files",
+        description: `You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setPendingFiles(combined);
+  };
+
+  const removePendingFile = (index: number) => {
+    setPendingFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const insertSavedReply = async (reply: SavedReply) => {
+    if (!user) return;
+
+    const context = await loadReplyVariableContext(conversationUserId, projectId);
+    const { text, unresolved } = resolveReplyVariables(reply.content, {
+      ...context,
+      agent: { full_name: user.full_name }
+    });
+
+    setNewMessage(prev => replaceSlashQuery(prev, text));
+    setActiveReplyIndex(0);
+    recordSavedReplyUse(reply.id, user.id);
+
+    if (unresolved.length > 0) {
+      toast({
+        title: "Check the reply before sending",
+        description: `Fill in ${unresolved.map(key => `{{${key}}}`).join(', ')}`,
+      });
+    }
+  };
+
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isReplyMenuOpen) return;
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      setIsReplyMenuDismissed(true);
+      return;
+    }
+
+    if (replySuggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveReplyIndex(prev => (prev + 1) % replySuggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveReplyIndex(prev => (prev - 1 + replySuggestions.length) % replySuggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertSavedReply(replySuggestions[Math.min(activeReplyIndex, replySuggestions.length - 1)]);
+    }
+  };
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || isSending) return;
+    if ((!newMessage.trim() && pendingFiles.length === 0) || isSending) return;
 
-    const success = await sendMessage(newMessage);
+    const success = await sendMessage(newMessage, pendingFiles);
     if (success) {
       setNewMessage('');
+      setPendingFiles([]);
+      notifyTyping(false);
       // Scroll to bottom after sending message
       setTimeout(scrollToBottom, 100);
     }
   };
 
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditContent(message.content);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditContent('');
+  };
+
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingMessageId || !editContent.trim() || isSavingEdit) return;
+
+    setIsSavingEdit(true);
+    const result = await editMessage(editingMessageId, editContent);
+    setIsSavingEdit(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to edit message",
+        variant: "destructive",
+      });
+      return;
+    }
+    cancelEditing();
+  };
+
+  const handleDeleteMessage = async () => {
+    if (!deletingMessageId) return;
+
+    const result = await deleteMessage(deletingMessageId);
+    setDeletingMessageId(null);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to delete message",
+        variant: "destructive",
+      });
+    }
+  };
+
   const formatTime = (dateString: string) => {
     return formatDistanceToNow(new Date(dateString), { addSuffix: true });
   };
@@ -79,6 +333,23 @@ const MessageInterface: React.FC<MessageInterfaceProps> = ({
       .slice(0, 2);
   };
 
+  // One tick once sent, two once delivered, two highlighted once read
+  const renderDeliveryTicks = (message: Message) => {
+    const state = getDeliveryState(message);
+    const label = describeDeliveryState(message);
+
+    return (
+      <span title={label} className="shrink-0">
+        {state === 'sent' ? (
+          <Check className="h-3 w-3" />
+        ) : (
+          <CheckCheck className={`h-3 w-3 ${state === 'read' ? 'text-sky-300' : ''}`} />
+        )}
+        <span className="sr-only">{label}</span>
+      </span>
+    );
+  };
+
   if (isLoading) {
     return (
       <Card className="h-96 flex items-center justify-center">
@@ -94,16 +365,29 @@ const MessageInterface: React.FC<MessageInterfaceProps> = ({
     <Card className="h-80 sm:h-96 lg:h-[28rem] flex flex-col chat-container">
       <CardHeader className="pb-2 sm:pb-3 px-4 sm:px-6 flex-shrink-0">
         <CardTitle className="flex items-center space-x-2 sm:space-x-3">
-          <Avatar className="h-6 w-6 sm:h-8 sm:w-8 shrink-0">
-            <AvatarFallback className="bg-primary text-primary-foreground text-xs">
-              {getInitials(conversationUserName)}
-            </AvatarFallback>
-          </Avatar>
+          <div className="relative shrink-0">
+            <Avatar className="h-6 w-6 sm:h-8 sm:w-8">
+              <AvatarFallback className="bg-primary text-primary-foreground text-xs">
+                {getInitials(conversationUserName)}
+              </AvatarFallback>
+            </Avatar>
+            <span
+              className={`absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 rounded-full border-2 border-background ${PRESENCE_DOT_CLASSES[presenceStatus]}`}
+              aria-hidden="true"
+            />
+          </div>
           <div className="min-w-0 flex-1">
             <p className="text-sm sm:text-base font-medium truncate">{conversationUserName}</p>
-            {conversationUserCompany && (
-              <p className="text-xs sm:text-sm text-muted-foreground truncate">{conversationUserCompany}</p>
-            )}
+            <p className="text-xs sm:text-sm text-muted-foreground truncate">
+              {isOtherTyping ? (
+                <span className="italic text-primary">typing…</span>
+              ) : (
+                <>
+                  {presenceText}
+                  {conversationUserCompany && ` · ${conversationUserCompany}`}
+                </>
+              )}
+            </p>
           </div>
         </CardTitle>
       </CardHeader>
@@ -111,7 +395,11 @@ const MessageInterface: React.FC<MessageInterfaceProps> = ({
       <CardContent className="flex flex-col flex-1 p-0 min-h-0">
         {/* Messages Area */}
         <div className="flex-1 min-h-0">
-          <ScrollArea ref={scrollAreaRef} className="h-full chat-scroll-area">
+          <div
+            ref={setScrollElement}
+            onScroll={handleMessagesScroll}
+            className="relative h-full overflow-y-auto chat-scroll-area [overflow-anchor:none]"
+          >
             <div className="px-3 sm:px-4">
               {messages.length === 0 ? (
                 <div className="flex flex-col items-center justify-center h-full text-center py-6 sm:py-8 min-h-[200px]">
@@ -120,16 +408,40 @@ const MessageInterface: React.FC<MessageInterfaceProps> = ({
                   <p className="text-xs sm:text-sm text-muted-foreground">Start a conversation!</p>
                 </div>
               ) : (
-                <div className="space-y-4 py-4">
-                  {messages.map((message) => {
+                <div className="py-4">
+                  {(hasOlderMessages || isLoadingOlder) && (
+                    <div className="flex justify-center pb-4">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={loadOlderMessages}
+                        disabled={isLoadingOlder}
+                        className="text-xs text-muted-foreground"
+                      >
+                        {isLoadingOlder ? 'Loading earlier messages...' : 'Load earlier messages'}
+                      </Button>
+                    </div>
+                  )}
+                  <div style={{ paddingTop, paddingBottom }}>
+                  {virtualItems.map(({ index }) => {
+                    const message = messages[index];
                     const isOwnMessage = message.sender_id === user?.id;
+                    const isHighlighted = message.id === highlightMessageId;
+                    const isDeleted = !!message.deleted_at;
+                    const isEditing = message.id === editingMessageId;
+                    const canEdit = isOwnMessage && !isDeleted && !!message.content &&
+                      isWithinEditWindow(message.created_at, editWindowMinutes);
+                    const canViewHistory = !!user?.is_admin && (!!message.edited_at || isDeleted);
+                    const showActions = !isEditing && ((isOwnMessage && !isDeleted) || canViewHistory);
 
                     return (
                       <div
                         key={message.id}
-                        className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'}`}
+                        ref={measureElement(message.id)}
+                        id={`message-${message.id}`}
+                        className={`flex pb-4 ${isOwnMessage ? 'justify-end' : 'justify-start'}`}
                       >
-                        <div className={`flex items-start space-x-2 max-w-[70%] ${
+                        <div className={`group flex items-start space-x-2 max-w-[70%] ${
                           isOwnMessage ? 'flex-row-reverse space-x-reverse' : ''
                         }`}>
                           <Avatar className="h-6 w-6 flex-shrink-0">
@@ -149,40 +461,183 @@ const MessageInterface: React.FC<MessageInterfaceProps> = ({
                             isOwnMessage
                               ? 'bg-primary text-primary-foreground'
                               : 'bg-muted text-foreground'
-                          }`}>
-                            <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
-                            <p className={`text-xs mt-1 ${
+                          } ${isHighlighted ? 'ring-2 ring-yellow-400 ring-offset-2' : ''}`}>
+                            {isDeleted ? (
+                              <p className="text-sm italic opacity-70">This message was deleted</p>
+                            ) : isEditing ? (
+                              <form onSubmit={handleSaveEdit} className="space-y-2">
+                                <Input
+                                  value={editContent}
+                                  onChange={(e) => setEditContent(e.target.value)}
+                                  onKeyDown={(e) => e.key === 'Escape' && cancelEditing()}
+                                  disabled={isSavingEdit}
+                                  autoFocus
+                                  className="h-8 text-sm text-foreground"
+                                />
+                                <div className="flex justify-end gap-2">
+                                  <Button
+                                    type="button"
+                                    variant="secondary"
+                                    size="sm"
+                                    onClick={cancelEditing}
+                                    disabled={isSavingEdit}
+                                    className="h-7"
+                                  >
+                                    Cancel
+                                  </Button>
+                                  <Button
+                                    type="submit"
+                                    variant="secondary"
+                                    size="sm"
+                                    disabled={!editContent.trim() || isSavingEdit}
+                                    className="h-7"
+                                  >
+                                    {isSavingEdit ? 'Saving...' : 'Save'}
+                                  </Button>
+                                </div>
+                              </form>
+                            ) : message.content && (
+                              <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+                            )}
+                            {!isDeleted && message.attachments && message.attachments.length > 0 && (
+                              <MessageAttachmentList
+                                attachments={message.attachments}
+                                isOwnMessage={isOwnMessage}
+                                onPromote={user?.is_admin ? setPromotingAttachment : undefined}
+                              />
+                            )}
+                            <p className={`text-xs mt-1 flex items-center gap-1 ${
                               isOwnMessage
                                 ? 'text-primary-foreground/70'
                                 : 'text-muted-foreground'
                             }`}>
-                              {formatTime(message.created_at)}
+                              <span>
+                                {formatTime(message.created_at)}
+                                {projectId === undefined && message.project?.name && ` · ${message.project.name}`}
+                                {message.edited_at && !isDeleted && ' · edited'}
+                              </span>
+                              {isOwnMessage && renderDeliveryTicks(message)}
                             </p>
                           </div>
+
+                          {showActions && (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 w-6 p-0 shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+                                >
+                                  <MoreHorizontal className="h-4 w-4" />
+                                  <span className="sr-only">Message actions</span>
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align={isOwnMessage ? 'end' : 'start'}>
+                                {canEdit && (
+                                  <DropdownMenuItem onClick={() => startEditing(message)}>
+                                    <Pencil className="h-4 w-4 mr-2" />
+                                    Edit
+                                  </DropdownMenuItem>
+                                )}
+                                {isOwnMessage && !isDeleted && (
+                                  <DropdownMenuItem
+                                    onClick={() => setDeletingMessageId(message.id)}
+                                    className="text-red-600 focus:text-red-600"
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-2" />
+                                    Delete
+                                  </DropdownMenuItem>
+                                )}
+                                {canViewHistory && (
+                                  <DropdownMenuItem onClick={() => setHistoryMessage(message)}>
+                                    <History className="h-4 w-4 mr-2" />
+                                    View history
+                                  </DropdownMenuItem>
+                                )}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          )}
                         </div>
                       </div>
                     );
                   })}
+                  </div>
                   <div ref={messagesEndRef} className="h-1" />
                 </div>
               )}
             </div>
-          </ScrollArea>
+          </div>
         </div>
 
         {/* Message Input */}
-        <div className="border-t border-border-light p-3 sm:p-4 flex-shrink-0 bg-background">
+        <div className="relative border-t border-border-light p-3 sm:p-4 flex-shrink-0 bg-background">
+          {isReplyMenuOpen && (
+            <SavedReplyMenu
+              replies={replySuggestions}
+              activeIndex={activeReplyIndex}
+              onSelect={insertSavedReply}
+              onActiveIndexChange={setActiveReplyIndex}
+              onManage={() => setIsSavedRepliesOpen(true)}
+            />
+          )}
+          {pendingFiles.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-2">
+              {pendingFiles.map((file, index) => (
+                <div
+                  key={`${file.name}-${index}`}
+                  className="flex items-center gap-1 rounded-md bg-muted px-2 py-1 text-xs max-w-[12rem]"
+                >
+                  <span className="truncate">{file.name}</span>
+                  <span className="text-muted-foreground shrink-0">{formatFileSize(file.size)}</span>
+                  <button
+                    type="button"
+                    onClick={() => removePendingFile(index)}
+                    disabled={isSending}
+                    className="shrink-0 text-muted-foreground hover:text-foreground"
+                  >
+                    <X className="h-3 w-3" />
+                    <span className="sr-only">Remove {file.name}</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
           <form onSubmit={handleSendMessage} className="flex gap-2 sm:gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              onChange={handleFileSelect}
+              className="hidden"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isSending || pendingFiles.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+              className="px-2 sm:px-3 h-9 sm:h-10 shrink-0"
+            >
+              <Paperclip className="h-3 w-3 sm:h-4 sm:w-4" />
+              <span className="sr-only">Attach files</span>
+            </Button>
             <Input
               value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
-              placeholder="Type your message..."
+              onChange={(e) => {
+                setNewMessage(e.target.value);
+                setActiveReplyIndex(0);
+                setIsReplyMenuDismissed(false);
+                notifyTyping(e.target.value.trim().length > 0);
+              }}
+              onKeyDown={handleComposerKeyDown}
+              onBlur={() => notifyTyping(false)}
+              placeholder={user?.is_admin ? "Type your message, or / for saved replies..." : "Type your message..."}
               disabled={isSending}
               className="flex-1 text-sm sm:text-base h-9 sm:h-10"
             />
             <Button
               type="submit"
-              disabled={!newMessage.trim() || isSending}
+              disabled={(!newMessage.trim() && pendingFiles.length === 0) || isSending}
               size="sm"
               className="px-2 sm:px-3 h-9 sm:h-10 shrink-0"
             >
@@ -196,6 +651,51 @@ const MessageInterface: React.FC<MessageInterfaceProps> = ({
           </form>
         </div>
       </CardContent>
+
+      <AlertDialog open={!!deletingMessageId} onOpenChange={(open) => !open && setDeletingMessageId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Message</AlertDialogTitle>
+            <AlertDialogDescription>
+              This message and its attachments will be removed from the conversation for everyone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteMessage}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {user?.is_admin && (
+        <SavedRepliesDialog
+          open={isSavedRepliesOpen}
+          onOpenChange={setIsSavedRepliesOpen}
+          onChanged={loadSavedReplies}
+        />
+      )}
+
+      {user?.is_admin && (
+        <MessageRevisionsDialog
+          messageId={historyMessage?.id ?? null}
+          currentContent={historyMessage?.content ?? ''}
+          onOpenChange={(open) => !open && setHistoryMessage(null)}
+        />
+      )}
+
+      {user?.is_admin && (
+        <PromoteAttachmentDialog
+          attachment={promotingAttachment}
+          clientId={conversationUserId}
+          onOpenChange={(open) => !open && setPromotingAttachment(null)}
+          onPromoted={refetchMessages}
+        />
+      )}
     </Card>
   );
 };
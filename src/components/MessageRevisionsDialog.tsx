@@ -0,0 +1,80 @@
+import { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { getMessageRevisions, MessageRevision } from '@/lib/messageEdits';
+import { format } from 'date-fns';
+
+interface MessageRevisionsDialogProps {
+  messageId: string | null;
+  currentContent: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MessageRevisionsDialog: React.FC<MessageRevisionsDialogProps> = ({
+  messageId,
+  currentContent,
+  onOpenChange
+}) => {
+  const [revisions, setRevisions] = useState<MessageRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!messageId) return;
+
+    const fetchRevisions = async () => {
+      setIsLoading(true);
+      setRevisions(await getMessageRevisions(messageId));
+      setIsLoading(false);
+    };
+
+    fetchRevisions();
+  }, [messageId]);
+
+  return (
+    <Dialog open={!!messageId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Message history</DialogTitle>
+          <DialogDescription>
+            Earlier versions of this message, oldest first. Only staff can see this.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">No earlier versions recorded.</p>
+        ) : (
+          <ScrollArea className="max-h-80">
+            <div className="space-y-3 pr-3">
+              {revisions.map(revision => (
+                <div key={revision.id} className="rounded-md border border-border-light p-3">
+                  <div className="flex items-center justify-between gap-2 mb-1">
+                    <Badge variant={revision.action === 'delete' ? 'destructive' : 'secondary'}>
+                      {revision.action === 'delete' ? 'Deleted' : 'Edited'}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(revision.created_at), 'MMM d, yyyy h:mm a')}
+                    </span>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap break-words">{revision.previous_content}</p>
+                </div>
+              ))}
+              {currentContent && (
+                <div className="rounded-md border border-primary/20 bg-primary/5 p-3">
+                  <Badge variant="outline" className="mb-1">Current</Badge>
+                  <p className="text-sm whitespace-pre-wrap break-words">{currentContent}</p>
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MessageRevisionsDialog;
@@ -0,0 +1,241 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { MessageSearchResult, searchMessages, splitHeadline, SEARCH_RESULT_LIMIT } from '@/lib/messageSearch';
+import { formatDistanceToNow } from 'date-fns';
+
+const ALL = 'all';
+
+interface SearchProject {
+  id: string;
+  name: string;
+  user_id: string;
+}
+
+interface MessageSearchPanelProps {
+  clients: { id: string; name: string }[];
+  onSelectResult: (result: MessageSearchResult) => void;
+  selectedResultId?: string | null;
+}
+
+const MessageSearchPanel: React.FC<MessageSearchPanelProps> = ({
+  clients,
+  onSelectResult,
+  selectedResultId
+}) => {
+  const { toast } = useToast();
+  const [query, setQuery] = useState('');
+  const [clientId, setClientId] = useState(ALL);
+  const [projectId, setProjectId] = useState(ALL);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [projects, setProjects] = useState<SearchProject[]>([]);
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [hasSearched, setHasSearched] = useState(false);
+
+  useEffect(() => {
+    const fetchProjects = async () => {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name, user_id')
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching projects for search:', error);
+        return;
+      }
+      setProjects(data || []);
+    };
+
+    fetchProjects();
+  }, []);
+
+  const projectOptions = clientId === ALL
+    ? projects
+    : projects.filter(project => project.user_id === clientId);
+
+  const handleClientChange = (value: string) => {
+    setClientId(value);
+    setProjectId(ALL);
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+
+    setIsSearching(true);
+    const { results: found, error } = await searchMessages({
+      query,
+      clientId: clientId === ALL ? undefined : clientId,
+      projectId: projectId === ALL ? undefined : projectId,
+      fromDate: fromDate || undefined,
+      toDate: toDate || undefined
+    });
+    setIsSearching(false);
+    setHasSearched(true);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error,
+        variant: "destructive",
+      });
+    }
+    setResults(found);
+  };
+
+  const clearFilters = () => {
+    setClientId(ALL);
+    setProjectId(ALL);
+    setFromDate('');
+    setToDate('');
+  };
+
+  const hasFilters = clientId !== ALL || projectId !== ALL || !!fromDate || !!toDate;
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <form onSubmit={handleSearch} className="p-4 border-b border-border-light space-y-3">
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search message history..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Button type="submit" disabled={!query.trim() || isSearching}>
+            {isSearching ? 'Searching...' : 'Search'}
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={clientId} onValueChange={handleClientChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All clients</SelectItem>
+              {clients.map(client => (
+                <SelectItem key={client.id} value={client.id}>
+                  {client.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={projectId} onValueChange={setProjectId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All projects</SelectItem>
+              {projectOptions.map(project => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="space-y-1">
+            <Label htmlFor="search-from" className="text-xs text-muted-foreground">From</Label>
+            <Input
+              id="search-from"
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFromDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="search-to" className="text-xs text-muted-foreground">To</Label>
+            <Input
+              id="search-to"
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {hasFilters && (
+          <Button type="button" variant="ghost" size="sm" onClick={clearFilters}>
+            <X className="h-4 w-4 mr-1" />
+            Clear filters
+          </Button>
+        )}
+      </form>
+
+      <div className="flex-1 overflow-y-auto">
+        {!hasSearched ? (
+          <div className="p-8 text-center">
+            <Search className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">Search every conversation by keyword</p>
+          </div>
+        ) : results.length === 0 ? (
+          <div className="p-8 text-center">
+            <p className="text-muted-foreground">No messages match your search</p>
+          </div>
+        ) : (
+          <div className="space-y-1 p-2">
+            {results.length === SEARCH_RESULT_LIMIT && (
+              <p className="px-3 py-1 text-xs text-muted-foreground">
+                Showing the top {SEARCH_RESULT_LIMIT} matches. Narrow the filters to see more.
+              </p>
+            )}
+            {results.map(result => (
+              <button
+                key={result.id}
+                onClick={() => onSelectResult(result)}
+                className={`w-full text-left p-3 rounded-lg transition-colors ${
+                  selectedResultId === result.id
+                    ? 'bg-primary/10 border border-primary/20'
+                    : 'hover:bg-muted/50'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium text-foreground truncate">
+                    {result.client_name || 'Unknown User'}
+                  </p>
+                  <p className="text-xs text-muted-foreground shrink-0">
+                    {formatDistanceToNow(new Date(result.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+                <p className="text-sm text-muted-foreground mt-1 line-clamp-2 break-words">
+                  <span className="font-medium">{result.sender_is_admin ? 'Team: ' : 'Client: '}</span>
+                  {splitHeadline(result.headline).map((part, index) =>
+                    part.isMatch ? (
+                      <mark key={index} className="bg-yellow-200 text-foreground rounded-sm px-0.5">
+                        {part.text}
+                      </mark>
+                    ) : (
+                      <span key={index}>{part.text}</span>
+                    )
+                  )}
+                </p>
+                {result.project_name && (
+                  <Badge variant="outline" className="mt-1 text-xs">
+                    {result.project_name}
+                  </Badge>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MessageSearchPanel;
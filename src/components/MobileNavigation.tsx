@@ -15,6 +15,7 @@ import {
   Bell
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useUnreadMessageCount } from '@/hooks/useMessages';
 import NotificationDropdown from '@/components/NotificationDropdown';
 
 interface MobileNavigationProps {
@@ -30,6 +31,7 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
 }) => {
   const { user } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
+  const { unreadCount } = useUnreadMessageCount();
 
   const getInitials = (name: string) => {
     return name
@@ -47,6 +49,8 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
     { id: 'profile', label: 'Profile', icon: Settings },
   ];
 
+  const getBadgeCount = (tab: string) => (tab === 'messages' ? unreadCount : 0);
+
   const handleTabChange = (tab: string) => {
     onTabChange(tab);
     setIsOpen(false);
@@ -91,6 +95,7 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
                     <nav className="space-y-2">
                       {menuItems.map((item) => {
                         const Icon = item.icon;
+                        const badgeCount = getBadgeCount(item.id);
                         return (
                           <Button
                             key={item.id}
@@ -100,6 +105,11 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
                           >
                             <Icon className="h-5 w-5 mr-3" />
                             {item.label}
+                            {badgeCount > 0 && (
+                              <Badge variant="destructive" className="ml-auto text-xs">
+                                {badgeCount}
+                              </Badge>
+                            )}
                           </Button>
                         );
                       })}
@@ -146,13 +156,22 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
         <div className="grid grid-cols-4 gap-0.5 sm:gap-1 p-1.5 sm:p-2">
           {menuItems.map((item) => {
             const Icon = item.icon;
+            const badgeCount = getBadgeCount(item.id);
             return (
               <Button
                 key={item.id}
                 variant={activeTab === item.id ? 'default' : 'ghost'}
-                className="flex flex-col items-center justify-center h-14 sm:h-16 text-xs px-1 sm:px-2"
+                className="relative flex flex-col items-center justify-center h-14 sm:h-16 text-xs px-1 sm:px-2"
                 onClick={() => onTabChange(item.id)}
               >
+                {badgeCount > 0 && (
+                  <Badge
+                    variant="destructive"
+                    className="absolute top-1 right-1/4 h-4 min-w-4 flex items-center justify-center px-1 text-[10px]"
+                  >
+                    {badgeCount > 9 ? '9+' : badgeCount}
+                  </Badge>
+                )}
                 <Icon className="h-4 w-4 sm:h-5 sm:w-5 mb-0.5 sm:mb-1 shrink-0" />
                 <span className="truncate text-xs leading-tight">{item.label}</span>
               </Button>
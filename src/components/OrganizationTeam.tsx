@@ -0,0 +1,354 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Loader2, Users, UserPlus, UserMinus, AlertCircle } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { formatPhoneNumber, validatePhoneNumber } from '@/lib/auth';
+import { CountryCode, DEFAULT_COUNTRY } from '@/lib/phone';
+import {
+  ORGANIZATION_ROLE_DESCRIPTIONS,
+  ORGANIZATION_ROLE_LABELS,
+  OrganizationRole
+} from '@/lib/permissions';
+import { getTeam, inviteMember, removeMember, updateMemberRole, OrganizationTeam as Team } from '@/lib/organizations';
+import PhoneNumberInput from '@/components/PhoneNumberInput';
+
+const INVITABLE_ROLES: OrganizationRole[] = ['viewer', 'editor', 'approver'];
+
+const OrganizationTeam = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [team, setTeam] = useState<Team | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [isInviting, setIsInviting] = useState(false);
+  const [inviteError, setInviteError] = useState('');
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const [country, setCountry] = useState<CountryCode>(DEFAULT_COUNTRY);
+  const [inviteForm, setInviteForm] = useState({
+    full_name: '',
+    phone_number: '',
+    role: 'viewer' as OrganizationRole
+  });
+
+  useEffect(() => {
+    loadTeam();
+  }, []);
+
+  const loadTeam = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const result = await getTeam();
+      if (result.success && result.data) {
+        setTeam(result.data);
+      } else {
+        setError(result.error || 'Failed to load your team');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Clients without an organization become its owner on their first invite
+  const isOwner = team?.organization ? team.role === 'owner' : true;
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    setInviteError('');
+
+    if (!inviteForm.full_name.trim()) {
+      setInviteError('Please enter your colleague\'s name');
+      return;
+    }
+
+    if (!validatePhoneNumber(inviteForm.phone_number, country)) {
+      setInviteError('Please enter a valid mobile number for the selected country');
+      return;
+    }
+
+    setIsInviting(true);
+    try {
+      const result = await inviteMember(user.id, {
+        full_name: inviteForm.full_name.trim(),
+        phone_number: formatPhoneNumber(inviteForm.phone_number, country),
+        role: inviteForm.role
+      });
+
+      if (!result.success || !result.data) {
+        setInviteError(result.error || 'Failed to invite colleague');
+        return;
+      }
+
+      toast({
+        title: 'Colleague invited',
+        description: result.data.invitation
+          ? 'We sent them a text message with a link to set up their account.'
+          : 'They already have an account and can now see your projects.',
+      });
+
+      setInviteForm({ full_name: '', phone_number: '', role: 'viewer' });
+      setIsInviteOpen(false);
+      await loadTeam();
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (memberId: number, role: OrganizationRole) => {
+    if (!user) return;
+
+    setUpdatingId(memberId);
+    try {
+      const result = await updateMemberRole(user.id, memberId, role);
+      if (result.success) {
+        setTeam(prev => prev && {
+          ...prev,
+          members: prev.members.map(member => member.id === memberId ? { ...member, role } : member)
+        });
+      } else {
+        toast({
+          title: 'Error',
+          description: result.error || 'Failed to update role',
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleRemove = async (memberId: number) => {
+    if (!user) return;
+
+    setUpdatingId(memberId);
+    try {
+      const result = await removeMember(user.id, memberId);
+      if (result.success) {
+        setTeam(prev => prev && {
+          ...prev,
+          members: prev.members.filter(member => member.id !== memberId)
+        });
+        toast({
+          title: 'Colleague removed',
+          description: 'They no longer have access to your projects.',
+        });
+      } else {
+        toast({
+          title: 'Error',
+          description: result.error || 'Failed to remove colleague',
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <Card className="border-border-light">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5 text-primary" />
+              {team?.organization ? team.organization.name : 'Your Team'}
+            </CardTitle>
+            <CardDescription>
+              {isOwner
+                ? 'Invite colleagues to view, edit or approve your projects'
+                : 'People in your organization who share these projects'}
+            </CardDescription>
+          </div>
+          {isOwner && (
+            <Dialog open={isInviteOpen} onOpenChange={setIsInviteOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm" className="w-full sm:w-auto">
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Invite Colleague
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Invite a Colleague</DialogTitle>
+                  <DialogDescription>
+                    They will get a text message with a link to set up their account.
+                  </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleInvite} className="space-y-4">
+                  {inviteError && (
+                    <Alert variant="destructive">
+                      <AlertDescription>{inviteError}</AlertDescription>
+                    </Alert>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="member_full_name">Full Name</Label>
+                    <Input
+                      id="member_full_name"
+                      value={inviteForm.full_name}
+                      onChange={(e) => setInviteForm(prev => ({ ...prev, full_name: e.target.value }))}
+                      disabled={isInviting}
+                      required
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="member_phone_number">Phone Number</Label>
+                    <PhoneNumberInput
+                      id="member_phone_number"
+                      value={inviteForm.phone_number}
+                      onChange={(e) => setInviteForm(prev => ({ ...prev, phone_number: e.target.value }))}
+                      country={country}
+                      onCountryChange={setCountry}
+                      disabled={isInviting}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="member_role">Role</Label>
+                    <Select
+                      value={inviteForm.role}
+                      onValueChange={(value) => setInviteForm(prev => ({ ...prev, role: value as OrganizationRole }))}
+                      disabled={isInviting}
+                    >
+                      <SelectTrigger id="member_role">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {INVITABLE_ROLES.map(role => (
+                          <SelectItem key={role} value={role}>
+                            {ORGANIZATION_ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      {ORGANIZATION_ROLE_DESCRIPTIONS[inviteForm.role]}
+                    </p>
+                  </div>
+
+                  <Button type="submit" className="w-full" disabled={isInviting}>
+                    {isInviting ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Sending Invitation...
+                      </>
+                    ) : (
+                      'Send Invitation'
+                    )}
+                  </Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : !team?.organization ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            You haven't invited anyone yet. Colleagues you invite will see all of your projects.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {team.members.map((member) => {
+              const isSelf = member.user_id === user?.id;
+              const canManage = isOwner && member.role !== 'owner';
+
+              return (
+                <div
+                  key={member.id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-muted/30 rounded-lg"
+                >
+                  <div>
+                    <h4 className="font-medium text-foreground flex items-center gap-2">
+                      {member.full_name || 'Unnamed colleague'}
+                      {isSelf && <Badge variant="secondary">You</Badge>}
+                      {member.status === 'pending' && (
+                        <Badge className="bg-yellow-100 text-yellow-800">Invitation sent</Badge>
+                      )}
+                    </h4>
+                    <p className="text-sm text-muted-foreground">{member.phone_number}</p>
+                  </div>
+
+                  {canManage ? (
+                    <div className="flex gap-2">
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => handleRoleChange(member.id, value as OrganizationRole)}
+                        disabled={updatingId === member.id}
+                      >
+                        <SelectTrigger className="w-[130px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {INVITABLE_ROLES.map(role => (
+                            <SelectItem key={role} value={role}>
+                              {ORGANIZATION_ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-red-600 hover:text-red-700"
+                            disabled={updatingId === member.id}
+                          >
+                            <UserMinus className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Remove {member.full_name || 'this colleague'}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              They will lose access to your organization's projects straight away.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleRemove(member.id)} className="bg-red-600 hover:bg-red-700">
+                              Remove
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  ) : (
+                    <Badge variant="outline">{ORGANIZATION_ROLE_LABELS[member.role]}</Badge>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrganizationTeam;
@@ -0,0 +1,28 @@
+import { Check, X } from 'lucide-react';
+import { PasswordPolicy, getPasswordRequirements } from '@/lib/passwordPolicy';
+
+interface PasswordPolicyPreviewProps {
+  policy: PasswordPolicy;
+  password: string;
+}
+
+const PasswordPolicyPreview: React.FC<PasswordPolicyPreviewProps> = ({ policy, password }) => {
+  return (
+    <ul className="space-y-1 text-xs">
+      {getPasswordRequirements(policy).map(requirement => {
+        const isMet = password.length > 0 && requirement.test(password);
+        return (
+          <li
+            key={requirement.id}
+            className={`flex items-center gap-2 ${isMet ? 'text-green-600' : 'text-muted-foreground'}`}
+          >
+            {isMet ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+            {requirement.label}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default PasswordPolicyPreview;
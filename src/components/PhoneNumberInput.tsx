@@ -0,0 +1,65 @@
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Phone } from 'lucide-react';
+import { CountryCode, PHONE_COUNTRIES, getPhoneCountry } from '@/lib/phone';
+
+interface PhoneNumberInputProps {
+  id: string;
+  name?: string;
+  value: string;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  country: CountryCode;
+  onCountryChange: (country: CountryCode) => void;
+  disabled?: boolean;
+}
+
+const PhoneNumberInput: React.FC<PhoneNumberInputProps> = ({
+  id,
+  name,
+  value,
+  onChange,
+  country,
+  onCountryChange,
+  disabled = false,
+}) => {
+  const selectedCountry = getPhoneCountry(country);
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={country}
+        onValueChange={(value) => onCountryChange(value as CountryCode)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-[110px] shrink-0 border-input-border" aria-label="Country">
+          <SelectValue>
+            {selectedCountry.flag} +{selectedCountry.dialCode}
+          </SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          {PHONE_COUNTRIES.map((phoneCountry) => (
+            <SelectItem key={phoneCountry.code} value={phoneCountry.code}>
+              {phoneCountry.flag} {phoneCountry.name} (+{phoneCountry.dialCode})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="relative flex-1">
+        <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          id={id}
+          name={name}
+          type="tel"
+          placeholder={selectedCountry.example}
+          value={value}
+          onChange={onChange}
+          className="pl-10 border-input-border focus:border-ring"
+          disabled={disabled}
+          required
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PhoneNumberInput;
@@ -5,6 +5,8 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Switch } from '@/components/ui/switch';
 import { 
   User, 
   Building2, 
@@ -19,14 +21,22 @@ import { useAuth } from '@/contexts/AuthContext';
 import { updateProfile } from '@/lib/auth';
 import { useSecurity } from '@/hooks/useSecurity';
 import { useToast } from '@/hooks/use-toast';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import ActiveSessions from '@/components/ActiveSessions';
+import ChangePasswordForm from '@/components/ChangePasswordForm';
+import OrganizationTeam from '@/components/OrganizationTeam';
+import { hasPermission } from '@/lib/permissions';
+import { updateReadReceiptsSetting } from '@/lib/messageReceipts';
 
 const ProfileEditor = () => {
-  const { user, updateUser } = useAuth();
+  const { user, updateUser, impersonation } = useAuth();
   const { sanitizeInput, logSecurityEvent } = useSecurity();
   const { toast } = useToast();
   
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
+  const [isSavingReceipts, setIsSavingReceipts] = useState(false);
   const [error, setError] = useState('');
   const [formData, setFormData] = useState({
     full_name: user?.full_name || '',
@@ -57,6 +67,32 @@ const ProfileEditor = () => {
     if (error) setError('');
   };
 
+  const handleReadReceiptsChange = async (enabled: boolean) => {
+    if (!user) return;
+
+    setIsSavingReceipts(true);
+    const success = await updateReadReceiptsSetting(user.id, enabled);
+    setIsSavingReceipts(false);
+
+    if (!success) {
+      toast({
+        title: "Error",
+        description: "Failed to update your privacy settings",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    updateUser({ read_receipts_enabled: enabled });
+    await logSecurityEvent('read_receipts_changed', { enabled });
+    toast({
+      title: "Privacy Updated",
+      description: enabled
+        ? "The team will see when you have read their messages"
+        : "The team will no longer see when you have read their messages",
+    });
+  };
+
   const validateForm = (): boolean => {
     if (!formData.full_name.trim()) {
       setError('Full name is required');
@@ -326,28 +362,64 @@ const ProfileEditor = () => {
               <div>
                 <h4 className="font-medium text-foreground">Password</h4>
                 <p className="text-sm text-muted-foreground">
-                  Last updated: Unknown
+                  Last updated: {user?.password_changed_at ? formatDate(user.password_changed_at) : 'Unknown'}
                 </p>
               </div>
-              <Button variant="outline" className="w-full sm:w-auto">
-                Change Password
-              </Button>
+              <Dialog open={isChangePasswordOpen} onOpenChange={setIsChangePasswordOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="outline" className="w-full sm:w-auto">
+                    Change Password
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Change Password</DialogTitle>
+                    <DialogDescription>
+                      Your other sessions will be signed out once the password is changed.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <ChangePasswordForm onSuccess={() => setIsChangePasswordOpen(false)} />
+                </DialogContent>
+              </Dialog>
             </div>
             
-            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 bg-muted/30 rounded-lg">
+            <TwoFactorSettings />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Privacy (clients only; staff always share read receipts) */}
+      {!user?.is_admin && (
+        <Card className="border-border-light">
+          <CardHeader>
+            <CardTitle>Privacy</CardTitle>
+            <CardDescription>
+              Control what the team can see about your activity
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-between gap-4 p-4 bg-muted/30 rounded-lg">
               <div>
-                <h4 className="font-medium text-foreground">Two-Factor Authentication</h4>
+                <h4 className="font-medium text-foreground">Read receipts</h4>
                 <p className="text-sm text-muted-foreground">
-                  Add an extra layer of security to your account
+                  Let the team see when you have read their messages. They will still see when a message was delivered.
                 </p>
               </div>
-              <Button variant="outline" className="w-full sm:w-auto">
-                Enable 2FA
-              </Button>
+              <Switch
+                checked={user?.read_receipts_enabled !== false}
+                onCheckedChange={handleReadReceiptsChange}
+                disabled={isSavingReceipts || !!impersonation?.read_only}
+              />
             </div>
-          </div>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Team (staff accounts are not part of client organizations) */}
+      {!hasPermission(user, 'admin.access') && <OrganizationTeam />}
+
+      {/* Active Sessions */}
+      <ActiveSessions />
     </div>
   );
 };
@@ -0,0 +1,61 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+
+interface ThreadProject {
+  id: string;
+  name: string;
+}
+
+interface ProjectThreadTabsProps {
+  projects: ThreadProject[];
+  // A project id, null for the general thread, or undefined for all threads (as in useMessages)
+  value: string | null | undefined;
+  onChange: (projectId: string | null | undefined) => void;
+  unreadCounts?: Record<string, number>;
+}
+
+const ProjectThreadTabs: React.FC<ProjectThreadTabsProps> = ({
+  projects,
+  value,
+  onChange,
+  unreadCounts = {}
+}) => {
+  return (
+    <div className="flex space-x-2 overflow-x-auto pb-2 scrollbar-hide">
+      <Button
+        variant={value === undefined ? 'default' : 'outline'}
+        size="sm"
+        className="flex-shrink-0"
+        onClick={() => onChange(undefined)}
+      >
+        All threads
+      </Button>
+      <Button
+        variant={value === null ? 'default' : 'outline'}
+        size="sm"
+        className="flex-shrink-0"
+        onClick={() => onChange(null)}
+      >
+        General
+      </Button>
+      {projects.map(project => (
+        <Button
+          key={project.id}
+          variant={value === project.id ? 'default' : 'outline'}
+          size="sm"
+          className="flex-shrink-0"
+          onClick={() => onChange(project.id)}
+        >
+          {project.name}
+          {unreadCounts[project.id] > 0 && (
+            <Badge variant="destructive" className="ml-2 px-1.5 text-xs">
+              {unreadCounts[project.id]}
+            </Badge>
+          )}
+        </Button>
+      ))}
+    </div>
+  );
+};
+
+export default ProjectThreadTabs;
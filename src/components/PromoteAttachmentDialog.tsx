@@ -0,0 +1,231 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  MessageAttachment,
+  promoteAttachmentToDeliverable,
+  promoteAttachmentToInput
+} from '@/lib/messageAttachments';
+
+type PromoteTarget = 'input' | 'deliverable';
+
+interface ProjectOption {
+  id: string;
+  name: string;
+}
+
+interface FolderOption {
+  id: string;
+  name: string;
+}
+
+interface PromoteAttachmentDialogProps {
+  attachment: MessageAttachment | null;
+  clientId: string;
+  onOpenChange: (open: boolean) => void;
+  onPromoted?: () => void;
+}
+
+const PromoteAttachmentDialog: React.FC<PromoteAttachmentDialogProps> = ({
+  attachment,
+  clientId,
+  onOpenChange,
+  onPromoted
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [target, setTarget] = useState<PromoteTarget>('input');
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [folders, setFolders] = useState<FolderOption[]>([]);
+  const [projectId, setProjectId] = useState('');
+  const [folderId, setFolderId] = useState('');
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form and load the client's projects each time an attachment is picked
+  useEffect(() => {
+    if (!attachment) return;
+
+    setTarget('input');
+    setProjectId('');
+    setFolderId('');
+    setTitle(attachment.file_name);
+    setDescription('');
+
+    const fetchProjects = async () => {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name')
+        .eq('user_id', clientId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching client projects:', error);
+        return;
+      }
+      setProjects(data || []);
+    };
+
+    fetchProjects();
+  }, [attachment, clientId]);
+
+  // Inputs live in a folder, so load the selected project's folders
+  useEffect(() => {
+    setFolderId('');
+    setFolders([]);
+    if (!projectId) return;
+
+    const fetchFolders = async () => {
+      const { data, error } = await supabase
+        .from('folders')
+        .select('id, name')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching project folders:', error);
+        return;
+      }
+      setFolders(data || []);
+    };
+
+    fetchFolders();
+  }, [projectId]);
+
+  const canSubmit = !!projectId && (target === 'input' ? !!folderId : !!title.trim());
+
+  const handlePromote = async () => {
+    if (!user || !attachment || !canSubmit) return;
+
+    setIsSaving(true);
+    try {
+      const result = target === 'input'
+        ? await promoteAttachmentToInput(user.id, attachment, folderId, description.trim() || attachment.file_name)
+        : await promoteAttachmentToDeliverable(user.id, attachment, projectId, {
+            title: title.trim(),
+            description: description.trim()
+          });
+
+      if (!result.success) {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to add the file to the project",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Success",
+        description: target === 'input'
+          ? "File added to the project as an input"
+          : "File added to the project as a deliverable (not yet sent)",
+      });
+      onPromoted?.();
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!attachment} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add to Project</DialogTitle>
+          <DialogDescription>
+            Copy {attachment?.file_name} into one of the client's projects
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="promote-target">Add as *</Label>
+            <Select value={target} onValueChange={(value: PromoteTarget) => setTarget(value)}>
+              <SelectTrigger id="promote-target">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="input">Project input</SelectItem>
+                <SelectItem value="deliverable">Deliverable</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="promote-project">Project *</Label>
+            <Select value={projectId} onValueChange={setProjectId}>
+              <SelectTrigger id="promote-project">
+                <SelectValue placeholder={projects.length === 0 ? "This client has no projects" : "Select a project"} />
+              </SelectTrigger>
+              <SelectContent>
+                {projects.map(project => (
+                  <SelectItem key={project.id} value={project.id}>
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {target === 'input' ? (
+            <div className="space-y-2">
+              <Label htmlFor="promote-folder">Folder *</Label>
+              <Select value={folderId} onValueChange={setFolderId} disabled={!projectId}>
+                <SelectTrigger id="promote-folder">
+                  <SelectValue placeholder={projectId && folders.length === 0 ? "This project has no folders" : "Select a folder"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {folders.map(folder => (
+                    <SelectItem key={folder.id} value={folder.id}>
+                      {folder.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="promote-title">Title *</Label>
+              <Input
+                id="promote-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="promote-description">{target === 'input' ? 'Input text' : 'Description'}</Label>
+            <Textarea
+              id="promote-description"
+              placeholder={target === 'input' ? "Defaults to the file name" : "Enter deliverable description"}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handlePromote} disabled={!canSubmit || isSaving}>
+            {isSaving ? 'Adding...' : 'Add to Project'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PromoteAttachmentDialog;
@@ -1,15 +1,22 @@
 import { ReactNode } from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { Loader2 } from 'lucide-react';
+import { Loader2, ShieldAlert, KeyRound } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import ChangePasswordForm from '@/components/ChangePasswordForm';
+import { Permission, hasPermission } from '@/lib/permissions';
 
 interface ProtectedRouteProps {
   children: ReactNode;
   requireAdmin?: boolean;
+  // Permission needed on top of admin access, e.g. 'deliverables.send'
+  requirePermission?: Permission;
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requireAdmin = false }) => {
-  const { user, isLoading, isAuthenticated } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requireAdmin = false, requirePermission }) => {
+  const { user, isLoading, isAuthenticated, twoFactorSetupRequired, passwordChangeRequired, logout } = useAuth();
   const location = useLocation();
 
   // Show loading spinner while checking authentication
@@ -29,13 +36,71 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requireAdmin
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
+  const isStaff = hasPermission(user, 'admin.access');
+  const isStaffRoute = requireAdmin || !!requirePermission;
+
   // Check admin requirement
-  if (requireAdmin && !user.is_admin) {
+  if (isStaffRoute && !isStaff) {
     return <Navigate to="/dashboard" replace />;
   }
 
-  // Check if non-admin trying to access admin routes
-  if (!requireAdmin && user.is_admin && location.pathname.startsWith('/dashboard')) {
+  // Staff without the specific permission go back to the parts of the admin area they can use
+  if (requirePermission && !hasPermission(user, requirePermission)) {
+    return <Navigate to="/admin" replace />;
+  }
+
+  // Expired passwords must be replaced before anything else
+  if (passwordChangeRequired) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5 text-primary" />
+              Password Expired
+            </CardTitle>
+            <CardDescription>
+              Your password is older than your organization allows. Choose a new one to continue.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ChangePasswordForm />
+            <Button variant="ghost" className="w-full" onClick={logout}>
+              Sign out
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Admins must enroll in 2FA before using the admin area when the security policy requires it
+  if (isStaffRoute && twoFactorSetupRequired) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5 text-primary" />
+              Two-Factor Authentication Required
+            </CardTitle>
+            <CardDescription>
+              Your organization requires administrators to use two-factor authentication. Set it up to continue.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <TwoFactorSettings />
+            <Button variant="ghost" className="w-full" onClick={logout}>
+              Sign out
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Staff land in the admin area rather than the client dashboard
+  if (!isStaffRoute && isStaff && location.pathname.startsWith('/dashboard')) {
     return <Navigate to="/admin" replace />;
   }
 
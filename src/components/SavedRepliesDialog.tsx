@@ -0,0 +1,344 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Plus, Pencil, Trash2, ArrowLeft } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermission } from '@/hooks/usePermission';
+import { useToast } from '@/hooks/use-toast';
+import {
+  SavedReply,
+  SavedReplyInput,
+  SavedReplyStats,
+  REPLY_VARIABLES,
+  SHORTCUT_PATTERN,
+  createSavedReply,
+  deleteSavedReply,
+  fetchSavedReplies,
+  getSavedReplyStats,
+  updateSavedReply
+} from '@/lib/savedReplies';
+import { formatDistanceToNow } from 'date-fns';
+
+const STATS_DAYS = 30;
+
+const EMPTY_FORM: SavedReplyInput = {
+  title: '',
+  shortcut: '',
+  content: '',
+  is_shared: false
+};
+
+interface SavedRepliesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called after a reply is added, changed or removed so the composer can reload its list
+  onChanged?: () => void;
+}
+
+const SavedRepliesDialog: React.FC<SavedRepliesDialogProps> = ({ open, onOpenChange, onChanged }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canManageShared = usePermission('settings.edit');
+  const [replies, setReplies] = useState<SavedReply[]>([]);
+  const [stats, setStats] = useState<Map<string, SavedReplyStats>>(new Map());
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingReply, setEditingReply] = useState<SavedReply | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState<SavedReplyInput>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadReplies = useCallback(async () => {
+    setIsLoading(true);
+    const since = new Date();
+    since.setDate(since.getDate() - STATS_DAYS);
+
+    const [repliesData, statsData] = await Promise.all([
+      fetchSavedReplies(),
+      getSavedReplyStats(since)
+    ]);
+    setReplies(repliesData);
+    setStats(new Map(statsData.map(row => [row.reply_id, row])));
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      setIsFormOpen(false);
+      loadReplies();
+    }
+  }, [open, loadReplies]);
+
+  // Most used first, so unused replies sink to the bottom
+  const sortedReplies = [...replies].sort((a, b) =>
+    (stats.get(b.id)?.use_count || 0) - (stats.get(a.id)?.use_count || 0) ||
+    a.shortcut.localeCompare(b.shortcut)
+  );
+
+  const canModify = (reply: SavedReply) =>
+    reply.created_by === user?.id || (reply.is_shared && canManageShared);
+
+  const openForm = (reply: SavedReply | null) => {
+    setEditingReply(reply);
+    setForm(reply
+      ? { title: reply.title, shortcut: reply.shortcut, content: reply.content, is_shared: reply.is_shared }
+      : EMPTY_FORM
+    );
+    setIsFormOpen(true);
+  };
+
+  const insertVariable = (key: string) => {
+    setForm(prev => ({ ...prev, content: `${prev.content}{{${key}}}` }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const reply: SavedReplyInput = {
+      title: form.title.trim(),
+      shortcut: form.shortcut.trim().toLowerCase(),
+      content: form.content.trim(),
+      is_shared: form.is_shared
+    };
+
+    if (!reply.title || !reply.content) {
+      toast({
+        title: "Error",
+        description: "Title and reply text are required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!SHORTCUT_PATTERN.test(reply.shortcut)) {
+      toast({
+        title: "Error",
+        description: "Shortcuts use lowercase letters, numbers, - and _ only",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    const result = editingReply
+      ? await updateSavedReply(editingReply.id, reply)
+      : await createSavedReply(user.id, reply);
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: editingReply ? "Saved reply updated" : "Saved reply created",
+    });
+    setIsFormOpen(false);
+    await loadReplies();
+    onChanged?.();
+  };
+
+  const handleDelete = async (reply: SavedReply) => {
+    const result = await deleteSavedReply(reply.id);
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await loadReplies();
+    onChanged?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{isFormOpen ? (editingReply ? 'Edit Saved Reply' : 'New Saved Reply') : 'Saved Replies'}</DialogTitle>
+          <DialogDescription>
+            {isFormOpen
+              ? 'Type / followed by the shortcut in any conversation to insert this reply.'
+              : `Insert a reply by typing / in the message box. Usage covers the last ${STATS_DAYS} days.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isFormOpen ? (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="reply-title">Title</Label>
+                <Input
+                  id="reply-title"
+                  value={form.title}
+                  onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+                  placeholder="e.g. Thanks for the files"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reply-shortcut">Shortcut</Label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">/</span>
+                  <Input
+                    id="reply-shortcut"
+                    value={form.shortcut}
+                    onChange={(e) => setForm(prev => ({ ...prev, shortcut: e.target.value.toLowerCase() }))}
+                    placeholder="thanks"
+                    className="pl-6"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="reply-content">Reply</Label>
+              <Textarea
+                id="reply-content"
+                value={form.content}
+                onChange={(e) => setForm(prev => ({ ...prev, content: e.target.value }))}
+                rows={5}
+                placeholder="Hi {{client.first_name}}, thanks for sending these over..."
+              />
+              <div className="flex flex-wrap gap-1">
+                {REPLY_VARIABLES.map(variable => (
+                  <Button
+                    key={variable.key}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs"
+                    title={variable.description}
+                    onClick={() => insertVariable(variable.key)}
+                  >
+                    {`{{${variable.key}}}`}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between rounded-md border border-border-light p-3">
+              <div>
+                <Label htmlFor="reply-shared">Share with the team</Label>
+                <p className="text-xs text-muted-foreground">Shared replies are available to all staff</p>
+              </div>
+              <Switch
+                id="reply-shared"
+                checked={form.is_shared}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, is_shared: checked }))}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)} disabled={isSaving}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Reply'}
+              </Button>
+            </DialogFooter>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-end">
+              <Button size="sm" onClick={() => openForm(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Reply
+              </Button>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+              </div>
+            ) : sortedReplies.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No saved replies yet</p>
+            ) : (
+              <ScrollArea className="max-h-96">
+                <div className="space-y-2 pr-3">
+                  {sortedReplies.map(reply => {
+                    const replyStats = stats.get(reply.id);
+
+                    return (
+                      <div key={reply.id} className="rounded-md border border-border-light p-3">
+                        <div className="flex items-start justify-between gap-2">
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2 flex-wrap">
+                              <p className="font-medium text-foreground truncate">{reply.title}</p>
+                              <Badge variant="outline" className="font-mono text-xs">/{reply.shortcut}</Badge>
+                              <Badge variant={reply.is_shared ? 'secondary' : 'outline'} className="text-xs">
+                                {reply.is_shared ? 'Shared' : 'Personal'}
+                              </Badge>
+                            </div>
+                            <p className="text-sm text-muted-foreground mt-1 line-clamp-2 whitespace-pre-wrap break-words">
+                              {reply.content}
+                            </p>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {replyStats?.use_count
+                                ? `Used ${replyStats.use_count} time${replyStats.use_count === 1 ? '' : 's'} by ${replyStats.user_count} ${replyStats.user_count === 1 ? 'person' : 'people'}` +
+                                  (replyStats.last_used_at ? ` · last ${formatDistanceToNow(new Date(replyStats.last_used_at), { addSuffix: true })}` : '')
+                                : 'Not used recently'}
+                            </p>
+                          </div>
+                          {canModify(reply) && (
+                            <div className="flex shrink-0">
+                              <Button variant="ghost" size="sm" onClick={() => openForm(reply)}>
+                                <Pencil className="h-4 w-4" />
+                                <span className="sr-only">Edit {reply.title}</span>
+                              </Button>
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button variant="ghost" size="sm">
+                                    <Trash2 className="h-4 w-4 text-red-500" />
+                                    <span className="sr-only">Delete {reply.title}</span>
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Delete Saved Reply</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      Are you sure you want to delete "{reply.title}"?{reply.is_shared && ' It will be removed for the whole team.'}
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction
+                                      onClick={() => handleDelete(reply)}
+                                      className="bg-red-600 hover:bg-red-700"
+                                    >
+                                      Delete
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SavedRepliesDialog;
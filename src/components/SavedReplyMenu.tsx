@@ -0,0 +1,60 @@
+import { Settings } from 'lucide-react';
+import { SavedReply } from '@/lib/savedReplies';
+
+interface SavedReplyMenuProps {
+  replies: SavedReply[];
+  activeIndex: number;
+  onSelect: (reply: SavedReply) => void;
+  onActiveIndexChange: (index: number) => void;
+  onManage: () => void;
+}
+
+// Suggestions shown above the composer while a /shortcut is being typed
+const SavedReplyMenu: React.FC<SavedReplyMenuProps> = ({
+  replies,
+  activeIndex,
+  onSelect,
+  onActiveIndexChange,
+  onManage
+}) => {
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 z-10 rounded-md border border-border-light bg-popover shadow-md">
+      {replies.length === 0 ? (
+        <p className="px-3 py-2 text-sm text-muted-foreground">No saved replies match</p>
+      ) : (
+        <ul role="listbox" className="max-h-56 overflow-y-auto py-1">
+          {replies.map((reply, index) => (
+            <li
+              key={reply.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the composer so typing can continue
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => onActiveIndexChange(index)}
+              onClick={() => onSelect(reply)}
+              className={`px-3 py-2 cursor-pointer ${index === activeIndex ? 'bg-muted' : ''}`}
+            >
+              <div className="flex items-center gap-2 text-sm">
+                <span className="font-mono text-primary">/{reply.shortcut}</span>
+                <span className="font-medium text-foreground truncate">{reply.title}</span>
+                {reply.is_shared && <span className="ml-auto text-xs text-muted-foreground shrink-0">Shared</span>}
+              </div>
+              <p className="text-xs text-muted-foreground truncate">{reply.content}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+      <button
+        type="button"
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={onManage}
+        className="flex w-full items-center gap-2 border-t border-border-light px-3 py-2 text-xs text-muted-foreground hover:text-foreground"
+      >
+        <Settings className="h-3 w-3" />
+        Manage saved replies
+      </button>
+    </div>
+  );
+};
+
+export default SavedReplyMenu;
@@ -0,0 +1,270 @@
+import { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Input } from '@/components/ui/input';
+import { Loader2, ShieldCheck, Copy, Download, AlertCircle } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  startTwoFactorEnrollment,
+  activateTwoFactor,
+  disableTwoFactor,
+  TwoFactorEnrollment
+} from '@/lib/twoFactor';
+
+const CODE_LENGTH = 6;
+
+const TwoFactorSettings = () => {
+  const { user, updateUser } = useAuth();
+  const { toast } = useToast();
+
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [isDisabling, setIsDisabling] = useState(false);
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const isEnabled = user?.two_factor_enabled === true;
+
+  const resetState = () => {
+    setEnrollment(null);
+    setIsDisabling(false);
+    setCode('');
+    setError('');
+  };
+
+  const handleStartEnrollment = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const result = await startTwoFactorEnrollment();
+      if (result.success && result.data) {
+        setEnrollment(result.data);
+      } else {
+        setError(result.error || 'Failed to start two-factor enrollment');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleActivate = async () => {
+    if (!user || code.length !== CODE_LENGTH) {
+      setError('Enter the 6-digit code from your authenticator app');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+    try {
+      const result = await activateTwoFactor(user.id, code);
+      if (result.success && result.data) {
+        // The enabled flag is applied once the codes are acknowledged, so a 2FA gate
+        // wrapping this component doesn't unmount it before they have been saved
+        setRecoveryCodes(result.data);
+        resetState();
+        toast({
+          title: "Two-factor authentication enabled",
+          description: "Save your recovery codes somewhere safe.",
+        });
+      } else {
+        setError(result.error || 'Invalid verification code');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!user || !code.trim()) {
+      setError('Enter a code from your authenticator app or a recovery code');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+    try {
+      const result = await disableTwoFactor(user.id, code.trim());
+      if (result.success) {
+        resetState();
+        updateUser({ two_factor_enabled: false });
+        toast({
+          title: "Two-factor authentication disabled",
+          description: "Your account is now protected by your password only.",
+        });
+      } else {
+        setError(result.error || 'Failed to disable two-factor authentication');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const copyRecoveryCodes = async () => {
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast({
+      title: "Copied",
+      description: "Recovery codes copied to clipboard",
+    });
+  };
+
+  const acknowledgeRecoveryCodes = () => {
+    setRecoveryCodes([]);
+    updateUser({ two_factor_enabled: true });
+  };
+
+  const downloadRecoveryCodes = () => {
+    const blob = new Blob([recoveryCodes.join('\n')], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'muahib-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-4 bg-muted/30 rounded-lg space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h4 className="font-medium text-foreground flex items-center gap-2">
+            Two-Factor Authentication
+            {isEnabled && (
+              <Badge className="bg-green-100 text-green-800">
+                <ShieldCheck className="h-3 w-3 mr-1" />
+                Enabled
+              </Badge>
+            )}
+          </h4>
+          <p className="text-sm text-muted-foreground">
+            {isEnabled
+              ? 'A code from your authenticator app is required when you sign in'
+              : 'Add an extra layer of security to your account'}
+          </p>
+        </div>
+        {!enrollment && !isDisabling && recoveryCodes.length === 0 && (
+          isEnabled ? (
+            <Button variant="outline" className="w-full sm:w-auto" onClick={() => setIsDisabling(true)}>
+              Disable 2FA
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              className="w-full sm:w-auto"
+              onClick={handleStartEnrollment}
+              disabled={isLoading}
+            >
+              {isLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Enable 2FA
+            </Button>
+          )
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Enrollment: scan QR code, then confirm with the first code */}
+      {enrollment && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Scan this QR code with Google Authenticator, Authy or another authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <div className="flex flex-col sm:flex-row items-start gap-4">
+            <div className="bg-white p-3 rounded-lg border">
+              <QRCodeSVG value={enrollment.otpauth_url} size={160} />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Can't scan? Enter this key manually:</Label>
+              <code className="block text-sm font-mono break-all bg-background p-2 rounded border">
+                {enrollment.secret}
+              </code>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Verification Code</Label>
+            <InputOTP maxLength={CODE_LENGTH} value={code} onChange={setCode} disabled={isLoading}>
+              <InputOTPGroup>
+                {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button onClick={handleActivate} disabled={isLoading} className="bg-primary hover:bg-primary-hover w-full sm:w-auto">
+              {isLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Verify and Enable
+            </Button>
+            <Button variant="outline" onClick={resetState} disabled={isLoading} className="w-full sm:w-auto">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Disabling requires a current code so a hijacked session cannot turn 2FA off */}
+      {isDisabling && (
+        <div className="space-y-3">
+          <Label htmlFor="disable_2fa_code">Authenticator or recovery code</Label>
+          <Input
+            id="disable_2fa_code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="123456 or XXXXX-XXXXX"
+            disabled={isLoading}
+          />
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button variant="destructive" onClick={handleDisable} disabled={isLoading} className="w-full sm:w-auto">
+              {isLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Disable 2FA
+            </Button>
+            <Button variant="outline" onClick={resetState} disabled={isLoading} className="w-full sm:w-auto">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Recovery codes are only shown once, right after enrollment */}
+      {recoveryCodes.length > 0 && (
+        <div className="space-y-3">
+          <Alert>
+            <AlertDescription>
+              Each recovery code can be used once if you lose access to your authenticator app. They won't be shown again.
+            </AlertDescription>
+          </Alert>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-background p-3 rounded border">
+            {recoveryCodes.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" size="sm" onClick={copyRecoveryCodes}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+            <Button variant="outline" size="sm" onClick={downloadRecoveryCodes}>
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </Button>
+            <Button size="sm" onClick={acknowledgeRecoveryCodes}>
+              I've saved them
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
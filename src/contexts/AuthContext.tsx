@@ -1,15 +1,49 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User } from '@/lib/auth';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { User, LoginCredentials } from '@/lib/auth';
 import { setSession, getSession, deleteSession } from '@/lib/redis';
-import { setSupabaseAuth, clearSupabaseAuth } from '@/lib/supabase-auth';
+import { setSupabaseAuth, refreshSupabaseAuth, clearSupabaseAuth, setImpersonationAuth } from '@/lib/supabase-auth';
+import { loadSecuritySettings, DEFAULT_SECURITY_SETTINGS, SecuritySettings } from '@/lib/securitySettings';
+import { isPasswordExpired } from '@/lib/passwordPolicy';
+import { endCurrentSession } from '@/lib/sessions';
+import {
+  IMPERSONATION_STORAGE_KEY,
+  ImpersonationEndReason,
+  ImpersonationResult,
+  ImpersonationSession,
+  getStoredImpersonation,
+  isImpersonationExpired,
+  startImpersonation as requestImpersonation,
+  stopImpersonation as endImpersonation,
+  storeImpersonation
+} from '@/lib/impersonation';
+import { useIdleTimeout } from '@/hooks/useIdleTimeout';
+import { toast } from '@/hooks/use-toast';
+import IdleTimeoutDialog from '@/components/IdleTimeoutDialog';
+
+const SESSION_ID_KEY = 'sessionId';
+
+// Refresh well before expiry so supabase-js never tries to refresh our custom tokens itself
+const TOKEN_REFRESH_MARGIN_MS = 2 * 60 * 1000;
+const TOKEN_REFRESH_RETRY_MS = 30 * 1000;
+
+// How long before the idle timeout the "stay signed in" warning appears
+const IDLE_WARNING_MS = 60 * 1000;
 
 interface AuthContextType {
+  // The client being viewed while impersonating, otherwise the signed-in user
   user: User | null;
+  // The staff member behind an impersonation session
+  impersonator: User | null;
+  impersonation: ImpersonationSession | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (user: User) => Promise<void>;
+  twoFactorSetupRequired: boolean;
+  passwordChangeRequired: boolean;
+  login: (user: User, credentials?: LoginCredentials) => Promise<void>;
   logout: () => Promise<void>;
   updateUser: (updates: Partial<User>) => void;
+  startImpersonation: (clientId: string, options?: { allowChanges?: boolean }) => Promise<ImpersonationResult>;
+  stopImpersonation: (reason?: ImpersonationEndReason) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -29,6 +63,9 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [securitySettings, setSecuritySettings] = useState<SecuritySettings>(DEFAULT_SECURITY_SETTINGS);
+  const [tokenExpiresAt, setTokenExpiresAt] = useState<number | null>(null);
+  const [impersonation, setImpersonation] = useState<ImpersonationSession | null>(null);
 
   // Generate session ID
   const generateSessionId = (): string => {
@@ -37,59 +74,239 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   // Get session ID from localStorage
   const getStoredSessionId = (): string | null => {
-    return localStorage.getItem('sessionId');
+    return localStorage.getItem(SESSION_ID_KEY);
   };
 
   // Store session ID in localStorage
   const storeSessionId = (sessionId: string): void => {
-    localStorage.setItem('sessionId', sessionId);
+    localStorage.setItem(SESSION_ID_KEY, sessionId);
   };
 
   // Remove session ID from localStorage
   const removeStoredSessionId = (): void => {
-    localStorage.removeItem('sessionId');
+    localStorage.removeItem(SESSION_ID_KEY);
   };
 
-  // Check for existing session on app load
-  useEffect(() => {
-    const checkSession = async () => {
-      try {
-        const sessionId = getStoredSessionId();
-        if (sessionId) {
-          const userId = await getSession(sessionId);
-          if (userId) {
-            // Get user data from Supabase
-            const { getUserById } = await import('@/lib/auth');
-            const response = await getUserById(userId);
-            if (response.success && response.user) {
-              setUser(response.user);
-              // Skip Supabase auth session for restored user since we're using custom auth
-              // await setSupabaseAuth(response.user);
-            } else {
-              // Invalid session, clean up
-              await deleteSession(sessionId);
-              removeStoredSessionId();
-            }
+  // Pick up an impersonation started before a reload or in another tab
+  const resumeImpersonation = useCallback(async (userId: string) => {
+    const stored = getStoredImpersonation();
+    if (!stored || stored.admin_id !== userId) {
+      setImpersonation(null);
+      return;
+    }
+
+    if (isImpersonationExpired(stored)) {
+      storeImpersonation(null);
+      setImpersonation(null);
+      await endImpersonation(stored, 'expired');
+      return;
+    }
+
+    if (await setImpersonationAuth(stored.access_token)) {
+      setImpersonation(stored);
+    }
+  }, []);
+
+  // Restore the session stored in this browser, if it is still valid
+  const restoreSession = useCallback(async () => {
+    try {
+      const sessionId = getStoredSessionId();
+      if (sessionId) {
+        const userId = await getSession(sessionId);
+        if (userId) {
+          // Get user data from Supabase
+          const { getUserById } = await import('@/lib/auth');
+          const response = await getUserById(userId);
+          // Restore the Supabase auth session from the server-issued refresh token
+          const supabaseAuth = response.success ? await refreshSupabaseAuth() : null;
+          if (supabaseAuth?.rejected) {
+            // The session was revoked from another device or evicted by the session limit
+            await deleteSession(sessionId);
+            removeStoredSessionId();
+          } else if (response.success && response.user) {
+            setUser(response.user);
+            setTokenExpiresAt(supabaseAuth?.expiresAt ?? null);
+            await resumeImpersonation(response.user.id);
           } else {
-            // Session expired, clean up
+            // Invalid session, clean up
+            await deleteSession(sessionId);
             removeStoredSessionId();
           }
+        } else {
+          // Session expired, clean up
+          removeStoredSessionId();
         }
-      } catch (error) {
-        console.error('Session check error:', error);
-        removeStoredSessionId();
-      } finally {
-        setIsLoading(false);
       }
+    } catch (error) {
+      console.error('Session check error:', error);
+      removeStoredSessionId();
+    } finally {
+      setIsLoading(false);
+    }
+  }, [resumeImpersonation]);
+
+  // Check for existing session on app load
+  useEffect(() => {
+    restoreSession();
+  }, [restoreSession]);
+
+  // Load the security settings that drive the idle timeout and the admin 2FA requirement
+  useEffect(() => {
+    if (!user?.id) return;
+
+    let isCancelled = false;
+    loadSecuritySettings().then(settings => {
+      if (!isCancelled) {
+        setSecuritySettings(settings);
+      }
+    });
+
+    return () => {
+      isCancelled = true;
     };
+  }, [user?.id]);
+
+  // Gates below apply to the signed-in staff member, never to the client being viewed
+  // Admins must enroll in 2FA before using the app when the require_2fa security setting is on
+  const twoFactorSetupRequired = !!user?.is_admin && !user.two_factor_enabled && securitySettings.session_settings.require_2fa;
+
+  // Passwords older than the policy's max_age_days must be changed before using the app
+  const passwordChangeRequired = !!user && isPasswordExpired(user.password_changed_at, securitySettings.password_policy);
 
-    checkSession();
+  // Clear this tab's auth state without contacting the server (the session is already gone)
+  const clearLocalAuth = useCallback(async () => {
+    await clearSupabaseAuth();
+    setUser(null);
+    setTokenExpiresAt(null);
+    setImpersonation(null);
   }, []);
 
-  const login = async (userData: User): Promise<void> => {
+  // Keep tabs in sync: logging out (or in as someone else) in one tab applies to all of them
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === IMPERSONATION_STORAGE_KEY) {
+        // Every tab shares one Supabase session, so they all switch together
+        const stored = getStoredImpersonation();
+        setImpersonation(stored && !isImpersonationExpired(stored) ? stored : null);
+        return;
+      }
+
+      if (event.key !== SESSION_ID_KEY) return;
+
+      if (!event.newValue) {
+        clearLocalAuth();
+      } else if (event.newValue !== event.oldValue) {
+        restoreSession();
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [clearLocalAuth, restoreSession]);
+
+  // Silently refresh the Supabase access token ahead of its expiry (paused while impersonating,
+  // since refreshing would swap the impersonation token back for the staff member's own)
+  useEffect(() => {
+    if (!user?.id || !tokenExpiresAt || impersonation) return;
+
+    const delay = Math.max(0, tokenExpiresAt * 1000 - Date.now() - TOKEN_REFRESH_MARGIN_MS);
+    const timeout = setTimeout(async () => {
+      const result = await refreshSupabaseAuth();
+
+      if (result.rejected) {
+        // The session was revoked elsewhere, so end it here too
+        const sessionId = getStoredSessionId();
+        if (sessionId) await deleteSession(sessionId);
+        removeStoredSessionId();
+        await clearLocalAuth();
+        toast({
+          title: "Signed out",
+          description: "Your session was ended from another device. Please sign in again.",
+        });
+      } else if (result.expiresAt) {
+        setTokenExpiresAt(result.expiresAt);
+      } else {
+        // Network or client error: try again shortly
+        setTokenExpiresAt(Math.floor((Date.now() + TOKEN_REFRESH_MARGIN_MS + TOKEN_REFRESH_RETRY_MS) / 1000));
+      }
+    }, delay);
+
+    return () => clearTimeout(timeout);
+  }, [user?.id, tokenExpiresAt, impersonation, clearLocalAuth]);
+
+  const startImpersonation = async (
+    clientId: string,
+    options: { allowChanges?: boolean } = {}
+  ): Promise<ImpersonationResult> => {
+    if (!user) return { success: false, error: 'Not signed in' };
+
+    const result = await requestImpersonation(user.id, clientId, options);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    if (!await setImpersonationAuth(result.data.access_token)) {
+      await endImpersonation(result.data, 'stopped');
+      return { success: false, error: 'Failed to switch to the client view' };
+    }
+
+    storeImpersonation(result.data);
+    setImpersonation(result.data);
+    return { success: true };
+  };
+
+  const stopImpersonation = useCallback(async (reason: ImpersonationEndReason = 'stopped'): Promise<void> => {
+    const current = impersonation ?? getStoredImpersonation();
+    if (!current) return;
+
+    // End it on the server first so the token is dead even if switching back fails
+    await endImpersonation(current, reason);
+    storeImpersonation(null);
+    setImpersonation(null);
+
+    const result = await refreshSupabaseAuth();
+    setTokenExpiresAt(result.expiresAt ?? null);
+  }, [impersonation]);
+
+  // End the impersonation when its token expires
+  useEffect(() => {
+    if (!impersonation) return;
+
+    const timeout = setTimeout(async () => {
+      await stopImpersonation('expired');
+      toast({
+        title: "Client view ended",
+        description: "The impersonation session expired. You're back in your own account.",
+      });
+    }, Math.max(0, impersonation.expires_at * 1000 - Date.now() - TOKEN_REFRESH_MARGIN_MS));
+
+    return () => clearTimeout(timeout);
+  }, [impersonation, stopImpersonation]);
+
+  const login = async (userData: User, credentials?: LoginCredentials): Promise<void> => {
     try {
-      // Generate new session
-      const sessionId = generateSessionId();
+      // The token endpoint is the only place that can verify a second factor
+      if (userData.two_factor_enabled && !credentials?.two_factor_code) {
+        throw new Error('Two-factor code required');
+      }
+
+      // Get Supabase tokens from the server-side token endpoint
+      let serverSessionId: string | undefined;
+      if (credentials) {
+        const supabaseAuth = await setSupabaseAuth(credentials);
+        serverSessionId = supabaseAuth.sessionId;
+        setTokenExpiresAt(supabaseAuth.expiresAt ?? null);
+        // The endpoint refused the credentials, e.g. a wrong two-factor code or a lockout
+        if (supabaseAuth.rejected) {
+          throw new Error(supabaseAuth.error || 'Invalid phone number or password');
+        }
+        if (!supabaseAuth.success) {
+          console.warn('Failed to set Supabase auth session, but continuing with login');
+        }
+      }
+
+      // Reuse the server-side session ID so this session can be listed and revoked
+      const sessionId = serverSessionId || generateSessionId();
       
       // Store session in Redis (24 hours expiration)
       const sessionStored = await setSession(sessionId, userData.id, 86400);
@@ -98,12 +315,6 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         // Store session ID locally
         storeSessionId(sessionId);
 
-        // Skip Supabase auth session for now since we're using custom auth
-        // const supabaseAuthSet = await setSupabaseAuth(userData);
-        // if (!supabaseAuthSet) {
-        //   console.warn('Failed to set Supabase auth session, but continuing with login');
-        // }
-
         // Update user state
         setUser(userData);
       } else {
@@ -117,6 +328,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const logout = async (): Promise<void> => {
     try {
+      if (impersonation) {
+        await stopImpersonation('logout');
+      }
+
       const sessionId = getStoredSessionId();
       if (sessionId) {
         // Delete session from Redis
@@ -126,37 +341,69 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         removeStoredSessionId();
       }
 
-      // Skip clearing Supabase auth session since we're not using it
-      // await clearSupabaseAuth();
+      // End the server-side session, then clear the Supabase auth session and its refresh token
+      await endCurrentSession();
+      await clearSupabaseAuth();
 
       // Clear user state
       setUser(null);
+      setTokenExpiresAt(null);
     } catch (error) {
       console.error('Logout error:', error);
       // Still clear local state even if Redis cleanup fails
       setUser(null);
+      setTokenExpiresAt(null);
       removeStoredSessionId();
     }
   };
 
+  const handleIdleTimeout = async () => {
+    await logout();
+    toast({
+      title: "Signed out",
+      description: "You were signed out after a period of inactivity.",
+    });
+  };
+
+  const idleTimeout = useIdleTimeout({
+    enabled: !!user,
+    timeoutMs: securitySettings.session_settings.timeout_minutes * 60 * 1000,
+    warningMs: IDLE_WARNING_MS,
+    onTimeout: handleIdleTimeout,
+  });
+
   const updateUser = (updates: Partial<User>): void => {
-    if (user) {
+    if (impersonation) {
+      setImpersonation({ ...impersonation, client: { ...impersonation.client, ...updates } });
+    } else if (user) {
       setUser({ ...user, ...updates });
     }
   };
 
   const value: AuthContextType = {
-    user,
+    user: impersonation ? impersonation.client : user,
+    impersonator: impersonation ? user : null,
+    impersonation,
     isLoading,
     isAuthenticated: !!user,
+    twoFactorSetupRequired,
+    passwordChangeRequired,
     login,
     logout,
     updateUser,
+    startImpersonation,
+    stopImpersonation,
   };
 
   return (
     <AuthContext.Provider value={value}>
       {children}
+      <IdleTimeoutDialog
+        isOpen={!!user && idleTimeout.isWarning}
+        secondsLeft={idleTimeout.secondsLeft}
+        onStaySignedIn={idleTimeout.stayActive}
+        onLogout={logout}
+      />
     </AuthContext.Provider>
   );
 };
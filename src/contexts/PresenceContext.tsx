@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useRef, useCallback, useMemo, ReactNode } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { PresenceContext, PresenceContextType } from '@/hooks/usePresence';
+import {
+  AWAY_AFTER_MS,
+  LAST_SEEN_INTERVAL_MS,
+  STAFF_PRESENCE_CHANNEL,
+  getClientPresenceChannelName,
+  PresencePayload,
+  PresenceStatus,
+  resolvePresenceStatus,
+  touchLastSeen
+} from '@/lib/presence';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+const AWAY_CHECK_INTERVAL_MS = 30 * 1000;
+
+interface PresenceProviderProps {
+  children: ReactNode;
+}
+
+export const PresenceProvider: React.FC<PresenceProviderProps> = ({ children }) => {
+  const { user, impersonation } = useAuth();
+  // Presence state of each joined channel, keyed by channel name
+  const [presentByChannel, setPresentByChannel] = useState<Record<string, Record<string, PresencePayload[]>>>({});
+  const [leftAt, setLeftAt] = useState<Record<string, string>>({});
+  const [watchedClientIds, setWatchedClientIds] = useState<string[]>([]);
+  // The channel this user tracks on: the staff channel for staff, their own for clients
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const watchCountsRef = useRef(new Map<string, number>());
+  const lastActivityRef = useRef(Date.now());
+  const ownStatusRef = useRef<Exclude<PresenceStatus, 'offline'>>('online');
+
+  // Staff viewing as a client watch presence but never show up as that client
+  const isTracking = !!user && !impersonation;
+  const userId = user?.id;
+  const isStaff = !!user?.is_admin;
+
+  const currentStatus = useCallback((): Exclude<PresenceStatus, 'offline'> => {
+    const isIdle = Date.now() - lastActivityRef.current > AWAY_AFTER_MS;
+    return document.visibilityState === 'hidden' || isIdle ? 'away' : 'online';
+  }, []);
+
+  const track = useCallback(async (status: Exclude<PresenceStatus, 'offline'>) => {
+    if (!channelRef.current || !userId) return;
+    ownStatusRef.current = status;
+    await channelRef.current.track({
+      user_id: userId,
+      is_staff: isStaff,
+      status,
+      online_at: new Date().toISOString()
+    } satisfies PresencePayload);
+  }, [userId, isStaff]);
+
+  const joinChannel = useCallback((name: string, onSubscribed?: () => void): RealtimeChannel => {
+    const channel = supabase.channel(name, {
+      config: { private: true, presence: { key: userId } }
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        setPresentByChannel(prev => ({ ...prev, [name]: channel.presenceState<PresencePayload>() }));
+      })
+      .on('presence', { event: 'leave' }, ({ key }) => {
+        if (!channel.presenceState()[key]) {
+          setLeftAt(prev => ({ ...prev, [key]: new Date().toISOString() }));
+        }
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          onSubscribed?.();
+        }
+      });
+
+    return channel;
+  }, [userId]);
+
+  const leaveChannel = useCallback((name: string, channel: RealtimeChannel) => {
+    supabase.removeChannel(channel);
+    setPresentByChannel(prev => {
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+  }, []);
+
+  // Everyone watches the staff channel; staff also track on it
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = joinChannel(STAFF_PRESENCE_CHANNEL, () => {
+      if (isStaff && isTracking) track(currentStatus());
+    });
+    if (isStaff) channelRef.current = channel;
+
+    return () => {
+      if (isStaff) channelRef.current = null;
+      leaveChannel(STAFF_PRESENCE_CHANNEL, channel);
+    };
+  }, [userId, isStaff, isTracking, joinChannel, leaveChannel, track, currentStatus]);
+
+  // Clients track on their own channel, which only they and staff can join
+  useEffect(() => {
+    if (!userId || isStaff) return;
+
+    const name = getClientPresenceChannelName(userId);
+    const channel = joinChannel(name, () => {
+      if (isTracking) track(currentStatus());
+    });
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      leaveChannel(name, channel);
+    };
+  }, [userId, isStaff, isTracking, joinChannel, leaveChannel, track, currentStatus]);
+
+  // Staff join the channels of the clients currently on screen
+  const watchedKey = watchedClientIds.join(',');
+  useEffect(() => {
+    if (!userId || !isStaff || !watchedKey) return;
+
+    const channels = watchedKey.split(',').map(clientId => {
+      const name = getClientPresenceChannelName(clientId);
+      return { name, channel: joinChannel(name) };
+    });
+
+    return () => {
+      channels.forEach(({ name, channel }) => leaveChannel(name, channel));
+    };
+  }, [userId, isStaff, watchedKey, joinChannel, leaveChannel]);
+
+  const watchPresence = useCallback((userIds: string[]) => {
+    const counts = watchCountsRef.current;
+    const update = () => setWatchedClientIds(Array.from(counts.keys()).sort());
+
+    userIds.forEach(id => counts.set(id, (counts.get(id) ?? 0) + 1));
+    update();
+
+    return () => {
+      userIds.forEach(id => {
+        const count = (counts.get(id) ?? 0) - 1;
+        if (count > 0) {
+          counts.set(id, count);
+        } else {
+          counts.delete(id);
+        }
+      });
+      update();
+    };
+  }, []);
+
+  // Switch between online and away as the tab is hidden or left idle
+  useEffect(() => {
+    if (!isTracking) return;
+
+    const updateStatus = () => {
+      const status = currentStatus();
+      if (status !== ownStatusRef.current) {
+        track(status);
+      }
+    };
+
+    const handleActivity = () => {
+      lastActivityRef.current = Date.now();
+      if (ownStatusRef.current === 'away' && document.visibilityState === 'visible') {
+        track('online');
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', updateStatus);
+    const interval = setInterval(updateStatus, AWAY_CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', updateStatus);
+      clearInterval(interval);
+    };
+  }, [isTracking, track, currentStatus]);
+
+  // Keep last_seen_at fresh while the user is around, and stamp it as they leave
+  useEffect(() => {
+    if (!isTracking) return;
+
+    touchLastSeen();
+    const interval = setInterval(() => {
+      if (ownStatusRef.current === 'online') {
+        touchLastSeen();
+      }
+    }, LAST_SEEN_INTERVAL_MS);
+    window.addEventListener('pagehide', touchLastSeen);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('pagehide', touchLastSeen);
+      touchLastSeen();
+    };
+  }, [isTracking]);
+
+  const present = useMemo(() => {
+    const merged: Record<string, PresencePayload[]> = {};
+    Object.values(presentByChannel).forEach(state => {
+      Object.entries(state).forEach(([id, entries]) => {
+        merged[id] = [...(merged[id] ?? []), ...entries];
+      });
+    });
+    return merged;
+  }, [presentByChannel]);
+
+  const getStatus = useCallback((id: string): PresenceStatus => {
+    return resolvePresenceStatus(present[id] ?? []);
+  }, [present]);
+
+  const teamStatus = resolvePresenceStatus(
+    Object.values(presentByChannel[STAFF_PRESENCE_CHANNEL] ?? {}).flat().filter(entry => entry.is_staff)
+  );
+
+  const getLastSeen = useCallback((id: string, storedLastSeen?: string | null): string | null => {
+    const left = leftAt[id];
+    if (left && (!storedLastSeen || left > storedLastSeen)) return left;
+    return storedLastSeen ?? null;
+  }, [leftAt]);
+
+  const value: PresenceContextType = {
+    getStatus,
+    teamStatus,
+    getLastSeen,
+    watchPresence
+  };
+
+  return <PresenceContext.Provider value={value}>{children}</PresenceContext.Provider>;
+};
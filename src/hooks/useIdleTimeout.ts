@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+// Last activity is shared through localStorage so activity in any tab keeps every tab signed in
+const LAST_ACTIVITY_KEY = 'lastActivityAt';
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+const ACTIVITY_THROTTLE_MS = 5000;
+const CHECK_INTERVAL_MS = 1000;
+
+interface UseIdleTimeoutOptions {
+  enabled: boolean;
+  timeoutMs: number;
+  warningMs: number;
+  onTimeout: () => void;
+}
+
+const getLastActivity = (): number => {
+  return parseInt(localStorage.getItem(LAST_ACTIVITY_KEY) || '', 10) || Date.now();
+};
+
+const recordActivity = () => {
+  localStorage.setItem(LAST_ACTIVITY_KEY, Date.now().toString());
+};
+
+/**
+ * Hook that signs the user out after a period without keyboard, mouse or touch activity
+ * Returns whether the "about to time out" warning should be shown and the seconds left
+ */
+export const useIdleTimeout = ({ enabled, timeoutMs, warningMs, onTimeout }: UseIdleTimeoutOptions) => {
+  const [isWarning, setIsWarning] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const onTimeoutRef = useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
+
+  const stayActive = useCallback(() => {
+    recordActivity();
+    setIsWarning(false);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || timeoutMs <= 0) {
+      setIsWarning(false);
+      return;
+    }
+
+    recordActivity();
+    let lastRecorded = Date.now();
+    // Sign out only once, even if signing out takes longer than a check interval
+    let hasTimedOut = false;
+
+    const handleActivity = () => {
+      if (Date.now() - lastRecorded < ACTIVITY_THROTTLE_MS) return;
+      lastRecorded = Date.now();
+
+      // While the warning is showing only the explicit "stay signed in" choice counts
+      if (Date.now() - getLastActivity() < timeoutMs - warningMs) {
+        recordActivity();
+      }
+    };
+
+    const checkIdle = () => {
+      if (hasTimedOut) return;
+
+      const remaining = timeoutMs - (Date.now() - getLastActivity());
+      if (remaining <= 0) {
+        hasTimedOut = true;
+        clearInterval(interval);
+        setIsWarning(false);
+        onTimeoutRef.current();
+        return;
+      }
+
+      setIsWarning(remaining <= warningMs);
+      setSecondsLeft(Math.ceil(remaining / 1000));
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    const interval = setInterval(checkIdle, CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      clearInterval(interval);
+    };
+  }, [enabled, timeoutMs, warningMs]);
+
+  return { isWarning, secondsLeft, stayActive };
+};
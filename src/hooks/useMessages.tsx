@@ -1,24 +1,41 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
-import { subscribeToMessages, publishMessage } from '@/lib/redis';
-import { notifyClientOfMessage } from '@/lib/notifications';
-
-// Local storage utilities for client-side message persistence
-const MESSAGES_STORAGE_KEY = 'client_messages';
+import { subscribeToMessageRoom, publishMessage, publishMessageUpdate, Subscription } from '@/lib/redis';
+import { MessageUpdatedPayload } from '@/lib/events';
+import { markMessagesRead } from '@/lib/messageReceipts';
+import { editMessage as editMessageContent, deleteMessage as deleteMessageContent } from '@/lib/messageEdits';
+import { getMessageLink, notifyClientOfMessage } from '@/lib/notifications';
+import { getInboxRecipientId } from '@/lib/inbox';
+import {
+  MessageAttachment,
+  removeUploadedAttachments,
+  sendMessageWithAttachments,
+  uploadAttachments
+} from '@/lib/messageAttachments';
+
+// Messages are loaded newest first, a page at a time
+export const MESSAGE_PAGE_SIZE = 50;
+
+// Local storage utilities for client-side message persistence. Only the latest page of each
+// conversation is kept, so the cache stays small however long the history grows.
+const MESSAGES_STORAGE_PREFIX = 'client_messages:';
+const LEGACY_MESSAGES_STORAGE_KEY = 'client_messages';
 const CONVERSATIONS_STORAGE_KEY = 'client_conversations';
 
-const saveMessagesToStorage = (messages: Message[]) => {
+const saveMessagesToStorage = (cacheKey: string, messages: Message[]) => {
   try {
-    localStorage.setItem(MESSAGES_STORAGE_KEY, JSON.stringify(messages));
+    localStorage.setItem(cacheKey, JSON.stringify(messages.slice(-MESSAGE_PAGE_SIZE)));
   } catch (error) {
     console.error('Error saving messages to localStorage:', error);
   }
 };
 
-const loadMessagesFromStorage = (): Message[] => {
+const loadMessagesFromStorage = (cacheKey: string | null): Message[] => {
   try {
-    const stored = localStorage.getItem(MESSAGES_STORAGE_KEY);
+    // Earlier versions mirrored every loaded message under one key
+    localStorage.removeItem(LEGACY_MESSAGES_STORAGE_KEY);
+    const stored = cacheKey ? localStorage.getItem(cacheKey) : null;
     return stored ? JSON.parse(stored) : [];
   } catch (error) {
     console.error('Error loading messages from localStorage:', error);
@@ -44,6 +61,15 @@ const loadConversationsFromStorage = (): Conversation[] => {
   }
 };
 
+// Whether opening a conversation should mark a message as read by this user. Staff share the
+// inbox, so a client's message is theirs to read even when it was routed to a colleague.
+const isReadableInInbox = (
+  user: { id: string; is_admin?: boolean | null },
+  message: { receiver_id?: string; sender?: { is_admin?: boolean | null } | null }
+): boolean => {
+  return message.receiver_id === user.id || (!!user.is_admin && !message.sender?.is_admin);
+};
+
 export interface Message {
   id: string;
   sender_id: string;
@@ -51,10 +77,19 @@ export interface Message {
   content: string;
   is_read: boolean;
   created_at: string;
+  delivered_at?: string | null;
+  read_at?: string | null;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  project_id?: string | null;
   sender?: {
     full_name: string;
     is_admin: boolean;
   };
+  project?: {
+    name: string;
+  } | null;
+  attachments?: MessageAttachment[];
 }
 
 export interface Conversation {
@@ -67,144 +102,337 @@ export interface Conversation {
   is_admin: boolean;
 }
 
-export const useMessages = (conversationUserId?: string) => {
+// Clients message the team as a whole through this placeholder instead of a staff member's id
+export const TEAM_CONVERSATION_ID = 'admin';
+
+// Unread messages addressed to the current user, counted per project thread
+export const useProjectUnreadCounts = () => {
+  const { user } = useAuth();
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+
+  const fetchUnreadCounts = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('messages')
+      .select('project_id')
+      .eq('receiver_id', user.id)
+      .eq('is_read', false)
+      .not('project_id', 'is', null);
+
+    if (error) {
+      console.error('Error fetching unread counts:', error);
+      return;
+    }
+
+    const counts: Record<string, number> = {};
+    data?.forEach(message => {
+      counts[message.project_id] = (counts[message.project_id] || 0) + 1;
+    });
+    setUnreadCounts(counts);
+  }, [user]);
+
+  useEffect(() => {
+    fetchUnreadCounts();
+  }, [fetchUnreadCounts]);
+
+  return { unreadCounts, refetchUnreadCounts: fetchUnreadCounts };
+};
+
+// Unread messages addressed to a client across every thread, kept current as messages arrive and are read
+export const useUnreadMessageCount = () => {
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchUnreadCount = useCallback(async () => {
+    if (!user) return;
+
+    const { count, error } = await supabase
+      .from('messages')
+      .select('id', { count: 'exact', head: true })
+      .eq('receiver_id', user.id)
+      .eq('is_read', false);
+
+    if (error) {
+      console.error('Error fetching unread message count:', error);
+      return;
+    }
+
+    setUnreadCount(count || 0);
+  }, [user]);
+
+  useEffect(() => {
+    fetchUnreadCount();
+    if (!user || user.is_admin) return;
+
+    // A client's room carries both new messages and the receipts sent as they are read
+    let subscriber: Subscription | null = null;
+    let isCancelled = false;
+
+    subscribeToMessageRoom(user.id, {
+      'message.created': fetchUnreadCount,
+      'message.receipts': fetchUnreadCount
+    }).then(result => {
+      if (isCancelled) {
+        result?.unsubscribe();
+      } else {
+        subscriber = result;
+      }
+    });
+
+    return () => {
+      isCancelled = true;
+      subscriber?.unsubscribe();
+    };
+  }, [user, fetchUnreadCount]);
+
+  return { unreadCount, refetchUnreadCount: fetchUnreadCount };
+};
+
+/**
+ * Messages between the current user and `conversationUserId`
+ * `projectId` narrows the conversation to one thread: a project id for that project's thread,
+ * null for the general thread, or undefined for every thread together
+ */
+export const useMessages = (conversationUserId?: string, projectId?: string | null) => {
   const { user } = useAuth();
-  const [messages, setMessages] = useState<Message[]>(() => loadMessagesFromStorage());
+  const isTeamConversation = conversationUserId === TEAM_CONVERSATION_ID;
+
+  // Each client has one real-time room shared by every staff member; threads are filtered on arrival
+  const getRoomId = useCallback(() => {
+    return user?.is_admin ? conversationUserId : user?.id;
+  }, [user, conversationUserId]);
+
+  const cacheKey = useMemo(() => {
+    if (!user || !conversationUserId) return null;
+    const roomId = user.is_admin ? conversationUserId : user.id;
+    const thread = projectId === undefined ? 'all' : projectId ?? 'general';
+    return `${MESSAGES_STORAGE_PREFIX}${user.id}:${roomId}:${thread}`;
+  }, [user, conversationUserId, projectId]);
+
+  const [messages, setMessages] = useState<Message[]>(() => loadMessagesFromStorage(cacheKey));
   const [conversations, setConversations] = useState<Conversation[]>(() => loadConversationsFromStorage());
   const [isLoading, setIsLoading] = useState(true);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
   const [isSending, setIsSending] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+
+  const cacheMessages = useCallback((messagesToCache: Message[]) => {
+    if (cacheKey) {
+      saveMessagesToStorage(cacheKey, messagesToCache);
+    }
+  }, [cacheKey]);
 
-  // Generate room ID for two users
-  const getRoomId = useCallback((userId1: string, userId2: string) => {
-    return [userId1, userId2].sort().join('-');
-  }, []);
+  const isInThread = useCallback((message: Pick<Message, 'project_id'>) => {
+    if (projectId === undefined) return true;
+    return (message.project_id ?? null) === projectId;
+  }, [projectId]);
 
-  // Fetch conversations (for admin)
+  // Fetch conversations (for admin): one summary row per client, built by the database
   const fetchConversations = useCallback(async () => {
     if (!user?.is_admin) return;
 
     try {
       const { data, error } = await supabase
-        .from('messages')
-        .select(`
-          sender_id,
-          receiver_id,
-          content,
-          created_at,
-          is_read,
-          sender:users!messages_sender_id_fkey(full_name, company_name, is_admin),
-          receiver:users!messages_receiver_id_fkey(full_name, company_name, is_admin)
-        `)
-        .order('created_at', { ascending: false });
+        .from('conversation_summaries')
+        .select('*')
+        .order('last_message_at', { ascending: false });
 
       if (error) {
         console.error('Error fetching conversations:', error);
         return;
       }
 
-      // Group messages by conversation
-      const conversationMap = new Map<string, Conversation>();
-
-      data?.forEach((message: any) => {
-        const otherUser = message.sender.is_admin ? message.receiver : message.sender;
-        const otherUserId = message.sender.is_admin ? message.receiver_id : message.sender_id;
-        
-        if (!otherUser.is_admin) {
-          const existing = conversationMap.get(otherUserId);
-          
-          if (!existing || new Date(message.created_at) > new Date(existing.last_message_time)) {
-            conversationMap.set(otherUserId, {
-              user_id: otherUserId,
-              user_name: otherUser.full_name || 'Unknown User',
-              user_company: otherUser.company_name || '',
-              last_message: message.content,
-              last_message_time: message.created_at,
-              unread_count: 0, // TODO: Calculate unread count
-              is_admin: false
-            });
-          }
-        }
-      });
-
-      setConversations(Array.from(conversationMap.values()));
+      const conversationsData: Conversation[] = (data || []).map(summary => ({
+        user_id: summary.client_id,
+        user_name: summary.client_name || 'Unknown User',
+        user_company: summary.client_company || '',
+        last_message: summary.last_message_deleted_at ? 'Message deleted' : summary.last_message_content || '',
+        last_message_time: summary.last_message_at,
+        unread_count: summary.unread_count || 0,
+        is_admin: false
+      }));
+
+      setConversations(conversationsData);
+      saveConversationsToStorage(conversationsData);
     } catch (error) {
       console.error('Error fetching conversations:', error);
     }
   }, [user]);
 
-  // Fetch messages for a specific conversation
+  // One page of the conversation, newest first, older than `before` when given
+  const fetchMessagePage = useCallback(async (before?: Pick<Message, 'id' | 'created_at'>) => {
+    if (!user || !conversationUserId) return { data: [] as Message[], error: null };
+
+    // Staff share each client's conversation, so every message to or from the client belongs to it.
+    // A client's team conversation is likewise everything they have sent or received.
+    const participantId = user.is_admin ? conversationUserId : user.id;
+    const participantsFilter = user.is_admin || isTeamConversation
+      ? `sender_id.eq.${participantId},receiver_id.eq.${participantId}`
+      : `and(sender_id.eq.${user.id},receiver_id.eq.${conversationUserId}),and(sender_id.eq.${conversationUserId},receiver_id.eq.${user.id})`;
+
+    let query = supabase
+      .from('messages')
+      .select(`
+        *,
+        sender:users!messages_sender_id_fkey(full_name, is_admin),
+        project:projects(name),
+        attachments:message_attachments(*)
+      `)
+      .or(participantsFilter);
+
+    if (projectId !== undefined) {
+      query = projectId === null ? query.is('project_id', null) : query.eq('project_id', projectId);
+    }
+
+    // Messages sharing a timestamp are ordered by id, so the cursor never skips or repeats one
+    if (before) {
+      query = query.or(
+        `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+      );
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(MESSAGE_PAGE_SIZE);
+
+    return { data: ((data || []) as Message[]).reverse(), error };
+  }, [user, conversationUserId, projectId, isTeamConversation]);
+
+  const markPageRead = useCallback(async (page: Message[]) => {
+    if (!user) return;
+
+    const unreadMessages = page.filter(msg =>
+      isReadableInInbox(user, msg) && (!msg.is_read || !msg.delivered_at)
+    );
+    await markMessagesRead(user, unreadMessages.map(msg => msg.id));
+  }, [user]);
+
+  // Fetch the latest page of a specific conversation
   const fetchMessages = useCallback(async () => {
     if (!user || !conversationUserId) return;
 
     try {
-      // Try with foreign key join first, fallback to basic query if it fails
-      let data, error;
-      try {
-        const result = await supabase
-          .from('messages')
-          .select(`
-            *,
-            sender:users!messages_sender_id_fkey(full_name, is_admin)
-          `)
-          .or(`and(sender_id.eq.${user.id},receiver_id.eq.${conversationUserId}),and(sender_id.eq.${conversationUserId},receiver_id.eq.${user.id})`)
-          .order('created_at', { ascending: true });
-
-        data = result.data;
-        error = result.error;
-      } catch (joinError) {
-        console.warn('Foreign key join failed, falling back to basic query:', joinError);
-        // Fallback to basic query without foreign key join
-        const result = await supabase
-          .from('messages')
-          .select('*')
-          .or(`and(sender_id.eq.${user.id},receiver_id.eq.${conversationUserId}),and(sender_id.eq.${conversationUserId},receiver_id.eq.${user.id})`)
-          .order('created_at', { ascending: true });
-
-        data = result.data;
-        error = result.error;
-      }
+      const { data, error } = await fetchMessagePage();
 
       if (error) {
         console.error('Error fetching messages:', error);
       } else {
-        const messagesData = data || [];
-        setMessages(messagesData);
-        saveMessagesToStorage(messagesData);
-
-        // Mark messages as read
-        const unreadMessages = messagesData.filter(msg =>
-          msg.receiver_id === user.id && !msg.is_read
-        );
-
-        if (unreadMessages && unreadMessages.length > 0) {
-          await supabase
-            .from('messages')
-            .update({ is_read: true })
-            .in('id', unreadMessages.map(msg => msg.id));
-        }
+        setMessages(data);
+        setHasOlderMessages(data.length === MESSAGE_PAGE_SIZE);
+        cacheMessages(data);
+        await markPageRead(data);
       }
     } catch (error) {
       console.error('Error fetching messages:', error);
     } finally {
       setIsLoading(false);
     }
-  }, [user, conversationUserId]);
+  }, [user, conversationUserId, fetchMessagePage, cacheMessages, markPageRead]);
+
+  // Load the page before the oldest message shown, e.g. when the user scrolls to the top
+  const loadOlderMessages = useCallback(async () => {
+    const oldest = messages[0];
+    if (!oldest || !hasOlderMessages || isLoadingOlder) return;
+
+    setIsLoadingOlder(true);
+    try {
+      const { data, error } = await fetchMessagePage(oldest);
+
+      if (error) {
+        console.error('Error fetching older messages:', error);
+        return;
+      }
+
+      setMessages(prev => {
+        const known = new Set(prev.map(message => message.id));
+        return [...data.filter(message => !known.has(message.id)), ...prev];
+      });
+      setHasOlderMessages(data.length === MESSAGE_PAGE_SIZE);
+      await markPageRead(data);
+    } catch (error) {
+      console.error('Error fetching older messages:', error);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [messages, hasOlderMessages, isLoadingOlder, fetchMessagePage, markPageRead]);
+
+  // Apply an edit or delete to the open conversation and the cached copy in storage
+  const applyMessageUpdate = useCallback((update: MessageUpdatedPayload) => {
+    setMessages(prev => {
+      if (!prev.some(message => message.id === update.id)) return prev;
+
+      const updatedMessages = prev.map(message =>
+        message.id === update.id
+          ? {
+              ...message,
+              content: update.content,
+              edited_at: update.edited_at,
+              deleted_at: update.deleted_at,
+              attachments: update.deleted_at ? [] : message.attachments
+            }
+          : message
+      );
+      cacheMessages(updatedMessages);
+      return updatedMessages;
+    });
+  }, [cacheMessages]);
+
+  // Show the cached latest page straight away when switching conversation or thread
+  useEffect(() => {
+    setMessages(loadMessagesFromStorage(cacheKey));
+    setHasOlderMessages(false);
+  }, [cacheKey]);
 
   // Subscribe to real-time messages
   useEffect(() => {
     if (!user || !conversationUserId) return;
 
     let subscriber: any = null;
-    const roomId = getRoomId(user.id, conversationUserId);
+    const roomId = getRoomId();
 
     const setupSubscription = async () => {
       try {
-        subscriber = await subscribeToMessages(roomId, (message) => {
-          setMessages(prev => {
-            const updatedMessages = [...prev, message];
-            saveMessagesToStorage(updatedMessages);
-            return updatedMessages;
-          });
+        subscriber = await subscribeToMessageRoom(roomId, {
+          'message.created': (message) => {
+            if (!isInThread(message)) return;
+
+            setMessages(prev => {
+              if (prev.some(existing => existing.id === message.id)) return prev;
+
+              // The schema lists every attachment column, so the payload carries the full message
+              const updatedMessages = [...prev, message as Message];
+              cacheMessages(updatedMessages);
+              return updatedMessages;
+            });
+
+            // The conversation is open, so an incoming message is read as it arrives
+            if (isReadableInInbox(user, message)) {
+              markMessagesRead(user, [message.id]);
+            }
+          },
+          'message.updated': (update) => {
+            applyMessageUpdate(update);
+          },
+          'message.receipts': ({ receipts }) => {
+            const byId = new Map(receipts.map(receipt => [receipt.id, receipt]));
+            setMessages(prev => {
+              const updatedMessages = prev.map(message => {
+                const receipt = byId.get(message.id);
+                return receipt
+                  ? {
+                      ...message,
+                      delivered_at: receipt.delivered_at ?? message.delivered_at,
+                      read_at: receipt.read_at ?? message.read_at
+                    }
+                  : message;
+              });
+              cacheMessages(updatedMessages);
+              return updatedMessages;
+            });
+          }
         });
       } catch (error) {
         console.error('Error setting up message subscription:', error);
@@ -219,7 +447,7 @@ export const useMessages = (conversationUserId?: string) => {
         subscriber.unsubscribe();
       }
     };
-  }, [user, conversationUserId, getRoomId, fetchMessages]);
+  }, [user, conversationUserId, getRoomId, isInThread, fetchMessages, applyMessageUpdate, cacheMessages]);
 
   // Fetch conversations on mount (for admin)
   useEffect(() => {
@@ -229,11 +457,12 @@ export const useMessages = (conversationUserId?: string) => {
     }
   }, [user, conversationUserId, fetchConversations]);
 
-  // Send message
-  const sendMessage = async (content: string): Promise<boolean> => {
-    if (!user || !content.trim()) return false;
+  // Send message, optionally with files (uploaded first, and removed again if the send fails)
+  const sendMessage = async (content: string, files: File[] = []): Promise<boolean> => {
+    if (!user || (!content.trim() && files.length === 0)) return false;
 
     setIsSending(true);
+    setSendError(null);
     try {
       let receiverId: string;
 
@@ -241,54 +470,62 @@ export const useMessages = (conversationUserId?: string) => {
         // Admin sending to specific client
         receiverId = conversationUserId;
       } else {
-        // Client sending to admin - get first admin user ID
-        const { data: adminUsers, error: adminError } = await supabase
-          .from('users')
-          .select('id')
-          .eq('is_admin', true)
-          .limit(1);
-
-        if (adminError || !adminUsers || adminUsers.length === 0) {
-          console.error('Error finding admin user:', adminError);
+        // Client sending to the team - addressed to whoever the shared inbox assigns the conversation to
+        const recipientId = await getInboxRecipientId();
+        if (!recipientId) {
+          setSendError('No one on the team is available to receive messages right now');
           return false;
         }
 
-        receiverId = adminUsers[0].id;
+        receiverId = recipientId;
+      }
+
+      const upload = await uploadAttachments(user.id, files);
+      if (!upload.success || !upload.data) {
+        setSendError(upload.error || 'Failed to upload attachments');
+        return false;
+      }
+
+      // Save the message and its attachments together
+      const sent = await sendMessageWithAttachments(receiverId, content.trim(), projectId ?? null, upload.data);
+      if (!sent.success || !sent.data) {
+        await removeUploadedAttachments(upload.data);
+        setSendError(sent.error || 'Failed to send message');
+        return false;
       }
 
-      // Save to database
       const { data: message, error } = await supabase
         .from('messages')
-        .insert({
-          sender_id: user.id,
-          receiver_id: receiverId,
-          content: content.trim(),
-          is_read: false
-        })
         .select(`
           *,
-          sender:users!messages_sender_id_fkey(full_name, is_admin)
+          sender:users!messages_sender_id_fkey(full_name, is_admin),
+          project:projects(name),
+          attachments:message_attachments(*)
         `)
+        .eq('id', sent.data)
         .single();
 
       if (error) {
-        console.error('Error sending message:', error);
-        return false;
+        // The message is saved either way, so reload the conversation rather than offer a resend
+        console.error('Error loading sent message:', error);
+        await fetchMessages();
+        return true;
       }
+      const sentMessage = message as Message;
 
       // Add to local state and save to storage
-      const updatedMessages = [...messages, message];
+      const updatedMessages = [...messages, sentMessage];
       setMessages(updatedMessages);
-      saveMessagesToStorage(updatedMessages);
+      cacheMessages(updatedMessages);
 
-      // Publish real-time message
-      const roomId = getRoomId(user.id, receiverId);
-      await publishMessage(roomId, message);
+      // Publish real-time message (copied, so it fits the payload type's open set of row columns)
+      await publishMessage(getRoomId(), { ...sentMessage });
 
       // Send notification to receiver
       await notifyClientOfMessage(
         receiverId,
-        user.full_name || (user.is_admin ? 'Admin' : 'Client')
+        user.full_name || (user.is_admin ? 'Admin' : 'Client'),
+        getMessageLink(message.id, user.is_admin ? undefined : user.id)
       );
 
       return true;
@@ -300,12 +537,64 @@ export const useMessages = (conversationUserId?: string) => {
     }
   };
 
+  // Edit one of the user's own messages within the edit window
+  const editMessage = async (messageId: string, content: string): Promise<{ success: boolean; error?: string }> => {
+    if (!user || !content.trim()) return { success: false };
+
+    const result = await editMessageContent(messageId, content.trim());
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    const update: MessageUpdatedPayload = {
+      id: messageId,
+      content: result.data.content,
+      edited_at: result.data.edited_at,
+      deleted_at: null
+    };
+    applyMessageUpdate(update);
+    await publishMessageUpdate(getRoomId(), update);
+    return { success: true };
+  };
+
+  // Delete one of the user's own messages; it stays in the conversation as a placeholder
+  const deleteMessage = async (messageId: string): Promise<{ success: boolean; error?: string }> => {
+    if (!user) return { success: false };
+
+    const result = await deleteMessageContent(messageId);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    const existing = messages.find(message => message.id === messageId);
+    const update: MessageUpdatedPayload = {
+      id: messageId,
+      content: '',
+      edited_at: existing?.edited_at ?? null,
+      deleted_at: result.data.deleted_at
+    };
+    applyMessageUpdate(update);
+    await publishMessageUpdate(getRoomId(), update);
+
+    // The attachment rows went with the message; clear out their files too
+    if (existing?.attachments?.length) {
+      await removeUploadedAttachments(existing.attachments);
+    }
+    return { success: true };
+  };
+
   return {
     messages,
     conversations,
     isLoading,
     isSending,
+    sendError,
+    hasOlderMessages,
+    isLoadingOlder,
+    loadOlderMessages,
     sendMessage,
+    editMessage,
+    deleteMessage,
     refetchConversations: fetchConversations,
     refetchMessages: fetchMessages
   };
@@ -3,6 +3,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { subscribeToNotifications, publishNotification } from '@/lib/redis';
 import { useToast } from '@/hooks/use-toast';
+import { markMessagesDelivered } from '@/lib/messageReceipts';
 
 export interface Notification {
   id: string;
@@ -12,6 +13,7 @@ export interface Notification {
   message: string;
   is_read: boolean;
   created_at: string;
+  link?: string | null;
 }
 
 export const useNotifications = () => {
@@ -55,8 +57,13 @@ export const useNotifications = () => {
     const setupSubscription = async () => {
       try {
         subscriber = await subscribeToNotifications(user.id, (notification) => {
+          // A message notification means the message itself has reached this tab
+          if (notification.type === 'message') {
+            markMessagesDelivered(user);
+          }
+
           // Add new notification to state
-          setNotifications(prev => [notification, ...prev]);
+          setNotifications(prev => [notification as Notification, ...prev]);
           setUnreadCount(prev => prev + 1);
           
           // Show toast notification
@@ -72,6 +79,7 @@ export const useNotifications = () => {
 
     setupSubscription();
     fetchNotifications();
+    markMessagesDelivered(user);
 
     return () => {
       if (subscriber && subscriber.unsubscribe) {
@@ -0,0 +1,23 @@
+import { useState, useEffect } from 'react';
+import { DEFAULT_PASSWORD_POLICY, PasswordPolicy, loadPasswordPolicy } from '@/lib/passwordPolicy';
+
+/**
+ * Hook that loads the live password policy, starting from the defaults until it arrives
+ */
+export const usePasswordPolicy = (): PasswordPolicy => {
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    loadPasswordPolicy().then(loadedPolicy => {
+      if (!isCancelled) setPolicy(loadedPolicy);
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  return policy;
+};
@@ -0,0 +1,27 @@
+import { useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Permission, hasPermission, resolveRole } from '@/lib/permissions';
+
+/**
+ * Hook that checks a single permission for the signed-in user
+ */
+export const usePermission = (permission: Permission): boolean => {
+  const { user } = useAuth();
+  return hasPermission(user, permission);
+};
+
+/**
+ * Hook for components that check several permissions
+ */
+export const usePermissions = () => {
+  const { user } = useAuth();
+
+  const can = useCallback((permission: Permission): boolean => {
+    return hasPermission(user, permission);
+  }, [user]);
+
+  return {
+    role: user ? resolveRole(user) : null,
+    can
+  };
+};
@@ -0,0 +1,69 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { PresenceStatus } from '@/lib/presence';
+
+// Presence state shared by `PresenceProvider` (src/contexts/PresenceContext.tsx); kept out of that
+// file so it only exports components and fast refresh keeps working.
+
+export interface PresenceContextType {
+  getStatus: (userId: string) => PresenceStatus;
+  // Best status among staff members, for clients who message the team as a whole
+  teamStatus: PresenceStatus;
+  // When a user seen during this page load went offline, if more recent than the stored value
+  getLastSeen: (userId: string, storedLastSeen?: string | null) => string | null;
+  // Staff only see a client's presence while watching it; returns a function that stops watching
+  watchPresence: (userIds: string[]) => () => void;
+}
+
+export const PresenceContext = createContext<PresenceContextType | undefined>(undefined);
+
+export const usePresence = () => {
+  const context = useContext(PresenceContext);
+  if (context === undefined) {
+    throw new Error('usePresence must be used within a PresenceProvider');
+  }
+  return context;
+};
+
+// Watch the presence of the given users for as long as the calling component is mounted
+export const useWatchPresence = (userIds: string[]) => {
+  const { watchPresence } = usePresence();
+  const key = userIds.join(',');
+
+  useEffect(() => {
+    if (!key) return;
+    return watchPresence(key.split(','));
+  }, [key, watchPresence]);
+};
+
+// Status and last-seen time for a single user, loading the stored last-seen time on first use
+export const useUserPresence = (userId: string | undefined) => {
+  const { getStatus, getLastSeen } = usePresence();
+  const [storedLastSeen, setStoredLastSeen] = useState<string | null>(null);
+  useWatchPresence(userId ? [userId] : []);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let isCancelled = false;
+    supabase
+      .from('users')
+      .select('last_seen_at')
+      .eq('id', userId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (!isCancelled) {
+          setStoredLastSeen(data?.last_seen_at ?? null);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [userId]);
+
+  return {
+    status: userId ? getStatus(userId) : 'offline' as PresenceStatus,
+    lastSeenAt: userId ? getLastSeen(userId, storedLastSeen) : null
+  };
+};
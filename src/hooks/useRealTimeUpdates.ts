@@ -1,43 +1,34 @@
 import { useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { subscribeToUserEvents, Subscription } from '@/lib/redis';
+import { parseTableChange } from '@/lib/events';
+import type { ChangeTable, EventHandlers, TableChange } from '@/lib/events';
 
 export interface RealTimeSubscription {
   unsubscribe: () => void;
 }
 
 /**
- * Hook for real-time system alerts updates
+ * Hook for changes to one table, checked against its row schema in src/lib/events.ts.
+ * Pass a memoized callback; malformed changes never reach it.
  */
-export const useRealTimeSystemAlerts = (onUpdate: (payload: any) => void) => {
-  const { toast } = useToast();
-
+export const useRealTimeTable = <T extends ChangeTable>(table: T, onUpdate: (change: TableChange<T>) => void) => {
   useEffect(() => {
     const subscription = supabase
-      .channel('system_alerts_changes')
+      .channel(`${table}_changes`)
       .on(
         'postgres_changes',
         {
           event: '*',
           schema: 'public',
-          table: 'system_alerts'
+          table
         },
         (payload) => {
-          console.log('System alert change:', payload);
-          
-          // Show toast for new alerts
-          if (payload.eventType === 'INSERT' && payload.new) {
-            const alert = payload.new;
-            if (alert.is_active && alert.target_audience !== 'clients') {
-              toast({
-                title: `New ${alert.type} Alert`,
-                description: alert.title,
-                variant: alert.priority === 'critical' || alert.priority === 'high' ? 'destructive' : 'default',
-              });
-            }
+          const change = parseTableChange(table, payload);
+          if (change) {
+            onUpdate(change);
           }
-          
-          onUpdate(payload);
         }
       )
       .subscribe();
@@ -45,263 +36,173 @@ export const useRealTimeSystemAlerts = (onUpdate: (payload: any) => void) => {
     return () => {
       subscription.unsubscribe();
     };
-  }, [onUpdate, toast]);
+  }, [table, onUpdate]);
 };
 
 /**
- * Hook for real-time security alerts updates
+ * Hook for real-time system alerts updates
  */
-export const useRealTimeSecurityAlerts = (onUpdate: (payload: any) => void) => {
+export const useRealTimeSystemAlerts = (onUpdate: (change: TableChange<'system_alerts'>) => void) => {
   const { toast } = useToast();
 
-  useEffect(() => {
-    const subscription = supabase
-      .channel('security_alerts_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'security_alerts'
-        },
-        (payload) => {
-          console.log('Security alert change:', payload);
-          
-          // Show toast for new high-severity security alerts
-          if (payload.eventType === 'INSERT' && payload.new) {
-            const alert = payload.new;
-            if (alert.severity === 'high' || alert.severity === 'critical') {
-              toast({
-                title: `Security Alert: ${alert.title}`,
-                description: alert.description,
-                variant: 'destructive',
-              });
-            }
-          }
-          
-          onUpdate(payload);
-        }
-      )
-      .subscribe();
+  useRealTimeTable('system_alerts', useCallback((change: TableChange<'system_alerts'>) => {
+    // Show toast for new alerts
+    if (change.eventType === 'INSERT') {
+      const alert = change.row;
+      if (alert.is_active && alert.target_audience !== 'clients') {
+        toast({
+          title: `New ${alert.type} Alert`,
+          description: alert.title,
+          variant: alert.priority === 'critical' || alert.priority === 'high' ? 'destructive' : 'default',
+        });
+      }
+    }
+
+    onUpdate(change);
+  }, [onUpdate, toast]));
+};
 
-    return () => {
-      subscription.unsubscribe();
-    };
-  }, [onUpdate, toast]);
+/**
+ * Hook for real-time security alerts updates
+ */
+export const useRealTimeSecurityAlerts = (onUpdate: (change: TableChange<'security_alerts'>) => void) => {
+  const { toast } = useToast();
+
+  useRealTimeTable('security_alerts', useCallback((change: TableChange<'security_alerts'>) => {
+    // Show toast for new high-severity security alerts
+    if (change.eventType === 'INSERT') {
+      const alert = change.row;
+      if (alert.severity === 'high' || alert.severity === 'critical') {
+        toast({
+          title: `Security Alert: ${alert.title}`,
+          description: alert.description,
+          variant: 'destructive',
+        });
+      }
+    }
+
+    onUpdate(change);
+  }, [onUpdate, toast]));
 };
 
 /**
  * Hook for real-time broadcast updates
  */
-export const useRealTimeBroadcasts = (onUpdate: (payload: any) => void) => {
-  useEffect(() => {
-    const subscription = supabase
-      .channel('broadcasts_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'broadcasts'
-        },
-        (payload) => {
-          console.log('Broadcast change:', payload);
-          onUpdate(payload);
-        }
-      )
-      .subscribe();
-
-    return () => {
-      subscription.unsubscribe();
-    };
-  }, [onUpdate]);
+export const useRealTimeBroadcasts = (onUpdate: (change: TableChange<'broadcasts'>) => void) => {
+  useRealTimeTable('broadcasts', onUpdate);
 };
 
 /**
  * Hook for real-time project updates
  */
-export const useRealTimeProjects = (onUpdate: (payload: any) => void) => {
-  useEffect(() => {
-    const subscription = supabase
-      .channel('projects_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'projects'
-        },
-        (payload) => {
-          console.log('Project change:', payload);
-          onUpdate(payload);
-        }
-      )
-      .subscribe();
-
-    return () => {
-      subscription.unsubscribe();
-    };
-  }, [onUpdate]);
+export const useRealTimeProjects = (onUpdate: (change: TableChange<'projects'>) => void) => {
+  useRealTimeTable('projects', onUpdate);
 };
 
 /**
  * Hook for real-time user updates
  */
-export const useRealTimeUsers = (onUpdate: (payload: any) => void) => {
-  useEffect(() => {
-    const subscription = supabase
-      .channel('users_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'users'
-        },
-        (payload) => {
-          console.log('User change:', payload);
-          onUpdate(payload);
-        }
-      )
-      .subscribe();
-
-    return () => {
-      subscription.unsubscribe();
-    };
-  }, [onUpdate]);
+export const useRealTimeUsers = (onUpdate: (change: TableChange<'users'>) => void) => {
+  useRealTimeTable('users', onUpdate);
 };
 
 /**
  * Hook for real-time deliverable updates
  */
-export const useRealTimeDeliverables = (onUpdate: (payload: any) => void) => {
-  useEffect(() => {
-    const subscription = supabase
-      .channel('deliverables_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'deliverables'
-        },
-        (payload) => {
-          console.log('Deliverable change:', payload);
-          onUpdate(payload);
-        }
-      )
-      .subscribe();
-
-    return () => {
-      subscription.unsubscribe();
-    };
-  }, [onUpdate]);
+export const useRealTimeDeliverables = (onUpdate: (change: TableChange<'deliverables'>) => void) => {
+  useRealTimeTable('deliverables', onUpdate);
 };
 
 /**
  * Hook for real-time system settings updates
  */
-export const useRealTimeSystemSettings = (onUpdate: (payload: any) => void) => {
-  useEffect(() => {
-    const subscription = supabase
-      .channel('system_settings_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'system_settings'
-        },
-        (payload) => {
-          console.log('System settings change:', payload);
-          onUpdate(payload);
-        }
-      )
-      .subscribe();
-
-    return () => {
-      subscription.unsubscribe();
-    };
-  }, [onUpdate]);
+export const useRealTimeSystemSettings = (onUpdate: (change: TableChange<'system_settings'>) => void) => {
+  useRealTimeTable('system_settings', onUpdate);
 };
 
 /**
  * Hook for real-time project templates updates
  */
-export const useRealTimeProjectTemplates = (onUpdate: (payload: any) => void) => {
+export const useRealTimeProjectTemplates = (onUpdate: (change: TableChange<'project_templates'>) => void) => {
+  useRealTimeTable('project_templates', onUpdate);
+};
+
+/**
+ * Hook for typed events addressed to a user (see src/lib/events.ts).
+ * Pass memoized handlers; malformed events never reach them.
+ */
+export const useRealTimeEvents = (userId: string | undefined, handlers: EventHandlers) => {
   useEffect(() => {
-    const subscription = supabase
-      .channel('project_templates_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'project_templates'
-        },
-        (payload) => {
-          console.log('Project template change:', payload);
-          onUpdate(payload);
-        }
-      )
-      .subscribe();
+    if (!userId) return;
+
+    let subscription: Subscription | null = null;
+    let isCancelled = false;
+
+    subscribeToUserEvents(userId, handlers).then((result) => {
+      if (isCancelled) {
+        result?.unsubscribe();
+      } else {
+        subscription = result;
+      }
+    });
 
     return () => {
-      subscription.unsubscribe();
+      isCancelled = true;
+      subscription?.unsubscribe();
     };
-  }, [onUpdate]);
+  }, [userId, handlers]);
 };
 
 /**
  * Comprehensive real-time updates hook for admin dashboard
  */
 export const useAdminRealTimeUpdates = (callbacks: {
-  onSystemAlert?: (payload: any) => void;
-  onSecurityAlert?: (payload: any) => void;
-  onBroadcast?: (payload: any) => void;
-  onProject?: (payload: any) => void;
-  onUser?: (payload: any) => void;
-  onDeliverable?: (payload: any) => void;
-  onSystemSettings?: (payload: any) => void;
-  onProjectTemplate?: (payload: any) => void;
+  onSystemAlert?: (change: TableChange<'system_alerts'>) => void;
+  onSecurityAlert?: (change: TableChange<'security_alerts'>) => void;
+  onBroadcast?: (change: TableChange<'broadcasts'>) => void;
+  onProject?: (change: TableChange<'projects'>) => void;
+  onUser?: (change: TableChange<'users'>) => void;
+  onDeliverable?: (change: TableChange<'deliverables'>) => void;
+  onSystemSettings?: (change: TableChange<'system_settings'>) => void;
+  onProjectTemplate?: (change: TableChange<'project_templates'>) => void;
 }) => {
   // System alerts
-  useRealTimeSystemAlerts(useCallback((payload) => {
-    callbacks.onSystemAlert?.(payload);
+  useRealTimeSystemAlerts(useCallback((change: TableChange<'system_alerts'>) => {
+    callbacks.onSystemAlert?.(change);
   }, [callbacks.onSystemAlert]));
 
   // Security alerts
-  useRealTimeSecurityAlerts(useCallback((payload) => {
-    callbacks.onSecurityAlert?.(payload);
+  useRealTimeSecurityAlerts(useCallback((change: TableChange<'security_alerts'>) => {
+    callbacks.onSecurityAlert?.(change);
   }, [callbacks.onSecurityAlert]));
 
   // Broadcasts
-  useRealTimeBroadcasts(useCallback((payload) => {
-    callbacks.onBroadcast?.(payload);
+  useRealTimeBroadcasts(useCallback((change: TableChange<'broadcasts'>) => {
+    callbacks.onBroadcast?.(change);
   }, [callbacks.onBroadcast]));
 
   // Projects
-  useRealTimeProjects(useCallback((payload) => {
-    callbacks.onProject?.(payload);
+  useRealTimeProjects(useCallback((change: TableChange<'projects'>) => {
+    callbacks.onProject?.(change);
   }, [callbacks.onProject]));
 
   // Users
-  useRealTimeUsers(useCallback((payload) => {
-    callbacks.onUser?.(payload);
+  useRealTimeUsers(useCallback((change: TableChange<'users'>) => {
+    callbacks.onUser?.(change);
   }, [callbacks.onUser]));
 
   // Deliverables
-  useRealTimeDeliverables(useCallback((payload) => {
-    callbacks.onDeliverable?.(payload);
+  useRealTimeDeliverables(useCallback((change: TableChange<'deliverables'>) => {
+    callbacks.onDeliverable?.(change);
   }, [callbacks.onDeliverable]));
 
   // System settings
-  useRealTimeSystemSettings(useCallback((payload) => {
-    callbacks.onSystemSettings?.(payload);
+  useRealTimeSystemSettings(useCallback((change: TableChange<'system_settings'>) => {
+    callbacks.onSystemSettings?.(change);
   }, [callbacks.onSystemSettings]));
 
   // Project templates
-  useRealTimeProjectTemplates(useCallback((payload) => {
-    callbacks.onProjectTemplate?.(payload);
+  useRealTimeProjectTemplates(useCallback((change: TableChange<'project_templates'>) => {
+    callbacks.onProjectTemplate?.(change);
   }, [callbacks.onProjectTemplate]));
 };
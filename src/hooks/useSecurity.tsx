@@ -1,33 +1,39 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import SecurityManager from '@/lib/security';
+import { Permission, Role, roleHasPermission } from '@/lib/permissions';
 
 export const useSecurity = () => {
   const { user } = useAuth();
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [role, setRole] = useState<Role | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    const checkAdminStatus = async () => {
+    const checkUserRole = async () => {
       if (user) {
-        const adminStatus = await SecurityManager.isAdmin(user.id);
-        setIsAdmin(adminStatus);
+        setRole(await SecurityManager.getUserRole(user.id));
       }
       setIsLoading(false);
     };
 
-    checkAdminStatus();
+    checkUserRole();
   }, [user]);
 
+  const hasPermission = (permission: Permission): boolean => {
+    return role ? roleHasPermission(role, permission) : false;
+  };
+
+  const isAdmin = role === 'admin';
+
   const canAccessProject = async (projectId: string): Promise<boolean> => {
     if (!user) return false;
-    if (isAdmin) return true;
+    if (hasPermission('projects.read_all')) return true;
     return await SecurityManager.canAccessProject(user.id, projectId);
   };
 
   const canAccessFolder = async (folderId: string): Promise<boolean> => {
     if (!user) return false;
-    if (isAdmin) return true;
+    if (hasPermission('projects.read_all')) return true;
     return await SecurityManager.canAccessFolder(user.id, folderId);
   };
 
@@ -36,7 +42,7 @@ export const useSecurity = () => {
   };
 
   const validateFileUpload = (file: File, allowedTypes: string[], maxSizeMB: number) => {
-    return SecurityManager.validateFileUpload(file, allowedTypes, maxSizeMB);
+    return SecurityManager.validateFileType(file, allowedTypes, maxSizeMB);
   };
 
   const checkRateLimit = (action: string, maxAttempts?: number, windowMs?: number): boolean => {
@@ -51,7 +57,9 @@ export const useSecurity = () => {
   };
 
   return {
+    role,
     isAdmin,
+    hasPermission,
     isLoading,
     canAccessProject,
     canAccessFolder,
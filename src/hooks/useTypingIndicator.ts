@@ -0,0 +1,87 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { getTypingChannelName, TYPING_THROTTLE_MS, TYPING_TIMEOUT_MS } from '@/lib/presence';
+
+interface TypingPayload {
+  user_id: string;
+  is_typing: boolean;
+}
+
+/**
+ * Hook that shares "typing…" state for the conversation with `clientId`
+ * Returns whether anyone else is typing and a function to report the user's own typing
+ */
+export const useTypingIndicator = (clientId: string | undefined) => {
+  const { user, impersonation } = useAuth();
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const timersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const lastSentRef = useRef(0);
+  const isTypingRef = useRef(false);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!clientId || !userId) return;
+
+    const timers = timersRef.current;
+    const stopTyping = (id: string) => {
+      clearTimeout(timers.get(id));
+      timers.delete(id);
+      setTypingUserIds(prev => prev.filter(typingId => typingId !== id));
+    };
+
+    const channel = supabase
+      .channel(getTypingChannelName(clientId), { config: { private: true } })
+      .on('broadcast', { event: 'typing' }, ({ payload }: { payload: TypingPayload }) => {
+        if (!payload?.user_id || payload.user_id === userId) return;
+
+        if (!payload.is_typing) {
+          stopTyping(payload.user_id);
+          return;
+        }
+
+        clearTimeout(timers.get(payload.user_id));
+        timers.set(payload.user_id, setTimeout(() => stopTyping(payload.user_id), TYPING_TIMEOUT_MS));
+        setTypingUserIds(prev => prev.includes(payload.user_id) ? prev : [...prev, payload.user_id]);
+      })
+      .subscribe();
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+      setTypingUserIds([]);
+      lastSentRef.current = 0;
+      isTypingRef.current = false;
+    };
+  }, [clientId, userId]);
+
+  // Call with true on each keystroke and false once the draft is sent or cleared
+  const notifyTyping = useCallback((isTyping: boolean) => {
+    // Staff viewing as a client should not appear to be typing as them
+    if (!channelRef.current || !userId || impersonation) return;
+
+    const now = Date.now();
+    if (isTyping && isTypingRef.current && now - lastSentRef.current < TYPING_THROTTLE_MS) return;
+    if (!isTyping && !isTypingRef.current) return;
+
+    isTypingRef.current = isTyping;
+    lastSentRef.current = now;
+    channelRef.current.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: { user_id: userId, is_typing: isTyping } satisfies TypingPayload
+    });
+  }, [userId, impersonation]);
+
+  return {
+    isOtherTyping: typingUserIds.length > 0,
+    typingUserIds,
+    notifyTyping
+  };
+};
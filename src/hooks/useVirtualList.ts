@@ -0,0 +1,231 @@
+import { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
+
+interface VirtualListOptions {
+  count: number;
+  getKey: (index: number) => string;
+  // Height assumed for rows that have not been rendered yet
+  estimateSize: number;
+  // The scrolling element; it must be positioned (e.g. `relative`) so row offsets are measured from its top
+  scrollElement: HTMLElement | null;
+  overscan?: number;
+}
+
+export interface VirtualItem {
+  index: number;
+  key: string;
+}
+
+interface ScrollAnchor {
+  key: string;
+  offset: number;
+  scrollHeight: number;
+  atBottom: boolean;
+}
+
+const BOTTOM_THRESHOLD = 4;
+
+/**
+ * Hook that renders only the rows of a long list near the viewport, with spacing in place of
+ * the rest. Rows are measured once rendered. When rows change size or are added above the
+ * viewport (e.g. an older page of messages), the row at the top of the viewport stays in place,
+ * and a list scrolled to the bottom stays at the bottom.
+ */
+export const useVirtualList = ({
+  count,
+  getKey,
+  estimateSize,
+  scrollElement,
+  overscan = 6
+}: VirtualListOptions) => {
+  const sizesRef = useRef(new Map<string, number>());
+  const elementsRef = useRef(new Map<string, HTMLElement>());
+  const refCallbacksRef = useRef(new Map<string, (element: HTMLElement | null) => void>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const anchorRef = useRef<ScrollAnchor | null>(null);
+  const pendingScrollKeyRef = useRef<string | null>(null);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  const [, setMeasureVersion] = useState(0);
+
+  const recordAnchor = useCallback(() => {
+    if (!scrollElement) return;
+
+    const { scrollTop, scrollHeight, clientHeight } = scrollElement;
+    const anchor: ScrollAnchor = {
+      key: '',
+      offset: Infinity,
+      scrollHeight,
+      atBottom: scrollHeight - scrollTop - clientHeight <= BOTTOM_THRESHOLD
+    };
+    for (const [key, element] of elementsRef.current) {
+      const offset = element.offsetTop - scrollTop;
+      if (offset + element.offsetHeight > 0 && offset < anchor.offset) {
+        anchor.key = key;
+        anchor.offset = offset;
+      }
+    }
+    anchorRef.current = anchor;
+  }, [scrollElement]);
+
+  // Undo any shift caused by content above the viewport changing height
+  const restoreAnchor = useCallback(() => {
+    const anchor = anchorRef.current;
+    if (!scrollElement || !anchor || scrollElement.scrollHeight === anchor.scrollHeight) return;
+
+    if (anchor.atBottom) {
+      scrollElement.scrollTop = scrollElement.scrollHeight;
+    } else {
+      const element = elementsRef.current.get(anchor.key);
+      if (element) {
+        scrollElement.scrollTop = element.offsetTop - anchor.offset;
+      }
+    }
+    recordAnchor();
+  }, [scrollElement, recordAnchor]);
+
+  useEffect(() => {
+    if (!scrollElement) return;
+
+    const updateViewport = () => {
+      setViewport({ scrollTop: scrollElement.scrollTop, height: scrollElement.clientHeight });
+    };
+
+    const handleScroll = () => {
+      updateViewport();
+      recordAnchor();
+    };
+
+    const observer = new ResizeObserver(entries => {
+      let changed = false;
+      entries.forEach(entry => {
+        const element = entry.target as HTMLElement;
+        if (element === scrollElement) {
+          updateViewport();
+          return;
+        }
+
+        const key = element.dataset.virtualKey;
+        const height = element.offsetHeight;
+        if (key && sizesRef.current.get(key) !== height) {
+          sizesRef.current.set(key, height);
+          changed = true;
+        }
+      });
+
+      if (changed) {
+        setMeasureVersion(version => version + 1);
+        restoreAnchor();
+      }
+    });
+
+    observer.observe(scrollElement);
+    elementsRef.current.forEach(element => observer.observe(element));
+    observerRef.current = observer;
+    scrollElement.addEventListener('scroll', handleScroll, { passive: true });
+    updateViewport();
+
+    return () => {
+      scrollElement.removeEventListener('scroll', handleScroll);
+      observer.disconnect();
+      observerRef.current = null;
+    };
+  }, [scrollElement, recordAnchor, restoreAnchor]);
+
+  // Ref for each rendered row, so it is measured and can act as the scroll anchor
+  const measureElement = useCallback((key: string) => {
+    let callback = refCallbacksRef.current.get(key);
+    if (!callback) {
+      callback = (element: HTMLElement | null) => {
+        const previous = elementsRef.current.get(key);
+        if (previous && previous !== element) {
+          observerRef.current?.unobserve(previous);
+          elementsRef.current.delete(key);
+        }
+        if (element) {
+          element.dataset.virtualKey = key;
+          elementsRef.current.set(key, element);
+          observerRef.current?.observe(element);
+        }
+      };
+      refCallbacksRef.current.set(key, callback);
+    }
+    return callback;
+  }, []);
+
+  // Row offsets, using measured heights where known
+  const starts: number[] = [];
+  let totalSize = 0;
+  for (let index = 0; index < count; index++) {
+    starts.push(totalSize);
+    totalSize += sizesRef.current.get(getKey(index)) ?? estimateSize;
+  }
+
+  const sizeAt = (index: number) => sizesRef.current.get(getKey(index)) ?? estimateSize;
+
+  // Last row starting at or above the top of the viewport
+  let low = 0;
+  let high = count - 1;
+  let first = 0;
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    if (starts[middle] <= viewport.scrollTop) {
+      first = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  let last = first;
+  while (last < count - 1 && starts[last + 1] < viewport.scrollTop + viewport.height) {
+    last++;
+  }
+
+  const startIndex = Math.max(0, first - overscan);
+  const endIndex = Math.min(count - 1, last + overscan);
+
+  const virtualItems: VirtualItem[] = [];
+  for (let index = startIndex; index <= endIndex && count > 0; index++) {
+    virtualItems.push({ index, key: getKey(index) });
+  }
+
+  const paddingTop = count > 0 ? starts[startIndex] : 0;
+  const paddingBottom = count > 0 ? totalSize - starts[endIndex] - sizeAt(endIndex) : 0;
+
+  // Scroll a row into the middle of the viewport, rendering it first if it is off screen
+  const scrollToIndex = useCallback((index: number) => {
+    if (!scrollElement || index < 0 || index >= count) return;
+
+    const key = getKey(index);
+    const element = elementsRef.current.get(key);
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
+
+    pendingScrollKeyRef.current = key;
+    let offset = 0;
+    for (let i = 0; i < index; i++) {
+      offset += sizesRef.current.get(getKey(i)) ?? estimateSize;
+    }
+    scrollElement.scrollTop = Math.max(0, offset - scrollElement.clientHeight / 2);
+  }, [scrollElement, count, getKey, estimateSize]);
+
+  useLayoutEffect(() => {
+    restoreAnchor();
+
+    const pendingKey = pendingScrollKeyRef.current;
+    const pendingElement = pendingKey ? elementsRef.current.get(pendingKey) : null;
+    if (pendingElement) {
+      pendingScrollKeyRef.current = null;
+      pendingElement.scrollIntoView({ block: 'center' });
+    }
+  });
+
+  return {
+    virtualItems,
+    paddingTop,
+    paddingBottom,
+    measureElement,
+    scrollToIndex
+  };
+};
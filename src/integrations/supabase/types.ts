@@ -14,32 +14,79 @@ export type Database = {
   }
   public: {
     Tables: {
+      auth_refresh_tokens: {
+        Row: {
+          created_at: string | null
+          expires_at: string
+          id: string
+          revoked_at: string | null
+          session_id: string
+          token_hash: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          expires_at: string
+          id?: string
+          revoked_at?: string | null
+          session_id: string
+          token_hash: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          expires_at?: string
+          id?: string
+          revoked_at?: string | null
+          session_id?: string
+          token_hash?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       collaborations: {
         Row: {
           created_at: string | null
           id: number
+          organization_id: string | null
           requested_email: string | null
+          requested_phone: string | null
           requester_id: string | null
+          role: string
           status: string | null
+          updated_at: string | null
+          user_id: string | null
         }
         Insert: {
           created_at?: string | null
           id?: never
+          organization_id?: string | null
           requested_email?: string | null
+          requested_phone?: string | null
           requester_id?: string | null
+          role?: string
           status?: string | null
+          updated_at?: string | null
+          user_id?: string | null
         }
         Update: {
           created_at?: string | null
           id?: never
+          organization_id?: string | null
           requested_email?: string | null
+          requested_phone?: string | null
           requester_id?: string | null
+          role?: string
           status?: string | null
+          updated_at?: string | null
+          user_id?: string | null
         }
         Relationships: []
       }
       deliverables: {
         Row: {
+          approved_at: string | null
+          approved_by: string | null
           content: string | null
           created_at: string | null
           deliverable_type: string | null
@@ -55,6 +102,8 @@ export type Database = {
           type: string | null
         }
         Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
           content?: string | null
           created_at?: string | null
           deliverable_type?: string | null
@@ -70,6 +119,8 @@ export type Database = {
           type?: string | null
         }
         Update: {
+          approved_at?: string | null
+          approved_by?: string | null
           content?: string | null
           created_at?: string | null
           deliverable_type?: string | null
@@ -209,32 +260,256 @@ export type Database = {
           },
         ]
       }
+      impersonation_events: {
+        Row: {
+          admin_id: string
+          client_id: string
+          created_at: string
+          details: Json
+          event: string
+          id: string
+          impersonation_id: string
+        }
+        Insert: {
+          admin_id: string
+          client_id: string
+          created_at?: string
+          details?: Json
+          event: string
+          id?: string
+          impersonation_id: string
+        }
+        Update: {
+          admin_id?: string
+          client_id?: string
+          created_at?: string
+          details?: Json
+          event?: string
+          id?: string
+          impersonation_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "impersonation_events_impersonation_id_fkey"
+            columns: ["impersonation_id"]
+            isOneToOne: false
+            referencedRelation: "impersonation_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      impersonation_sessions: {
+        Row: {
+          admin_id: string
+          client_id: string
+          created_at: string
+          ended_at: string | null
+          expires_at: string
+          id: string
+          read_only: boolean
+        }
+        Insert: {
+          admin_id: string
+          client_id: string
+          created_at?: string
+          ended_at?: string | null
+          expires_at: string
+          id?: string
+          read_only?: boolean
+        }
+        Update: {
+          admin_id?: string
+          client_id?: string
+          created_at?: string
+          ended_at?: string | null
+          expires_at?: string
+          id?: string
+          read_only?: boolean
+        }
+        Relationships: []
+      }
+      inbox_conversations: {
+        Row: {
+          assigned_at: string | null
+          assigned_to: string | null
+          client_id: string
+          created_at: string
+          last_client_message_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_at?: string | null
+          assigned_to?: string | null
+          client_id: string
+          created_at?: string
+          last_client_message_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_at?: string | null
+          assigned_to?: string | null
+          client_id?: string
+          created_at?: string
+          last_client_message_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      input_attachments: {
+        Row: {
+          file_name: string
+          file_path: string
+          file_size: number
+          file_type: string
+          folder_input_id: string
+          id: string
+          uploaded_at: string
+        }
+        Insert: {
+          file_name: string
+          file_path: string
+          file_size: number
+          file_type: string
+          folder_input_id: string
+          id?: string
+          uploaded_at?: string
+        }
+        Update: {
+          file_name?: string
+          file_path?: string
+          file_size?: number
+          file_type?: string
+          folder_input_id?: string
+          id?: string
+          uploaded_at?: string
+        }
+        Relationships: []
+      }
+      message_attachments: {
+        Row: {
+          created_at: string
+          file_name: string
+          file_path: string
+          file_size: number
+          file_type: string
+          id: string
+          message_id: string
+          promoted_deliverable_id: string | null
+          promoted_input_id: string | null
+          uploaded_by: string
+        }
+        Insert: {
+          created_at?: string
+          file_name: string
+          file_path: string
+          file_size: number
+          file_type: string
+          id?: string
+          message_id: string
+          promoted_deliverable_id?: string | null
+          promoted_input_id?: string | null
+          uploaded_by: string
+        }
+        Update: {
+          created_at?: string
+          file_name?: string
+          file_path?: string
+          file_size?: number
+          file_type?: string
+          id?: string
+          message_id?: string
+          promoted_deliverable_id?: string | null
+          promoted_input_id?: string | null
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_revisions: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          message_id: string
+          previous_content: string
+          revised_by: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          message_id: string
+          previous_content: string
+          revised_by: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          message_id?: string
+          previous_content?: string
+          revised_by?: string
+        }
+        Relationships: []
+      }
       messages: {
         Row: {
           content: string
           created_at: string | null
+          deleted_at: string | null
+          delivered_at: string | null
+          edited_at: string | null
           id: string
           is_read: boolean | null
+          project_id: string | null
+          read_at: string | null
           receiver_id: string
           sender_id: string
         }
         Insert: {
           content: string
           created_at?: string | null
+          deleted_at?: string | null
+          delivered_at?: string | null
+          edited_at?: string | null
           id?: string
           is_read?: boolean | null
+          project_id?: string | null
+          read_at?: string | null
           receiver_id: string
           sender_id: string
         }
         Update: {
           content?: string
           created_at?: string | null
+          deleted_at?: string | null
+          delivered_at?: string | null
+          edited_at?: string | null
           id?: string
           is_read?: boolean | null
+          project_id?: string | null
+          read_at?: string | null
           receiver_id?: string
           sender_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "messages_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "messages_receiver_id_fkey"
             columns: ["receiver_id"]
@@ -321,6 +596,7 @@ export type Database = {
           created_at: string | null
           id: string
           is_read: boolean | null
+          link: string | null
           message: string
           title: string
           type: string
@@ -330,6 +606,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           is_read?: boolean | null
+          link?: string | null
           message: string
           title: string
           type: string
@@ -339,6 +616,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           is_read?: boolean | null
+          link?: string | null
           message?: string
           title?: string
           type?: string
@@ -354,6 +632,63 @@ export type Database = {
           },
         ]
       }
+      organizations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      password_reset_codes: {
+        Row: {
+          attempts: number | null
+          channel: string | null
+          code_hash: string
+          consumed_at: string | null
+          created_at: string | null
+          expires_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number | null
+          channel?: string | null
+          code_hash: string
+          consumed_at?: string | null
+          created_at?: string | null
+          expires_at: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number | null
+          channel?: string | null
+          code_hash?: string
+          consumed_at?: string | null
+          created_at?: string | null
+          expires_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       products: {
         Row: {
           category: string
@@ -425,6 +760,7 @@ export type Database = {
           created_at: string | null
           id: string
           name: string
+          organization_id: string | null
           status: string | null
           updated_at: string | null
           user_id: string
@@ -433,6 +769,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           name: string
+          organization_id?: string | null
           status?: string | null
           updated_at?: string | null
           user_id: string
@@ -441,6 +778,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           name?: string
+          organization_id?: string | null
           status?: string | null
           updated_at?: string | null
           user_id?: string
@@ -455,6 +793,24 @@ export type Database = {
           },
         ]
       }
+      role_permissions: {
+        Row: {
+          created_at: string
+          permission: string
+          role: string
+        }
+        Insert: {
+          created_at?: string
+          permission: string
+          role: string
+        }
+        Update: {
+          created_at?: string
+          permission?: string
+          role?: string
+        }
+        Relationships: []
+      }
       room_invitations: {
         Row: {
           created_at: string | null
@@ -691,6 +1047,111 @@ export type Database = {
         }
         Relationships: []
       }
+      saved_replies: {
+        Row: {
+          content: string
+          created_at: string
+          created_by: string
+          id: string
+          is_shared: boolean
+          shortcut: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          created_by: string
+          id?: string
+          is_shared?: boolean
+          shortcut: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          created_by?: string
+          id?: string
+          is_shared?: boolean
+          shortcut?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      saved_reply_uses: {
+        Row: {
+          id: string
+          reply_id: string
+          used_at: string
+          used_by: string
+        }
+        Insert: {
+          id?: string
+          reply_id: string
+          used_at?: string
+          used_by: string
+        }
+        Update: {
+          id?: string
+          reply_id?: string
+          used_at?: string
+          used_by?: string
+        }
+        Relationships: []
+      }
+      security_alerts: {
+        Row: {
+          description: string
+          id: string
+          ip_address: unknown | null
+          location: string | null
+          metadata: Json | null
+          resolved: boolean | null
+          resolved_at: string | null
+          resolved_by: string | null
+          severity: string
+          timestamp: string | null
+          title: string
+          type: string
+          user_agent: string | null
+          user_id: string | null
+        }
+        Insert: {
+          description: string
+          id?: string
+          ip_address?: unknown | null
+          location?: string | null
+          metadata?: Json | null
+          resolved?: boolean | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          severity: string
+          timestamp?: string | null
+          title: string
+          type: string
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          description?: string
+          id?: string
+          ip_address?: unknown | null
+          location?: string | null
+          metadata?: Json | null
+          resolved?: boolean | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          severity?: string
+          timestamp?: string | null
+          title?: string
+          type?: string
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       sites: {
         Row: {
           created_at: string
@@ -762,6 +1223,144 @@ export type Database = {
           },
         ]
       }
+      system_settings: {
+        Row: {
+          category: string | null
+          created_at: string | null
+          description: string | null
+          id: string
+          is_public: boolean | null
+          setting_key: string
+          setting_type: string | null
+          setting_value: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_public?: boolean | null
+          setting_key: string
+          setting_type?: string | null
+          setting_value: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          category?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_public?: boolean | null
+          setting_key?: string
+          setting_type?: string | null
+          setting_value?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      user_invitations: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          project_id: string | null
+          revoked_at: string | null
+          user_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          expires_at: string
+          id?: string
+          invited_by?: string | null
+          project_id?: string | null
+          revoked_at?: string | null
+          user_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          project_id?: string | null
+          revoked_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_sessions: {
+        Row: {
+          created_at: string
+          device: string | null
+          id: string
+          ip_address: string | null
+          last_seen_at: string
+          revoked_at: string | null
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          device?: string | null
+          id?: string
+          ip_address?: string | null
+          last_seen_at?: string
+          revoked_at?: string | null
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          device?: string | null
+          id?: string
+          ip_address?: string | null
+          last_seen_at?: string
+          revoked_at?: string | null
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_two_factor: {
+        Row: {
+          created_at: string | null
+          enabled_at: string | null
+          last_used_step: number | null
+          pending_secret: string | null
+          recovery_code_hashes: string[] | null
+          secret: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          enabled_at?: string | null
+          last_used_step?: number | null
+          pending_secret?: string | null
+          recovery_code_hashes?: string[] | null
+          secret?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          enabled_at?: string | null
+          last_used_step?: number | null
+          pending_secret?: string | null
+          recovery_code_hashes?: string[] | null
+          secret?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_videos: {
         Row: {
           created_at: string | null
@@ -808,31 +1407,64 @@ export type Database = {
         Row: {
           company_name: string | null
           created_at: string | null
+          email: string | null
           full_name: string | null
           id: string
+          is_active: boolean | null
           is_admin: boolean | null
+          is_suspended: boolean | null
+          last_login: string | null
+          last_seen_at: string | null
+          locked_until: string | null
+          login_attempts: number | null
+          password_changed_at: string | null
           password_hash: string
           phone_number: string
+          read_receipts_enabled: boolean
+          role: string
+          two_factor_enabled: boolean | null
           updated_at: string | null
         }
         Insert: {
           company_name?: string | null
           created_at?: string | null
+          email?: string | null
           full_name?: string | null
           id?: string
+          is_active?: boolean | null
           is_admin?: boolean | null
+          is_suspended?: boolean | null
+          last_login?: string | null
+          last_seen_at?: string | null
+          locked_until?: string | null
+          login_attempts?: number | null
+          password_changed_at?: string | null
           password_hash: string
           phone_number: string
+          read_receipts_enabled?: boolean
+          role?: string
+          two_factor_enabled?: boolean | null
           updated_at?: string | null
         }
         Update: {
           company_name?: string | null
           created_at?: string | null
+          email?: string | null
           full_name?: string | null
           id?: string
+          is_active?: boolean | null
           is_admin?: boolean | null
+          is_suspended?: boolean | null
+          last_login?: string | null
+          last_seen_at?: string | null
+          locked_until?: string | null
+          login_attempts?: number | null
+          password_changed_at?: string | null
           password_hash?: string
           phone_number?: string
+          read_receipts_enabled?: boolean
+          role?: string
+          two_factor_enabled?: boolean | null
           updated_at?: string | null
         }
         Relationships: []
@@ -955,6 +1587,20 @@ export type Database = {
       }
     }
     Views: {
+      conversation_summaries: {
+        Row: {
+          client_company: string | null
+          client_id: string | null
+          client_name: string | null
+          last_message_at: string | null
+          last_message_content: string | null
+          last_message_deleted_at: string | null
+          last_message_id: string | null
+          last_message_sender_id: string | null
+          unread_count: number | null
+        }
+        Relationships: []
+      }
       message_conversations: {
         Row: {
           content: string | null
@@ -987,6 +1633,10 @@ export type Database = {
       }
     }
     Functions: {
+      approve_deliverable: {
+        Args: { target_deliverable_id: string }
+        Returns: string
+      }
       authenticate_user: {
         Args: { phone: string; password: string }
         Returns: {
@@ -1001,6 +1651,21 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: Json
       }
+      delete_message: {
+        Args: { target_message_id: string }
+        Returns: {
+          id: string
+          deleted_at: string
+        }[]
+      }
+      edit_message: {
+        Args: { target_message_id: string; new_content: string }
+        Returns: {
+          id: string
+          content: string
+          edited_at: string
+        }[]
+      }
       get_admin_user_id: {
         Args: Record<PropertyKey, never>
         Returns: string
@@ -1013,14 +1678,61 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_inbox_recipient_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_message_read_stats: {
+        Args: { since: string }
+        Returns: {
+          direction: string
+          sent_count: number
+          read_count: number
+          avg_seconds_to_read: number | null
+          median_seconds_to_read: number | null
+        }[]
+      }
       get_precise_sync_time: {
         Args: { p_room_id: string; p_client_timestamp?: string }
         Returns: Json
       }
+      get_saved_reply_stats: {
+        Args: { since: string }
+        Returns: {
+          reply_id: string
+          use_count: number
+          user_count: number
+          last_used_at: string | null
+        }[]
+      }
       get_server_time: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      mark_messages_delivered: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          sender_id: string
+          receiver_id: string
+          delivered_at: string | null
+          read_at: string | null
+        }[]
+      }
+      mark_messages_read: {
+        Args: { message_ids: string[] }
+        Returns: {
+          id: string
+          sender_id: string
+          receiver_id: string
+          delivered_at: string | null
+          read_at: string | null
+        }[]
+      }
+      next_inbox_assignee: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
       record_sync_command: {
         Args: {
           p_room_id: string
@@ -1031,10 +1743,46 @@ export type Database = {
         }
         Returns: Json
       }
+      search_messages: {
+        Args: {
+          search_query: string
+          filter_client_id?: string
+          filter_project_id?: string
+          from_date?: string
+          to_date?: string
+          result_limit?: number
+        }
+        Returns: {
+          id: string
+          client_id: string
+          client_name: string | null
+          sender_id: string
+          sender_is_admin: boolean
+          project_id: string | null
+          project_name: string | null
+          content: string
+          headline: string
+          created_at: string
+          rank: number
+        }[]
+      }
       send_admin_message: {
         Args: { receiver_user_id: string; message_content: string }
         Returns: string
       }
+      send_message_with_attachments: {
+        Args: {
+          target_receiver_id: string
+          message_content: string
+          message_project_id: string | null
+          attachments: Json
+        }
+        Returns: string
+      }
+      touch_last_seen: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
       update_cinema_sync_state: {
         Args: {
           p_room_id: string
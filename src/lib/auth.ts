@@ -1,6 +1,9 @@
 import bcrypt from 'bcryptjs';
 import { supabase } from '@/integrations/supabase/client';
 import SecurityManager from '@/lib/security';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+import { DEFAULT_PASSWORD_POLICY, PasswordPolicy, getPasswordRequirements, loadPasswordPolicy } from '@/lib/passwordPolicy';
+import { CountryCode, DEFAULT_COUNTRY, normalizePhoneNumber, isValidPhoneNumber } from '@/lib/phone';
 
 export interface User {
   id: string;
@@ -8,19 +11,43 @@ export interface User {
   full_name?: string;
   company_name?: string;
   is_admin: boolean;
+  role?: string; // read through resolveRole() from '@/lib/permissions'
+  two_factor_enabled?: boolean;
+  read_receipts_enabled?: boolean;
+  password_changed_at?: string;
   created_at: string;
   updated_at: string;
 }
 
+// Distinguishes why a sign in was rejected so the UI can react accordingly
+export type AuthErrorCode =
+  | 'INVALID_CREDENTIALS'
+  | 'ACCOUNT_LOCKED'
+  | 'ACCOUNT_SUSPENDED'
+  | 'ACCOUNT_DEACTIVATED';
+
 export interface AuthResponse {
   success: boolean;
   user?: User;
   error?: string;
+  errorCode?: AuthErrorCode;
+  lockedUntil?: string;
+  twoFactorRequired?: boolean;
+}
+
+// Body of the token endpoint's answer to a `verify_only` password grant
+interface CredentialCheckResponse {
+  verified?: boolean;
+  error?: string;
+  error_code?: AuthErrorCode;
+  locked_until?: string;
+  mfa_required?: boolean;
 }
 
 export interface LoginCredentials {
   phone_number: string;
   password: string;
+  two_factor_code?: string;
 }
 
 export interface SignupCredentials {
@@ -41,69 +68,64 @@ export const verifyPassword = async (password: string, hash: string): Promise<bo
   return await bcrypt.compare(password, hash);
 };
 
-// Format phone number (ensure it starts with +)
-export const formatPhoneNumber = (phone: string): string => {
-  // Remove all non-digit characters
-  const cleaned = phone.replace(/\D/g, '');
-  
-  // If it doesn't start with country code, assume it's Nigerian (+234)
-  if (!cleaned.startsWith('234') && cleaned.length === 11) {
-    return `+234${cleaned.substring(1)}`;
-  }
-  
-  // If it already has country code
-  if (cleaned.startsWith('234')) {
-    return `+${cleaned}`;
-  }
-  
-  // If it starts with +, return as is
-  if (phone.startsWith('+')) {
-    return phone;
-  }
-  
-  // Default case
-  return `+${cleaned}`;
+// Format phone number as E.164, reading numbers without a country code as national numbers of `country`
+export const formatPhoneNumber = (phone: string, country: CountryCode = DEFAULT_COUNTRY): string => {
+  return normalizePhoneNumber(phone, country);
 };
 
-// Validate phone number
-export const validatePhoneNumber = (phone: string): boolean => {
-  const formatted = formatPhoneNumber(phone);
-  // Nigerian phone number validation: +234 followed by 10 digits
-  const nigerianPhoneRegex = /^\+234[789][01]\d{8}$/;
-  return nigerianPhoneRegex.test(formatted);
+// Validate phone number against the rules of its country
+export const validatePhoneNumber = (phone: string, country: CountryCode = DEFAULT_COUNTRY): boolean => {
+  return isValidPhoneNumber(formatPhoneNumber(phone, country));
 };
 
-// Validate password strength
-export const validatePassword = (password: string): { isValid: boolean; errors: string[] } => {
-  const errors: string[] = [];
-  
-  if (password.length < 8) {
-    errors.push('Password must be at least 8 characters long');
-  }
-  
-  if (!/[A-Z]/.test(password)) {
-    errors.push('Password must contain at least one uppercase letter');
-  }
-  
-  if (!/[a-z]/.test(password)) {
-    errors.push('Password must contain at least one lowercase letter');
-  }
-  
-  if (!/\d/.test(password)) {
-    errors.push('Password must contain at least one number');
-  }
-  
+// Validate password against the password policy
+export const validatePassword = (
+  password: string,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): { isValid: boolean; errors: string[] } => {
+  const errors = getPasswordRequirements(policy)
+    .filter(requirement => !requirement.test(password))
+    .map(requirement => requirement.error);
+
   return {
     isValid: errors.length === 0,
     errors
   };
 };
 
+const REGISTRATION_CLOSED_MESSAGE = 'Registration is currently by invitation only';
+
+// Open signup can be switched off in Admin > Settings, leaving invitations as the only way in
+export const isRegistrationEnabled = async (): Promise<boolean> => {
+  try {
+    const { data, error } = await supabase
+      .from('system_settings')
+      .select('setting_value')
+      .eq('setting_key', 'registration_enabled')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error checking registration setting:', error);
+      return false;
+    }
+
+    // Only an explicit "true" opens registration, as in the database trigger that enforces it
+    return data?.setting_value === 'true';
+  } catch (error) {
+    console.error('Error checking registration setting:', error);
+    return false;
+  }
+};
+
 // Sign up new user
 export const signUp = async (credentials: SignupCredentials): Promise<AuthResponse> => {
   try {
     const { phone_number, password, full_name, company_name } = credentials;
 
+    if (!await isRegistrationEnabled()) {
+      return { success: false, error: REGISTRATION_CLOSED_MESSAGE };
+    }
+
     // Sanitize inputs
     const sanitizedPhone = SecurityManager.sanitizeInput(phone_number);
     const sanitizedFullName = full_name ? SecurityManager.sanitizeInput(full_name) : undefined;
@@ -117,7 +139,7 @@ export const signUp = async (credentials: SignupCredentials): Promise<AuthRespon
     }
 
     // Validate password
-    const passwordValidation = validatePassword(password);
+    const passwordValidation = validatePassword(password, await loadPasswordPolicy());
     if (!passwordValidation.isValid) {
       await SecurityManager.logSecurityEvent('anonymous', 'signup_weak_password', { phone: formattedPhone });
       return { success: false, error: passwordValidation.errors.join(', ') };
@@ -153,6 +175,10 @@ export const signUp = async (credentials: SignupCredentials): Promise<AuthRespon
     if (error) {
       console.error('Signup error:', error);
       await SecurityManager.logSecurityEvent('anonymous', 'signup_failed', { phone: formattedPhone, error: error.message });
+      // Raised by the database when registration was closed after the check above
+      if (error.message?.includes(REGISTRATION_CLOSED_MESSAGE)) {
+        return { success: false, error: REGISTRATION_CLOSED_MESSAGE };
+      }
       return { success: false, error: 'Failed to create account' };
     }
 
@@ -165,6 +191,7 @@ export const signUp = async (credentials: SignupCredentials): Promise<AuthRespon
 };
 
 // Sign in user
+// The token endpoint checks the credentials, counts failures and locks the account; this only reports its answer
 export const signIn = async (credentials: LoginCredentials): Promise<AuthResponse> => {
   try {
     const { phone_number, password } = credentials;
@@ -172,37 +199,137 @@ export const signIn = async (credentials: LoginCredentials): Promise<AuthRespons
     // Sanitize and format phone number
     const sanitizedPhone = SecurityManager.sanitizeInput(phone_number);
     const formattedPhone = formatPhoneNumber(sanitizedPhone);
-    
+
+    const { data: verification, error: verifyError } = await invokeEdgeFunction<CredentialCheckResponse>(
+      'auth-token',
+      { grant_type: 'password', phone_number: formattedPhone, password, verify_only: true },
+      'Invalid phone number or password'
+    );
+
+    // A valid password for an account with 2FA is answered with a request for the second factor
+    const twoFactorRequired = !!verification?.mfa_required && !verification.error_code;
+
+    if (verifyError && !twoFactorRequired) {
+      await SecurityManager.logSecurityEvent('anonymous', 'signin_failed', {
+        phone: formattedPhone,
+        reason: verification?.error_code
+      });
+      return {
+        success: false,
+        error: verifyError,
+        errorCode: verification?.error_code,
+        lockedUntil: verification?.locked_until
+      };
+    }
+
     // Get user from database
     const { data: user, error } = await supabase
       .from('users')
       .select('*')
       .eq('phone_number', formattedPhone)
       .single();
-    
+
     if (error || !user) {
-      await SecurityManager.logSecurityEvent('anonymous', 'signin_user_not_found', { phone: formattedPhone });
-      return { success: false, error: 'Invalid phone number or password' };
+      console.error('Signin error:', error);
+      return { success: false, error: 'An unexpected error occurred' };
     }
 
-    // Verify password
-    const isValidPassword = await verifyPassword(password, user.password_hash);
-    if (!isValidPassword) {
-      await SecurityManager.logSecurityEvent(user.id, 'signin_invalid_password', { phone: formattedPhone });
-      return { success: false, error: 'Invalid phone number or password' };
-    }
-    
     // Remove password hash from response
     const { password_hash, ...userWithoutPassword } = user;
 
     await SecurityManager.logSecurityEvent(user.id, 'signin_success', { phone: formattedPhone });
-    return { success: true, user: userWithoutPassword };
+    // Accounts with 2FA still need a TOTP or recovery code before a session is created
+    return { success: true, user: userWithoutPassword, twoFactorRequired };
   } catch (error) {
     console.error('Signin error:', error);
     return { success: false, error: 'An unexpected error occurred' };
   }
 };
 
+export type PasswordResetChannel = 'sms' | 'whatsapp';
+
+// Request a one-time password reset code (delivered by SMS or WhatsApp)
+export const requestPasswordReset = async (phone_number: string, channel: PasswordResetChannel = 'sms'): Promise<AuthResponse> => {
+  try {
+    const formattedPhone = formatPhoneNumber(SecurityManager.sanitizeInput(phone_number));
+    if (!validatePhoneNumber(formattedPhone)) {
+      return { success: false, error: 'Invalid phone number format' };
+    }
+
+    const { error } = await invokeEdgeFunction(
+      'password-reset',
+      { action: 'request', phone_number: formattedPhone, channel },
+      'Failed to send reset code'
+    );
+
+    if (error) {
+      return { success: false, error };
+    }
+
+    await SecurityManager.logSecurityEvent('anonymous', 'password_reset_requested', { phone: formattedPhone, channel });
+    return { success: true };
+  } catch (error) {
+    console.error('Password reset request error:', error);
+    return { success: false, error: 'An unexpected error occurred' };
+  }
+};
+
+// Reset password using the one-time code
+export const resetPassword = async (phone_number: string, code: string, newPassword: string): Promise<AuthResponse> => {
+  try {
+    const formattedPhone = formatPhoneNumber(SecurityManager.sanitizeInput(phone_number));
+
+    const passwordValidation = validatePassword(newPassword, await loadPasswordPolicy());
+    if (!passwordValidation.isValid) {
+      return { success: false, error: passwordValidation.errors.join(', ') };
+    }
+
+    const { error } = await invokeEdgeFunction(
+      'password-reset',
+      { action: 'confirm', phone_number: formattedPhone, code, new_password: newPassword },
+      'Failed to reset password'
+    );
+
+    if (error) {
+      await SecurityManager.logSecurityEvent('anonymous', 'password_reset_failed', { phone: formattedPhone });
+      return { success: false, error };
+    }
+
+    await SecurityManager.logSecurityEvent('anonymous', 'password_reset_success', { phone: formattedPhone });
+    return { success: true };
+  } catch (error) {
+    console.error('Password reset error:', error);
+    return { success: false, error: 'An unexpected error occurred' };
+  }
+};
+
+// Change the signed-in user's password (also used when the current password has expired)
+export const changePassword = async (userId: string, currentPassword: string, newPassword: string): Promise<AuthResponse> => {
+  try {
+    const passwordValidation = validatePassword(newPassword, await loadPasswordPolicy());
+    if (!passwordValidation.isValid) {
+      return { success: false, error: passwordValidation.errors.join(', ') };
+    }
+
+    const { error } = await invokeEdgeFunction(
+      'password-reset',
+      { action: 'change', current_password: currentPassword, new_password: newPassword },
+      'Failed to change password'
+    );
+
+    if (error) {
+      await SecurityManager.logSecurityEvent(userId, 'password_change_failed', {});
+      return { success: false, error };
+    }
+
+    await SecurityManager.logSecurityEvent(userId, 'password_changed', {});
+    return { success: true };
+  } catch (error) {
+    console.error('Password change error:', error);
+    return { success: false, error: 'An unexpected error occurred' };
+  }
+};
+
 // Update user profile
 export const updateProfile = async (userId: string, updates: Partial<Pick<User, 'full_name' | 'company_name'>>): Promise<AuthResponse> => {
   try {
@@ -0,0 +1,27 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface EdgeFunctionResult<T> {
+  data: T | null;
+  error: string | null;
+}
+
+// Invoke a Supabase Edge Function and unwrap the `{ error }` body it returns on failure
+export const invokeEdgeFunction = async <T = unknown>(
+  name: string,
+  body: Record<string, unknown>,
+  fallbackError = 'Request failed'
+): Promise<EdgeFunctionResult<T>> => {
+  const { data, error } = await supabase.functions.invoke<T>(name, { body });
+
+  if (!error) {
+    return { data, error: null };
+  }
+
+  try {
+    const context = (error as { context?: Response }).context;
+    const errorBody = context ? await context.json() : null;
+    return { data: errorBody, error: errorBody?.error || fallbackError };
+  } catch {
+    return { data: null, error: fallbackError };
+  }
+};
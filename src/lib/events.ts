@@ -0,0 +1,299 @@
+import { z } from 'zod';
+
+// Catalog of the events sent over the real-time channels in `src/lib/redis.ts`.
+// Every event travels in an envelope naming its type and payload version. Subscribers validate
+// the payload against the schema for that version and drop anything that does not match, so
+// a tab running an older build never acts on a payload it does not understand.
+
+// Attachment rows are listed in full, the same columns the sender saved
+const messageAttachmentV1 = z.object({
+  id: z.string(),
+  message_id: z.string(),
+  uploaded_by: z.string(),
+  file_name: z.string(),
+  file_path: z.string(),
+  file_size: z.number(),
+  file_type: z.string(),
+  promoted_input_id: z.string().nullable(),
+  promoted_deliverable_id: z.string().nullable(),
+  created_at: z.string()
+});
+
+// Row payloads keep any extra columns so subscribers see the full record
+const messageCreatedV1 = z.object({
+  id: z.string(),
+  sender_id: z.string(),
+  receiver_id: z.string(),
+  content: z.string(),
+  is_read: z.boolean(),
+  created_at: z.string(),
+  project_id: z.string().nullish(),
+  sender: z.object({
+    full_name: z.string().nullable(),
+    is_admin: z.boolean().nullable()
+  }).nullish(),
+  attachments: z.array(messageAttachmentV1).optional()
+}).passthrough();
+
+// An edit or soft delete by the sender; a deleted message arrives with empty content
+const messageUpdatedV1 = z.object({
+  id: z.string(),
+  content: z.string(),
+  edited_at: z.string().nullable(),
+  deleted_at: z.string().nullable()
+});
+
+// Delivery and read times for messages, sent back to the conversation by the receiver
+const messageReceiptV1 = z.object({
+  id: z.string(),
+  delivered_at: z.string().nullable(),
+  read_at: z.string().nullable()
+});
+
+const messageReceiptsV1 = z.object({
+  receipts: z.array(messageReceiptV1)
+});
+
+const notificationCreatedV1 = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  type: z.string(),
+  title: z.string(),
+  message: z.string(),
+  is_read: z.boolean(),
+  created_at: z.string(),
+  // In-app path the notification opens, e.g. the message it is about
+  link: z.string().nullable().optional()
+}).passthrough();
+
+const deliverableSentV1 = z.object({
+  deliverable_id: z.string(),
+  project_id: z.string(),
+  project_name: z.string(),
+  title: z.string(),
+  sent_at: z.string()
+});
+
+const projectStatusChangedV1 = z.object({
+  project_id: z.string(),
+  project_name: z.string(),
+  status: z.string(),
+  previous_status: z.string().nullable(),
+  changed_at: z.string()
+});
+
+// Bump `version` and swap the schema when a payload changes shape
+export const EVENT_CATALOG = {
+  'message.created': { version: 1, schema: messageCreatedV1 },
+  'message.updated': { version: 1, schema: messageUpdatedV1 },
+  'message.receipts': { version: 1, schema: messageReceiptsV1 },
+  'notification.created': { version: 1, schema: notificationCreatedV1 },
+  'deliverable.sent': { version: 1, schema: deliverableSentV1 },
+  'project.status_changed': { version: 1, schema: projectStatusChangedV1 }
+} satisfies Record<string, { version: number; schema: z.ZodTypeAny }>;
+
+// Payload types come from the schemas, so the two cannot drift apart
+export type MessageAttachmentPayload = z.infer<typeof messageAttachmentV1>;
+export type MessageCreatedPayload = z.infer<typeof messageCreatedV1>;
+export type MessageUpdatedPayload = z.infer<typeof messageUpdatedV1>;
+export type MessageReceipt = z.infer<typeof messageReceiptV1>;
+export type MessageReceiptsPayload = z.infer<typeof messageReceiptsV1>;
+export type NotificationCreatedPayload = z.infer<typeof notificationCreatedV1>;
+export type DeliverableSentPayload = z.infer<typeof deliverableSentV1>;
+export type ProjectStatusChangedPayload = z.infer<typeof projectStatusChangedV1>;
+
+export type EventType = keyof typeof EVENT_CATALOG;
+
+export type EventPayload<T extends EventType> = z.infer<(typeof EVENT_CATALOG)[T]['schema']>;
+
+export type EventPayloads = { [T in EventType]: EventPayload<T> };
+
+export interface EventEnvelope<T extends EventType = EventType> {
+  type: T;
+  version: number;
+  payload: EventPayload<T>;
+  published_at: string;
+}
+
+export type EventHandlers = {
+  [T in EventType]?: (payload: EventPayload<T>, envelope: EventEnvelope<T>) => void;
+};
+
+const envelopeSchema = z.object({
+  type: z.string(),
+  version: z.number().int(),
+  payload: z.unknown(),
+  published_at: z.string()
+});
+
+const isEventType = (type: string): type is EventType => {
+  return Object.prototype.hasOwnProperty.call(EVENT_CATALOG, type);
+};
+
+// Validate the payload and wrap it for publishing; throws if the payload does not match the catalog
+export const createEvent = <T extends EventType>(type: T, payload: EventPayload<T>): EventEnvelope<T> => {
+  const { version, schema } = EVENT_CATALOG[type];
+  return {
+    type,
+    version,
+    payload: schema.parse(payload) as EventPayload<T>,
+    published_at: new Date().toISOString()
+  };
+};
+
+// Parse a raw channel message; returns null (after logging why) for anything malformed
+export const parseEvent = (raw: string): EventEnvelope | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    console.warn('Dropped real-time event: not valid JSON');
+    return null;
+  }
+
+  const envelope = envelopeSchema.safeParse(data);
+  if (!envelope.success) {
+    console.warn('Dropped real-time event: invalid envelope', envelope.error.flatten());
+    return null;
+  }
+
+  const { type, version, payload, published_at } = envelope.data;
+  if (!isEventType(type)) {
+    console.warn(`Dropped real-time event: unknown type "${type}"`);
+    return null;
+  }
+
+  const entry = EVENT_CATALOG[type];
+  if (version !== entry.version) {
+    console.warn(`Dropped real-time event: ${type} v${version} is not supported (expected v${entry.version})`);
+    return null;
+  }
+
+  const parsed = entry.schema.safeParse(payload);
+  if (!parsed.success) {
+    console.warn(`Dropped real-time event: invalid ${type} payload`, parsed.error.flatten());
+    return null;
+  }
+
+  return { type, version, payload: parsed.data, published_at } as EventEnvelope;
+};
+
+// Hand a parsed event to its handler, if there is one
+export const handleEvent = (envelope: EventEnvelope, handlers: EventHandlers): void => {
+  const handler = handlers[envelope.type] as ((payload: unknown, envelope: EventEnvelope) => void) | undefined;
+  handler?.(envelope.payload, envelope);
+};
+
+// Row changes streamed from Postgres (Supabase `postgres_changes`) for the admin dashboard. They do
+// not travel in an envelope, so each table's rows are checked against its schema instead, and
+// changes that do not match are dropped the same way.
+const systemAlertRowV1 = z.object({
+  id: z.string(),
+  title: z.string(),
+  message: z.string(),
+  type: z.string(),
+  priority: z.string(),
+  is_active: z.boolean().nullable(),
+  target_audience: z.string().nullable()
+}).passthrough();
+
+const securityAlertRowV1 = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  type: z.string(),
+  severity: z.string()
+}).passthrough();
+
+const broadcastRowV1 = z.object({
+  id: z.string(),
+  title: z.string(),
+  type: z.string(),
+  status: z.string().nullable()
+}).passthrough();
+
+const projectRowV1 = z.object({
+  id: z.string(),
+  name: z.string(),
+  user_id: z.string(),
+  status: z.string().nullable()
+}).passthrough();
+
+const userRowV1 = z.object({
+  id: z.string(),
+  full_name: z.string().nullable(),
+  is_admin: z.boolean().nullable()
+}).passthrough();
+
+const deliverableRowV1 = z.object({
+  id: z.string(),
+  project_id: z.string(),
+  title: z.string(),
+  is_sent: z.boolean().nullable()
+}).passthrough();
+
+const systemSettingRowV1 = z.object({
+  id: z.string(),
+  setting_key: z.string(),
+  setting_value: z.string()
+}).passthrough();
+
+const projectTemplateRowV1 = z.object({
+  id: z.string(),
+  name: z.string(),
+  is_active: z.boolean().nullable()
+}).passthrough();
+
+export const TABLE_CHANGE_CATALOG = {
+  system_alerts: systemAlertRowV1,
+  security_alerts: securityAlertRowV1,
+  broadcasts: broadcastRowV1,
+  projects: projectRowV1,
+  users: userRowV1,
+  deliverables: deliverableRowV1,
+  system_settings: systemSettingRowV1,
+  project_templates: projectTemplateRowV1
+} satisfies Record<string, z.ZodTypeAny>;
+
+export type ChangeTable = keyof typeof TABLE_CHANGE_CATALOG;
+
+export type TableRow<T extends ChangeTable> = z.infer<(typeof TABLE_CHANGE_CATALOG)[T]>;
+
+// A deleted row only carries its primary key
+export type TableChange<T extends ChangeTable> =
+  | { eventType: 'INSERT' | 'UPDATE'; row: TableRow<T> }
+  | { eventType: 'DELETE'; id: string };
+
+const tableChangeSchema = z.object({
+  eventType: z.enum(['INSERT', 'UPDATE', 'DELETE']),
+  new: z.record(z.unknown()).nullable().optional(),
+  old: z.record(z.unknown()).nullable().optional()
+});
+
+const deletedRowSchema = z.object({ id: z.string() });
+
+// Check a raw postgres_changes payload; returns null (after logging why) for anything malformed
+export const parseTableChange = <T extends ChangeTable>(table: T, raw: unknown): TableChange<T> | null => {
+  const change = tableChangeSchema.safeParse(raw);
+  if (!change.success) {
+    console.warn(`Dropped ${table} change: invalid payload`, change.error.flatten());
+    return null;
+  }
+
+  if (change.data.eventType === 'DELETE') {
+    const deleted = deletedRowSchema.safeParse(change.data.old);
+    if (!deleted.success) {
+      console.warn(`Dropped ${table} change: deleted row has no id`);
+      return null;
+    }
+    return { eventType: 'DELETE', id: deleted.data.id };
+  }
+
+  const row = TABLE_CHANGE_CATALOG[table].safeParse(change.data.new);
+  if (!row.success) {
+    console.warn(`Dropped ${table} change: invalid row`, row.error.flatten());
+    return null;
+  }
+
+  return { eventType: change.data.eventType, row: row.data as TableRow<T> };
+};
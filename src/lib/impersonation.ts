@@ -0,0 +1,98 @@
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+import type { User } from '@/lib/auth';
+
+// Client for the `impersonation` Edge Function. Staff with `users.impersonate` can view the portal
+// as a client with a short-lived token; it is read-only unless changes are explicitly allowed.
+// The Edge Function writes every start, stop and page viewed to `impersonation_events`.
+
+// Kept in localStorage because the Supabase session it replaces is shared by every tab
+export const IMPERSONATION_STORAGE_KEY = 'impersonation';
+
+export interface ImpersonationSession {
+  id: string;
+  admin_id: string;
+  access_token: string;
+  expires_at: number; // seconds since epoch
+  read_only: boolean;
+  client: User;
+}
+
+export interface ImpersonationResult<T = undefined> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export type ImpersonationEndReason = 'stopped' | 'expired' | 'logout';
+
+export const getStoredImpersonation = (): ImpersonationSession | null => {
+  try {
+    const stored = localStorage.getItem(IMPERSONATION_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as ImpersonationSession : null;
+  } catch {
+    return null;
+  }
+};
+
+export const storeImpersonation = (session: ImpersonationSession | null): void => {
+  if (session) {
+    localStorage.setItem(IMPERSONATION_STORAGE_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(IMPERSONATION_STORAGE_KEY);
+  }
+};
+
+export const isImpersonationExpired = (session: ImpersonationSession): boolean => {
+  return session.expires_at * 1000 <= Date.now();
+};
+
+// Request a token for `clientId`; read-only unless `allowChanges` is set
+export const startImpersonation = async (
+  adminId: string,
+  clientId: string,
+  options: { allowChanges?: boolean } = {}
+): Promise<ImpersonationResult<ImpersonationSession>> => {
+  const { data, error } = await invokeEdgeFunction<Omit<ImpersonationSession, 'admin_id'>>(
+    'impersonation',
+    { action: 'start', client_id: clientId, read_only: !options.allowChanges },
+    'Failed to start viewing as client'
+  );
+
+  if (error || !data) {
+    console.error('Error starting impersonation:', error);
+    return { success: false, error: error || 'Failed to start viewing as client' };
+  }
+
+  return { success: true, data: { ...data, admin_id: adminId } };
+};
+
+// End the session on the server so its token stops working straight away
+export const stopImpersonation = async (
+  session: ImpersonationSession,
+  reason: ImpersonationEndReason = 'stopped'
+): Promise<ImpersonationResult> => {
+  const { error } = await invokeEdgeFunction(
+    'impersonation',
+    { action: 'stop', impersonation_id: session.id, reason },
+    'Failed to stop viewing as client'
+  );
+
+  return error ? { success: false, error } : { success: true };
+};
+
+// Record something the staff member did while viewing as the client
+export const logImpersonationAction = async (
+  session: ImpersonationSession,
+  action: string,
+  details: Record<string, unknown> = {}
+): Promise<void> => {
+  const { error } = await invokeEdgeFunction(
+    'impersonation',
+    { action: 'log_action', impersonation_id: session.id, event_action: action, details },
+    'Failed to record action'
+  );
+
+  if (error) {
+    console.error('Error recording impersonation action:', error);
+  }
+};
@@ -0,0 +1,146 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Shared staff inbox: every client conversation can be assigned to a staff member and moved
+// between open, pending and closed (see shared-inbox-migration.sql). Client messages are
+// addressed to the assignee, and new conversations are assigned in turn when enabled.
+
+export type InboxStatus = 'open' | 'pending' | 'closed';
+
+export type InboxView = 'mine' | 'unassigned' | 'all';
+
+export interface InboxConversation {
+  client_id: string;
+  assigned_to: string | null;
+  assigned_at: string | null;
+  status: InboxStatus;
+  last_client_message_at: string | null;
+  updated_at: string;
+}
+
+export interface InboxStaffMember {
+  id: string;
+  full_name: string | null;
+}
+
+export const INBOX_STATUSES: InboxStatus[] = ['open', 'pending', 'closed'];
+
+export const INBOX_STATUS_LABELS: Record<InboxStatus, string> = {
+  open: 'Open',
+  pending: 'Pending',
+  closed: 'Closed'
+};
+
+export const INBOX_STATUS_BADGE_CLASSES: Record<InboxStatus, string> = {
+  open: 'bg-green-100 text-green-800 border-green-200',
+  pending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  closed: 'bg-gray-100 text-gray-700 border-gray-200'
+};
+
+// Conversations started before the inbox existed have no entry yet; they count as open and unassigned
+export const DEFAULT_INBOX_ENTRY: Pick<InboxConversation, 'assigned_to' | 'status'> = {
+  assigned_to: null,
+  status: 'open'
+};
+
+export const matchesInboxView = (
+  entry: Pick<InboxConversation, 'assigned_to'>,
+  view: InboxView,
+  userId: string
+): boolean => {
+  switch (view) {
+    case 'mine':
+      return entry.assigned_to === userId;
+    case 'unassigned':
+      return !entry.assigned_to;
+    default:
+      return true;
+  }
+};
+
+export const fetchInboxConversations = async (): Promise<InboxConversation[]> => {
+  const { data, error } = await supabase
+    .from('inbox_conversations')
+    .select('client_id, assigned_to, assigned_at, status, last_client_message_at, updated_at');
+
+  if (error) {
+    console.error('Error fetching inbox conversations:', error);
+    return [];
+  }
+
+  return (data || []) as InboxConversation[];
+};
+
+export const fetchInboxStaff = async (): Promise<InboxStaffMember[]> => {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, full_name, is_active')
+    .eq('is_admin', true)
+    .order('full_name', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching staff for the inbox:', error);
+    return [];
+  }
+
+  return (data || [])
+    .filter(member => member.is_active !== false)
+    .map(({ id, full_name }) => ({ id, full_name }));
+};
+
+export const assignInboxConversation = async (
+  clientId: string,
+  staffId: string | null
+): Promise<{ success: boolean; error?: string }> => {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('inbox_conversations')
+    .upsert({
+      client_id: clientId,
+      assigned_to: staffId,
+      assigned_at: staffId ? now : null,
+      updated_at: now
+    }, {
+      onConflict: 'client_id'
+    });
+
+  if (error) {
+    console.error('Error assigning conversation:', error);
+    return { success: false, error: 'Failed to assign conversation' };
+  }
+
+  return { success: true };
+};
+
+export const updateInboxStatus = async (
+  clientId: string,
+  status: InboxStatus
+): Promise<{ success: boolean; error?: string }> => {
+  const { error } = await supabase
+    .from('inbox_conversations')
+    .upsert({
+      client_id: clientId,
+      status,
+      updated_at: new Date().toISOString()
+    }, {
+      onConflict: 'client_id'
+    });
+
+  if (error) {
+    console.error('Error updating conversation status:', error);
+    return { success: false, error: 'Failed to update conversation status' };
+  }
+
+  return { success: true };
+};
+
+// The staff member a client's next message is addressed to
+export const getInboxRecipientId = async (): Promise<string | null> => {
+  const { data, error } = await supabase.rpc('get_inbox_recipient_id');
+
+  if (error) {
+    console.error('Error finding inbox recipient:', error);
+    return null;
+  }
+
+  return data;
+};
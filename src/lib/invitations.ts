@@ -0,0 +1,103 @@
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+import SecurityManager from '@/lib/security';
+import type { User } from '@/lib/auth';
+
+// Client for the `invitations` Edge Function. Staff create signed, expiring links for accounts
+// they set up; invitees claim the account on /accept-invite by choosing a password.
+
+// Placeholder hash of accounts created for an invitee (see supabase/functions/_shared/invitations.ts);
+// only these accounts can be invited
+export const PENDING_PASSWORD_HASH = 'temp_password_hash';
+
+export interface CreatedInvitation {
+  invitation_id: string;
+  invite_url: string;
+  expires_at: string;
+  sent: boolean;
+}
+
+export interface InvitationDetails {
+  full_name: string | null;
+  company_name: string | null;
+  phone_number: string | null;
+  project_name: string | null;
+  expires_at: string;
+}
+
+export interface AcceptedInvitation {
+  user: User;
+  project_id: string | null;
+}
+
+export interface InvitationResult<T = undefined> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+interface CreateInvitationOptions {
+  projectId?: string;
+  expiresInDays?: number;
+  send?: boolean;
+}
+
+// Create a new invitation link for `userId` (any earlier unused link stops working)
+export const createInvitation = async (
+  adminId: string,
+  userId: string,
+  options: CreateInvitationOptions = {}
+): Promise<InvitationResult<CreatedInvitation>> => {
+  const { data, error } = await invokeEdgeFunction<CreatedInvitation>(
+    'invitations',
+    {
+      action: 'create',
+      user_id: userId,
+      project_id: options.projectId,
+      expires_in_days: options.expiresInDays,
+      send: options.send
+    },
+    'Failed to create invitation'
+  );
+
+  if (error || !data) {
+    return { success: false, error: error || 'Failed to create invitation' };
+  }
+
+  await SecurityManager.logSecurityEvent(adminId, 'invitation_created', {
+    user_id: userId,
+    project_id: options.projectId,
+    sent: data.sent
+  });
+  return { success: true, data };
+};
+
+// Look up who an invitation is for, so the accept page can greet them
+export const getInvitation = async (token: string): Promise<InvitationResult<InvitationDetails>> => {
+  const { data, error } = await invokeEdgeFunction<InvitationDetails>(
+    'invitations',
+    { action: 'verify', token },
+    'This invitation is invalid or has expired'
+  );
+
+  if (error || !data) {
+    return { success: false, error: error || 'This invitation is invalid or has expired' };
+  }
+
+  return { success: true, data };
+};
+
+// Set the invitee's password and activate the account
+export const acceptInvitation = async (token: string, password: string): Promise<InvitationResult<AcceptedInvitation>> => {
+  const { data, error } = await invokeEdgeFunction<AcceptedInvitation>(
+    'invitations',
+    { action: 'accept', token, password },
+    'Failed to accept invitation'
+  );
+
+  if (error || !data) {
+    return { success: false, error: error || 'Failed to accept invitation' };
+  }
+
+  await SecurityManager.logSecurityEvent(data.user.id, 'invitation_accepted', { project_id: data.project_id });
+  return { success: true, data };
+};
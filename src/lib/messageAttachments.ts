@@ -0,0 +1,288 @@
+import { supabase } from '@/integrations/supabase/client';
+import SecurityManager from '@/lib/security';
+
+// Files attached to direct messages. They are stored in their own private bucket, readable only by
+// the people in the conversation and staff, and staff can copy one into a project as an input or a
+// deliverable.
+
+export const MESSAGE_ATTACHMENTS_BUCKET = 'message-attachments';
+
+// Project inputs and deliverables keep their files here, so promoted copies go here too
+const PROJECT_FILES_BUCKET = 'deliverables';
+
+// Files sent before the private bucket existed are still in the project bucket under this folder
+const LEGACY_ATTACHMENT_FOLDER = 'message-attachments/';
+
+// Per-message limit, to keep a single send from turning into a bulk upload
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+// How long the links used for thumbnails and downloads stay valid
+const ATTACHMENT_URL_EXPIRY_SECONDS = 60 * 60;
+
+export interface MessageAttachment {
+  id: string;
+  message_id: string;
+  uploaded_by: string;
+  file_name: string;
+  file_path: string;
+  file_size: number;
+  file_type: string;
+  promoted_input_id: string | null;
+  promoted_deliverable_id: string | null;
+  created_at: string;
+}
+
+export type UploadedAttachment = Pick<MessageAttachment, 'file_name' | 'file_path' | 'file_size' | 'file_type'>;
+
+export interface AttachmentResult<T = undefined> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export const isImageAttachment = (attachment: Pick<MessageAttachment, 'file_type'>): boolean => {
+  return attachment.file_type.startsWith('image/');
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Check a batch of files before anything is uploaded
+export const validateAttachments = (files: File[]): string | null => {
+  if (files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    return `You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`;
+  }
+
+  for (const file of files) {
+    const validation = SecurityManager.validateFileUpload(file);
+    if (!validation.valid) {
+      return `${file.name}: ${validation.error}`;
+    }
+  }
+
+  return null;
+};
+
+const getAttachmentBucket = (filePath: string): string => {
+  return filePath.startsWith(LEGACY_ATTACHMENT_FOLDER) ? PROJECT_FILES_BUCKET : MESSAGE_ATTACHMENTS_BUCKET;
+};
+
+const buildStoragePath = (folder: string, fileName: string): string => {
+  const extension = fileName.includes('.') ? `.${fileName.split('.').pop()}` : '';
+  return `${folder}/${Date.now()}-${Math.random().toString(36).substring(2)}${extension}`;
+};
+
+// Upload files for a message that is about to be sent; everything is removed again if one fails
+export const uploadAttachments = async (userId: string, files: File[]): Promise<AttachmentResult<UploadedAttachment[]>> => {
+  const validationError = validateAttachments(files);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const uploaded: UploadedAttachment[] = [];
+  for (const file of files) {
+    const filePath = buildStoragePath(userId, file.name);
+    const { error } = await supabase.storage
+      .from(MESSAGE_ATTACHMENTS_BUCKET)
+      .upload(filePath, file, { cacheControl: '3600', upsert: false });
+
+    if (error) {
+      console.error('Error uploading message attachment:', error);
+      await removeUploadedAttachments(uploaded);
+      return { success: false, error: `Failed to upload ${file.name}` };
+    }
+
+    uploaded.push({ file_name: file.name, file_path: filePath, file_size: file.size, file_type: file.type });
+  }
+
+  return { success: true, data: uploaded };
+};
+
+// Remove a sender's stored files, after a failed send or once their message is deleted
+export const removeUploadedAttachments = async (uploaded: Pick<UploadedAttachment, 'file_path'>[]): Promise<void> => {
+  const paths = uploaded.map(file => file.file_path).filter(path => !path.startsWith(LEGACY_ATTACHMENT_FOLDER));
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(MESSAGE_ATTACHMENTS_BUCKET).remove(paths);
+  if (error) {
+    console.error('Error removing message attachments:', error);
+  }
+};
+
+// Send a message together with its uploaded files; the message is only kept if every file is
+// recorded against it. Resolves to the new message's id.
+export const sendMessageWithAttachments = async (
+  receiverId: string,
+  content: string,
+  projectId: string | null,
+  uploaded: UploadedAttachment[]
+): Promise<AttachmentResult<string>> => {
+  const { data, error } = await supabase.rpc('send_message_with_attachments', {
+    target_receiver_id: receiverId,
+    message_content: content,
+    message_project_id: projectId,
+    attachments: uploaded
+  });
+
+  if (error || !data) {
+    console.error('Error sending message:', error);
+    return { success: false, error: uploaded.length > 0 ? 'Failed to send message with attachments' : 'Failed to send message' };
+  }
+
+  return { success: true, data };
+};
+
+export const getAttachmentUrl = async (attachment: Pick<MessageAttachment, 'file_path'>): Promise<string | null> => {
+  const { data, error } = await supabase.storage
+    .from(getAttachmentBucket(attachment.file_path))
+    .createSignedUrl(attachment.file_path, ATTACHMENT_URL_EXPIRY_SECONDS);
+
+  if (error) {
+    console.error('Error creating attachment link:', error);
+    return null;
+  }
+
+  return data.signedUrl;
+};
+
+// Copy the file into the project bucket so deleting the project copy never breaks the message
+const copyAttachment = async (attachment: MessageAttachment, folder: string): Promise<string | null> => {
+  const filePath = buildStoragePath(folder, attachment.file_name);
+  const { error } = await supabase.storage
+    .from(getAttachmentBucket(attachment.file_path))
+    .copy(attachment.file_path, filePath, { destinationBucket: PROJECT_FILES_BUCKET });
+
+  if (error) {
+    console.error('Error copying message attachment:', error);
+    return null;
+  }
+
+  return filePath;
+};
+
+// Add the attachment to a project folder as a new input carrying the file (staff only)
+export const promoteAttachmentToInput = async (
+  adminId: string,
+  attachment: MessageAttachment,
+  folderId: string,
+  content: string
+): Promise<AttachmentResult<{ input_id: string }>> => {
+  const { data: lastInput } = await supabase
+    .from('folder_inputs')
+    .select('order_index')
+    .eq('folder_id', folderId)
+    .order('order_index', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data: input, error: inputError } = await supabase
+    .from('folder_inputs')
+    .insert({
+      folder_id: folderId,
+      content,
+      order_index: (lastInput?.order_index ?? -1) + 1
+    })
+    .select('id')
+    .single();
+
+  if (inputError || !input) {
+    console.error('Error creating input from attachment:', inputError);
+    return { success: false, error: 'Failed to create the project input' };
+  }
+
+  const filePath = await copyAttachment(attachment, `input-attachments/${input.id}`);
+  if (!filePath) {
+    await supabase.from('folder_inputs').delete().eq('id', input.id);
+    return { success: false, error: 'Failed to copy the file into the project' };
+  }
+
+  const { error: attachError } = await supabase
+    .from('input_attachments')
+    .insert({
+      folder_input_id: input.id,
+      file_name: attachment.file_name,
+      file_path: filePath,
+      file_size: attachment.file_size,
+      file_type: attachment.file_type
+    });
+
+  if (attachError) {
+    console.error('Error attaching file to input:', attachError);
+    await supabase.storage.from(PROJECT_FILES_BUCKET).remove([filePath]);
+    await supabase.from('folder_inputs').delete().eq('id', input.id);
+    return { success: false, error: 'Failed to attach the file to the input' };
+  }
+
+  const { error: promoteError } = await supabase
+    .from('message_attachments')
+    .update({ promoted_input_id: input.id })
+    .eq('id', attachment.id);
+
+  if (promoteError) {
+    console.error('Error recording attachment promotion:', promoteError);
+    await supabase.storage.from(PROJECT_FILES_BUCKET).remove([filePath]);
+    await supabase.from('folder_inputs').delete().eq('id', input.id);
+    return { success: false, error: 'Failed to link the input to the message' };
+  }
+
+  await SecurityManager.logSecurityEvent(adminId, 'message_attachment_promoted', {
+    attachment_id: attachment.id,
+    target: 'input',
+    input_id: input.id
+  });
+  return { success: true, data: { input_id: input.id } };
+};
+
+// Create an unsent deliverable on the project from the attachment (staff only)
+export const promoteAttachmentToDeliverable = async (
+  adminId: string,
+  attachment: MessageAttachment,
+  projectId: string,
+  details: { title: string; description: string }
+): Promise<AttachmentResult<{ deliverable_id: string }>> => {
+  const filePath = await copyAttachment(attachment, `deliverables/${projectId}`);
+  if (!filePath) {
+    return { success: false, error: 'Failed to copy the file into the project' };
+  }
+
+  const { data: deliverable, error } = await supabase
+    .from('deliverables')
+    .insert({
+      project_id: projectId,
+      title: details.title,
+      description: details.description,
+      deliverable_type: 'file',
+      file_path: filePath,
+      is_sent: false
+    })
+    .select('id')
+    .single();
+
+  if (error || !deliverable) {
+    console.error('Error creating deliverable from attachment:', error);
+    await supabase.storage.from(PROJECT_FILES_BUCKET).remove([filePath]);
+    return { success: false, error: 'Failed to create the deliverable' };
+  }
+
+  const { error: promoteError } = await supabase
+    .from('message_attachments')
+    .update({ promoted_deliverable_id: deliverable.id })
+    .eq('id', attachment.id);
+
+  if (promoteError) {
+    console.error('Error recording attachment promotion:', promoteError);
+    await supabase.from('deliverables').delete().eq('id', deliverable.id);
+    await supabase.storage.from(PROJECT_FILES_BUCKET).remove([filePath]);
+    return { success: false, error: 'Failed to link the deliverable to the message' };
+  }
+
+  await SecurityManager.logSecurityEvent(adminId, 'message_attachment_promoted', {
+    attachment_id: attachment.id,
+    target: 'deliverable',
+    deliverable_id: deliverable.id
+  });
+  return { success: true, data: { deliverable_id: deliverable.id } };
+};
@@ -0,0 +1,86 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Editing and soft-deleting sent messages. Both go through RPCs (see message-edits-migration.sql)
+// that check the sender and the edit window and keep the previous text in message_revisions,
+// which only staff can read.
+
+export const EDIT_WINDOW_SETTING_KEY = 'message_edit_window_minutes';
+export const DEFAULT_EDIT_WINDOW_MINUTES = 15;
+
+export interface MessageRevision {
+  id: string;
+  message_id: string;
+  action: 'edit' | 'delete';
+  previous_content: string;
+  revised_by: string;
+  created_at: string;
+}
+
+export interface MessageEditResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export const loadEditWindowMinutes = async (): Promise<number> => {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('setting_value')
+    .eq('setting_key', EDIT_WINDOW_SETTING_KEY)
+    .maybeSingle();
+
+  if (error || !data) {
+    return DEFAULT_EDIT_WINDOW_MINUTES;
+  }
+
+  const minutes = parseInt(data.setting_value, 10);
+  return Number.isNaN(minutes) ? DEFAULT_EDIT_WINDOW_MINUTES : minutes;
+};
+
+export const isWithinEditWindow = (createdAt: string, windowMinutes: number): boolean => {
+  return Date.now() - new Date(createdAt).getTime() < windowMinutes * 60 * 1000;
+};
+
+export const editMessage = async (
+  messageId: string,
+  content: string
+): Promise<MessageEditResult<{ content: string; edited_at: string }>> => {
+  const { data, error } = await supabase.rpc('edit_message', {
+    target_message_id: messageId,
+    new_content: content
+  });
+
+  if (error || !data || data.length === 0) {
+    console.error('Error editing message:', error);
+    return { success: false, error: error?.message || 'Failed to edit message' };
+  }
+
+  return { success: true, data: { content: data[0].content, edited_at: data[0].edited_at } };
+};
+
+export const deleteMessage = async (messageId: string): Promise<MessageEditResult<{ deleted_at: string }>> => {
+  const { data, error } = await supabase.rpc('delete_message', { target_message_id: messageId });
+
+  if (error || !data || data.length === 0) {
+    console.error('Error deleting message:', error);
+    return { success: false, error: error?.message || 'Failed to delete message' };
+  }
+
+  return { success: true, data: { deleted_at: data[0].deleted_at } };
+};
+
+// Earlier versions of a message, oldest first (staff only)
+export const getMessageRevisions = async (messageId: string): Promise<MessageRevision[]> => {
+  const { data, error } = await supabase
+    .from('message_revisions')
+    .select('*')
+    .eq('message_id', messageId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching message revisions:', error);
+    return [];
+  }
+
+  return (data || []) as MessageRevision[];
+};
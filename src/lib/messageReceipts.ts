@@ -0,0 +1,118 @@
+import { formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { publishMessageReceipts } from '@/lib/redis';
+import type { MessageReceipt } from '@/lib/events';
+import type { User } from '@/lib/auth';
+
+// Delivery and read receipts for direct messages. The receiver stamps delivered_at when a message
+// first reaches one of their tabs and read_at when it is shown in an open conversation, then
+// sends the new times back over the conversation's real-time room so the sender's ticks update.
+// read_at is never recorded for a receiver who has turned read receipts off.
+
+export type DeliveryState = 'sent' | 'delivered' | 'read';
+
+interface ReceiptTimes {
+  delivered_at?: string | null;
+  read_at?: string | null;
+}
+
+interface StampedMessage extends MessageReceipt {
+  sender_id: string;
+  receiver_id: string;
+}
+
+export const getDeliveryState = (message: ReceiptTimes): DeliveryState => {
+  if (message.read_at) return 'read';
+  if (message.delivered_at) return 'delivered';
+  return 'sent';
+};
+
+export const describeDeliveryState = (message: ReceiptTimes): string => {
+  if (message.read_at) {
+    return `Read ${formatDistanceToNow(new Date(message.read_at), { addSuffix: true })}`;
+  }
+  if (message.delivered_at) {
+    return `Delivered ${formatDistanceToNow(new Date(message.delivered_at), { addSuffix: true })}`;
+  }
+  return 'Sent';
+};
+
+// Rooms are keyed by the client, so staff reply into the sender's room and clients into their own
+const publishReceipts = async (user: User, stamped: StampedMessage[]): Promise<void> => {
+  const byRoom = new Map<string, MessageReceipt[]>();
+  stamped.forEach(({ id, sender_id, delivered_at, read_at }) => {
+    const roomId = user.is_admin ? sender_id : user.id;
+    byRoom.set(roomId, [...(byRoom.get(roomId) || []), { id, delivered_at, read_at }]);
+  });
+
+  await Promise.all(
+    Array.from(byRoom.entries()).map(([roomId, receipts]) => publishMessageReceipts(roomId, receipts))
+  );
+};
+
+// Mark everything addressed to the user that has not reached them yet as delivered
+export const markMessagesDelivered = async (user: User): Promise<void> => {
+  const { data, error } = await supabase.rpc('mark_messages_delivered');
+  if (error) {
+    console.error('Error marking messages as delivered:', error);
+    return;
+  }
+
+  if (data && data.length > 0) {
+    await publishReceipts(user, data);
+  }
+};
+
+// Mark messages shown in an open conversation as read (and delivered, if that was missed)
+export const markMessagesRead = async (user: User, messageIds: string[]): Promise<void> => {
+  if (messageIds.length === 0) return;
+
+  const { data, error } = await supabase.rpc('mark_messages_read', { message_ids: messageIds });
+  if (error) {
+    console.error('Error marking messages as read:', error);
+    return;
+  }
+
+  if (data && data.length > 0) {
+    await publishReceipts(user, data);
+  }
+};
+
+export const updateReadReceiptsSetting = async (userId: string, enabled: boolean): Promise<boolean> => {
+  const { error } = await supabase
+    .from('users')
+    .update({ read_receipts_enabled: enabled })
+    .eq('id', userId);
+
+  if (error) {
+    console.error('Error updating read receipts setting:', error);
+    return false;
+  }
+  return true;
+};
+
+export interface MessageReadStats {
+  direction: 'to_clients' | 'to_staff';
+  sent_count: number;
+  read_count: number;
+  avg_seconds_to_read: number | null;
+  median_seconds_to_read: number | null;
+}
+
+// Average and median time-to-read since `since` (staff with messages.read_all only)
+export const getMessageReadStats = async (since: Date): Promise<MessageReadStats[]> => {
+  const { data, error } = await supabase.rpc('get_message_read_stats', { since: since.toISOString() });
+  if (error) {
+    console.error('Error fetching message read stats:', error);
+    return [];
+  }
+  return (data || []) as MessageReadStats[];
+};
+
+export const formatDuration = (seconds: number | null): string => {
+  if (seconds === null || seconds === undefined) return '—';
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  if (seconds < 60 * 60) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 24 * 60 * 60) return `${(seconds / 3600).toFixed(1)}h`;
+  return `${(seconds / 86400).toFixed(1)}d`;
+};
@@ -0,0 +1,94 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Full-text search over message history for staff, backed by the search_messages RPC
+// (see message-search-migration.sql). Results name the client so the match can be opened
+// in that client's conversation.
+
+export interface MessageSearchFilters {
+  query: string;
+  clientId?: string;
+  projectId?: string;
+  // Inclusive calendar days in the browser's time zone, as yyyy-mm-dd
+  fromDate?: string;
+  toDate?: string;
+}
+
+export interface MessageSearchResult {
+  id: string;
+  client_id: string;
+  client_name: string | null;
+  sender_id: string;
+  sender_is_admin: boolean;
+  project_id: string | null;
+  project_name: string | null;
+  content: string;
+  headline: string;
+  created_at: string;
+  rank: number;
+}
+
+export interface HeadlinePart {
+  text: string;
+  isMatch: boolean;
+}
+
+const MATCH_START = '[[';
+const MATCH_END = ']]';
+
+export const SEARCH_RESULT_LIMIT = 50;
+
+const startOfDay = (date: string): string => new Date(`${date}T00:00:00`).toISOString();
+
+const startOfNextDay = (date: string): string => {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + 1);
+  return next.toISOString();
+};
+
+export const searchMessages = async (
+  filters: MessageSearchFilters
+): Promise<{ results: MessageSearchResult[]; error?: string }> => {
+  const query = filters.query.trim();
+  if (!query) {
+    return { results: [] };
+  }
+
+  const { data, error } = await supabase.rpc('search_messages', {
+    search_query: query,
+    filter_client_id: filters.clientId || undefined,
+    filter_project_id: filters.projectId || undefined,
+    from_date: filters.fromDate ? startOfDay(filters.fromDate) : undefined,
+    to_date: filters.toDate ? startOfNextDay(filters.toDate) : undefined,
+    result_limit: SEARCH_RESULT_LIMIT
+  });
+
+  if (error) {
+    console.error('Error searching messages:', error);
+    return { results: [], error: 'Failed to search messages' };
+  }
+
+  return { results: data || [] };
+};
+
+// Split a headline into plain text and matched terms so it can be rendered without raw HTML
+export const splitHeadline = (headline: string): HeadlinePart[] => {
+  const parts: HeadlinePart[] = [];
+  let rest = headline;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(MATCH_START);
+    const end = start === -1 ? -1 : rest.indexOf(MATCH_END, start + MATCH_START.length);
+    if (start === -1 || end === -1) {
+      parts.push({ text: rest, isMatch: false });
+      break;
+    }
+
+    if (start > 0) {
+      parts.push({ text: rest.slice(0, start), isMatch: false });
+    }
+    parts.push({ text: rest.slice(start + MATCH_START.length, end), isMatch: true });
+    rest = rest.slice(end + MATCH_END.length);
+  }
+
+  return parts;
+};
@@ -1,11 +1,12 @@
 import { supabase } from '@/integrations/supabase/client';
-import { publishNotification } from '@/lib/redis';
+import { publishNotification, publishUserEvent } from '@/lib/redis';
 
 export interface NotificationData {
   user_id: string;
   type: string;
   title: string;
   message: string;
+  link?: string;
 }
 
 // Create and send notification
@@ -19,6 +20,7 @@ export const createNotification = async (data: NotificationData): Promise<boolea
         type: data.type,
         title: data.title,
         message: data.message,
+        link: data.link ?? null,
         is_read: false
       })
       .select()
@@ -114,11 +116,27 @@ export const notifyClientOfStatusChange = async (
   }
 };
 
+// Let the client's open portal pick up a project status change without reloading
+export const publishProjectStatusChange = async (
+  clientId: string,
+  project: { id: string; name: string; previous_status?: string | null },
+  newStatus: string
+): Promise<void> => {
+  await publishUserEvent(clientId, 'project.status_changed', {
+    project_id: project.id,
+    project_name: project.name,
+    status: newStatus,
+    previous_status: project.previous_status ?? null,
+    changed_at: new Date().toISOString()
+  });
+};
+
 // Notify client of new deliverable
 export const notifyClientOfDeliverable = async (
   clientId: string,
   projectName: string,
-  deliverableTitle: string
+  deliverableTitle: string,
+  deliverable?: { id: string; project_id: string }
 ): Promise<void> => {
   try {
     await createNotification({
@@ -127,22 +145,41 @@ export const notifyClientOfDeliverable = async (
       title: 'New Deliverable Available',
       message: `${deliverableTitle} is ready for ${projectName}`
     });
+
+    if (deliverable) {
+      await publishUserEvent(clientId, 'deliverable.sent', {
+        deliverable_id: deliverable.id,
+        project_id: deliverable.project_id,
+        project_name: projectName,
+        title: deliverableTitle,
+        sent_at: new Date().toISOString()
+      });
+    }
   } catch (error) {
     console.error('Error notifying client of deliverable:', error);
   }
 };
 
+// Where a new message notification opens: the client's inbox, or the client's conversation for staff
+export const getMessageLink = (messageId: string, clientId?: string): string => {
+  return clientId
+    ? `/messages?client=${clientId}&message=${messageId}`
+    : `/inbox?message=${messageId}`;
+};
+
 // Notify client of new message
 export const notifyClientOfMessage = async (
   clientId: string,
-  senderName: string
+  senderName: string,
+  link?: string
 ): Promise<void> => {
   try {
     await createNotification({
       user_id: clientId,
       type: 'message',
       title: 'New Message',
-      message: `You have a new message from ${senderName}`
+      message: `You have a new message from ${senderName}`,
+      link
     });
   } catch (error) {
     console.error('Error notifying client of message:', error);
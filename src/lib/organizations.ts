@@ -0,0 +1,153 @@
+import { supabase } from '@/integrations/supabase/client';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+import SecurityManager from '@/lib/security';
+import type { CreatedInvitation } from '@/lib/invitations';
+import { OrganizationRole, resolveOrganizationRole } from '@/lib/permissions';
+
+// Client organizations. A client owner invites colleagues through the `organizations` Edge Function;
+// each membership is a `collaborations` row, and projects shared with the team carry its id.
+
+export interface OrganizationMembership {
+  id: number;
+  organization_id: string;
+  role: OrganizationRole;
+}
+
+export interface OrganizationMember {
+  id: number;
+  user_id: string;
+  full_name: string | null;
+  phone_number: string | null;
+  role: OrganizationRole;
+  status: 'pending' | 'active';
+  created_at: string;
+}
+
+export interface OrganizationTeam {
+  organization: { id: string; name: string } | null;
+  role: OrganizationRole | null;
+  members: OrganizationMember[];
+}
+
+export interface InvitedMember {
+  member_id: number;
+  invitation: CreatedInvitation | null; // null when the colleague already had an account
+}
+
+export interface OrganizationResult<T = undefined> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+// The user's active organization membership, or null when they work on their own
+export const getMembership = async (userId: string): Promise<OrganizationMembership | null> => {
+  const { data, error } = await supabase
+    .from('collaborations')
+    .select('id, organization_id, role')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (error || !data?.organization_id) {
+    return null;
+  }
+
+  return { id: data.id, organization_id: data.organization_id, role: resolveOrganizationRole(data.role) };
+};
+
+// PostgREST `or` filter matching every project the user can see: their own, plus their organization's
+export const getProjectScopeFilter = (userId: string, membership: OrganizationMembership | null): string => {
+  return membership
+    ? `user_id.eq.${userId},organization_id.eq.${membership.organization_id}`
+    : `user_id.eq.${userId}`;
+};
+
+// Load the caller's organization and everyone on it
+export const getTeam = async (): Promise<OrganizationResult<OrganizationTeam>> => {
+  const { data, error } = await invokeEdgeFunction<OrganizationTeam>(
+    'organizations',
+    { action: 'list_members' },
+    'Failed to load your team'
+  );
+
+  if (error || !data) {
+    return { success: false, error: error || 'Failed to load your team' };
+  }
+
+  return { success: true, data };
+};
+
+// Invite a colleague by phone number; the organization is created on the owner's first invite
+export const inviteMember = async (
+  userId: string,
+  member: { full_name: string; phone_number: string; role: OrganizationRole }
+): Promise<OrganizationResult<InvitedMember>> => {
+  const { data, error } = await invokeEdgeFunction<InvitedMember>(
+    'organizations',
+    { action: 'invite_member', ...member },
+    'Failed to invite colleague'
+  );
+
+  if (error || !data) {
+    return { success: false, error: error || 'Failed to invite colleague' };
+  }
+
+  await SecurityManager.logSecurityEvent(userId, 'organization_member_invited', {
+    member_id: data.member_id,
+    role: member.role
+  });
+  return { success: true, data };
+};
+
+// Change a colleague's role (owner only)
+export const updateMemberRole = async (
+  userId: string,
+  memberId: number,
+  role: OrganizationRole
+): Promise<OrganizationResult> => {
+  const { error } = await invokeEdgeFunction(
+    'organizations',
+    { action: 'update_member', member_id: memberId, role },
+    'Failed to update role'
+  );
+
+  if (error) {
+    return { success: false, error };
+  }
+
+  await SecurityManager.logSecurityEvent(userId, 'organization_member_role_changed', { member_id: memberId, role });
+  return { success: true };
+};
+
+// Remove a colleague from the organization (owner only)
+export const removeMember = async (userId: string, memberId: number): Promise<OrganizationResult> => {
+  const { error } = await invokeEdgeFunction(
+    'organizations',
+    { action: 'remove_member', member_id: memberId },
+    'Failed to remove colleague'
+  );
+
+  if (error) {
+    return { success: false, error };
+  }
+
+  await SecurityManager.logSecurityEvent(userId, 'organization_member_removed', { member_id: memberId });
+  return { success: true };
+};
+
+// Sign off on a delivered item; the database checks the caller has the approve level on its project
+export const approveDeliverable = async (
+  userId: string,
+  deliverableId: string
+): Promise<OrganizationResult<string>> => {
+  const { data, error } = await supabase.rpc('approve_deliverable', { target_deliverable_id: deliverableId });
+
+  if (error || !data) {
+    console.error('Error approving deliverable:', error);
+    return { success: false, error: error?.message || 'Failed to approve deliverable' };
+  }
+
+  await SecurityManager.logSecurityEvent(userId, 'deliverable_approved', { deliverable_id: deliverableId });
+  return { success: true, data };
+};
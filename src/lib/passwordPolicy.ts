@@ -0,0 +1,91 @@
+import { SecuritySettings, DEFAULT_SECURITY_SETTINGS, loadSecuritySettings } from '@/lib/securitySettings';
+import { isCommonPassword } from '@/lib/commonPasswords';
+
+export type PasswordPolicy = SecuritySettings['password_policy'];
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = DEFAULT_SECURITY_SETTINGS.password_policy;
+
+export interface PasswordRequirement {
+  id: string;
+  label: string;
+  error: string;
+  test: (password: string) => boolean;
+}
+
+/**
+ * The checks a password must pass under `policy`, in the order they are shown to the user
+ */
+export const getPasswordRequirements = (policy: PasswordPolicy): PasswordRequirement[] => {
+  const requirements: PasswordRequirement[] = [
+    {
+      id: 'min_length',
+      label: `At least ${policy.min_length} characters`,
+      error: `Password must be at least ${policy.min_length} characters long`,
+      test: password => password.length >= policy.min_length
+    }
+  ];
+
+  if (policy.require_uppercase) {
+    requirements.push({
+      id: 'uppercase',
+      label: 'One uppercase letter',
+      error: 'Password must contain at least one uppercase letter',
+      test: password => /[A-Z]/.test(password)
+    });
+  }
+
+  if (policy.require_lowercase) {
+    requirements.push({
+      id: 'lowercase',
+      label: 'One lowercase letter',
+      error: 'Password must contain at least one lowercase letter',
+      test: password => /[a-z]/.test(password)
+    });
+  }
+
+  if (policy.require_numbers) {
+    requirements.push({
+      id: 'numbers',
+      label: 'One number',
+      error: 'Password must contain at least one number',
+      test: password => /\d/.test(password)
+    });
+  }
+
+  if (policy.require_symbols) {
+    requirements.push({
+      id: 'symbols',
+      label: 'One symbol (e.g. ! @ # $)',
+      error: 'Password must contain at least one symbol',
+      test: password => /[^A-Za-z0-9]/.test(password)
+    });
+  }
+
+  requirements.push({
+    id: 'not_common',
+    label: 'Not a commonly used password',
+    error: 'This password is too common. Please choose a less predictable one',
+    test: password => !isCommonPassword(password)
+  });
+
+  return requirements;
+};
+
+/**
+ * Load the live password policy, falling back to the defaults
+ */
+export const loadPasswordPolicy = async (): Promise<PasswordPolicy> => {
+  const settings = await loadSecuritySettings();
+  return settings.password_policy;
+};
+
+/**
+ * Whether a password last changed at `passwordChangedAt` is past the policy's maximum age
+ * A `max_age_days` of 0 disables expiry
+ */
+export const isPasswordExpired = (passwordChangedAt: string | null | undefined, policy: PasswordPolicy): boolean => {
+  if (!passwordChangedAt || policy.max_age_days <= 0) return false;
+
+  const maxAgeMs = policy.max_age_days * 24 * 60 * 60 * 1000;
+  return Date.now() - new Date(passwordChangedAt).getTime() > maxAgeMs;
+};
@@ -0,0 +1,117 @@
+// Role-based permissions. The matrix below is mirrored by the `role_permissions` table
+// (src/scripts/rbac-migration.sql), which RLS policies check through `has_permission()`.
+
+export type Role = 'admin' | 'manager' | 'client';
+
+export type Permission =
+  | 'admin.access'       // Use the admin area at all
+  | 'projects.read_all'  // See every client's projects
+  | 'projects.manage'    // Create, edit and delete any project
+  | 'deliverables.send'  // Upload and send deliverables to clients
+  | 'messages.read_all'  // Read and answer every client conversation
+  | 'broadcasts.send'    // Send broadcast messages to clients
+  | 'users.manage'       // Create, edit, suspend and delete users
+  | 'users.impersonate'  // View the portal as a client
+  | 'settings.edit'      // Change system settings and system alerts
+  | 'security.manage'    // Security settings, audit logs and 2FA resets
+  | 'storage.manage';    // Browse and delete any stored file
+
+export const ROLES: Role[] = ['admin', 'manager', 'client'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  manager: 'Manager',
+  client: 'Client'
+};
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'admin.access',
+    'projects.read_all',
+    'projects.manage',
+    'deliverables.send',
+    'messages.read_all',
+    'broadcasts.send',
+    'users.manage',
+    'users.impersonate',
+    'settings.edit',
+    'security.manage',
+    'storage.manage'
+  ],
+  manager: [
+    'admin.access',
+    'projects.read_all',
+    'projects.manage',
+    'deliverables.send',
+    'messages.read_all',
+    'broadcasts.send'
+  ],
+  client: []
+};
+
+// Rows created before roles existed only have `is_admin`
+export const resolveRole = (user: { role?: string | null; is_admin?: boolean | null }): Role => {
+  if (user.role && (ROLES as string[]).includes(user.role)) {
+    return user.role as Role;
+  }
+  return user.is_admin ? 'admin' : 'client';
+};
+
+export const roleHasPermission = (role: Role, permission: Permission): boolean => {
+  return ROLE_PERMISSIONS[role].includes(permission);
+};
+
+export const hasPermission = (
+  user: { role?: string | null; is_admin?: boolean | null } | null | undefined,
+  permission: Permission
+): boolean => {
+  if (!user) return false;
+  return roleHasPermission(resolveRole(user), permission);
+};
+
+// Client organization roles. A client owner invites colleagues with one of these roles; the ranks
+// are mirrored by `can_access_project()` (src/scripts/organizations-migration.sql).
+export type OrganizationRole = 'owner' | 'approver' | 'editor' | 'viewer';
+
+export type ProjectAccessLevel =
+  | 'view'     // See projects, folders and deliverables
+  | 'edit'     // Rename projects and edit folders and inputs
+  | 'approve'; // Sign off on delivered work
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ['owner', 'approver', 'editor', 'viewer'];
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  approver: 'Approver',
+  editor: 'Editor',
+  viewer: 'Viewer'
+};
+
+export const ORGANIZATION_ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  owner: 'Full access and manages the team',
+  approver: 'Can edit projects and approve deliverables',
+  editor: 'Can edit projects and folders',
+  viewer: 'Can view projects and deliverables'
+};
+
+const ORGANIZATION_ROLE_RANK: Record<OrganizationRole, number> = {
+  owner: 4,
+  approver: 3,
+  editor: 2,
+  viewer: 1
+};
+
+const PROJECT_ACCESS_RANK: Record<ProjectAccessLevel, number> = {
+  approve: 3,
+  edit: 2,
+  view: 1
+};
+
+// Unknown or missing roles get the least access
+export const resolveOrganizationRole = (role: string | null | undefined): OrganizationRole => {
+  return role && (ORGANIZATION_ROLES as string[]).includes(role) ? role as OrganizationRole : 'viewer';
+};
+
+export const organizationRoleAllows = (role: OrganizationRole, level: ProjectAccessLevel): boolean => {
+  return (ORGANIZATION_ROLE_RANK[role] ?? 0) >= PROJECT_ACCESS_RANK[level];
+};
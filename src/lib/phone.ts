@@ -0,0 +1,117 @@
+// Phone number normalization to E.164 (+<country code><national number>)
+// Validation rules are bundled locally so sign-in works without a lookup service
+
+export type CountryCode = 'NG' | 'GH' | 'KE' | 'GB' | 'US';
+
+export interface CountryPhoneRule {
+  code: CountryCode;
+  name: string;
+  flag: string;
+  dialCode: string;
+  trunkPrefix: string; // Digit dialled before the national number inside the country
+  nationalNumberPattern: RegExp; // Mobile numbers only, since codes are delivered by SMS/WhatsApp
+  example: string;
+}
+
+export const PHONE_COUNTRIES: CountryPhoneRule[] = [
+  {
+    code: 'NG',
+    name: 'Nigeria',
+    flag: '🇳🇬',
+    dialCode: '234',
+    trunkPrefix: '0',
+    nationalNumberPattern: /^[789][01]\d{8}$/,
+    example: '801 234 5678'
+  },
+  {
+    code: 'GH',
+    name: 'Ghana',
+    flag: '🇬🇭',
+    dialCode: '233',
+    trunkPrefix: '0',
+    nationalNumberPattern: /^(2[0346-8]|5[0345679])\d{7}$/,
+    example: '24 123 4567'
+  },
+  {
+    code: 'KE',
+    name: 'Kenya',
+    flag: '🇰🇪',
+    dialCode: '254',
+    trunkPrefix: '0',
+    nationalNumberPattern: /^(7\d|1[01])\d{7}$/,
+    example: '712 345678'
+  },
+  {
+    code: 'GB',
+    name: 'United Kingdom',
+    flag: '🇬🇧',
+    dialCode: '44',
+    trunkPrefix: '0',
+    nationalNumberPattern: /^7[1-9]\d{8}$/,
+    example: '7400 123456'
+  },
+  {
+    code: 'US',
+    name: 'United States',
+    flag: '🇺🇸',
+    dialCode: '1',
+    trunkPrefix: '1',
+    nationalNumberPattern: /^[2-9]\d{2}[2-9]\d{6}$/,
+    example: '201 555 0123'
+  }
+];
+
+export const DEFAULT_COUNTRY: CountryCode = 'NG';
+
+export const getPhoneCountry = (code: CountryCode): CountryPhoneRule => {
+  return PHONE_COUNTRIES.find(country => country.code === code) || PHONE_COUNTRIES[0];
+};
+
+// Find the supported country for an E.164 number, preferring the longest matching dial code
+export const detectPhoneCountry = (e164: string): CountryPhoneRule | undefined => {
+  const digits = e164.replace(/\D/g, '');
+  return [...PHONE_COUNTRIES]
+    .sort((a, b) => b.dialCode.length - a.dialCode.length)
+    .find(country => digits.startsWith(country.dialCode));
+};
+
+/**
+ * Normalize a phone number to E.164
+ * Numbers entered with a leading + or 00 keep their own country code, anything else is read
+ * as a national number of the selected country (with or without its trunk prefix)
+ */
+export const normalizePhoneNumber = (phone: string, countryCode: CountryCode = DEFAULT_COUNTRY): string => {
+  const trimmed = phone.trim();
+  let digits = trimmed.replace(/\D/g, '');
+
+  if (trimmed.startsWith('+')) {
+    return `+${digits}`;
+  }
+
+  if (trimmed.startsWith('00')) {
+    return `+${digits.substring(2)}`;
+  }
+
+  const country = getPhoneCountry(countryCode);
+
+  // Already includes the country code, e.g. 2348012345678
+  if (digits.startsWith(country.dialCode) && country.nationalNumberPattern.test(digits.substring(country.dialCode.length))) {
+    return `+${digits}`;
+  }
+
+  if (country.trunkPrefix && digits.startsWith(country.trunkPrefix) && !country.nationalNumberPattern.test(digits)) {
+    digits = digits.substring(country.trunkPrefix.length);
+  }
+
+  return `+${country.dialCode}${digits}`;
+};
+
+// Check an E.164 number against the rules of the country it belongs to
+export const isValidPhoneNumber = (e164: string): boolean => {
+  if (!/^\+[1-9]\d{6,14}$/.test(e164)) return false;
+
+  const country = detectPhoneCountry(e164);
+  if (!country) return false;
+
+  return country.nationalNumberPattern.test(e164.substring(country.dialCode.length + 1));
+};
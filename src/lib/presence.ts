@@ -0,0 +1,74 @@
+import { formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+
+// Presence for messaging. Online and away state is shared over private Supabase Realtime presence
+// channels (see PresenceContext): staff share one that every signed-in user can watch, and each
+// client has their own that only they and staff can join. "last seen" is stamped on the user's
+// row while they are active. Typing indicators are broadcasts on a private per-conversation
+// channel (see useTypingIndicator). Who may join which channel is enforced by the policies in
+// presence-migration.sql.
+
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+// What each tab tracks on the presence channel
+export interface PresencePayload {
+  user_id: string;
+  is_staff: boolean;
+  status: Exclude<PresenceStatus, 'offline'>;
+  online_at: string;
+}
+
+export const STAFF_PRESENCE_CHANNEL = 'presence:staff';
+
+export const getClientPresenceChannelName = (clientId: string): string => `presence:client:${clientId}`;
+
+// A tab counts as away when hidden or without keyboard, mouse or touch input for this long
+export const AWAY_AFTER_MS = 5 * 60 * 1000;
+
+// How often an active user's last_seen_at is refreshed
+export const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+// "typing…" is cleared if no update arrives within this window
+export const TYPING_TIMEOUT_MS = 5000;
+
+// Minimum gap between typing broadcasts while the user keeps typing
+export const TYPING_THROTTLE_MS = 2000;
+
+export const PRESENCE_LABELS: Record<PresenceStatus, string> = {
+  online: 'Online',
+  away: 'Away',
+  offline: 'Offline'
+};
+
+export const PRESENCE_DOT_CLASSES: Record<PresenceStatus, string> = {
+  online: 'bg-green-500',
+  away: 'bg-yellow-500',
+  offline: 'bg-muted-foreground/40'
+};
+
+// A user with several tabs open is online if any of them is
+export const resolvePresenceStatus = (entries: PresencePayload[]): PresenceStatus => {
+  if (entries.some(entry => entry.status === 'online')) return 'online';
+  return entries.length > 0 ? 'away' : 'offline';
+};
+
+// Typing broadcasts for a conversation are keyed by its client, so the client and every staff
+// member see them
+export const getTypingChannelName = (clientId: string): string => `typing:${clientId}`;
+
+// Stamp the current user's last_seen_at; ignored for staff viewing as a client
+export const touchLastSeen = async (): Promise<void> => {
+  const { error } = await supabase.rpc('touch_last_seen');
+  if (error) {
+    console.error('Error updating last seen:', error);
+  }
+};
+
+export const formatLastSeen = (lastSeenAt: string | null | undefined): string => {
+  if (!lastSeenAt) return 'Not seen yet';
+  return `Last seen ${formatDistanceToNow(new Date(lastSeenAt), { addSuffix: true })}`;
+};
+
+export const describePresence = (status: PresenceStatus, lastSeenAt: string | null | undefined): string => {
+  return status === 'offline' ? formatLastSeen(lastSeenAt) : PRESENCE_LABELS[status];
+};
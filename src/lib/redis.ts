@@ -1,32 +1,248 @@
-// Browser-compatible Redis simulation using localStorage and EventTarget for real-time features
-// In a production environment, this would be replaced with actual Redis backend calls
+import { supabase } from '@/integrations/supabase/client';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+import { createEvent, handleEvent, parseEvent, EventHandlers, EventPayload, EventType } from '@/lib/events';
+
+// Session, cache and pub/sub layer. The helpers below run against whichever backend is configured
+// with VITE_KV_BACKEND:
+// - `browser` (default): localStorage, with pub/sub fanned out to every tab through BroadcastChannel
+// - `server`: a real Redis instance behind the `kv` Edge Function
+// - `memory`: plain in-memory maps, for tests
+
+export interface ScanOptions {
+  match?: string; // glob pattern, e.g. `cache:projects:*`
+  count?: number;
+}
 
-// Redis configuration (for future backend implementation)
-const REDIS_URL = 'redis://redis-15049.c274.us-east-1-3.ec2.redns.redis-cloud.com:15049';
+export interface ScanResult {
+  cursor: string; // '0' once the scan is complete
+  keys: string[];
+}
 
-// Event emitter for real-time features
-const eventEmitter = new EventTarget();
+export interface KeyValueStore {
+  get(key: string): Promise<string | null>;
+  setEx(key: string, seconds: number, value: string): Promise<boolean>;
+  del(key: string): Promise<boolean>;
+  keys(pattern?: string): Promise<string[]>;
+  scan(cursor: string, options?: ScanOptions): Promise<ScanResult>;
+}
 
-// Browser storage simulation
-class BrowserRedis {
-  private storage = localStorage;
+export interface Subscription {
+  unsubscribe: () => void;
+}
+
+export interface PubSub {
+  publish(channel: string, message: string): Promise<boolean>;
+  subscribe(channel: string, callback: (message: string) => void): Promise<Subscription | null>;
+}
+
+export interface RedisBackend extends KeyValueStore, PubSub {
+  connect(): Promise<boolean>;
+  disconnect(): Promise<boolean>;
+}
+
+export type RedisBackendKind = 'browser' | 'server' | 'memory';
+
+// Key and channel prefixes
+export const SESSION_PREFIX = 'session:';
+export const CACHE_PREFIX = 'cache:';
+export const NOTIFICATION_PREFIX = 'notification:';
+export const MESSAGE_PREFIX = 'message:';
+
+const DEFAULT_SCAN_COUNT = 10;
+
+// Redis-style glob: `*` matches any run of characters, `?` a single one
+const globToRegExp = (pattern: string): RegExp => {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+};
+
+// SCAN over an in-page key list; the cursor is the offset into the sorted matches
+const scanKeys = (allKeys: string[], cursor: string, options: ScanOptions = {}): ScanResult => {
+  const matcher = globToRegExp(options.match ?? '*');
+  const matches = allKeys.filter(key => matcher.test(key)).sort();
+  const start = Number(cursor) || 0;
+  const end = start + (options.count ?? DEFAULT_SCAN_COUNT);
+
+  return {
+    cursor: end < matches.length ? String(end) : '0',
+    keys: matches.slice(start, end)
+  };
+};
+
+// Channel subscribers shared by the in-page backends
+class LocalSubscribers {
   private subscribers = new Map<string, Set<(message: string) => void>>();
 
+  notify(channel: string, message: string) {
+    const channelSubscribers = this.subscribers.get(channel);
+    if (!channelSubscribers) return;
+
+    channelSubscribers.forEach(callback => {
+      try {
+        callback(message);
+      } catch (error) {
+        console.error('Subscriber callback error:', error);
+      }
+    });
+  }
+
+  add(channel: string, callback: (message: string) => void): Subscription {
+    if (!this.subscribers.has(channel)) {
+      this.subscribers.set(channel, new Set());
+    }
+    this.subscribers.get(channel)!.add(callback);
+
+    return {
+      unsubscribe: () => {
+        const channelSubscribers = this.subscribers.get(channel);
+        if (channelSubscribers) {
+          channelSubscribers.delete(callback);
+          if (channelSubscribers.size === 0) {
+            this.subscribers.delete(channel);
+          }
+        }
+      }
+    };
+  }
+}
+
+// How often expired entries are removed even if nobody reads them
+const EXPIRY_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// BroadcastChannel that carries published messages to the other tabs
+const PUBSUB_CHANNEL_NAME = 'redis-pubsub';
+
+interface StoredEntry {
+  value: string;
+  expiry: number;
+  accessed?: number; // last read or write, for LRU eviction of cache keys
+}
+
+const isQuotaError = (error: unknown): boolean => {
+  return error instanceof DOMException && (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22 ||
+    error.code === 1014
+  );
+};
+
+// Browser storage simulation. Entries share localStorage with the rest of the app, so only values
+// in the `{ value, expiry }` shape written here are treated as keys.
+export class BrowserRedis implements RedisBackend {
+  private storage = localStorage;
+  private subscribers = new LocalSubscribers();
+  private channel: BroadcastChannel | null = null;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
   async connect() {
+    if (!this.channel && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(PUBSUB_CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<{ channel: string; message: string }>) => {
+        this.subscribers.notify(event.data.channel, event.data.message);
+      };
+    }
+
+    if (!this.sweepTimer) {
+      this.sweep();
+      this.sweepTimer = setInterval(() => this.sweep(), EXPIRY_SWEEP_INTERVAL_MS);
+    }
+
     console.log('Redis Client Connected (Browser Mode)');
     return true;
   }
 
   async disconnect() {
+    this.channel?.close();
+    this.channel = null;
+
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
     console.log('Redis Client Disconnected (Browser Mode)');
     return true;
   }
 
+  private readEntry(key: string): StoredEntry | null {
+    try {
+      const item = this.storage.getItem(key);
+      if (!item) return null;
+
+      const data = JSON.parse(item);
+      return data && typeof data === 'object' && typeof data.value === 'string' && typeof data.expiry === 'number'
+        ? data as StoredEntry
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private isExpired(entry: StoredEntry): boolean {
+    return Date.now() > entry.expiry;
+  }
+
+  private storedKeys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key !== null) keys.push(key);
+    }
+    return keys;
+  }
+
+  // Remove every expired entry; returns how many were removed
+  sweep(): number {
+    let removed = 0;
+    for (const key of this.storedKeys()) {
+      const entry = this.readEntry(key);
+      if (entry && this.isExpired(entry)) {
+        this.storage.removeItem(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  // Make room by dropping expired entries, then the least recently used cache key
+  private evict(exceptKey: string): boolean {
+    if (this.sweep() > 0) return true;
+
+    let oldestKey: string | null = null;
+    let oldestAccess = Infinity;
+    for (const key of this.storedKeys()) {
+      if (key === exceptKey || !key.startsWith(CACHE_PREFIX)) continue;
+
+      const entry = this.readEntry(key);
+      const accessed = entry?.accessed ?? 0;
+      if (entry && accessed < oldestAccess) {
+        oldestKey = key;
+        oldestAccess = accessed;
+      }
+    }
+
+    if (!oldestKey) return false;
+    this.storage.removeItem(oldestKey);
+    return true;
+  }
+
+  private writeEntry(key: string, entry: StoredEntry) {
+    const serialized = JSON.stringify(entry);
+    for (;;) {
+      try {
+        this.storage.setItem(key, serialized);
+        return;
+      } catch (error) {
+        if (!isQuotaError(error) || !this.evict(key)) throw error;
+      }
+    }
+  }
+
   async setEx(key: string, seconds: number, value: string): Promise<boolean> {
     try {
-      const expiry = Date.now() + (seconds * 1000);
-      const data = { value, expiry };
-      this.storage.setItem(key, JSON.stringify(data));
+      const now = Date.now();
+      this.writeEntry(key, { value, expiry: now + (seconds * 1000), accessed: now });
       return true;
     } catch (error) {
       console.error('Failed to set key:', error);
@@ -36,18 +252,24 @@ class BrowserRedis {
 
   async get(key: string): Promise<string | null> {
     try {
-      const item = this.storage.getItem(key);
-      if (!item) return null;
-
-      const data = JSON.parse(item);
+      const entry = this.readEntry(key);
+      if (!entry) return null;
 
-      // Check if expired
-      if (data.expiry && Date.now() > data.expiry) {
+      if (this.isExpired(entry)) {
         this.storage.removeItem(key);
         return null;
       }
 
-      return data.value;
+      // Only cache keys are evictable, so only they need their access time kept
+      if (key.startsWith(CACHE_PREFIX)) {
+        try {
+          this.storage.setItem(key, JSON.stringify({ ...entry, accessed: Date.now() }));
+        } catch {
+          // Keeping the old access time is harmless
+        }
+      }
+
+      return entry.value;
     } catch (error) {
       console.error('Failed to get key:', error);
       return null;
@@ -64,26 +286,27 @@ class BrowserRedis {
     }
   }
 
+  private liveKeys(): string[] {
+    return this.storedKeys().filter(key => {
+      const entry = this.readEntry(key);
+      return entry !== null && !this.isExpired(entry);
+    });
+  }
+
+  async keys(pattern = '*'): Promise<string[]> {
+    const matcher = globToRegExp(pattern);
+    return this.liveKeys().filter(key => matcher.test(key)).sort();
+  }
+
+  async scan(cursor: string, options?: ScanOptions): Promise<ScanResult> {
+    return scanKeys(this.liveKeys(), cursor, options);
+  }
+
+  // Delivered in this tab directly and in every other tab through the BroadcastChannel
   async publish(channel: string, message: string): Promise<boolean> {
     try {
-      // Simulate real-time publishing using custom events
-      const event = new CustomEvent('redis-message', {
-        detail: { channel, message }
-      });
-      eventEmitter.dispatchEvent(event);
-
-      // Also notify direct subscribers
-      const channelSubscribers = this.subscribers.get(channel);
-      if (channelSubscribers) {
-        channelSubscribers.forEach(callback => {
-          try {
-            callback(message);
-          } catch (error) {
-            console.error('Subscriber callback error:', error);
-          }
-        });
-      }
-
+      this.subscribers.notify(channel, message);
+      this.channel?.postMessage({ channel, message });
       return true;
     } catch (error) {
       console.error('Failed to publish message:', error);
@@ -93,51 +316,243 @@ class BrowserRedis {
 
   async subscribe(channel: string, callback: (message: string) => void) {
     try {
-      if (!this.subscribers.has(channel)) {
-        this.subscribers.set(channel, new Set());
-      }
-      this.subscribers.get(channel)!.add(callback);
-
-      return {
-        unsubscribe: () => {
-          const channelSubscribers = this.subscribers.get(channel);
-          if (channelSubscribers) {
-            channelSubscribers.delete(callback);
-            if (channelSubscribers.size === 0) {
-              this.subscribers.delete(channel);
-            }
-          }
-        }
-      };
+      return this.subscribers.add(channel, callback);
     } catch (error) {
       console.error('Failed to subscribe:', error);
       return null;
     }
   }
+}
+
+// Keeps everything in memory so tests start from a clean, isolated store
+export class MemoryRedis implements RedisBackend {
+  private entries = new Map<string, { value: string; expiry: number }>();
+  private subscribers = new LocalSubscribers();
 
-  duplicate() {
-    return new BrowserRedis();
+  async connect() {
+    return true;
+  }
+
+  async disconnect() {
+    this.entries.clear();
+    return true;
+  }
+
+  async setEx(key: string, seconds: number, value: string): Promise<boolean> {
+    this.entries.set(key, { value, expiry: Date.now() + (seconds * 1000) });
+    return true;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (Date.now() > entry.expiry) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async del(key: string): Promise<boolean> {
+    this.entries.delete(key);
+    return true;
+  }
+
+  private liveKeys(): string[] {
+    const now = Date.now();
+    return Array.from(this.entries.entries())
+      .filter(([, entry]) => entry.expiry >= now)
+      .map(([key]) => key);
+  }
+
+  async keys(pattern = '*'): Promise<string[]> {
+    const matcher = globToRegExp(pattern);
+    return this.liveKeys().filter(key => matcher.test(key)).sort();
+  }
+
+  async scan(cursor: string, options?: ScanOptions): Promise<ScanResult> {
+    return scanKeys(this.liveKeys(), cursor, options);
+  }
+
+  async publish(channel: string, message: string): Promise<boolean> {
+    this.subscribers.notify(channel, message);
+    return true;
+  }
+
+  async subscribe(channel: string, callback: (message: string) => void) {
+    return this.subscribers.add(channel, callback);
+  }
+}
+
+// Delay before reopening a subscription stream that dropped
+const SERVER_RECONNECT_DELAY_MS = 3000;
+
+// Talks to Redis through the `kv` Edge Function; subscriptions are server-sent event streams
+export class ServerRedis implements RedisBackend {
+  async connect() {
+    return true;
+  }
+
+  async disconnect() {
+    return true;
+  }
+
+  async setEx(key: string, seconds: number, value: string): Promise<boolean> {
+    const { error } = await invokeEdgeFunction('kv', { action: 'set', key, value, ttl_seconds: seconds }, 'Failed to set key');
+    if (error) {
+      console.error('Failed to set key:', error);
+      return false;
+    }
+    return true;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const { data, error } = await invokeEdgeFunction<{ value: string | null }>('kv', { action: 'get', key }, 'Failed to get key');
+    if (error) {
+      console.error('Failed to get key:', error);
+      return null;
+    }
+    return data?.value ?? null;
+  }
+
+  async del(key: string): Promise<boolean> {
+    const { error } = await invokeEdgeFunction('kv', { action: 'del', key }, 'Failed to delete key');
+    if (error) {
+      console.error('Failed to delete key:', error);
+      return false;
+    }
+    return true;
+  }
+
+  // Sessions are not listed; the server only scans the caller's own keys
+  async keys(pattern = '*'): Promise<string[]> {
+    const { data, error } = await invokeEdgeFunction<{ keys: string[] }>('kv', { action: 'keys', pattern }, 'Failed to list keys');
+    if (error) {
+      console.error('Failed to list keys:', error);
+      return [];
+    }
+    return data?.keys ?? [];
+  }
+
+  async scan(cursor: string, options: ScanOptions = {}): Promise<ScanResult> {
+    const { data, error } = await invokeEdgeFunction<ScanResult>(
+      'kv',
+      { action: 'scan', cursor, match: options.match, count: options.count },
+      'Failed to scan keys'
+    );
+    if (error || !data) {
+      console.error('Failed to scan keys:', error);
+      return { cursor: '0', keys: [] };
+    }
+    return data;
+  }
+
+  async publish(channel: string, message: string): Promise<boolean> {
+    const { error } = await invokeEdgeFunction('kv', { action: 'publish', channel, message }, 'Failed to publish message');
+    if (error) {
+      console.error('Failed to publish message:', error);
+      return false;
+    }
+    return true;
+  }
+
+  // Keeps a stream open for the channel, reconnecting until unsubscribed
+  async subscribe(channel: string, callback: (message: string) => void) {
+    let isClosed = false;
+    let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const listen = async () => {
+      try {
+        const { data, error } = await supabase.functions.invoke<Response>('kv', {
+          body: { action: 'subscribe', channel }
+        });
+        if (error || !data?.body) {
+          throw error || new Error('Subscription stream unavailable');
+        }
+
+        reader = data.body.getReader();
+        if (isClosed) {
+          reader.cancel();
+          return;
+        }
+
+        const decoder = new TextDecoder();
+        let buffer = '';
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const events = buffer.split('\n\n');
+          buffer = events.pop() ?? '';
+
+          for (const event of events) {
+            if (!event.startsWith('data: ')) continue;
+            try {
+              callback(JSON.parse(event.slice('data: '.length)));
+            } catch (error) {
+              console.error('Subscriber callback error:', error);
+            }
+          }
+        }
+      } catch (error) {
+        if (!isClosed) {
+          console.error('Subscription stream error:', error);
+        }
+      }
+
+      if (!isClosed) {
+        retryTimer = setTimeout(listen, SERVER_RECONNECT_DELAY_MS);
+      }
+    };
+
+    listen();
+
+    return {
+      unsubscribe: () => {
+        isClosed = true;
+        clearTimeout(retryTimer);
+        reader?.cancel().catch(() => undefined);
+      }
+    };
   }
 }
 
-// Create Redis client instance
-export const redis = new BrowserRedis();
+export const createRedisBackend = (kind: RedisBackendKind): RedisBackend => {
+  switch (kind) {
+    case 'server':
+      return new ServerRedis();
+    case 'memory':
+      return new MemoryRedis();
+    default:
+      return new BrowserRedis();
+  }
+};
+
+const configuredBackend = (import.meta.env.VITE_KV_BACKEND as RedisBackendKind | undefined) ?? 'browser';
+
+let redis: RedisBackend = createRedisBackend(configuredBackend);
 
-// Connect to Redis (browser mode)
+export const getRedisBackend = (): RedisBackend => redis;
+
+// Swap the backend at runtime, e.g. to give a test its own MemoryRedis
+export const setRedisBackend = (backend: RedisBackend): void => {
+  redis = backend;
+};
+
+// Connect to the configured backend
 export const connectRedis = async () => {
   return await redis.connect();
 };
 
-// Disconnect from Redis
+// Disconnect from the configured backend
 export const disconnectRedis = async () => {
   return await redis.disconnect();
 };
 
-// Session management
-export const SESSION_PREFIX = 'session:';
-export const NOTIFICATION_PREFIX = 'notification:';
-export const MESSAGE_PREFIX = 'message:';
-
 // Session utilities
 export const setSession = async (sessionId: string, userId: string, expirationSeconds = 86400): Promise<boolean> => {
   try {
@@ -166,68 +581,95 @@ export const deleteSession = async (sessionId: string): Promise<boolean> => {
   }
 };
 
-// Notification utilities
-export const publishNotification = async (userId: string, notification: any): Promise<boolean> => {
+// Typed events. Payloads are checked against the catalog in `src/lib/events.ts` when published
+// and again when received; malformed events are dropped with a warning.
+export const publishEvent = async <T extends EventType>(
+  channel: string,
+  type: T,
+  payload: EventPayload<T>
+): Promise<boolean> => {
   try {
-    return await redis.publish(`${NOTIFICATION_PREFIX}${userId}`, JSON.stringify(notification));
+    return await redis.publish(channel, JSON.stringify(createEvent(type, payload)));
   } catch (error) {
-    console.error('Failed to publish notification:', error);
+    console.error(`Failed to publish ${type}:`, error);
     return false;
   }
 };
 
-export const subscribeToNotifications = async (userId: string, callback: (notification: any) => void) => {
+export const subscribeToEvents = async (channel: string, handlers: EventHandlers): Promise<Subscription | null> => {
   try {
-    const subscriber = redis.duplicate();
-    await subscriber.connect();
-
-    return await subscriber.subscribe(`${NOTIFICATION_PREFIX}${userId}`, (message) => {
-      try {
-        const notification = JSON.parse(message);
-        callback(notification);
-      } catch (error) {
-        console.error('Failed to parse notification:', error);
+    return await redis.subscribe(channel, (message) => {
+      const event = parseEvent(message);
+      if (event) {
+        handleEvent(event, handlers);
       }
     });
   } catch (error) {
-    console.error('Failed to subscribe to notifications:', error);
+    console.error('Failed to subscribe to events:', error);
     return null;
   }
 };
 
+// Events addressed to a single user: notifications, sent deliverables and project status changes
+export const publishUserEvent = async <T extends EventType>(
+  userId: string,
+  type: T,
+  payload: EventPayload<T>
+): Promise<boolean> => {
+  return await publishEvent(`${NOTIFICATION_PREFIX}${userId}`, type, payload);
+};
+
+export const subscribeToUserEvents = async (userId: string, handlers: EventHandlers): Promise<Subscription | null> => {
+  return await subscribeToEvents(`${NOTIFICATION_PREFIX}${userId}`, handlers);
+};
+
+// Notification utilities
+export const publishNotification = async (
+  userId: string,
+  notification: EventPayload<'notification.created'>
+): Promise<boolean> => {
+  return await publishUserEvent(userId, 'notification.created', notification);
+};
+
+export const subscribeToNotifications = async (
+  userId: string,
+  callback: (notification: EventPayload<'notification.created'>) => void
+): Promise<Subscription | null> => {
+  return await subscribeToUserEvents(userId, { 'notification.created': callback });
+};
+
 // Message utilities
-export const publishMessage = async (roomId: string, message: any): Promise<boolean> => {
-  try {
-    return await redis.publish(`${MESSAGE_PREFIX}${roomId}`, JSON.stringify(message));
-  } catch (error) {
-    console.error('Failed to publish message:', error);
-    return false;
-  }
+export const publishMessage = async (roomId: string, message: EventPayload<'message.created'>): Promise<boolean> => {
+  return await publishEvent(`${MESSAGE_PREFIX}${roomId}`, 'message.created', message);
 };
 
-export const subscribeToMessages = async (roomId: string, callback: (message: any) => void) => {
-  try {
-    const subscriber = redis.duplicate();
-    await subscriber.connect();
+export const subscribeToMessages = async (
+  roomId: string,
+  callback: (message: EventPayload<'message.created'>) => void
+): Promise<Subscription | null> => {
+  return await subscribeToMessageRoom(roomId, { 'message.created': callback });
+};
 
-    return await subscriber.subscribe(`${MESSAGE_PREFIX}${roomId}`, (message) => {
-      try {
-        const parsedMessage = JSON.parse(message);
-        callback(parsedMessage);
-      } catch (error) {
-        console.error('Failed to parse message:', error);
-      }
-    });
-  } catch (error) {
-    console.error('Failed to subscribe to messages:', error);
-    return null;
-  }
+export const publishMessageUpdate = async (roomId: string, update: EventPayload<'message.updated'>): Promise<boolean> => {
+  return await publishEvent(`${MESSAGE_PREFIX}${roomId}`, 'message.updated', update);
+};
+
+export const publishMessageReceipts = async (
+  roomId: string,
+  receipts: EventPayload<'message.receipts'>['receipts']
+): Promise<boolean> => {
+  return await publishEvent(`${MESSAGE_PREFIX}${roomId}`, 'message.receipts', { receipts });
 };
 
-// Cache utilities
+// Every event for a conversation: new, edited and deleted messages and their receipts
+export const subscribeToMessageRoom = async (roomId: string, handlers: EventHandlers): Promise<Subscription | null> => {
+  return await subscribeToEvents(`${MESSAGE_PREFIX}${roomId}`, handlers);
+};
+
+// Cache utilities. Cache keys are namespaced so the browser backend can evict them under quota pressure.
 export const setCache = async (key: string, value: any, expirationSeconds = 3600): Promise<boolean> => {
   try {
-    return await redis.setEx(key, expirationSeconds, JSON.stringify(value));
+    return await redis.setEx(`${CACHE_PREFIX}${key}`, expirationSeconds, JSON.stringify(value));
   } catch (error) {
     console.error('Failed to set cache:', error);
     return false;
@@ -236,7 +678,7 @@ export const setCache = async (key: string, value: any, expirationSeconds = 3600
 
 export const getCache = async (key: string): Promise<any | null> => {
   try {
-    const value = await redis.get(key);
+    const value = await redis.get(`${CACHE_PREFIX}${key}`);
     return value ? JSON.parse(value) : null;
   } catch (error) {
     console.error('Failed to get cache:', error);
@@ -246,14 +688,23 @@ export const getCache = async (key: string): Promise<any | null> => {
 
 export const deleteCache = async (key: string): Promise<boolean> => {
   try {
-    return await redis.del(key);
+    return await redis.del(`${CACHE_PREFIX}${key}`);
   } catch (error) {
     console.error('Failed to delete cache:', error);
     return false;
   }
 };
 
+// Cache keys matching `pattern`, without the cache namespace
+export const getCacheKeys = async (pattern = '*'): Promise<string[]> => {
+  try {
+    const keys = await redis.keys(`${CACHE_PREFIX}${pattern}`);
+    return keys.map(key => key.slice(CACHE_PREFIX.length));
+  } catch (error) {
+    console.error('Failed to list cache keys:', error);
+    return [];
+  }
+};
+
 // Initialize Redis connection
 connectRedis();
-
-export default redis;
@@ -0,0 +1,218 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Saved replies: reusable snippets staff insert into the message composer by typing
+// /shortcut. Personal replies are visible to their author only, shared ones to all staff
+// (see saved-replies-migration.sql). Content can hold {{variables}} that are filled in from
+// the open conversation when the reply is inserted.
+
+export interface SavedReply {
+  id: string;
+  title: string;
+  shortcut: string;
+  content: string;
+  is_shared: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedReplyInput {
+  title: string;
+  shortcut: string;
+  content: string;
+  is_shared: boolean;
+}
+
+export interface SavedReplyStats {
+  reply_id: string;
+  use_count: number;
+  user_count: number;
+  last_used_at: string | null;
+}
+
+export interface ReplyVariableContext {
+  client?: { full_name?: string | null; company_name?: string | null };
+  project?: { name?: string | null } | null;
+  agent?: { full_name?: string | null };
+}
+
+export const REPLY_VARIABLES: { key: string; description: string }[] = [
+  { key: 'client.full_name', description: "Client's full name" },
+  { key: 'client.first_name', description: "Client's first name" },
+  { key: 'client.company_name', description: "Client's company" },
+  { key: 'project.name', description: 'Project of the open thread' },
+  { key: 'agent.full_name', description: 'Your name' }
+];
+
+export const SHORTCUT_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+const VARIABLE_PATTERN = /\{\{\s*([a-z_]+\.[a-z_]+)\s*\}\}/g;
+const SLASH_COMMAND_PATTERN = /(^|\s)\/([a-z0-9_-]*)$/i;
+
+const getVariableValue = (key: string, context: ReplyVariableContext): string | null => {
+  switch (key) {
+    case 'client.full_name':
+      return context.client?.full_name || null;
+    case 'client.first_name':
+      return context.client?.full_name?.trim().split(/\s+/)[0] || null;
+    case 'client.company_name':
+      return context.client?.company_name || null;
+    case 'project.name':
+      return context.project?.name || null;
+    case 'agent.full_name':
+      return context.agent?.full_name || null;
+    default:
+      return null;
+  }
+};
+
+// Fill in the variables the conversation can answer; anything else is left in place so the
+// sender can see what still needs filling in
+export const resolveReplyVariables = (
+  content: string,
+  context: ReplyVariableContext
+): { text: string; unresolved: string[] } => {
+  const unresolved = new Set<string>();
+  const text = content.replace(VARIABLE_PATTERN, (placeholder, key: string) => {
+    const value = getVariableValue(key, context);
+    if (value === null) {
+      unresolved.add(key);
+      return placeholder;
+    }
+    return value;
+  });
+
+  return { text, unresolved: Array.from(unresolved) };
+};
+
+// The shortcut being typed at the end of the composer, e.g. "thanks" for "Hi /thanks"
+export const getSlashQuery = (text: string): string | null => {
+  const match = text.match(SLASH_COMMAND_PATTERN);
+  return match ? match[2].toLowerCase() : null;
+};
+
+// Swap the trailing /shortcut for the reply text, keeping whatever was typed before it
+export const replaceSlashQuery = (text: string, replacement: string): string => {
+  return text.replace(SLASH_COMMAND_PATTERN, (_match, leading: string) => `${leading}${replacement}`);
+};
+
+export const filterSavedReplies = (replies: SavedReply[], query: string): SavedReply[] => {
+  const needle = query.toLowerCase();
+  return replies
+    .filter(reply =>
+      reply.shortcut.startsWith(needle) || reply.title.toLowerCase().includes(needle)
+    )
+    .sort((a, b) => {
+      const aPrefix = a.shortcut.startsWith(needle) ? 0 : 1;
+      const bPrefix = b.shortcut.startsWith(needle) ? 0 : 1;
+      return aPrefix - bPrefix || a.shortcut.localeCompare(b.shortcut);
+    });
+};
+
+// Look up the client and project of the open conversation for resolving variables
+export const loadReplyVariableContext = async (
+  clientId: string,
+  projectId?: string | null
+): Promise<Pick<ReplyVariableContext, 'client' | 'project'>> => {
+  const [clientResult, projectResult] = await Promise.all([
+    supabase.from('users').select('full_name, company_name').eq('id', clientId).maybeSingle(),
+    projectId
+      ? supabase.from('projects').select('name').eq('id', projectId).maybeSingle()
+      : Promise.resolve({ data: null, error: null })
+  ]);
+
+  if (clientResult.error) {
+    console.error('Error loading client for saved reply:', clientResult.error);
+  }
+  if (projectResult.error) {
+    console.error('Error loading project for saved reply:', projectResult.error);
+  }
+
+  return {
+    client: clientResult.data || undefined,
+    project: projectResult.data
+  };
+};
+
+export const fetchSavedReplies = async (): Promise<SavedReply[]> => {
+  const { data, error } = await supabase
+    .from('saved_replies')
+    .select('*')
+    .order('shortcut', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching saved replies:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+export const createSavedReply = async (
+  userId: string,
+  reply: SavedReplyInput
+): Promise<{ success: boolean; error?: string }> => {
+  const { error } = await supabase
+    .from('saved_replies')
+    .insert({ ...reply, created_by: userId });
+
+  if (error) {
+    console.error('Error creating saved reply:', error);
+    return { success: false, error: 'Failed to save reply' };
+  }
+
+  return { success: true };
+};
+
+export const updateSavedReply = async (
+  replyId: string,
+  reply: SavedReplyInput
+): Promise<{ success: boolean; error?: string }> => {
+  const { error } = await supabase
+    .from('saved_replies')
+    .update({ ...reply, updated_at: new Date().toISOString() })
+    .eq('id', replyId);
+
+  if (error) {
+    console.error('Error updating saved reply:', error);
+    return { success: false, error: 'Failed to update reply' };
+  }
+
+  return { success: true };
+};
+
+export const deleteSavedReply = async (replyId: string): Promise<{ success: boolean; error?: string }> => {
+  const { error } = await supabase
+    .from('saved_replies')
+    .delete()
+    .eq('id', replyId);
+
+  if (error) {
+    console.error('Error deleting saved reply:', error);
+    return { success: false, error: 'Failed to delete reply' };
+  }
+
+  return { success: true };
+};
+
+// Usage is best effort; a failed insert never blocks the reply itself
+export const recordSavedReplyUse = async (replyId: string, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('saved_reply_uses')
+    .insert({ reply_id: replyId, used_by: userId });
+
+  if (error) {
+    console.error('Error recording saved reply use:', error);
+  }
+};
+
+export const getSavedReplyStats = async (since: Date): Promise<SavedReplyStats[]> => {
+  const { data, error } = await supabase.rpc('get_saved_reply_stats', { since: since.toISOString() });
+
+  if (error) {
+    console.error('Error fetching saved reply stats:', error);
+    return [];
+  }
+
+  return data || [];
+};
@@ -1,37 +1,63 @@
 import { supabase } from '@/integrations/supabase/client';
+import { isValidPhoneNumber } from '@/lib/phone';
+import {
+  OrganizationRole,
+  Permission,
+  ProjectAccessLevel,
+  Role,
+  organizationRoleAllows,
+  resolveOrganizationRole,
+  resolveRole,
+  roleHasPermission
+} from '@/lib/permissions';
 
 // Security utilities for data access control
 export class SecurityManager {
   
-  // Check if user has access to a specific project
-  static async canAccessProject(userId: string, projectId: string): Promise<boolean> {
+  // Resolve a user's role on a project: 'owner' for the project's own user, otherwise their role
+  // in the organization the project is shared with (null when they have no access)
+  static async getProjectRole(userId: string, projectId: string): Promise<OrganizationRole | null> {
     try {
-      const { data, error } = await supabase
+      const { data: project, error } = await supabase
         .from('projects')
-        .select('user_id')
+        .select('user_id, organization_id')
         .eq('id', projectId)
         .single();
 
-      if (error || !data) {
-        return false;
+      if (error || !project) {
+        return null;
       }
 
-      return data.user_id === userId;
+      if (project.user_id === userId) return 'owner';
+      if (!project.organization_id) return null;
+
+      const { data: membership } = await supabase
+        .from('collaborations')
+        .select('role')
+        .eq('organization_id', project.organization_id)
+        .eq('user_id', userId)
+        .eq('status', 'active')
+        .maybeSingle();
+
+      return membership ? resolveOrganizationRole(membership.role) : null;
     } catch (error) {
-      console.error('Error checking project access:', error);
-      return false;
+      console.error('Error checking project role:', error);
+      return null;
     }
   }
 
+  // Check if user has access to a specific project, directly or through their organization
+  static async canAccessProject(userId: string, projectId: string, level: ProjectAccessLevel = 'view'): Promise<boolean> {
+    const role = await this.getProjectRole(userId, projectId);
+    return role ? organizationRoleAllows(role, level) : false;
+  }
+
   // Check if user has access to a specific folder
-  static async canAccessFolder(userId: string, folderId: string): Promise<boolean> {
+  static async canAccessFolder(userId: string, folderId: string, level: ProjectAccessLevel = 'view'): Promise<boolean> {
     try {
       const { data, error } = await supabase
         .from('folders')
-        .select(`
-          project_id,
-          projects!inner(user_id)
-        `)
+        .select('project_id')
         .eq('id', folderId)
         .single();
 
@@ -39,42 +65,50 @@ export class SecurityManager {
         return false;
       }
 
-      return data.projects.user_id === userId;
+      return await this.canAccessProject(userId, data.project_id, level);
     } catch (error) {
       console.error('Error checking folder access:', error);
       return false;
     }
   }
 
-  // Check if user is admin
-  static async isAdmin(userId: string): Promise<boolean> {
+  // Look up a user's role (falls back to is_admin for rows created before roles existed)
+  static async getUserRole(userId: string): Promise<Role | null> {
     try {
       const { data, error } = await supabase
         .from('users')
-        .select('is_admin')
+        .select('role, is_admin')
         .eq('id', userId)
         .single();
 
       if (error || !data) {
-        return false;
+        return null;
       }
 
-      return data.is_admin === true;
+      return resolveRole(data);
     } catch (error) {
-      console.error('Error checking admin status:', error);
-      return false;
+      console.error('Error checking user role:', error);
+      return null;
     }
   }
 
+  // Check if user's role grants a permission
+  static async hasPermission(userId: string, permission: Permission): Promise<boolean> {
+    const role = await this.getUserRole(userId);
+    return role ? roleHasPermission(role, permission) : false;
+  }
+
+  // Check if user is admin
+  static async isAdmin(userId: string): Promise<boolean> {
+    return (await this.getUserRole(userId)) === 'admin';
+  }
+
   // Check if user can access a deliverable
-  static async canAccessDeliverable(userId: string, deliverableId: string): Promise<boolean> {
+  static async canAccessDeliverable(userId: string, deliverableId: string, level: ProjectAccessLevel = 'view'): Promise<boolean> {
     try {
       const { data, error } = await supabase
         .from('deliverables')
-        .select(`
-          id,
-          projects!inner(user_id)
-        `)
+        .select('project_id')
         .eq('id', deliverableId)
         .single();
 
@@ -82,37 +116,36 @@ export class SecurityManager {
         return false;
       }
 
-      return data.projects.user_id === userId;
+      return await this.canAccessProject(userId, data.project_id, level);
     } catch (error) {
       console.error('Error checking deliverable access:', error);
       return false;
     }
   }
 
-  // Check if user can delete a deliverable (must be owner or admin)
-  static async canDeleteDeliverable(userId: string, deliverableId: string): Promise<boolean> {
+  // Check if user can delete a deliverable (must be allowed to send deliverables)
+  static async canDeleteDeliverable(userId: string): Promise<boolean> {
     try {
-      // Check if user is admin
-      const isAdminUser = await this.isAdmin(userId);
-      if (isAdminUser) return true;
-
-      // Check if user owns the deliverable
-      return await this.canAccessDeliverable(userId, deliverableId);
+      return await this.hasPermission(userId, 'deliverables.send');
     } catch (error) {
       console.error('Error checking deliverable delete permission:', error);
       return false;
     }
   }
 
-  // Check if user can delete a project (must be owner or admin)
+  // Check if user can delete a project (must be owner or allowed to manage projects)
   static async canDeleteProject(userId: string, projectId: string): Promise<boolean> {
     try {
-      // Check if user is admin
-      const isAdminUser = await this.isAdmin(userId);
-      if (isAdminUser) return true;
+      if (await this.hasPermission(userId, 'projects.manage')) return true;
 
-      // Check if user owns the project
-      return await this.canAccessProject(userId, projectId);
+      // Only the user who created the project can delete it, never a colleague
+      const { data, error } = await supabase
+        .from('projects')
+        .select('user_id')
+        .eq('id', projectId)
+        .single();
+
+      return !error && data?.user_id === userId;
     } catch (error) {
       console.error('Error checking project delete permission:', error);
       return false;
@@ -229,8 +262,7 @@ export class SecurityManager {
 
   // Validate phone number format
   static validatePhoneNumber(phone: string): boolean {
-    const phoneRegex = /^\+234[789][01]\d{8}$/;
-    return phoneRegex.test(phone);
+    return isValidPhoneNumber(phone);
   }
 
   // Validate email format
@@ -263,8 +295,8 @@ export class SecurityManager {
     return true;
   }
 
-  // Validate file upload
-  static validateFileUpload(file: File, allowedTypes: string[], maxSizeMB: number): { isValid: boolean; error?: string } {
+  // Validate a file against a caller-supplied list of types (MIME types, `image/*` or `.ext`) and size
+  static validateFileType(file: File, allowedTypes: string[], maxSizeMB: number): { isValid: boolean; error?: string } {
     // Check file size
     if (file.size > maxSizeMB * 1024 * 1024) {
       return { isValid: false, error: `File size must be less than ${maxSizeMB}MB` };
@@ -320,6 +352,7 @@ export class SecurityManager {
 }
 
 // SQL for Row Level Security policies (to be run in Supabase SQL editor)
+// Staff access goes through has_permission(), created by src/scripts/rbac-migration.sql
 export const RLS_POLICIES = `
 -- Enable RLS on all tables
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
@@ -330,6 +363,8 @@ ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
 ALTER TABLE deliverables ENABLE ROW LEVEL SECURITY;
 ALTER TABLE file_uploads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collaborations ENABLE ROW LEVEL SECURITY;
 
 -- Users table policies
 CREATE POLICY "Users can view their own profile" ON users
@@ -340,70 +375,68 @@ CREATE POLICY "Users can update their own profile" ON users
 
 CREATE POLICY "Admins can view all users" ON users
   FOR SELECT USING (
-    EXISTS (
-      SELECT 1 FROM users 
-      WHERE id = auth.uid()::text AND is_admin = true
-    )
+    has_permission('admin.access')
+  );
+
+CREATE POLICY "Staff can manage users" ON users
+  FOR ALL USING (
+    has_permission('users.manage')
   );
 
 -- Projects table policies
 CREATE POLICY "Users can view their own projects" ON projects
-  FOR SELECT USING (user_id = auth.uid()::text);
+  FOR SELECT USING (can_access_project(id, 'view'));
 
 CREATE POLICY "Users can create their own projects" ON projects
   FOR INSERT WITH CHECK (user_id = auth.uid()::text);
 
 CREATE POLICY "Users can update their own projects" ON projects
-  FOR UPDATE USING (user_id = auth.uid()::text);
+  FOR UPDATE USING (can_access_project(id, 'edit'));
 
 CREATE POLICY "Users can delete their own projects" ON projects
   FOR DELETE USING (user_id = auth.uid()::text);
 
 CREATE POLICY "Admins can view all projects" ON projects
   FOR ALL USING (
-    EXISTS (
-      SELECT 1 FROM users 
-      WHERE id = auth.uid()::text AND is_admin = true
-    )
+    has_permission('projects.manage')
   );
 
 -- Folders table policies
 CREATE POLICY "Users can access folders in their projects" ON folders
-  FOR ALL USING (
-    EXISTS (
-      SELECT 1 FROM projects 
-      WHERE projects.id = folders.project_id 
-      AND projects.user_id = auth.uid()::text
-    )
-  );
+  FOR SELECT USING (can_access_project(project_id, 'view'));
+
+CREATE POLICY "Users can edit folders in their projects" ON folders
+  FOR ALL USING (can_access_project(project_id, 'edit'));
 
 CREATE POLICY "Admins can access all folders" ON folders
   FOR ALL USING (
-    EXISTS (
-      SELECT 1 FROM users 
-      WHERE id = auth.uid()::text AND is_admin = true
-    )
+    has_permission('projects.manage')
   );
 
 -- Folder inputs table policies
 CREATE POLICY "Users can access inputs in their folders" ON folder_inputs
-  FOR ALL USING (
+  FOR SELECT USING (
     EXISTS (
-      SELECT 1 FROM folders 
-      JOIN projects ON projects.id = folders.project_id
-      WHERE folders.id = folder_inputs.folder_id 
-      AND projects.user_id = auth.uid()::text
+      SELECT 1 FROM folders
+      WHERE folders.id = folder_inputs.folder_id
+      AND can_access_project(folders.project_id, 'view')
     )
   );
 
-CREATE POLICY "Admins can access all folder inputs" ON folder_inputs
+CREATE POLICY "Users can edit inputs in their folders" ON folder_inputs
   FOR ALL USING (
     EXISTS (
-      SELECT 1 FROM users 
-      WHERE id = auth.uid()::text AND is_admin = true
+      SELECT 1 FROM folders
+      WHERE folders.id = folder_inputs.folder_id
+      AND can_access_project(folders.project_id, 'edit')
     )
   );
 
+CREATE POLICY "Admins can access all folder inputs" ON folder_inputs
+  FOR ALL USING (
+    has_permission('projects.manage')
+  );
+
 -- Messages table policies
 CREATE POLICY "Users can view their own messages" ON messages
   FOR SELECT USING (
@@ -415,10 +448,7 @@ CREATE POLICY "Users can send messages" ON messages
 
 CREATE POLICY "Admins can view all messages" ON messages
   FOR ALL USING (
-    EXISTS (
-      SELECT 1 FROM users 
-      WHERE id = auth.uid()::text AND is_admin = true
-    )
+    has_permission('messages.read_all')
   );
 
 -- Notifications table policies
@@ -430,46 +460,42 @@ CREATE POLICY "Users can update their own notifications" ON notifications
 
 CREATE POLICY "Admins can create notifications" ON notifications
   FOR INSERT WITH CHECK (
-    EXISTS (
-      SELECT 1 FROM users 
-      WHERE id = auth.uid()::text AND is_admin = true
-    )
+    has_permission('admin.access')
   );
 
 -- Deliverables table policies
 CREATE POLICY "Users can view deliverables for their projects" ON deliverables
-  FOR SELECT USING (
-    EXISTS (
-      SELECT 1 FROM projects 
-      WHERE projects.id = deliverables.project_id 
-      AND projects.user_id = auth.uid()::text
-    )
-  );
+  FOR SELECT USING (can_access_project(project_id, 'view'));
 
 CREATE POLICY "Admins can manage all deliverables" ON deliverables
   FOR ALL USING (
-    EXISTS (
-      SELECT 1 FROM users 
-      WHERE id = auth.uid()::text AND is_admin = true
-    )
+    has_permission('deliverables.send')
   );
 
 -- File uploads table policies
 CREATE POLICY "Users can view files for their projects" ON file_uploads
-  FOR SELECT USING (
-    EXISTS (
-      SELECT 1 FROM projects 
-      WHERE projects.id = file_uploads.project_id 
-      AND projects.user_id = auth.uid()::text
-    )
-  );
+  FOR SELECT USING (can_access_project(project_id, 'view'));
 
 CREATE POLICY "Admins can manage all file uploads" ON file_uploads
   FOR ALL USING (
-    EXISTS (
-      SELECT 1 FROM users 
-      WHERE id = auth.uid()::text AND is_admin = true
-    )
+    has_permission('projects.manage')
+  );
+
+-- Organization policies (members only read; the organizations Edge Function makes changes)
+CREATE POLICY "Members can view their organization" ON organizations
+  FOR SELECT USING (id = current_organization_id());
+
+CREATE POLICY "Members can view their team" ON collaborations
+  FOR SELECT USING (organization_id = current_organization_id());
+
+CREATE POLICY "Staff can view all organizations" ON organizations
+  FOR SELECT USING (
+    has_permission('projects.read_all')
+  );
+
+CREATE POLICY "Staff can view all collaborations" ON collaborations
+  FOR SELECT USING (
+    has_permission('projects.read_all')
   );
 `;
 
@@ -73,105 +73,6 @@ const createSystemAlert = async (event: SecurityEvent) => {
   }
 };
 
-/**
- * Track failed login attempts
- */
-export const trackFailedLogin = async (phoneNumber: string, ipAddress?: string, userAgent?: string) => {
-  try {
-    // Get user info if exists
-    const { data: user } = await supabase
-      .from('users')
-      .select('id, full_name, login_attempts')
-      .eq('phone_number', phoneNumber)
-      .single();
-
-    if (user) {
-      // Increment login attempts
-      const newAttempts = (user.login_attempts || 0) + 1;
-      
-      await supabase
-        .from('users')
-        .update({ 
-          login_attempts: newAttempts,
-          // Lock account after 5 failed attempts for 30 minutes
-          locked_until: newAttempts >= 5 ? new Date(Date.now() + 30 * 60 * 1000).toISOString() : null
-        })
-        .eq('id', user.id);
-
-      // Log security event
-      await logSecurityEvent({
-        type: 'failed_login',
-        severity: newAttempts >= 5 ? 'high' : newAttempts >= 3 ? 'medium' : 'low',
-        title: 'Failed Login Attempt',
-        description: `Failed login attempt for user ${user.full_name} (${phoneNumber}). Attempt ${newAttempts}/5.`,
-        ip_address: ipAddress,
-        user_id: user.id,
-        user_agent: userAgent,
-        metadata: { attempts: newAttempts, phone_number: phoneNumber }
-      });
-
-      return { success: true, attempts: newAttempts, locked: newAttempts >= 5 };
-    } else {
-      // Log failed login for non-existent user
-      await logSecurityEvent({
-        type: 'failed_login',
-        severity: 'medium',
-        title: 'Failed Login - Invalid User',
-        description: `Failed login attempt for non-existent phone number: ${phoneNumber}`,
-        ip_address: ipAddress,
-        user_agent: userAgent,
-        metadata: { phone_number: phoneNumber }
-      });
-
-      return { success: true, attempts: 1, locked: false };
-    }
-  } catch (error) {
-    console.error('Error tracking failed login:', error);
-    return { success: false, error };
-  }
-};
-
-/**
- * Track successful login and reset failed attempts
- */
-export const trackSuccessfulLogin = async (userId: string, ipAddress?: string, userAgent?: string) => {
-  try {
-    // Reset login attempts and update last login
-    await supabase
-      .from('users')
-      .update({ 
-        login_attempts: 0,
-        locked_until: null,
-        last_login: new Date().toISOString()
-      })
-      .eq('id', userId);
-
-    // Get user info for logging
-    const { data: user } = await supabase
-      .from('users')
-      .select('full_name, phone_number')
-      .eq('id', userId)
-      .single();
-
-    // Log successful login (for audit purposes)
-    await logSecurityEvent({
-      type: 'suspicious_activity', // Using this type for audit logs
-      severity: 'low',
-      title: 'Successful Login',
-      description: `User ${user?.full_name} logged in successfully`,
-      ip_address: ipAddress,
-      user_id: userId,
-      user_agent: userAgent,
-      metadata: { event_type: 'successful_login' }
-    });
-
-    return { success: true };
-  } catch (error) {
-    console.error('Error tracking successful login:', error);
-    return { success: false, error };
-  }
-};
-
 /**
  * Detect suspicious activity patterns
  */
@@ -0,0 +1,193 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface SecuritySettings {
+  password_policy: {
+    min_length: number;
+    require_uppercase: boolean;
+    require_lowercase: boolean;
+    require_numbers: boolean;
+    require_symbols: boolean;
+    max_age_days: number;
+  };
+  session_settings: {
+    timeout_minutes: number;
+    max_concurrent_sessions: number;
+    require_2fa: boolean;
+  };
+  access_control: {
+    ip_whitelist_enabled: boolean;
+    ip_whitelist: string[];
+    geo_blocking_enabled: boolean;
+    blocked_countries: string[];
+  };
+  audit_settings: {
+    log_retention_days: number;
+    log_failed_attempts: boolean;
+    log_successful_logins: boolean;
+    log_admin_actions: boolean;
+    real_time_alerts: boolean;
+  };
+}
+
+// Flat `system_settings` keys backing each nested security setting
+// The timeout shares the `session_timeout` key with Admin Settings so both screens edit the same value
+const SETTING_KEYS = {
+  password_policy: {
+    min_length: 'security_password_min_length',
+    require_uppercase: 'security_password_require_uppercase',
+    require_lowercase: 'security_password_require_lowercase',
+    require_numbers: 'security_password_require_numbers',
+    require_symbols: 'security_password_require_symbols',
+    max_age_days: 'security_password_max_age_days'
+  },
+  session_settings: {
+    timeout_minutes: 'session_timeout',
+    max_concurrent_sessions: 'security_max_concurrent_sessions',
+    require_2fa: 'security_require_2fa'
+  },
+  access_control: {
+    ip_whitelist_enabled: 'security_ip_whitelist_enabled',
+    ip_whitelist: 'security_ip_whitelist',
+    geo_blocking_enabled: 'security_geo_blocking_enabled',
+    blocked_countries: 'security_blocked_countries'
+  },
+  audit_settings: {
+    log_retention_days: 'security_log_retention_days',
+    log_failed_attempts: 'security_log_failed_attempts',
+    log_successful_logins: 'security_log_successful_logins',
+    log_admin_actions: 'security_log_admin_actions',
+    real_time_alerts: 'security_real_time_alerts'
+  }
+} as const;
+
+// Keys owned by another screen; saving updates their value but leaves their category alone
+const SHARED_SETTING_KEYS: ReadonlySet<string> = new Set(['session_timeout']);
+
+export const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
+  password_policy: {
+    min_length: 8,
+    require_uppercase: true,
+    require_lowercase: true,
+    require_numbers: true,
+    require_symbols: false,
+    max_age_days: 90
+  },
+  session_settings: {
+    timeout_minutes: 30,
+    max_concurrent_sessions: 3,
+    require_2fa: false
+  },
+  access_control: {
+    ip_whitelist_enabled: false,
+    ip_whitelist: [],
+    geo_blocking_enabled: false,
+    blocked_countries: []
+  },
+  audit_settings: {
+    log_retention_days: 90,
+    log_failed_attempts: true,
+    log_successful_logins: true,
+    log_admin_actions: true,
+    real_time_alerts: true
+  }
+};
+
+type SettingValue = string | number | boolean | string[];
+
+const parseSettingValue = (value: string, type: string | null): SettingValue => {
+  if (type === 'boolean') return value === 'true';
+  if (type === 'number') return parseFloat(value);
+  if (type === 'json' || type === 'array') {
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      return value;
+    }
+  }
+  return value;
+};
+
+const getSettingType = (value: SettingValue): string => {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') return 'number';
+  if (Array.isArray(value)) return 'array';
+  return 'string';
+};
+
+/**
+ * Load the security settings from `system_settings`, falling back to defaults for missing keys
+ */
+export const loadSecuritySettings = async (): Promise<SecuritySettings> => {
+  try {
+    const { data, error } = await supabase
+      .from('system_settings')
+      .select('setting_key, setting_value, setting_type')
+      .in('setting_key', Object.values(SETTING_KEYS).flatMap(keys => Object.values(keys)));
+
+    if (error) {
+      console.error('Error loading security settings:', error);
+      return DEFAULT_SECURITY_SETTINGS;
+    }
+
+    const settingsMap = new Map(
+      (data || []).map(setting => [setting.setting_key, parseSettingValue(setting.setting_value, setting.setting_type)])
+    );
+
+    const settings = structuredClone(DEFAULT_SECURITY_SETTINGS);
+    for (const [section, keys] of Object.entries(SETTING_KEYS)) {
+      for (const [field, key] of Object.entries(keys)) {
+        if (settingsMap.has(key)) {
+          settings[section as keyof SecuritySettings][field] = settingsMap.get(key);
+        }
+      }
+    }
+
+    return settings;
+  } catch (error) {
+    console.error('Error loading security settings:', error);
+    return DEFAULT_SECURITY_SETTINGS;
+  }
+};
+
+/**
+ * Persist the security settings to `system_settings`
+ */
+export const saveSecuritySettings = async (settings: SecuritySettings, updatedBy?: string): Promise<boolean> => {
+  try {
+    const rows = Object.entries(SETTING_KEYS).flatMap(([section, keys]) =>
+      Object.entries(keys).map(([field, key]) => {
+        const value = settings[section as keyof SecuritySettings][field] as SettingValue;
+        const settingType = getSettingType(value);
+        return {
+          setting_key: key,
+          setting_value: settingType === 'array' ? JSON.stringify(value) : String(value),
+          setting_type: settingType,
+          updated_by: updatedBy,
+          updated_at: new Date().toISOString()
+        };
+      })
+    );
+
+    // Upserted separately, since a batch sets every column it names on every row
+    const ownRows = rows
+      .filter(row => !SHARED_SETTING_KEYS.has(row.setting_key))
+      .map(row => ({ ...row, category: 'security' }));
+    const sharedRows = rows.filter(row => SHARED_SETTING_KEYS.has(row.setting_key));
+
+    for (const batch of [ownRows, sharedRows]) {
+      const { error } = await supabase
+        .from('system_settings')
+        .upsert(batch, { onConflict: 'setting_key' });
+
+      if (error) {
+        console.error('Error saving security settings:', error);
+        return false;
+      }
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error saving security settings:', error);
+    return false;
+  }
+};
@@ -0,0 +1,68 @@
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+import SecurityManager from '@/lib/security';
+
+// Client for the `sessions` Edge Function, which manages the persisted login sessions
+// created by the token endpoint on every password login.
+
+export interface UserSession {
+  id: string;
+  device: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  is_current: boolean;
+}
+
+export interface SessionResult<T = undefined> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+// List the current user's active sessions, most recently used first
+export const listSessions = async (): Promise<SessionResult<UserSession[]>> => {
+  const { data, error } = await invokeEdgeFunction<{ sessions: UserSession[] }>(
+    'sessions',
+    { action: 'list' },
+    'Failed to load sessions'
+  );
+
+  if (error || !data) {
+    return { success: false, error: error || 'Failed to load sessions' };
+  }
+
+  return { success: true, data: data.sessions };
+};
+
+// Sign out a single session on another device
+export const revokeSession = async (userId: string, sessionId: string): Promise<SessionResult> => {
+  const { error } = await invokeEdgeFunction('sessions', { action: 'revoke', session_id: sessionId }, 'Failed to revoke session');
+
+  if (error) {
+    return { success: false, error };
+  }
+
+  await SecurityManager.logSecurityEvent(userId, 'session_revoked', { session_id: sessionId });
+  return { success: true };
+};
+
+// Sign out every session, including this one
+export const revokeAllSessions = async (userId: string): Promise<SessionResult> => {
+  const { error } = await invokeEdgeFunction('sessions', { action: 'revoke_all' }, 'Failed to log out everywhere');
+
+  if (error) {
+    return { success: false, error };
+  }
+
+  await SecurityManager.logSecurityEvent(userId, 'sessions_revoked_all', {});
+  return { success: true };
+};
+
+// End the current session on logout so it no longer shows up as active
+export const endCurrentSession = async (): Promise<void> => {
+  const { error } = await invokeEdgeFunction('sessions', { action: 'revoke' }, 'Failed to end session');
+  if (error) {
+    console.error('Error ending session:', error);
+  }
+};
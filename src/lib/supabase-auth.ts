@@ -1,102 +1,120 @@
-import { SignJWT } from 'jose';
 import { supabase } from '@/integrations/supabase/client';
-import { User } from '@/lib/auth';
-
-// JWT secret from Supabase project settings
-const JWT_SECRET = 'sESCSuGSbq+m0E/2ppOCRTZ1IGm/zQG8e4/bG6QQkl/KBP183B9R4Ul99oRK6lsOtA0fz+kcU+FusKjY7zWO9A==';
-
-// Convert the secret to a Uint8Array for jose
-const secretKey = new TextEncoder().encode(JWT_SECRET);
-
-interface SupabaseJWTPayload {
-  aud: string;
-  exp: number;
-  iat: number;
-  iss: string;
-  sub: string;
-  email?: string;
-  phone?: string;
-  app_metadata: {
-    provider: string;
-    providers: string[];
-  };
-  user_metadata: {
-    full_name?: string;
-    company_name?: string;
-    is_admin?: boolean;
-  };
-  role: string;
-  aal: string;
-  amr: Array<{ method: string; timestamp: number }>;
+import { LoginCredentials, formatPhoneNumber } from '@/lib/auth';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+
+// Name of the Edge Function that mints Supabase JWTs (supabase/functions/auth-token)
+const TOKEN_FUNCTION = 'auth-token';
+
+// Key under which the server-issued refresh token is kept between page loads
+const REFRESH_TOKEN_KEY = 'supabaseRefreshToken';
+
+// Impersonation tokens cannot be refreshed; they end before supabase-js would try
+const IMPERSONATION_REFRESH_TOKEN = 'impersonation';
+
+// Web Lock that serializes refreshes across tabs, since each refresh token can only be used once
+const REFRESH_LOCK_NAME = 'supabase-token-refresh';
+
+export interface SupabaseTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  expires_at: number;
+  refresh_token: string;
   session_id: string;
 }
 
+export interface SupabaseAuthResult {
+  success: boolean;
+  error?: string;
+  // True when the token endpoint refused the credentials (as opposed to a network or session error)
+  rejected?: boolean;
+  // Server-side session the tokens belong to
+  sessionId?: string;
+  // Access token expiry (seconds since epoch), used to schedule the next refresh
+  expiresAt?: number;
+}
+
+type TokenRequest =
+  | { grant_type: 'password'; phone_number: string; password: string; two_factor_code?: string }
+  | { grant_type: 'refresh_token'; refresh_token: string };
+
 /**
- * Generates a JWT token for a user that's compatible with Supabase Auth
- * This allows custom authentication systems to work with Supabase RLS policies
+ * Requests tokens from the server-side token endpoint
+ * The JWT secret only lives in the Edge Function, so tokens can no longer be forged in the browser
  */
-export const generateSupabaseJWT = async (user: User): Promise<string> => {
-  const now = Math.floor(Date.now() / 1000);
-  const exp = now + (60 * 60); // 1 hour expiration
-
-  const payload: SupabaseJWTPayload = {
-    aud: 'authenticated',
-    exp,
-    iat: now,
-    iss: `https://ttcapwgcfadajcoljuuk.supabase.co/auth/v1`,
-    sub: user.id,
-    email: `${user.phone_number}@placeholder.com`, // Placeholder email since we use phone auth
-    phone: user.phone_number,
-    app_metadata: {
-      provider: 'custom',
-      providers: ['custom']
-    },
-    user_metadata: {
-      full_name: user.full_name,
-      company_name: user.company_name,
-      is_admin: user.is_admin
-    },
-    role: 'authenticated',
-    aal: 'aal1',
-    amr: [{ method: 'password', timestamp: now }],
-    session_id: `session-${user.id}-${now}`
-  };
-
-  const jwt = await new SignJWT(payload)
-    .setProtectedHeader({ alg: 'HS256' })
-    .setIssuedAt(now)
-    .setExpirationTime(exp)
-    .sign(secretKey);
-
-  return jwt;
+const requestTokens = async (
+  body: TokenRequest
+): Promise<{ tokens: SupabaseTokenResponse | null; error?: string; rejected?: boolean }> => {
+  const { data, error } = await invokeEdgeFunction<SupabaseTokenResponse>(TOKEN_FUNCTION, body, 'Failed to get Supabase tokens');
+
+  if (error || !data?.access_token) {
+    console.error('Error requesting Supabase tokens:', error);
+    // An error body means the endpoint answered and refused; no body means it couldn't be reached
+    return { tokens: null, error: error || 'Failed to get Supabase tokens', rejected: !!data };
+  }
+
+  return { tokens: data };
+};
+
+/**
+ * Applies server-issued tokens to the Supabase client
+ */
+const applyTokens = async (tokens: SupabaseTokenResponse): Promise<boolean> => {
+  const { error } = await supabase.auth.setSession({
+    access_token: tokens.access_token,
+    refresh_token: tokens.refresh_token
+  });
+
+  if (error) {
+    console.error('Error setting Supabase auth session:', error);
+    return false;
+  }
+
+  localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refresh_token);
+  return true;
 };
 
 /**
  * Sets the authentication session for Supabase client
- * This makes the user authenticated for Supabase services including Storage
+ * The credentials are verified by the token endpoint, which returns a short-lived access token
  */
-export const setSupabaseAuth = async (user: User): Promise<boolean> => {
+export const setSupabaseAuth = async (credentials: LoginCredentials): Promise<SupabaseAuthResult> => {
   try {
-    const accessToken = await generateSupabaseJWT(user);
-    const refreshToken = `refresh-${user.id}-${Date.now()}`;
-
-    // Set the session on the Supabase client
-    const { data, error } = await supabase.auth.setSession({
-      access_token: accessToken,
-      refresh_token: refreshToken
+    const { tokens, error, rejected } = await requestTokens({
+      grant_type: 'password',
+      phone_number: formatPhoneNumber(credentials.phone_number),
+      password: credentials.password,
+      two_factor_code: credentials.two_factor_code
     });
+    if (!tokens) return { success: false, error, rejected };
 
-    if (error) {
-      console.error('Error setting Supabase auth session:', error);
-      return false;
+    const sessionSet = await applyTokens(tokens);
+    if (sessionSet) {
+      console.log('Supabase auth session set successfully');
     }
-
-    console.log('Supabase auth session set successfully');
-    return true;
+    return { success: sessionSet, sessionId: tokens.session_id, expiresAt: tokens.expires_at };
   } catch (error) {
-    console.error('Error generating JWT or setting session:', error);
+    console.error('Error setting Supabase auth session:', error);
+    return { success: false, error: 'Failed to set Supabase auth session' };
+  }
+};
+
+/**
+ * Points the Supabase client at an impersonation token
+ * The staff member's own refresh token is left in place so refreshSupabaseAuth can switch back
+ */
+export const setImpersonationAuth = async (accessToken: string): Promise<boolean> => {
+  const { error } = await supabase.auth.setSession({
+    access_token: accessToken,
+    refresh_token: IMPERSONATION_REFRESH_TOKEN
+  });
+
+  if (error) {
+    console.error('Error setting impersonation session:', error);
     return false;
   }
+
+  return true;
 };
 
 /**
@@ -104,6 +122,7 @@ export const setSupabaseAuth = async (user: User): Promise<boolean> => {
  */
 export const clearSupabaseAuth = async (): Promise<void> => {
   try {
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
     await supabase.auth.signOut();
     console.log('Supabase auth session cleared successfully');
   } catch (error) {
@@ -111,11 +130,36 @@ export const clearSupabaseAuth = async (): Promise<void> => {
   }
 };
 
-
+const withRefreshLock = async <T>(callback: () => Promise<T>): Promise<T> => {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(REFRESH_LOCK_NAME, callback);
+  }
+  return callback();
+};
 
 /**
- * Refreshes the Supabase authentication token for a user
+ * Refreshes the Supabase authentication token using the stored refresh token
+ * `rejected` is set when the server refused the token, e.g. because the session was revoked
  */
-export const refreshSupabaseAuth = async (user: User): Promise<boolean> => {
-  return await setSupabaseAuth(user);
+export const refreshSupabaseAuth = async (): Promise<SupabaseAuthResult> => {
+  try {
+    return await withRefreshLock(async () => {
+      // Read inside the lock so a token rotated by another tab is picked up
+      const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+      if (!refreshToken) return { success: false };
+
+      const { tokens, error, rejected } = await requestTokens({ grant_type: 'refresh_token', refresh_token: refreshToken });
+      if (!tokens) {
+        // The refresh token was rejected (expired, revoked or replayed), so drop it
+        if (rejected) localStorage.removeItem(REFRESH_TOKEN_KEY);
+        return { success: false, error, rejected };
+      }
+
+      const sessionSet = await applyTokens(tokens);
+      return { success: sessionSet, sessionId: tokens.session_id, expiresAt: tokens.expires_at };
+    });
+  } catch (error) {
+    console.error('Error refreshing Supabase auth session:', error);
+    return { success: false, error: 'Failed to refresh Supabase auth session' };
+  }
 };
@@ -0,0 +1,79 @@
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+import SecurityManager from '@/lib/security';
+
+// Client for the `two-factor` Edge Function. TOTP secrets and recovery codes never
+// leave the server except once, during enrollment.
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauth_url: string;
+}
+
+export interface TwoFactorResult<T = undefined> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+// Start enrollment and get the secret to show as a QR code
+export const startTwoFactorEnrollment = async (): Promise<TwoFactorResult<TwoFactorEnrollment>> => {
+  const { data, error } = await invokeEdgeFunction<TwoFactorEnrollment>(
+    'two-factor',
+    { action: 'enroll' },
+    'Failed to start two-factor enrollment'
+  );
+
+  if (error || !data) {
+    return { success: false, error: error || 'Failed to start two-factor enrollment' };
+  }
+
+  return { success: true, data };
+};
+
+// Confirm enrollment with the first code from the authenticator app; returns the recovery codes
+export const activateTwoFactor = async (userId: string, code: string): Promise<TwoFactorResult<string[]>> => {
+  const { data, error } = await invokeEdgeFunction<{ recovery_codes: string[] }>(
+    'two-factor',
+    { action: 'activate', code },
+    'Failed to enable two-factor authentication'
+  );
+
+  if (error || !data?.recovery_codes) {
+    return { success: false, error: error || 'Failed to enable two-factor authentication' };
+  }
+
+  await SecurityManager.logSecurityEvent(userId, 'two_factor_enabled');
+  return { success: true, data: data.recovery_codes };
+};
+
+// Turn off 2FA for the current user (requires a TOTP or recovery code)
+export const disableTwoFactor = async (userId: string, code: string): Promise<TwoFactorResult> => {
+  const { error } = await invokeEdgeFunction(
+    'two-factor',
+    { action: 'disable', code },
+    'Failed to disable two-factor authentication'
+  );
+
+  if (error) {
+    return { success: false, error };
+  }
+
+  await SecurityManager.logSecurityEvent(userId, 'two_factor_disabled');
+  return { success: true };
+};
+
+// Admin-only: clear 2FA for a user who lost access to their authenticator
+export const resetUserTwoFactor = async (adminId: string, userId: string): Promise<TwoFactorResult> => {
+  const { error } = await invokeEdgeFunction(
+    'two-factor',
+    { action: 'admin_reset', user_id: userId },
+    'Failed to reset two-factor authentication'
+  );
+
+  if (error) {
+    return { success: false, error };
+  }
+
+  await SecurityManager.logSecurityEvent(adminId, 'two_factor_reset_by_admin', { target_user_id: userId });
+  return { success: true };
+};
@@ -1,5 +1,7 @@
 // Comprehensive validation utilities
 
+import { isValidPhoneNumber } from '@/lib/phone';
+
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
@@ -58,8 +60,7 @@ export class Validator {
           break;
           
         case 'phone':
-          const phonePattern = /^\+234[789][01]\d{8}$/;
-          if (typeof value === 'string' && !phonePattern.test(value)) {
+          if (typeof value === 'string' && !isValidPhoneNumber(value)) {
             errors.push(rule.message);
           }
           break;
@@ -119,7 +120,7 @@ export class Validator {
       message
     }),
     
-    phone: (message = 'Please enter a valid Nigerian phone number (+234...)'): ValidationRule => ({
+    phone: (message = 'Please enter a valid phone number with country code (e.g. +234...)'): ValidationRule => ({
       type: 'phone',
       message
     }),
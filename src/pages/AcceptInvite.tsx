@@ -0,0 +1,220 @@
+import { useState, useEffect } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, Lock, ArrowLeft, FolderOpen } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { validatePassword } from "@/lib/auth";
+import { acceptInvitation, getInvitation, InvitationDetails } from "@/lib/invitations";
+import { useToast } from "@/hooks/use-toast";
+import { usePasswordPolicy } from "@/hooks/usePasswordPolicy";
+import PasswordPolicyPreview from "@/components/PasswordPolicyPreview";
+
+const AcceptInvite = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [isVerifying, setIsVerifying] = useState(true);
+  const [invalidReason, setInvalidReason] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const { login } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const passwordPolicy = usePasswordPolicy();
+
+  useEffect(() => {
+    if (!token) {
+      setInvalidReason("This invitation link is incomplete. Please open the full link you received.");
+      setIsVerifying(false);
+      return;
+    }
+
+    getInvitation(token).then(response => {
+      if (response.success && response.data) {
+        setInvitation(response.data);
+      } else {
+        setInvalidReason(response.error || "This invitation is invalid or has expired");
+      }
+      setIsVerifying(false);
+    });
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const passwordValidation = validatePassword(password, passwordPolicy);
+    if (!passwordValidation.isValid) {
+      setError(passwordValidation.errors.join(", "));
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await acceptInvitation(token, password);
+      if (!response.success || !response.data) {
+        setError(response.error || "Failed to accept invitation");
+        return;
+      }
+
+      const { user, project_id } = response.data;
+      await login(user, { phone_number: user.phone_number, password });
+
+      toast({
+        title: "Welcome to Muahib Solution!",
+        description: "Your password is set and your account is ready.",
+      });
+
+      navigate(project_id ? `/project/${project_id}` : "/dashboard");
+    } catch (error) {
+      console.error("Accept invitation error:", error);
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-6">
+        <div className="flex items-center justify-center">
+          <Link
+            to="/"
+            className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Home
+          </Link>
+        </div>
+
+        <Card className="border-border-light shadow-lg">
+          <CardHeader className="space-y-1 text-center">
+            <CardTitle className="text-2xl font-bold text-foreground">
+              {invitation ? "Accept Your Invitation" : "Invitation"}
+            </CardTitle>
+            <CardDescription className="text-muted-foreground">
+              {invitation
+                ? `${invitation.full_name ? `Hi ${invitation.full_name}, c` : "C"}hoose a password to finish setting up your account`
+                : "Join Muahib Solution client management system"}
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            {isVerifying ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : !invitation ? (
+              <div className="space-y-4">
+                <Alert variant="destructive">
+                  <AlertDescription>{invalidReason}</AlertDescription>
+                </Alert>
+                <p className="text-sm text-muted-foreground text-center">
+                  Ask your account manager to send you a new invitation.
+                </p>
+                <Button asChild variant="outline" className="w-full">
+                  <Link to="/login">Go to Sign In</Link>
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="p-3 bg-muted/30 rounded-lg text-sm space-y-1">
+                  <p>
+                    <span className="text-muted-foreground">Phone number: </span>
+                    <span className="font-medium text-foreground">{invitation.phone_number}</span>
+                  </p>
+                  {invitation.company_name && (
+                    <p>
+                      <span className="text-muted-foreground">Company: </span>
+                      <span className="font-medium text-foreground">{invitation.company_name}</span>
+                    </p>
+                  )}
+                  {invitation.project_name && (
+                    <p className="flex items-center gap-1">
+                      <FolderOpen className="h-3 w-3 text-muted-foreground" />
+                      <span className="text-muted-foreground">Project: </span>
+                      <span className="font-medium text-foreground">{invitation.project_name}</span>
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="password" className="text-sm font-medium text-foreground">
+                    Password
+                  </Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="password"
+                      type="password"
+                      autoComplete="new-password"
+                      placeholder="Create a strong password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="pl-10 border-input-border focus:border-ring"
+                      disabled={isLoading}
+                      required
+                    />
+                  </div>
+                  <PasswordPolicyPreview policy={passwordPolicy} password={password} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword" className="text-sm font-medium text-foreground">
+                    Confirm Password
+                  </Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="confirmPassword"
+                      type="password"
+                      autoComplete="new-password"
+                      placeholder="Confirm your password"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      className="pl-10 border-input-border focus:border-ring"
+                      disabled={isLoading}
+                      required
+                    />
+                  </div>
+                </div>
+
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Setting up your account...
+                    </>
+                  ) : (
+                    "Set Password & Continue"
+                  )}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvite;
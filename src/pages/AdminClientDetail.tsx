@@ -8,6 +8,7 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import {
   Dialog,
   DialogContent,
@@ -35,13 +36,17 @@ import {
   Trash2,
   AlertTriangle,
   Save,
-  Download
+  Download,
+  Loader2
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import SecurityManager from "@/lib/security";
+import { publishProjectStatusChange } from "@/lib/notifications";
+import { usePermission } from "@/hooks/usePermission";
 import DeliverableManager from "@/components/DeliverableManager";
 import MessageInterface from "@/components/MessageInterface";
+import ProjectThreadTabs from "@/components/ProjectThreadTabs";
 
 interface ClientData {
   id: string;
@@ -80,19 +85,24 @@ interface FolderInput {
 const AdminClientDetail = () => {
   const { clientId } = useParams<{ clientId: string }>();
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { user, startImpersonation } = useAuth();
   const { toast } = useToast();
+  const canImpersonate = usePermission('users.impersonate');
 
   const [client, setClient] = useState<ClientData | null>(null);
   const [projects, setProjects] = useState<Project[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('projects');
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
+  const [messageThreadId, setMessageThreadId] = useState<string | null | undefined>(undefined);
   const [deleteProjectId, setDeleteProjectId] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [isImpersonateOpen, setIsImpersonateOpen] = useState(false);
+  const [allowImpersonationChanges, setAllowImpersonationChanges] = useState(false);
+  const [isStartingImpersonation, setIsStartingImpersonation] = useState(false);
   const [editForm, setEditForm] = useState({
     full_name: '',
     company_name: '',
@@ -242,6 +252,29 @@ const AdminClientDetail = () => {
     }
   };
 
+  // Switch to the client's own view of the portal (read-only unless changes are allowed)
+  const viewAsClient = async () => {
+    if (!clientId) return;
+
+    setIsStartingImpersonation(true);
+    try {
+      const result = await startImpersonation(clientId, { allowChanges: allowImpersonationChanges });
+      if (!result.success) {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to view as client",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setIsImpersonateOpen(false);
+      navigate('/dashboard');
+    } finally {
+      setIsStartingImpersonation(false);
+    }
+  };
+
   // Fetch client data
   useEffect(() => {
     const fetchClientData = async () => {
@@ -379,6 +412,7 @@ const AdminClientDetail = () => {
   };
 
   const updateProjectStatus = async (projectId: string, newStatus: 'starting' | 'in_progress' | 'completed') => {
+    const project = projects.find(p => p.id === projectId);
     try {
       const { error } = await supabase
         .from('projects')
@@ -396,6 +430,9 @@ const AdminClientDetail = () => {
         setProjects(prev => prev.map(project => 
           project.id === projectId ? { ...project, status: newStatus } : project
         ));
+        if (clientId && project) {
+          await publishProjectStatusChange(clientId, { id: projectId, name: project.name, previous_status: project.status }, newStatus);
+        }
         toast({
           title: "Status updated",
           description: `Project status changed to ${getStatusText(newStatus)}`,
@@ -411,12 +448,12 @@ const AdminClientDetail = () => {
 
     setIsDeleting(true);
     try {
-      // Security check: Verify user is admin
-      const isAdminUser = await SecurityManager.isAdmin(user.id);
-      if (!isAdminUser) {
+      // Security check: Verify user may manage projects
+      const canManageProjects = await SecurityManager.hasPermission(user.id, 'projects.manage');
+      if (!canManageProjects) {
         toast({
           title: "Access Denied",
-          description: "Only administrators can delete projects",
+          description: "You don't have permission to delete projects",
           variant: "destructive",
         });
         return;
@@ -555,6 +592,17 @@ const AdminClientDetail = () => {
               </Button>
 
               <div className="flex items-center space-x-2">
+                {canImpersonate && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setIsImpersonateOpen(true)}
+                    className="px-2"
+                  >
+                    <Eye className="h-4 w-4" />
+                    <span className="sr-only">View as Client</span>
+                  </Button>
+                )}
                 <Button
                   variant="outline"
                   size="sm"
@@ -621,6 +669,17 @@ const AdminClientDetail = () => {
             </div>
 
             <div className="flex items-center space-x-2">
+              {canImpersonate && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsImpersonateOpen(true)}
+                >
+                  <Eye className="h-4 w-4 mr-2" />
+                  <span className="hidden lg:inline">View as Client</span>
+                  <span className="lg:hidden">View as</span>
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="sm"
@@ -972,11 +1031,17 @@ const AdminClientDetail = () => {
                     Direct messaging with {client.company_name || 'the client'}
                   </CardDescription>
                 </CardHeader>
-                <CardContent>
+                <CardContent className="space-y-4">
+                  <ProjectThreadTabs
+                    projects={projects}
+                    value={messageThreadId}
+                    onChange={setMessageThreadId}
+                  />
                   <MessageInterface
                     conversationUserId={client.id}
                     conversationUserName={client.full_name || 'Unknown User'}
                     conversationUserCompany={client.company_name}
+                    projectId={messageThreadId}
                   />
                 </CardContent>
               </Card>
@@ -1181,6 +1246,55 @@ const AdminClientDetail = () => {
         </DialogContent>
       </Dialog>
 
+      {/* View as Client Dialog */}
+      <Dialog open={isImpersonateOpen} onOpenChange={setIsImpersonateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Eye className="h-5 w-5 text-primary" />
+              View as {client.full_name || 'Client'}
+            </DialogTitle>
+            <DialogDescription>
+              See the portal exactly as this client does for up to 30 minutes. The session and every
+              page you open are recorded in the security log.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-center justify-between gap-4 p-3 bg-muted/30 rounded-lg">
+            <div>
+              <Label htmlFor="allow_impersonation_changes">Allow changes</Label>
+              <p className="text-xs text-muted-foreground">
+                Off by default. When on, anything you change is saved to the client's account.
+              </p>
+            </div>
+            <Switch
+              id="allow_impersonation_changes"
+              checked={allowImpersonationChanges}
+              onCheckedChange={setAllowImpersonationChanges}
+              disabled={isStartingImpersonation}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsImpersonateOpen(false)}
+              disabled={isStartingImpersonation}
+            >
+              Cancel
+            </Button>
+            <Button onClick={viewAsClient} disabled={isStartingImpersonation}>
+              {isStartingImpersonation ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Eye className="h-4 w-4 mr-2" />
+              )}
+              Start Viewing
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Project Confirmation Dialog */}
       <Dialog open={!!deleteProjectId} onOpenChange={() => setDeleteProjectId(null)}>
         <DialogContent>
@@ -42,6 +42,8 @@ import AdminUserManagement from "@/components/AdminUserManagement";
 import AdminAnalytics from "@/components/AdminAnalytics";
 import AdminFileStorage from "@/components/AdminFileStorage";
 import AdminSecurity from "@/components/AdminSecurity";
+import { usePermissions } from "@/hooks/usePermission";
+import { Permission } from "@/lib/permissions";
 
 interface ClientData {
   id: string;
@@ -61,6 +63,18 @@ interface ClientData {
   }>;
 }
 
+// Tabs not listed here are available to every staff member
+const TAB_PERMISSIONS: Record<string, Permission> = {
+  users: 'users.manage',
+  messages: 'messages.read_all',
+  broadcast: 'broadcasts.send',
+  alerts: 'settings.edit',
+  analytics: 'projects.read_all',
+  storage: 'storage.manage',
+  security: 'security.manage',
+  settings: 'settings.edit'
+};
+
 interface DashboardStats {
   total_clients: number;
   active_projects: number;
@@ -70,6 +84,7 @@ interface DashboardStats {
 
 const AdminDashboard = () => {
   const { user, logout } = useAuth();
+  const { can } = usePermissions();
   const { toast } = useToast();
   
   const [clients, setClients] = useState<ClientData[]>([]);
@@ -82,6 +97,8 @@ const AdminDashboard = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [activeTab, setActiveTab] = useState('overview');
+
+  const canViewTab = (tab: string) => !TAB_PERMISSIONS[tab] || can(TAB_PERMISSIONS[tab]);
   const [projectStatusFilter, setProjectStatusFilter] = useState<string>('all');
   const [sortBy, setSortBy] = useState<string>('updated_at');
 
@@ -314,14 +331,16 @@ const AdminDashboard = () => {
                   <Users className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
                   Clients
                 </Button>
-                <Button
-                  variant={activeTab === 'users' ? 'default' : 'ghost'}
-                  className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
-                  onClick={() => setActiveTab('users')}
-                >
-                  <Users className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-                  Users
-                </Button>
+                {canViewTab('users') && (
+                  <Button
+                    variant={activeTab === 'users' ? 'default' : 'ghost'}
+                    className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
+                    onClick={() => setActiveTab('users')}
+                  >
+                    <Users className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                    Users
+                  </Button>
+                )}
 
                 <Button
                   variant={activeTab === 'projects' ? 'default' : 'ghost'}
@@ -332,83 +351,101 @@ const AdminDashboard = () => {
                   Projects
                 </Button>
 
-                <Button
-                  variant={activeTab === 'messages' ? 'default' : 'ghost'}
-                  className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
-                  onClick={() => setActiveTab('messages')}
-                >
-                  <MessageSquare className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-                  Messages
-                </Button>
-                <Button
-                  variant={activeTab === 'broadcast' ? 'default' : 'ghost'}
-                  className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
-                  onClick={() => setActiveTab('broadcast')}
-                >
-                  <Bell className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-                  Broadcast
-                </Button>
-                <Button
-                  variant={activeTab === 'alerts' ? 'default' : 'ghost'}
-                  className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
-                  onClick={() => setActiveTab('alerts')}
-                >
-                  <AlertTriangle className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-                  Alerts
-                </Button>
-                <Button
-                  variant={activeTab === 'analytics' ? 'default' : 'ghost'}
-                  className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
-                  onClick={() => setActiveTab('analytics')}
-                >
-                  <BarChart3 className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-                  Analytics
-                </Button>
-                <Button
-                  variant={activeTab === 'storage' ? 'default' : 'ghost'}
-                  className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
-                  onClick={() => setActiveTab('storage')}
-                >
-                  <HardDrive className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-                  Storage
-                </Button>
-                <Button
-                  variant={activeTab === 'security' ? 'default' : 'ghost'}
-                  className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
-                  onClick={() => setActiveTab('security')}
-                >
-                  <Shield className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-                  Security
-                </Button>
-
-                <Button
-                  variant={activeTab === 'settings' ? 'default' : 'ghost'}
-                  className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
-                  onClick={() => setActiveTab('settings')}
-                >
-                  <Settings className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-                  Settings
-                </Button>
-                <Button
-                  variant="ghost"
-                  className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
-                  asChild
-                >
-                  <Link to="/admin/deliverables">
-                    <Package className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-                    Deliverables
-                  </Link>
-                </Button>
-                <Button
-                  variant="ghost"
-                  className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
-                  asChild
-                >
-                  <Link to="/admin/deliverables">
-                    <FolderOpen className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-                    Deliverables
-                  </Link>
-                </Button>
+                {canViewTab('messages') && (
+                  <Button
+                    variant={activeTab === 'messages' ? 'default' : 'ghost'}
+                    className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
+                    onClick={() => setActiveTab('messages')}
+                  >
+                    <MessageSquare className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                    Messages
+                  </Button>
+                )}
+                {canViewTab('broadcast') && (
+                  <Button
+                    variant={activeTab === 'broadcast' ? 'default' : 'ghost'}
+                    className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
+                    onClick={() => setActiveTab('broadcast')}
+                  >
+                    <Bell className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                    Broadcast
+                  </Button>
+                )}
+                {canViewTab('alerts') && (
+                  <Button
+                    variant={activeTab === 'alerts' ? 'default' : 'ghost'}
+                    className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
+                    onClick={() => setActiveTab('alerts')}
+                  >
+                    <AlertTriangle className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                    Alerts
+                  </Button>
+                )}
+                {canViewTab('analytics') && (
+                  <Button
+                    variant={activeTab === 'analytics' ? 'default' : 'ghost'}
+                    className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
+                    onClick={() => setActiveTab('analytics')}
+                  >
+                    <BarChart3 className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                    Analytics
+                  </Button>
+                )}
+                {canViewTab('storage') && (
+                  <Button
+                    variant={activeTab === 'storage' ? 'default' : 'ghost'}
+                    className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
+                    onClick={() => setActiveTab('storage')}
+                  >
+                    <HardDrive className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                    Storage
+                  </Button>
+                )}
+                {canViewTab('security') && (
+                  <Button
+                    variant={activeTab === 'security' ? 'default' : 'ghost'}
+                    className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
+                    onClick={() => setActiveTab('security')}
+                  >
+                    <Shield className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                    Security
+                  </Button>
+                )}
+
+                {canViewTab('settings') && (
+                  <Button
+                    variant={activeTab === 'settings' ? 'default' : 'ghost'}
+                    className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
+                    onClick={() => setActiveTab('settings')}
+                  >
+                    <Settings className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                    Settings
+                  </Button>
+                )}
+                {can('deliverables.send') && (
+                  <Button
+                    variant="ghost"
+                    className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
+                    asChild
+                  >
+                    <Link to="/admin/deliverables">
+                      <Package className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                      Deliverables
+                    </Link>
+                  </Button>
+                )}
+                {can('deliverables.send') && (
+                  <Button
+                    variant="ghost"
+                    className="flex-shrink-0 px-2 sm:px-3 py-2 text-xs sm:text-sm whitespace-nowrap"
+                    asChild
+                  >
+                    <Link to="/admin/deliverables">
+                      <FolderOpen className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                      Deliverables
+                    </Link>
+                  </Button>
+                )}
               </div>
             </div>
 
@@ -437,14 +474,16 @@ const AdminDashboard = () => {
                   Clients
                 </Button>
 
-                <Button
-                  variant={activeTab === 'users' ? 'default' : 'ghost'}
-                  className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
-                  onClick={() => setActiveTab('users')}
-                >
-                  <Users className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
-                  User Management
-                </Button>
+                {canViewTab('users') && (
+                  <Button
+                    variant={activeTab === 'users' ? 'default' : 'ghost'}
+                    className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
+                    onClick={() => setActiveTab('users')}
+                  >
+                    <Users className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
+                    User Management
+                  </Button>
+                )}
 
                 <Button
                   variant={activeTab === 'projects' ? 'default' : 'ghost'}
@@ -455,79 +494,95 @@ const AdminDashboard = () => {
                   Projects
                 </Button>
 
-                <Button
-                  variant={activeTab === 'messages' ? 'default' : 'ghost'}
-                  className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
-                  onClick={() => setActiveTab('messages')}
-                >
-                  <MessageSquare className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
-                  Messages
-                </Button>
-
-                <Button
-                  variant={activeTab === 'broadcast' ? 'default' : 'ghost'}
-                  className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
-                  onClick={() => setActiveTab('broadcast')}
-                >
-                  <Bell className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
-                  Broadcast Messaging
-                </Button>
-
-                <Button
-                  variant={activeTab === 'alerts' ? 'default' : 'ghost'}
-                  className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
-                  onClick={() => setActiveTab('alerts')}
-                >
-                  <AlertTriangle className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
-                  System Alerts
-                </Button>
-
-                <Button
-                  variant={activeTab === 'analytics' ? 'default' : 'ghost'}
-                  className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
-                  onClick={() => setActiveTab('analytics')}
-                >
-                  <BarChart3 className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
-                  Analytics & Reports
-                </Button>
-
-                <Button
-                  variant={activeTab === 'storage' ? 'default' : 'ghost'}
-                  className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
-                  onClick={() => setActiveTab('storage')}
-                >
-                  <HardDrive className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
-                  File Storage
-                </Button>
-
-                <Button
-                  variant={activeTab === 'security' ? 'default' : 'ghost'}
-                  className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
-                  onClick={() => setActiveTab('security')}
-                >
-                  <Shield className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
-                  Security & Audit
-                </Button>
-
-                <Button
-                  variant={activeTab === 'settings' ? 'default' : 'ghost'}
-                  className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
-                  onClick={() => setActiveTab('settings')}
-                >
-                  <Settings className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
-                  Settings
-                </Button>
-
-                <Button
-                  variant="ghost"
-                  className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
-                  asChild
-                >
-                  <Link to="/admin/deliverables">
-                    <Package className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
-                    Deliverables Management
-                  </Link>
-                </Button>
+                {canViewTab('messages') && (
+                  <Button
+                    variant={activeTab === 'messages' ? 'default' : 'ghost'}
+                    className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
+                    onClick={() => setActiveTab('messages')}
+                  >
+                    <MessageSquare className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
+                    Messages
+                  </Button>
+                )}
+
+                {canViewTab('broadcast') && (
+                  <Button
+                    variant={activeTab === 'broadcast' ? 'default' : 'ghost'}
+                    className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
+                    onClick={() => setActiveTab('broadcast')}
+                  >
+                    <Bell className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
+                    Broadcast Messaging
+                  </Button>
+                )}
+
+                {canViewTab('alerts') && (
+                  <Button
+                    variant={activeTab === 'alerts' ? 'default' : 'ghost'}
+                    className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
+                    onClick={() => setActiveTab('alerts')}
+                  >
+                    <AlertTriangle className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
+                    System Alerts
+                  </Button>
+                )}
+
+                {canViewTab('analytics') && (
+                  <Button
+                    variant={activeTab === 'analytics' ? 'default' : 'ghost'}
+                    className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
+                    onClick={() => setActiveTab('analytics')}
+                  >
+                    <BarChart3 className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
+                    Analytics & Reports
+                  </Button>
+                )}
+
+                {canViewTab('storage') && (
+                  <Button
+                    variant={activeTab === 'storage' ? 'default' : 'ghost'}
+                    className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
+                    onClick={() => setActiveTab('storage')}
+                  >
+                    <HardDrive className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
+                    File Storage
+                  </Button>
+                )}
+
+                {canViewTab('security') && (
+                  <Button
+                    variant={activeTab === 'security' ? 'default' : 'ghost'}
+                    className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
+                    onClick={() => setActiveTab('security')}
+                  >
+                    <Shield className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
+                    Security & Audit
+                  </Button>
+                )}
+
+                {canViewTab('settings') && (
+                  <Button
+                    variant={activeTab === 'settings' ? 'default' : 'ghost'}
+                    className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
+                    onClick={() => setActiveTab('settings')}
+                  >
+                    <Settings className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
+                    Settings
+                  </Button>
+                )}
+
+                {can('deliverables.send') && (
+                  <Button
+                    variant="ghost"
+                    className="w-full justify-start text-sm lg:text-base py-2 lg:py-2.5"
+                    asChild
+                  >
+                    <Link to="/admin/deliverables">
+                      <Package className="h-4 w-4 lg:h-5 lg:w-5 mr-2 lg:mr-3" />
+                      Deliverables Management
+                    </Link>
+                  </Button>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -814,15 +869,15 @@ const AdminDashboard = () => {
               </div>
             )}
 
-            {activeTab === 'messages' && (
+            {activeTab === 'messages' && canViewTab('messages') && (
               <AdminMessaging />
             )}
 
-            {activeTab === 'broadcast' && (
+            {activeTab === 'broadcast' && canViewTab('broadcast') && (
               <AdminBroadcastMessaging />
             )}
 
-            {activeTab === 'alerts' && (
+            {activeTab === 'alerts' && canViewTab('alerts') && (
               <AdminSystemAlerts />
             )}
 
@@ -830,23 +885,23 @@ const AdminDashboard = () => {
               <AdminAdvancedProjectManager />
             )}
 
-            {activeTab === 'settings' && (
+            {activeTab === 'settings' && canViewTab('settings') && (
               <AdminSettings />
             )}
 
-            {activeTab === 'users' && (
+            {activeTab === 'users' && canViewTab('users') && (
               <AdminUserManagement />
             )}
 
-            {activeTab === 'analytics' && (
+            {activeTab === 'analytics' && canViewTab('analytics') && (
               <AdminAnalytics />
             )}
 
-            {activeTab === 'storage' && (
+            {activeTab === 'storage' && canViewTab('storage') && (
               <AdminFileStorage />
             )}
 
-            {activeTab === 'security' && (
+            {activeTab === 'security' && canViewTab('security') && (
               <AdminSecurity />
             )}
           </div>
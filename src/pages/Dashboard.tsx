@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { Link } from "react-router-dom";
+import { useState, useEffect, useMemo } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -34,11 +34,17 @@ import {
   Filter,
   X,
   Edit,
-  Check
+  Check,
+  Maximize2
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useRealTimeEvents } from "@/hooks/useRealTimeUpdates";
+import { TEAM_CONVERSATION_ID, useProjectUnreadCounts } from "@/hooks/useMessages";
+import type { EventHandlers } from "@/lib/events";
 import { supabase } from "@/integrations/supabase/client";
 import SecurityManager from "@/lib/security";
+import { getMembership, getProjectScopeFilter, OrganizationMembership } from "@/lib/organizations";
+import { organizationRoleAllows } from "@/lib/permissions";
 import CreateProjectModal from "@/components/CreateProjectModal";
 import NotificationDropdown from "@/components/NotificationDropdown";
 import MessageInterface from "@/components/MessageInterface";
@@ -52,16 +58,27 @@ interface Project {
   status: 'starting' | 'in_progress' | 'completed' | string;
   created_at: string;
   updated_at: string;
+  user_id: string;
   folder_count?: number;
 }
 
+const DASHBOARD_TABS = ['projects', 'messages', 'deliverables', 'profile'];
+
 const Dashboard = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, impersonation } = useAuth();
+  const [searchParams] = useSearchParams();
+
+  // Staff viewing as this client in read-only mode see the page without any edit controls
+  const isReadOnly = !!impersonation?.read_only;
   const { toast } = useToast();
   const [projects, setProjects] = useState<Project[]>([]);
   const [filteredProjects, setFilteredProjects] = useState<Project[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState('projects');
+  // ?tab= opens a tab directly, e.g. from the mobile navigation on the inbox page
+  const [activeTab, setActiveTab] = useState(() => {
+    const tab = searchParams.get('tab');
+    return tab && DASHBOARD_TABS.includes(tab) ? tab : 'projects';
+  });
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [deleteProjectId, setDeleteProjectId] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -70,19 +87,24 @@ const Dashboard = () => {
   const [sortBy, setSortBy] = useState<string>('updated_at');
   const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
   const [editingProjectName, setEditingProjectName] = useState('');
+  const [membership, setMembership] = useState<OrganizationMembership | null>(null);
+  const { unreadCounts } = useProjectUnreadCounts();
 
-  // Fetch user projects
+  // Fetch the user's own projects plus those shared with their organization
   const fetchProjects = async () => {
     if (!user) return;
 
     try {
+      const currentMembership = await getMembership(user.id);
+      setMembership(currentMembership);
+
       const { data, error } = await supabase
         .from('projects')
         .select(`
           *,
           folders(count)
         `)
-        .eq('user_id', user.id)
+        .or(getProjectScopeFilter(user.id, currentMembership))
         .order('updated_at', { ascending: false });
 
       if (error) {
@@ -99,6 +121,7 @@ const Dashboard = () => {
           status: project.status || 'starting',
           created_at: project.created_at,
           updated_at: project.updated_at,
+          user_id: project.user_id,
           folder_count: project.folders?.length || 0
         })) || [];
         setProjects(projectsWithFolderCount);
@@ -114,6 +137,18 @@ const Dashboard = () => {
     fetchProjects();
   }, [user, toast]);
 
+  // Reflect status changes made by the team while this page is open
+  const realTimeHandlers = useMemo<EventHandlers>(() => ({
+    'project.status_changed': (event) => {
+      setProjects(prev => prev.map(project =>
+        project.id === event.project_id
+          ? { ...project, status: event.status, updated_at: event.changed_at }
+          : project
+      ));
+    }
+  }), []);
+  useRealTimeEvents(user?.id, realTimeHandlers);
+
   // Filter and sort projects
   useEffect(() => {
     let filtered = projects;
@@ -152,6 +187,12 @@ const Dashboard = () => {
     setSortBy('updated_at');
   };
 
+  // Colleagues can rename shared projects from editor up; only the creator can delete one
+  const canEditProject = (project: Project) =>
+    !isReadOnly && (project.user_id === user?.id || (membership !== null && organizationRoleAllows(membership.role, 'edit')));
+
+  const canDeleteProject = (project: Project) => !isReadOnly && project.user_id === user?.id;
+
   const startEditingProject = (project: Project) => {
     setEditingProjectId(project.id);
     setEditingProjectName(project.name);
@@ -166,14 +207,24 @@ const Dashboard = () => {
     if (!user || !editingProjectName.trim()) return;
 
     try {
+      // Security check: colleagues need edit access through their organization
+      const canEdit = await SecurityManager.canAccessProject(user.id, projectId, 'edit');
+      if (!canEdit) {
+        toast({
+          title: "Access Denied",
+          description: "You don't have permission to rename this project",
+          variant: "destructive",
+        });
+        return;
+      }
+
       const { error } = await supabase
         .from('projects')
         .update({
           name: editingProjectName.trim(),
           updated_at: new Date().toISOString()
         })
-        .eq('id', projectId)
-        .eq('user_id', user.id); // Security check
+        .eq('id', projectId);
 
       if (error) {
         console.error('Error updating project name:', error);
@@ -497,13 +548,15 @@ const Dashboard = () => {
                       Manage your project folders and requirements
                     </p>
                   </div>
-                  <Button
-                    className="bg-primary hover:bg-primary-hover w-full sm:w-auto"
-                    onClick={() => setIsCreateModalOpen(true)}
-                  >
-                    <Plus className="h-4 w-4 mr-2" />
-                    New Project
-                  </Button>
+                  {!isReadOnly && (
+                    <Button
+                      className="bg-primary hover:bg-primary-hover w-full sm:w-auto"
+                      onClick={() => setIsCreateModalOpen(true)}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      New Project
+                    </Button>
+                  )}
                 </div>
 
                 {/* Filter Section */}
@@ -588,13 +641,15 @@ const Dashboard = () => {
                       <p className="text-muted-foreground mb-6">
                         Create your first project to get started with organizing your requirements.
                       </p>
-                      <Button
-                        className="bg-primary hover:bg-primary-hover w-full sm:w-auto"
-                        onClick={() => setIsCreateModalOpen(true)}
-                      >
-                        <Plus className="h-4 w-4 mr-2" />
-                        Create Project
-                      </Button>
+                      {!isReadOnly && (
+                        <Button
+                          className="bg-primary hover:bg-primary-hover w-full sm:w-auto"
+                          onClick={() => setIsCreateModalOpen(true)}
+                        >
+                          <Plus className="h-4 w-4 mr-2" />
+                          Create Project
+                        </Button>
+                      )}
                     </CardContent>
                   </Card>
                 ) : (
@@ -643,14 +698,16 @@ const Dashboard = () => {
                                       <h3 className="text-lg font-semibold text-foreground text-wrap flex-1">
                                         {project.name}
                                       </h3>
-                                      <Button
-                                        size="sm"
-                                        variant="ghost"
-                                        onClick={() => startEditingProject(project)}
-                                        className="text-gray-600 hover:text-gray-700 p-1"
-                                      >
-                                        <Edit className="h-4 w-4" />
-                                      </Button>
+                                      {canEditProject(project) && (
+                                        <Button
+                                          size="sm"
+                                          variant="ghost"
+                                          onClick={() => startEditingProject(project)}
+                                          className="text-gray-600 hover:text-gray-700 p-1"
+                                        >
+                                          <Edit className="h-4 w-4" />
+                                        </Button>
+                                      )}
                                     </>
                                   )}
                                 </div>
@@ -668,6 +725,15 @@ const Dashboard = () => {
                                   <Calendar className="h-4 w-4 mr-1" />
                                   Created {formatDate(project.created_at)}
                                 </span>
+                                {unreadCounts[project.id] > 0 && (
+                                  <Link
+                                    to={`/project/${project.id}?view=messages`}
+                                    className="flex items-center font-medium text-primary hover:underline"
+                                  >
+                                    <MessageSquare className="h-4 w-4 mr-1" />
+                                    {unreadCounts[project.id]} unread
+                                  </Link>
+                                )}
                               </div>
                             </div>
 
@@ -677,14 +743,16 @@ const Dashboard = () => {
                                   Open Project
                                 </Link>
                               </Button>
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                className="w-full sm:w-auto text-red-600 hover:text-red-700 hover:bg-red-50"
-                                onClick={() => setDeleteProjectId(project.id)}
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
+                              {canDeleteProject(project) && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="w-full sm:w-auto text-red-600 hover:text-red-700 hover:bg-red-50"
+                                  onClick={() => setDeleteProjectId(project.id)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
                             </div>
                           </div>
                         </CardContent>
@@ -697,16 +765,23 @@ const Dashboard = () => {
 
             {activeTab === 'messages' && (
               <div className="space-y-4 sm:space-y-6">
-                <div className="text-center sm:text-left">
-                  <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold text-foreground">Messages</h2>
-                  <p className="text-sm sm:text-base text-muted-foreground mt-1">
-                    Communicate with the Muahib Solution team
-                  </p>
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <div className="text-center sm:text-left">
+                    <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold text-foreground">Messages</h2>
+                    <p className="text-sm sm:text-base text-muted-foreground mt-1">
+                      Communicate with the Muahib Solution team
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" asChild className="self-center sm:self-auto">
+                    <Link to="/inbox">
+                      <Maximize2 className="h-4 w-4 mr-2" />
+                      Open Inbox
+                    </Link>
+                  </Button>
                 </div>
 
-                {/* Get admin user ID - in a real app, this would be dynamic */}
                 <MessageInterface
-                  conversationUserId="admin" // This should be the actual admin user ID
+                  conversationUserId={TEAM_CONVERSATION_ID}
                   conversationUserName="Muahib Solution Team"
                   conversationUserCompany="Support Team"
                 />
@@ -0,0 +1,128 @@
+import { useState, useEffect } from 'react';
+import { Link, Navigate, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { TEAM_CONVERSATION_ID, useProjectUnreadCounts } from '@/hooks/useMessages';
+import { supabase } from '@/integrations/supabase/client';
+import { getMembership, getProjectScopeFilter } from '@/lib/organizations';
+import MessageInterface from '@/components/MessageInterface';
+import ProjectThreadTabs from '@/components/ProjectThreadTabs';
+import NotificationDropdown from '@/components/NotificationDropdown';
+import MobileNavigation from '@/components/MobileNavigation';
+
+// Full-page conversation between a client and the team. ?message=<id> opens it at that message,
+// e.g. from a new message notification.
+const Inbox = () => {
+  const { user, logout } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [projects, setProjects] = useState<{ id: string; name: string }[]>([]);
+  const [threadProjectId, setThreadProjectId] = useState<string | null | undefined>(undefined);
+  const { unreadCounts } = useProjectUnreadCounts();
+  const linkedMessageId = searchParams.get('message');
+
+  // Projects the client can see, for the thread filter
+  useEffect(() => {
+    if (!user || user.is_admin) return;
+
+    const fetchProjects = async () => {
+      const membership = await getMembership(user.id);
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name')
+        .or(getProjectScopeFilter(user.id, membership))
+        .order('updated_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching projects:', error);
+        return;
+      }
+      setProjects(data || []);
+    };
+
+    fetchProjects();
+  }, [user]);
+
+  // A linked message may be in any thread, so show them all
+  useEffect(() => {
+    if (linkedMessageId) {
+      setThreadProjectId(undefined);
+    }
+  }, [linkedMessageId]);
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+      toast({
+        title: "Logged out",
+        description: "You have been successfully logged out.",
+      });
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
+  };
+
+  // Staff have their own inbox with every client's conversation
+  if (user?.is_admin) {
+    return <Navigate to="/messages" replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background overflow-x-hidden">
+      {/* Mobile Navigation */}
+      <MobileNavigation
+        activeTab="messages"
+        onTabChange={(tab) => navigate(`/dashboard?tab=${tab}`)}
+        onLogout={handleLogout}
+      />
+
+      {/* Desktop Header */}
+      <header className="hidden lg:block border-b border-border-light bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Button variant="ghost" size="sm" asChild>
+                <Link to="/dashboard">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Dashboard
+                </Link>
+              </Button>
+              <div>
+                <h1 className="text-xl font-bold text-foreground">Messages</h1>
+                <p className="text-sm text-muted-foreground">
+                  Communicate with the Muahib Solution team
+                </p>
+              </div>
+            </div>
+            <NotificationDropdown />
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-4 sm:py-6 lg:py-8 pt-16 sm:pt-20 lg:pt-8 pb-20 sm:pb-24 lg:pb-8 max-w-full overflow-x-hidden">
+        <div className="space-y-4">
+          {projects.length > 0 && (
+            <ProjectThreadTabs
+              projects={projects}
+              value={threadProjectId}
+              onChange={setThreadProjectId}
+              unreadCounts={unreadCounts}
+            />
+          )}
+          <MessageInterface
+            conversationUserId={TEAM_CONVERSATION_ID}
+            conversationUserName="Muahib Solution Team"
+            conversationUserCompany="Support Team"
+            projectId={threadProjectId}
+            highlightMessageId={linkedMessageId}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Inbox;
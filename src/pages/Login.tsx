@@ -1,29 +1,64 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2, Phone, Lock, ArrowLeft } from "lucide-react";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Loader2, Lock, ArrowLeft, ShieldCheck } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
-import { signIn, formatPhoneNumber } from "@/lib/auth";
+import { signIn, formatPhoneNumber, User } from "@/lib/auth";
+import { CountryCode, DEFAULT_COUNTRY } from "@/lib/phone";
 import { useToast } from "@/hooks/use-toast";
 import { createAdminUser } from "@/scripts/createAdmin";
+import ForgotPasswordModal from "@/components/ForgotPasswordModal";
+import PhoneNumberInput from "@/components/PhoneNumberInput";
 
 const Login = () => {
   const [formData, setFormData] = useState({
     phone_number: "",
     password: "",
   });
+  const [country, setCountry] = useState<CountryCode>(DEFAULT_COUNTRY);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const [isCreatingAdmin, setIsCreatingAdmin] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<string | null>(null);
+  const [lockSecondsLeft, setLockSecondsLeft] = useState(0);
+  const [isForgotPasswordOpen, setIsForgotPasswordOpen] = useState(false);
+  const [pendingUser, setPendingUser] = useState<User | null>(null); // Set once the password is accepted but a 2FA code is still needed
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   
   const { login } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  // Count down until the account lock expires
+  useEffect(() => {
+    if (!lockedUntil) return;
+
+    const updateCountdown = () => {
+      const secondsLeft = Math.max(0, Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 1000));
+      setLockSecondsLeft(secondsLeft);
+      if (secondsLeft === 0) {
+        setLockedUntil(null);
+        setError("");
+      }
+    };
+
+    updateCountdown();
+    const interval = setInterval(updateCountdown, 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  const formatCountdown = (totalSeconds: number): string => {
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
@@ -31,8 +66,28 @@ const Login = () => {
       [name]: value
     }));
     
-    // Clear error when user starts typing
-    if (error) setError("");
+    // Clear error when user starts typing (the lock message stays until it expires)
+    if (error && !lockedUntil) setError("");
+  };
+
+  const completeLogin = async (user: User, twoFactorCode?: string) => {
+    await login(user, {
+      phone_number: formatPhoneNumber(formData.phone_number, country),
+      password: formData.password,
+      two_factor_code: twoFactorCode,
+    });
+
+    toast({
+      title: "Welcome back!",
+      description: "You have successfully logged in.",
+    });
+
+    // Redirect based on user role
+    if (user.is_admin) {
+      navigate("/admin");
+    } else {
+      navigate("/dashboard");
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -54,26 +109,22 @@ const Login = () => {
 
       // Attempt login
       const response = await signIn({
-        phone_number: formData.phone_number,
+        phone_number: formatPhoneNumber(formData.phone_number, country),
         password: formData.password,
       });
 
       if (response.success && response.user) {
-        // Login to context
-        await login(response.user);
-        
-        toast({
-          title: "Welcome back!",
-          description: "You have successfully logged in.",
-        });
-
-        // Redirect based on user role
-        if (response.user.is_admin) {
-          navigate("/admin");
-        } else {
-          navigate("/dashboard");
+        if (response.twoFactorRequired) {
+          setPendingUser(response.user);
+          return;
         }
+
+        // Login to context
+        await completeLogin(response.user);
       } else {
+        if (response.errorCode === "ACCOUNT_LOCKED" && response.lockedUntil) {
+          setLockedUntil(response.lockedUntil);
+        }
         setError(response.error || "Login failed");
       }
     } catch (error) {
@@ -84,6 +135,36 @@ const Login = () => {
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingUser) return;
+    setError("");
+
+    const code = twoFactorCode.trim();
+    if (!code || (!useRecoveryCode && code.length !== 6)) {
+      setError(useRecoveryCode ? "Recovery code is required" : "Enter the 6-digit code from your authenticator app");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await completeLogin(pendingUser, code);
+    } catch (error) {
+      console.error("Two-factor login error:", error);
+      setError(error instanceof Error ? error.message : "Invalid two-factor code");
+      setTwoFactorCode("");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    setPendingUser(null);
+    setTwoFactorCode("");
+    setUseRecoveryCode(false);
+    setError("");
+  };
+
   const handleCreateAdmin = async () => {
     setIsCreatingAdmin(true);
     try {
@@ -129,83 +210,176 @@ const Login = () => {
         <Card className="border-border-light shadow-lg">
           <CardHeader className="space-y-1 text-center p-4 sm:p-6">
             <CardTitle className="text-xl sm:text-2xl font-bold text-foreground">
-              Welcome Back
+              {pendingUser ? "Two-Factor Authentication" : "Welcome Back"}
             </CardTitle>
             <CardDescription className="text-sm sm:text-base text-muted-foreground">
-              Sign in to your Muahib Solution account
+              {pendingUser
+                ? useRecoveryCode
+                  ? "Enter one of your recovery codes"
+                  : "Enter the 6-digit code from your authenticator app"
+                : "Sign in to your Muahib Solution account"}
             </CardDescription>
           </CardHeader>
           
           <CardContent className="p-4 sm:p-6">
-            <form onSubmit={handleSubmit} className="space-y-4">
-              {/* Error Alert */}
-              {error && (
-                <Alert variant="destructive">
-                  <AlertDescription>{error}</AlertDescription>
-                </Alert>
-              )}
-
-              {/* Phone Number Field */}
-              <div className="space-y-2">
-                <Label htmlFor="phone_number" className="text-sm font-medium text-foreground">
-                  Phone Number
-                </Label>
-                <div className="relative">
-                  <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                  <Input
+            {pendingUser ? (
+              <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                {useRecoveryCode ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="recovery_code" className="text-sm font-medium text-foreground">
+                      Recovery Code
+                    </Label>
+                    <Input
+                      id="recovery_code"
+                      placeholder="XXXXX-XXXXX"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                      className="border-input-border focus:border-ring font-mono"
+                      disabled={isLoading}
+                      autoFocus
+                    />
+                  </div>
+                ) : (
+                  <div className="flex justify-center">
+                    <InputOTP maxLength={6} value={twoFactorCode} onChange={setTwoFactorCode} disabled={isLoading} autoFocus>
+                      <InputOTPGroup>
+                        {Array.from({ length: 6 }, (_, index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full bg-primary hover:bg-primary-hover text-primary-foreground"
+                  disabled={isLoading}
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Verifying...
+                    </>
+                  ) : (
+                    <>
+                      <ShieldCheck className="h-4 w-4 mr-2" />
+                      Verify
+                    </>
+                  )}
+                </Button>
+
+                <div className="flex items-center justify-between text-xs">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setTwoFactorCode("");
+                      setError("");
+                    }}
+                    className="font-medium text-primary hover:text-primary-hover transition-colors"
+                    disabled={isLoading}
+                  >
+                    {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={cancelTwoFactor}
+                    className="text-muted-foreground hover:text-foreground transition-colors"
+                    disabled={isLoading}
+                  >
+                    Back to sign in
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {/* Error Alert */}
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>
+                      {error}
+                      {lockedUntil && lockSecondsLeft > 0 && (
+                        <span className="block mt-1 font-medium">
+                          Try again in {formatCountdown(lockSecondsLeft)}
+                        </span>
+                      )}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {/* Phone Number Field */}
+                <div className="space-y-2">
+                  <Label htmlFor="phone_number" className="text-sm font-medium text-foreground">
+                    Phone Number
+                  </Label>
+                  <PhoneNumberInput
                     id="phone_number"
                     name="phone_number"
-                    type="tel"
-                    placeholder="+234 801 234 5678"
                     value={formData.phone_number}
                     onChange={handleInputChange}
-                    className="pl-10 border-input-border focus:border-ring"
+                    country={country}
+                    onCountryChange={setCountry}
                     disabled={isLoading}
-                    required
                   />
+                  <p className="text-xs text-muted-foreground">
+                    Choose your country, or type the number with its country code
+                  </p>
                 </div>
-                <p className="text-xs text-muted-foreground">
-                  Enter your phone number with country code
-                </p>
-              </div>
-
-              {/* Password Field */}
-              <div className="space-y-2">
-                <Label htmlFor="password" className="text-sm font-medium text-foreground">
-                  Password
-                </Label>
-                <div className="relative">
-                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    id="password"
-                    name="password"
-                    type="password"
-                    placeholder="Enter your password"
-                    value={formData.password}
-                    onChange={handleInputChange}
-                    className="pl-10 border-input-border focus:border-ring"
-                    disabled={isLoading}
-                    required
-                  />
+
+                {/* Password Field */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="password" className="text-sm font-medium text-foreground">
+                      Password
+                    </Label>
+                    <button
+                      type="button"
+                      onClick={() => setIsForgotPasswordOpen(true)}
+                      className="text-xs font-medium text-primary hover:text-primary-hover transition-colors"
+                    >
+                      Forgot password?
+                    </button>
+                  </div>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="password"
+                      name="password"
+                      type="password"
+                      placeholder="Enter your password"
+                      value={formData.password}
+                      onChange={handleInputChange}
+                      className="pl-10 border-input-border focus:border-ring"
+                      disabled={isLoading}
+                      required
+                    />
+                  </div>
                 </div>
-              </div>
-
-              {/* Submit Button */}
-              <Button
-                type="submit"
-                className="w-full bg-primary hover:bg-primary-hover text-primary-foreground"
-                disabled={isLoading}
-              >
-                {isLoading ? (
-                  <>
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    Signing In...
-                  </>
-                ) : (
-                  "Sign In"
-                )}
-              </Button>
-            </form>
+
+                {/* Submit Button */}
+                <Button
+                  type="submit"
+                  className="w-full bg-primary hover:bg-primary-hover text-primary-foreground"
+                  disabled={isLoading || !!lockedUntil}
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Signing In...
+                    </>
+                  ) : (
+                    "Sign In"
+                  )}
+                </Button>
+              </form>
+            )}
 
             {/* Sign Up Link */}
             <div className="mt-6 text-center">
@@ -224,6 +398,16 @@ const Login = () => {
 
 
 
+        {/* Forgot Password Modal */}
+        {isForgotPasswordOpen && (
+          <ForgotPasswordModal
+            isOpen={isForgotPasswordOpen}
+            onClose={() => setIsForgotPasswordOpen(false)}
+            initialPhoneNumber={formData.phone_number}
+            initialCountry={country}
+          />
+        )}
+
         {/* Footer */}
         <div className="text-center">
           <p className="text-xs text-muted-foreground">
@@ -1,21 +1,95 @@
-import { useState } from 'react';
-import { Link } from 'react-router-dom';
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, MessageSquare, Users, Search } from 'lucide-react';
+import { ArrowLeft, MessageSquare, Users, Search, TextSearch, Inbox, UserCheck } from 'lucide-react';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useMessages } from '@/hooks/useMessages';
 import MessageInterface from '@/components/MessageInterface';
+import ProjectThreadTabs from '@/components/ProjectThreadTabs';
+import MessageSearchPanel from '@/components/MessageSearchPanel';
+import InboxConversationControls from '@/components/InboxConversationControls';
+import {
+  DEFAULT_INBOX_ENTRY,
+  INBOX_STATUSES,
+  INBOX_STATUS_BADGE_CLASSES,
+  INBOX_STATUS_LABELS,
+  InboxConversation,
+  InboxStaffMember,
+  InboxStatus,
+  InboxView,
+  fetchInboxConversations,
+  fetchInboxStaff,
+  matchesInboxView
+} from '@/lib/inbox';
+import type { MessageSearchResult } from '@/lib/messageSearch';
+import { supabase } from '@/integrations/supabase/client';
 import { formatDistanceToNow } from 'date-fns';
 
 const Messages = () => {
   const { user } = useAuth();
   const { conversations, isLoading } = useMessages();
+  const [searchParams] = useSearchParams();
   const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
+  const [linkedMessageId, setLinkedMessageId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [clientProjects, setClientProjects] = useState<{ id: string; name: string }[]>([]);
+  const [threadProjectId, setThreadProjectId] = useState<string | null | undefined>(undefined);
+  const [sidebarMode, setSidebarMode] = useState<'conversations' | 'search'>('conversations');
+  const [searchResult, setSearchResult] = useState<MessageSearchResult | null>(null);
+  const [inboxEntries, setInboxEntries] = useState<Map<string, InboxConversation>>(new Map());
+  const [inboxStaff, setInboxStaff] = useState<InboxStaffMember[]>([]);
+  const [inboxView, setInboxView] = useState<InboxView>('all');
+  const [statusFilter, setStatusFilter] = useState<InboxStatus | 'all'>('all');
+
+  // ?client=<id>&message=<id> opens a client's conversation at that message, e.g. from a notification
+  useEffect(() => {
+    const clientId = searchParams.get('client');
+    if (!clientId) return;
+
+    setSearchResult(null);
+    setSelectedConversation(clientId);
+    setLinkedMessageId(searchParams.get('message'));
+  }, [searchParams]);
+
+  const loadInbox = useCallback(async () => {
+    const entries = await fetchInboxConversations();
+    setInboxEntries(new Map(entries.map(entry => [entry.client_id, entry])));
+  }, []);
+
+  useEffect(() => {
+    if (!user?.is_admin) return;
+
+    loadInbox();
+    fetchInboxStaff().then(setInboxStaff);
+  }, [user?.is_admin, loadInbox]);
+
+  // Load the selected client's projects for the thread filter
+  useEffect(() => {
+    setThreadProjectId(undefined);
+    setClientProjects([]);
+    if (!selectedConversation) return;
+
+    const fetchClientProjects = async () => {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name')
+        .eq('user_id', selectedConversation)
+        .order('updated_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching client projects:', error);
+        return;
+      }
+      setClientProjects(data || []);
+    };
+
+    fetchClientProjects();
+  }, [selectedConversation]);
 
   const getInitials = (name: string) => {
     return name
@@ -30,12 +104,54 @@ const Messages = () => {
     return formatDistanceToNow(new Date(dateString), { addSuffix: true });
   };
 
-  const filteredConversations = conversations.filter(conv =>
-    conv.user_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    conv.user_company.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const getInboxEntry = (clientId: string) => inboxEntries.get(clientId) ?? DEFAULT_INBOX_ENTRY;
+
+  const getStaffName = (staffId: string) =>
+    staffId === user?.id
+      ? 'You'
+      : inboxStaff.find(member => member.id === staffId)?.full_name || 'Unknown';
+
+  const viewCounts: Record<InboxView, number> = {
+    mine: 0,
+    unassigned: 0,
+    all: 0
+  };
+  conversations.forEach(conv => {
+    const entry = getInboxEntry(conv.user_id);
+    if (statusFilter !== 'all' && entry.status !== statusFilter) return;
+    (['mine', 'unassigned', 'all'] as InboxView[]).forEach(view => {
+      if (user && matchesInboxView(entry, view, user.id)) viewCounts[view] += 1;
+    });
+  });
+
+  const filteredConversations = conversations.filter(conv => {
+    const entry = getInboxEntry(conv.user_id);
+    return (
+      !!user && matchesInboxView(entry, inboxView, user.id) &&
+      (statusFilter === 'all' || entry.status === statusFilter) &&
+      (conv.user_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        conv.user_company.toLowerCase().includes(searchTerm.toLowerCase()))
+    );
+  });
 
   const selectedConversationData = conversations.find(conv => conv.user_id === selectedConversation);
+  // A search result can open a client whose conversation is not in the loaded list
+  const conversationName = selectedConversationData?.user_name
+    ?? (searchResult?.client_id === selectedConversation ? searchResult.client_name || 'Unknown User' : null);
+
+  const openConversation = (userId: string) => {
+    setSearchResult(null);
+    setLinkedMessageId(null);
+    setSelectedConversation(userId);
+  };
+
+  // Open the result's conversation across all threads, so the match shows with the messages around it
+  const openSearchResult = (result: MessageSearchResult) => {
+    setSearchResult(result);
+    setLinkedMessageId(null);
+    setSelectedConversation(result.client_id);
+    setThreadProjectId(undefined);
+  };
 
   if (!user?.is_admin) {
     return (
@@ -110,92 +226,185 @@ const Messages = () => {
                 <CardDescription>
                   Select a client to start messaging
                 </CardDescription>
-              </CardHeader>
-              
-              <CardContent className="flex-1 flex flex-col p-0">
-                {/* Search */}
-                <div className="p-4 border-b border-border-light">
-                  <div className="relative">
-                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      placeholder="Search conversations..."
-                      value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
-                      className="pl-10"
-                    />
-                  </div>
+                <div className="flex space-x-1 bg-muted p-1 rounded-lg w-fit">
+                  <Button
+                    variant={sidebarMode === 'conversations' ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={() => setSidebarMode('conversations')}
+                    className="flex items-center gap-2"
+                  >
+                    <Users className="h-4 w-4" />
+                    Clients
+                  </Button>
+                  <Button
+                    variant={sidebarMode === 'search' ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={() => setSidebarMode('search')}
+                    className="flex items-center gap-2"
+                  >
+                    <TextSearch className="h-4 w-4" />
+                    Search messages
+                  </Button>
                 </div>
+              </CardHeader>
 
-                {/* Conversations */}
-                <div className="flex-1 overflow-y-auto">
-                  {filteredConversations.length === 0 ? (
-                    <div className="p-8 text-center">
-                      <MessageSquare className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-                      <p className="text-muted-foreground">
-                        {searchTerm ? 'No conversations found' : 'No conversations yet'}
-                      </p>
+              {sidebarMode === 'search' ? (
+                <CardContent className="flex-1 flex flex-col p-0 min-h-0">
+                  <MessageSearchPanel
+                    clients={conversations.map(conv => ({ id: conv.user_id, name: conv.user_name }))}
+                    onSelectResult={openSearchResult}
+                    selectedResultId={searchResult?.id}
+                  />
+                </CardContent>
+              ) : (
+                <CardContent className="flex-1 flex flex-col p-0">
+                  {/* Search */}
+                  <div className="p-4 border-b border-border-light space-y-3">
+                    <div className="flex items-center gap-2">
+                      <div className="flex space-x-1 bg-muted p-1 rounded-lg">
+                        {([
+                          { view: 'mine', label: 'Mine', icon: UserCheck },
+                          { view: 'unassigned', label: 'Unassigned', icon: Inbox },
+                          { view: 'all', label: 'All', icon: Users }
+                        ] as { view: InboxView; label: string; icon: typeof Users }[]).map(({ view, label, icon: Icon }) => (
+                          <Button
+                            key={view}
+                            variant={inboxView === view ? 'default' : 'ghost'}
+                            size="sm"
+                            onClick={() => setInboxView(view)}
+                            className="flex items-center gap-1"
+                          >
+                            <Icon className="h-4 w-4" />
+                            {label}
+                            <span className="text-xs opacity-70">{viewCounts[view]}</span>
+                          </Button>
+                        ))}
+                      </div>
+                      <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as InboxStatus | 'all')}>
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">Any status</SelectItem>
+                          {INBOX_STATUSES.map(status => (
+                            <SelectItem key={status} value={status}>
+                              {INBOX_STATUS_LABELS[status]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        placeholder="Search conversations..."
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        className="pl-10"
+                      />
                     </div>
-                  ) : (
-                    <div className="space-y-1 p-2">
-                      {filteredConversations.map((conversation) => (
-                        <button
-                          key={conversation.user_id}
-                          onClick={() => setSelectedConversation(conversation.user_id)}
-                          className={`w-full text-left p-3 rounded-lg transition-colors ${
-                            selectedConversation === conversation.user_id
-                              ? 'bg-primary/10 border border-primary/20'
-                              : 'hover:bg-muted/50'
-                          }`}
-                        >
-                          <div className="flex items-start space-x-3">
-                            <Avatar className="h-10 w-10 flex-shrink-0">
-                              <AvatarFallback className="bg-primary text-primary-foreground">
-                                {getInitials(conversation.user_name)}
-                              </AvatarFallback>
-                            </Avatar>
+                  </div>
+
+                  {/* Conversations */}
+                  <div className="flex-1 overflow-y-auto">
+                    {filteredConversations.length === 0 ? (
+                      <div className="p-8 text-center">
+                        <MessageSquare className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                        <p className="text-muted-foreground">
+                          {searchTerm || inboxView !== 'all' || statusFilter !== 'all'
+                            ? 'No conversations found'
+                            : 'No conversations yet'}
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="space-y-1 p-2">
+                        {filteredConversations.map((conversation) => {
+                          const inboxEntry = getInboxEntry(conversation.user_id);
+
+                          return (
+                            <button
+                              key={conversation.user_id}
+                              onClick={() => openConversation(conversation.user_id)}
+                              className={`w-full text-left p-3 rounded-lg transition-colors ${
+                                selectedConversation === conversation.user_id
+                                  ? 'bg-primary/10 border border-primary/20'
+                                  : 'hover:bg-muted/50'
+                              }`}
+                            >
+                              <div className="flex items-start space-x-3">
+                                <Avatar className="h-10 w-10 flex-shrink-0">
+                                  <AvatarFallback className="bg-primary text-primary-foreground">
+                                    {getInitials(conversation.user_name)}
+                                  </AvatarFallback>
+                                </Avatar>
                             
-                            <div className="flex-1 min-w-0">
-                              <div className="flex items-center justify-between">
-                                <p className="font-medium text-foreground truncate">
-                                  {conversation.user_name}
-                                </p>
-                                <p className="text-xs text-muted-foreground">
-                                  {formatTime(conversation.last_message_time)}
-                                </p>
-                              </div>
+                                <div className="flex-1 min-w-0">
+                                  <div className="flex items-center justify-between">
+                                    <p className="font-medium text-foreground truncate">
+                                      {conversation.user_name}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">
+                                      {formatTime(conversation.last_message_time)}
+                                    </p>
+                                  </div>
                               
-                              <p className="text-sm text-muted-foreground truncate">
-                                {conversation.user_company}
-                              </p>
+                                  <p className="text-sm text-muted-foreground truncate">
+                                    {conversation.user_company}
+                                  </p>
                               
-                              <p className="text-sm text-muted-foreground truncate mt-1">
-                                {conversation.last_message}
-                              </p>
+                                  <p className="text-sm text-muted-foreground truncate mt-1">
+                                    {conversation.last_message}
+                                  </p>
                               
-                              {conversation.unread_count > 0 && (
-                                <Badge variant="destructive" className="mt-1 text-xs">
-                                  {conversation.unread_count}
-                                </Badge>
-                              )}
-                            </div>
-                          </div>
-                        </button>
-                      ))}
-                    </div>
-                  )}
-                </div>
-              </CardContent>
+                                  <div className="flex items-center gap-2 mt-1">
+                                    <Badge variant="outline" className={`text-xs ${INBOX_STATUS_BADGE_CLASSES[inboxEntry.status]}`}>
+                                      {INBOX_STATUS_LABELS[inboxEntry.status]}
+                                    </Badge>
+                                    <span className="text-xs text-muted-foreground truncate">
+                                      {inboxEntry.assigned_to ? getStaffName(inboxEntry.assigned_to) : 'Unassigned'}
+                                    </span>
+                                    {conversation.unread_count > 0 && (
+                                      <Badge variant="destructive" className="text-xs">
+                                        {conversation.unread_count}
+                                      </Badge>
+                                    )}
+                                  </div>
+                                </div>
+                              </div>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              )}
             </Card>
           </div>
 
           {/* Message Interface */}
           <div className="lg:col-span-2">
-            {selectedConversation && selectedConversationData ? (
-              <MessageInterface
-                conversationUserId={selectedConversation}
-                conversationUserName={selectedConversationData.user_name}
-                conversationUserCompany={selectedConversationData.user_company}
-              />
+            {selectedConversation && conversationName ? (
+              <div className="space-y-4">
+                <InboxConversationControls
+                  clientId={selectedConversation}
+                  entry={getInboxEntry(selectedConversation)}
+                  staff={inboxStaff}
+                  onChange={loadInbox}
+                />
+                <ProjectThreadTabs
+                  projects={clientProjects}
+                  value={threadProjectId}
+                  onChange={setThreadProjectId}
+                />
+                <MessageInterface
+                  conversationUserId={selectedConversation}
+                  conversationUserName={conversationName}
+                  conversationUserCompany={selectedConversationData?.user_company}
+                  projectId={threadProjectId}
+                  highlightMessageId={searchResult?.id ?? linkedMessageId}
+                />
+              </div>
             ) : (
               <Card className="h-full flex items-center justify-center">
                 <CardContent className="text-center py-12">
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useParams, useNavigate, Link } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams, Link } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -28,13 +28,17 @@ import {
   AlertTriangle,
   Edit,
   Check,
-  X
+  X,
+  MessageSquare
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { notifyAdminOfClientUpdate } from "@/lib/notifications";
 import SecurityManager from "@/lib/security";
+import { OrganizationRole, organizationRoleAllows } from "@/lib/permissions";
 import FileUploadIcon from "@/components/FileUploadIcon";
+import MessageInterface from "@/components/MessageInterface";
+import { TEAM_CONVERSATION_ID } from "@/hooks/useMessages";
 
 interface Project {
   id: string;
@@ -79,9 +83,13 @@ interface FolderInput {
 const ProjectDetail = () => {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user, impersonation } = useAuth();
   const { toast } = useToast();
 
+  // ?view=messages opens the project's thread with the team, e.g. from the dashboard's unread count
+  const view = searchParams.get('view') === 'messages' ? 'messages' : 'requirements';
+
   const [project, setProject] = useState<Project | null>(null);
   const [folders, setFolders] = useState<Folder[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -94,6 +102,10 @@ const ProjectDetail = () => {
   const [editingFolderName, setEditingFolderName] = useState('');
   const [editingInputId, setEditingInputId] = useState<string | null>(null);
   const [editingInputContent, setEditingInputContent] = useState('');
+  const [projectRole, setProjectRole] = useState<OrganizationRole | null>(null);
+
+  // Viewers and staff in a read-only client view get the page without edit controls
+  const canEdit = !!projectRole && organizationRoleAllows(projectRole, 'edit') && !impersonation?.read_only;
 
   // Fetch project and folders
   useEffect(() => {
@@ -101,13 +113,17 @@ const ProjectDetail = () => {
       if (!projectId || !user) return;
 
       try {
+        // Access is resolved through the user's organization, so colleagues can open shared projects
+        const projectRole = await SecurityManager.getProjectRole(user.id, projectId);
+
         // Fetch project
-        const { data: projectData, error: projectError } = await supabase
-          .from('projects')
-          .select('*')
-          .eq('id', projectId)
-          .eq('user_id', user.id)
-          .single();
+        const { data: projectData, error: projectError } = projectRole
+          ? await supabase
+              .from('projects')
+              .select('*')
+              .eq('id', projectId)
+              .single()
+          : { data: null, error: null };
 
         if (projectError || !projectData) {
           toast({
@@ -120,6 +136,7 @@ const ProjectDetail = () => {
         }
 
         setProject(projectData as Project);
+        setProjectRole(projectRole);
 
         // Fetch folders with inputs
         const { data: foldersData, error: foldersError } = await supabase
@@ -409,7 +426,7 @@ const ProjectDetail = () => {
     setIsDeleting(true);
     try {
       // Security check: Verify user has access to this folder
-      const canAccess = await SecurityManager.canAccessFolder(user.id, folderId);
+      const canAccess = await SecurityManager.canAccessFolder(user.id, folderId, 'edit');
       if (!canAccess) {
         toast({
           title: "Access Denied",
@@ -675,47 +692,78 @@ const ProjectDetail = () => {
 
       <div className="container mx-auto px-4 py-4 sm:py-6 lg:py-8 max-w-full overflow-x-hidden">
         <div className="space-y-4 sm:space-y-6 max-w-full overflow-x-hidden">
+          {/* Requirements / project thread switch */}
+          <div className="flex space-x-2">
+            <Button
+              variant={view === 'requirements' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setSearchParams({})}
+            >
+              <Folder className="h-4 w-4 mr-2" />
+              Requirements
+            </Button>
+            <Button
+              variant={view === 'messages' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setSearchParams({ view: 'messages' })}
+            >
+              <MessageSquare className="h-4 w-4 mr-2" />
+              Messages
+            </Button>
+          </div>
+
+          {view === 'messages' && (
+            <MessageInterface
+              conversationUserId={TEAM_CONVERSATION_ID}
+              conversationUserName="Muahib Solution Team"
+              conversationUserCompany={project.name}
+              projectId={project.id}
+            />
+          )}
+
           {/* Create New Folder */}
-          <Card className="border-border-light">
-            <CardHeader className="pb-4 sm:pb-6">
-              <CardTitle className="flex items-center space-x-2 text-base sm:text-lg lg:text-xl">
-                <FolderPlus className="h-4 w-4 sm:h-5 sm:w-5 text-primary shrink-0" />
-                <span className="truncate">Create New Folder</span>
-              </CardTitle>
-              <CardDescription className="text-sm">
-                Organize your project requirements into folders
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="px-4 sm:px-6">
-              <div className="flex flex-col sm:flex-row gap-3 sm:gap-2">
-                <Input
-                  placeholder="Enter folder name..."
-                  value={newFolderName}
-                  onChange={(e) => setNewFolderName(e.target.value)}
-                  onKeyPress={(e) => e.key === 'Enter' && createFolder()}
-                  className="flex-1 text-wrap-anywhere text-sm sm:text-base"
-                />
-                <Button
-                  onClick={createFolder}
-                  disabled={!newFolderName.trim() || isCreatingFolder}
-                  className="bg-primary hover:bg-primary-hover w-full sm:w-auto flex-shrink-0 text-sm"
-                >
-                  {isCreatingFolder ? (
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                  ) : (
-                    <>
-                      <Plus className="h-4 w-4 mr-2" />
-                      <span className="hidden xs:inline">Create</span>
-                      <span className="xs:hidden">Add</span>
-                    </>
-                  )}
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
+          {view === 'requirements' && canEdit && (
+            <Card className="border-border-light">
+              <CardHeader className="pb-4 sm:pb-6">
+                <CardTitle className="flex items-center space-x-2 text-base sm:text-lg lg:text-xl">
+                  <FolderPlus className="h-4 w-4 sm:h-5 sm:w-5 text-primary shrink-0" />
+                  <span className="truncate">Create New Folder</span>
+                </CardTitle>
+                <CardDescription className="text-sm">
+                  Organize your project requirements into folders
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="px-4 sm:px-6">
+                <div className="flex flex-col sm:flex-row gap-3 sm:gap-2">
+                  <Input
+                    placeholder="Enter folder name..."
+                    value={newFolderName}
+                    onChange={(e) => setNewFolderName(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && createFolder()}
+                    className="flex-1 text-wrap-anywhere text-sm sm:text-base"
+                  />
+                  <Button
+                    onClick={createFolder}
+                    disabled={!newFolderName.trim() || isCreatingFolder}
+                    className="bg-primary hover:bg-primary-hover w-full sm:w-auto flex-shrink-0 text-sm"
+                  >
+                    {isCreatingFolder ? (
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                    ) : (
+                      <>
+                        <Plus className="h-4 w-4 mr-2" />
+                        <span className="hidden xs:inline">Create</span>
+                        <span className="xs:hidden">Add</span>
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
 
           {/* Folders */}
-          {folders.length === 0 ? (
+          {view === 'requirements' && (folders.length === 0 ? (
             <Card className="border-border-light">
               <CardContent className="py-8 sm:py-12 text-center px-4 sm:px-6">
                 <Folder className="h-8 w-8 sm:h-12 sm:w-12 mx-auto text-muted-foreground mb-3 sm:mb-4" />
@@ -723,7 +771,9 @@ const ProjectDetail = () => {
                   No folders yet
                 </h3>
                 <p className="text-sm sm:text-base text-muted-foreground">
-                  Create your first folder to start organizing your project requirements.
+                  {canEdit
+                    ? "Create your first folder to start organizing your project requirements."
+                    : "No requirements have been added to this project yet."}
                 </p>
               </CardContent>
             </Card>
@@ -772,25 +822,29 @@ const ProjectDetail = () => {
                             <CardTitle className="text-wrap text-base sm:text-lg lg:text-xl flex-1 min-w-0">
                               <span className="text-wrap break-words">{folder.name}</span>
                             </CardTitle>
-                            <Button
-                              size="sm"
-                              variant="ghost"
-                              onClick={() => startEditingFolder(folder)}
-                              className="text-gray-600 hover:text-gray-700 p-1"
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
+                            {canEdit && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => startEditingFolder(folder)}
+                                className="text-gray-600 hover:text-gray-700 p-1"
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                            )}
                           </>
                         )}
                       </div>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => setDeleteFolderId(folder.id)}
-                        className="text-red-600 hover:text-red-700 hover:bg-red-50 shrink-0"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                      {canEdit && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setDeleteFolderId(folder.id)}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50 shrink-0"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                     <CardDescription className="text-wrap text-sm">
                       {folder.inputs.length} input field{folder.inputs.length !== 1 ? 's' : ''}
@@ -845,6 +899,7 @@ const ProjectDetail = () => {
                                 placeholder={`Requirement ${index + 1}...`}
                                 value={input.content}
                                 onChange={(e) => updateInput(input.id, e.target.value)}
+                                readOnly={!canEdit}
                                 className="min-h-[60px] sm:min-h-[80px] w-full max-w-full resize-none border-input-border focus:border-ring text-wrap-anywhere text-sm sm:text-base"
                                 style={{
                                   wordWrap: 'break-word',
@@ -855,14 +910,16 @@ const ProjectDetail = () => {
                                   maxWidth: '100%'
                                 }}
                               />
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                onClick={() => startEditingInput(input)}
-                                className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity text-gray-600 hover:text-gray-700 p-1"
-                              >
-                                <Edit className="h-4 w-4" />
-                              </Button>
+                              {canEdit && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => startEditingInput(input)}
+                                  className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity text-gray-600 hover:text-gray-700 p-1"
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                              )}
                             </div>
                           )}
                         </div>
@@ -871,35 +928,40 @@ const ProjectDetail = () => {
                             inputId={input.id}
                             attachments={input.attachments}
                             onAttachmentsChange={(attachments) => handleAttachmentsChange(input.id, attachments)}
+                            readOnly={!canEdit}
                           />
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => removeInput(input.id, folder.id)}
-                            className="text-red-600 hover:text-red-700 hover:bg-red-50 w-full sm:w-auto flex-shrink-0 text-xs sm:text-sm"
-                          >
-                            <Trash2 className="h-3 w-3 sm:h-4 sm:w-4 mr-2 sm:mr-0" />
-                            <span className="sm:hidden">Remove</span>
-                          </Button>
+                          {canEdit && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => removeInput(input.id, folder.id)}
+                              className="text-red-600 hover:text-red-700 hover:bg-red-50 w-full sm:w-auto flex-shrink-0 text-xs sm:text-sm"
+                            >
+                              <Trash2 className="h-3 w-3 sm:h-4 sm:w-4 mr-2 sm:mr-0" />
+                              <span className="sm:hidden">Remove</span>
+                            </Button>
+                          )}
                         </div>
                       </div>
                     ))}
 
                     {/* Add Input Button */}
-                    <Button
-                      variant="outline"
-                      onClick={() => addInput(folder.id)}
-                      className="w-full border-dashed text-sm sm:text-base py-2 sm:py-3"
-                    >
-                      <Plus className="h-4 w-4 mr-2" />
-                      <span className="hidden xs:inline">Add Input Field</span>
-                      <span className="xs:hidden">Add Field</span>
-                    </Button>
+                    {canEdit && (
+                      <Button
+                        variant="outline"
+                        onClick={() => addInput(folder.id)}
+                        className="w-full border-dashed text-sm sm:text-base py-2 sm:py-3"
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        <span className="hidden xs:inline">Add Input Field</span>
+                        <span className="xs:hidden">Add Field</span>
+                      </Button>
+                    )}
                   </CardContent>
                 </Card>
               ))}
             </div>
-          )}
+          ))}
         </div>
       </div>
 
@@ -1,14 +1,18 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2, Phone, Lock, User, Building2, ArrowLeft, CheckCircle } from "lucide-react";
+import { Loader2, Lock, User, Building2, ArrowLeft, CheckCircle } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
-import { signUp, validatePhoneNumber, validatePassword } from "@/lib/auth";
+import { signUp, formatPhoneNumber, validatePhoneNumber, validatePassword, isRegistrationEnabled } from "@/lib/auth";
+import { CountryCode, DEFAULT_COUNTRY } from "@/lib/phone";
 import { useToast } from "@/hooks/use-toast";
+import PhoneNumberInput from "@/components/PhoneNumberInput";
+import PasswordPolicyPreview from "@/components/PasswordPolicyPreview";
+import { usePasswordPolicy } from "@/hooks/usePasswordPolicy";
 
 const Signup = () => {
   const [step, setStep] = useState(1); // 1: Basic info, 2: Profile completion
@@ -22,11 +26,18 @@ const Signup = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const [passwordErrors, setPasswordErrors] = useState<string[]>([]);
+  const [country, setCountry] = useState<CountryCode>(DEFAULT_COUNTRY);
+  const passwordPolicy = usePasswordPolicy();
+  const [registrationEnabled, setRegistrationEnabled] = useState<boolean | null>(null);
   
   const { login } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  useEffect(() => {
+    isRegistrationEnabled().then(setRegistrationEnabled);
+  }, []);
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
@@ -46,8 +57,8 @@ const Signup = () => {
       return false;
     }
     
-    if (!validatePhoneNumber(formData.phone_number)) {
-      setError("Please enter a valid Nigerian phone number");
+    if (!validatePhoneNumber(formData.phone_number, country)) {
+      setError("Please enter a valid mobile number for the selected country");
       return false;
     }
 
@@ -57,7 +68,7 @@ const Signup = () => {
       return false;
     }
 
-    const passwordValidation = validatePassword(formData.password);
+    const passwordValidation = validatePassword(formData.password, passwordPolicy);
     if (!passwordValidation.isValid) {
       setPasswordErrors(passwordValidation.errors);
       return false;
@@ -98,8 +109,9 @@ const Signup = () => {
       }
 
       // Attempt signup
+      const phoneNumber = formatPhoneNumber(formData.phone_number, country);
       const response = await signUp({
-        phone_number: formData.phone_number,
+        phone_number: phoneNumber,
         password: formData.password,
         full_name: formData.full_name,
         company_name: formData.company_name,
@@ -107,7 +119,10 @@ const Signup = () => {
 
       if (response.success && response.user) {
         // Login to context
-        await login(response.user);
+        await login(response.user, {
+          phone_number: phoneNumber,
+          password: formData.password,
+        });
         
         toast({
           title: "Account created successfully!",
@@ -127,6 +142,36 @@ const Signup = () => {
     }
   };
 
+  // Invitations are the only way in while registration is disabled
+  if (registrationEnabled === false) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md border-border-light shadow-lg">
+          <CardHeader className="space-y-1 text-center">
+            <CardTitle className="text-2xl font-bold text-foreground">
+              Registration Closed
+            </CardTitle>
+            <CardDescription className="text-muted-foreground">
+              New accounts are by invitation only. If you received an invitation, open the link in it to set your password.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Button asChild className="w-full">
+              <Link to="/login">Go to Sign In</Link>
+            </Button>
+            <Link
+              to="/"
+              className="flex items-center justify-center text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Home
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
       <div className="w-full max-w-md space-y-6">
@@ -200,19 +245,14 @@ const Signup = () => {
                   <Label htmlFor="phone_number" className="text-sm font-medium text-foreground">
                     Phone Number
                   </Label>
-                  <div className="relative">
-                    <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      id="phone_number"
-                      name="phone_number"
-                      type="tel"
-                      placeholder="+234 801 234 5678"
-                      value={formData.phone_number}
-                      onChange={handleInputChange}
-                      className="pl-10 border-input-border focus:border-ring"
-                      required
-                    />
-                  </div>
+                  <PhoneNumberInput
+                    id="phone_number"
+                    name="phone_number"
+                    value={formData.phone_number}
+                    onChange={handleInputChange}
+                    country={country}
+                    onCountryChange={setCountry}
+                  />
                   <p className="text-xs text-muted-foreground">
                     This will be your username for login
                   </p>
@@ -236,6 +276,7 @@ const Signup = () => {
                       required
                     />
                   </div>
+                  <PasswordPolicyPreview policy={passwordPolicy} password={formData.password} />
                 </div>
 
                 {/* Confirm Password Field */}
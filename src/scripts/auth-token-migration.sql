@@ -0,0 +1,27 @@
+-- Auth Token Migration Script
+-- Run this in your Supabase SQL Editor before deploying the `auth-token` Edge Function
+
+-- 1. Create auth_refresh_tokens table for server-issued refresh tokens
+CREATE TABLE IF NOT EXISTS auth_refresh_tokens (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL,
+  token_hash TEXT UNIQUE NOT NULL, -- SHA-256 of the token, the raw token is never stored
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 2. Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_auth_refresh_tokens_user ON auth_refresh_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_auth_refresh_tokens_session ON auth_refresh_tokens(session_id);
+
+-- 3. Enable RLS without policies so only the service role (the Edge Function) can touch it
+ALTER TABLE auth_refresh_tokens ENABLE ROW LEVEL SECURITY;
+
+-- 4. Deploy the token endpoint and set its signing secret (run from the project root):
+--   supabase secrets set JWT_SECRET=<JWT secret from Project Settings > API>
+--   supabase functions deploy auth-token
+--
+-- The previous JWT secret was shipped in the browser bundle, so rotate it in
+-- Project Settings > API before deploying.
@@ -0,0 +1,8 @@
+-- Client Inbox Migration Script
+-- Run this in your Supabase SQL Editor before deploying the client inbox page.
+
+-- 1. In-app path a notification opens, e.g. /inbox?message=<id> for a new message
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS link TEXT;
+
+-- 2. Create an index for each user's unread message count
+CREATE INDEX IF NOT EXISTS idx_messages_unread_by_receiver ON messages(receiver_id) WHERE is_read = false;
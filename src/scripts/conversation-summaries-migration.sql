@@ -0,0 +1,40 @@
+-- Conversation Summaries Migration Script
+-- Run this in your Supabase SQL Editor before deploying paginated message history.
+-- Requires message-edits-migration.sql (for messages.deleted_at).
+
+-- 1. Indexes for loading a conversation a page at a time, newest first
+CREATE INDEX IF NOT EXISTS idx_messages_sender_created ON messages(sender_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_receiver_created ON messages(receiver_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_unread_by_sender ON messages(sender_id) WHERE is_read = false;
+
+-- 2. One row per client with their latest message and how many of their messages are unread.
+-- security_invoker keeps the messages and users policies in force, so only staff with
+-- messages.read_all see every client.
+CREATE OR REPLACE VIEW conversation_summaries
+WITH (security_invoker = true) AS
+SELECT
+  client.id AS client_id,
+  client.full_name AS client_name,
+  client.company_name AS client_company,
+  last_message.id AS last_message_id,
+  last_message.content AS last_message_content,
+  last_message.sender_id AS last_message_sender_id,
+  last_message.created_at AS last_message_at,
+  last_message.deleted_at AS last_message_deleted_at,
+  (
+    SELECT COUNT(*)
+    FROM messages unread
+    WHERE unread.sender_id = client.id::uuid
+      AND unread.is_read = false
+  ) AS unread_count
+FROM users client
+JOIN LATERAL (
+  SELECT m.id, m.content, m.sender_id, m.created_at, m.deleted_at
+  FROM messages m
+  WHERE m.sender_id = client.id::uuid OR m.receiver_id = client.id::uuid
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT 1
+) last_message ON true
+WHERE client.is_admin IS NOT TRUE;
+
+GRANT SELECT ON conversation_summaries TO authenticated;
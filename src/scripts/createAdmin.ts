@@ -38,7 +38,8 @@ export const createAdminUser = async () => {
         password_hash: hashedPassword,
         full_name: adminData.full_name,
         company_name: adminData.company_name,
-        is_admin: true
+        is_admin: true,
+        role: 'admin'
       })
       .select()
       .single();
@@ -0,0 +1,106 @@
+-- Client Impersonation Migration Script
+-- Run this in your Supabase SQL Editor after rbac-migration.sql and before deploying the
+-- `impersonation` Edge Function
+
+-- 1. Create impersonation_sessions table (the id is the `impersonation_id` claim of the token)
+CREATE TABLE IF NOT EXISTS impersonation_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  admin_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  read_only BOOLEAN NOT NULL DEFAULT true,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_impersonation_sessions_admin_id ON impersonation_sessions(admin_id);
+CREATE INDEX IF NOT EXISTS idx_impersonation_sessions_client_id ON impersonation_sessions(client_id);
+
+-- Enable RLS without policies so only the service role (the Edge Function) can touch it
+ALTER TABLE impersonation_sessions ENABLE ROW LEVEL SECURITY;
+
+-- 2. Only admins may view as a client (keep in sync with src/lib/permissions.ts)
+INSERT INTO role_permissions (role, permission) VALUES
+  ('admin', 'users.impersonate')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- 3. Ordinary tokens pass; impersonation tokens need a live session, and a writable one to write
+CREATE OR REPLACE FUNCTION impersonation_allows(write_access BOOLEAN DEFAULT false)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN auth.jwt() ->> 'impersonation_id' IS NULL THEN true
+    ELSE EXISTS (
+      SELECT 1
+      FROM impersonation_sessions
+      WHERE id = (auth.jwt() ->> 'impersonation_id')::uuid
+        AND ended_at IS NULL
+        AND expires_at > NOW()
+        AND (NOT write_access OR read_only = false)
+    )
+  END;
+$$;
+
+-- 4. Restrictive policies are ANDed with every other policy on the table
+DO $$
+DECLARE
+  target TEXT;
+BEGIN
+  FOREACH target IN ARRAY ARRAY[
+    'users', 'projects', 'folders', 'folder_inputs', 'input_attachments',
+    'messages', 'notifications', 'deliverables', 'file_uploads',
+    'organizations', 'collaborations'
+  ] LOOP
+    -- Skip tables this installation does not have yet
+    CONTINUE WHEN to_regclass(target) IS NULL;
+
+    EXECUTE format('DROP POLICY IF EXISTS "Impersonation can read" ON %I', target);
+    EXECUTE format('CREATE POLICY "Impersonation can read" ON %I AS RESTRICTIVE FOR SELECT USING (impersonation_allows(false))', target);
+
+    EXECUTE format('DROP POLICY IF EXISTS "Impersonation can insert" ON %I', target);
+    EXECUTE format('CREATE POLICY "Impersonation can insert" ON %I AS RESTRICTIVE FOR INSERT WITH CHECK (impersonation_allows(true))', target);
+
+    EXECUTE format('DROP POLICY IF EXISTS "Impersonation can update" ON %I', target);
+    EXECUTE format('CREATE POLICY "Impersonation can update" ON %I AS RESTRICTIVE FOR UPDATE USING (impersonation_allows(true))', target);
+
+    EXECUTE format('DROP POLICY IF EXISTS "Impersonation can delete" ON %I', target);
+    EXECUTE format('CREATE POLICY "Impersonation can delete" ON %I AS RESTRICTIVE FOR DELETE USING (impersonation_allows(true))', target);
+  END LOOP;
+END $$;
+
+-- 5. Audit trail of every start, stop and page viewed, written by the Edge Function
+CREATE TABLE IF NOT EXISTS impersonation_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  impersonation_id UUID NOT NULL REFERENCES impersonation_sessions(id) ON DELETE CASCADE,
+  admin_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event TEXT NOT NULL CHECK (event IN ('started', 'stopped', 'action')),
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_impersonation_events_session ON impersonation_events(impersonation_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_impersonation_events_admin_id ON impersonation_events(admin_id, created_at DESC);
+
+-- Only the service role writes; staff who manage security can read the log
+ALTER TABLE impersonation_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Security staff can view impersonation events" ON impersonation_events;
+CREATE POLICY "Security staff can view impersonation events" ON impersonation_events
+  FOR SELECT USING (has_permission('security.manage'));
+
+-- 6. Deploy (run from the project root):
+--   supabase functions deploy impersonation
+--   supabase functions deploy auth-token
+--   supabase functions deploy organizations
+--
+-- The account-level functions (sessions, password-reset, two-factor, invitations) reject
+-- impersonation tokens, so redeploy them too:
+--   supabase functions deploy sessions
+--   supabase functions deploy password-reset
+--   supabase functions deploy two-factor
+--   supabase functions deploy invitations
@@ -0,0 +1,62 @@
+-- User Invitations Migration Script
+-- Run this in your Supabase SQL Editor before deploying the `invitations` Edge Function
+
+-- 1. Create user_invitations table (the id is the `jti` of the signed invitation link)
+CREATE TABLE IF NOT EXISTS user_invitations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES projects(id) ON DELETE SET NULL, -- handed to the invitee on accept
+  invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE, -- set when a newer link is issued for the same user
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- 2. Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_user_invitations_open ON user_invitations(user_id) WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+-- 3. Enable RLS without policies so only the service role (the Edge Function) can touch it
+ALTER TABLE user_invitations ENABLE ROW LEVEL SECURITY;
+
+-- 4. Signup checks `registration_enabled` while signed out, so it must stay public
+UPDATE system_settings SET is_public = true WHERE setting_key = 'registration_enabled';
+
+-- 5. Enforce the registration setting on the server, so accounts cannot be created by calling the
+-- API directly while registration is closed. Staff with users.manage and the Edge Functions (which
+-- create invitees) may always add accounts. A missing or unreadable setting counts as closed.
+CREATE OR REPLACE FUNCTION enforce_registration_setting()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' OR has_permission('users.manage') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM system_settings
+    WHERE setting_key = 'registration_enabled'
+      AND setting_value = 'true'
+  ) THEN
+    RAISE EXCEPTION 'Registration is currently by invitation only';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_registration_setting ON users;
+CREATE TRIGGER enforce_registration_setting
+  BEFORE INSERT ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_registration_setting();
+
+-- 6. Deploy (run from the project root):
+--   supabase functions deploy invitations
+--
+-- Set APP_URL (e.g. https://app.muahibsolution.com) so links sent by SMS point at the right host:
+--   supabase secrets set APP_URL=https://...
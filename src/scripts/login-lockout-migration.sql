@@ -0,0 +1,33 @@
+-- Login Lockout Migration Script
+-- Run this in your Supabase SQL Editor before deploying the `auth-token` Edge Function.
+-- Failed attempts are counted by the token endpoint, so guesses sent straight to it are limited too.
+
+-- 1. Count a failed password or two-factor code in one statement, so parallel guesses cannot
+-- overwrite each other's count, and lock the account once it reaches the limit
+CREATE OR REPLACE FUNCTION record_failed_login(
+  p_user_id UUID,
+  p_max_attempts INTEGER,
+  p_lock_minutes INTEGER
+)
+RETURNS TABLE (attempts INTEGER, locked_until TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE users
+  SET login_attempts = COALESCE(users.login_attempts, 0) + 1,
+      locked_until = CASE
+        WHEN COALESCE(users.login_attempts, 0) + 1 >= p_max_attempts
+          THEN NOW() + make_interval(mins => p_lock_minutes)
+        ELSE users.locked_until
+      END
+  WHERE users.id::text = p_user_id::text
+  RETURNING users.login_attempts, users.locked_until;
+$$;
+
+-- 2. Only the service role (the Edge Function) may record failures
+REVOKE ALL ON FUNCTION record_failed_login(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_failed_login(UUID, INTEGER, INTEGER) TO service_role;
+
+-- 3. Deploy (run from the project root):
+--   supabase functions deploy auth-token
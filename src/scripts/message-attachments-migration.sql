@@ -0,0 +1,139 @@
+-- Message Attachments Migration Script
+-- Run this in your Supabase SQL Editor before deploying attachments in direct messages.
+-- Files live in the private `message-attachments` storage bucket under <sender id>/; files sent before
+-- that bucket existed stay in `deliverables` under message-attachments/<sender id>/.
+
+-- 1. Create message_attachments table
+CREATE TABLE IF NOT EXISTS message_attachments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  uploaded_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  file_size BIGINT NOT NULL,
+  file_type TEXT NOT NULL,
+  -- Set when staff copy the file into a project as an input or a deliverable
+  promoted_input_id UUID REFERENCES folder_inputs(id) ON DELETE SET NULL,
+  promoted_deliverable_id UUID REFERENCES deliverables(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- 2. Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_message_attachments_message ON message_attachments(message_id);
+
+-- 3. Row level security: participants and staff can read; senders attach to their own messages;
+-- only staff record promotions
+ALTER TABLE message_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view message attachments" ON message_attachments;
+CREATE POLICY "Participants can view message attachments" ON message_attachments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM messages
+      WHERE messages.id = message_attachments.message_id
+        AND (messages.sender_id = auth.uid() OR messages.receiver_id = auth.uid())
+    )
+    OR EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.is_admin = true)
+  );
+
+DROP POLICY IF EXISTS "Senders can attach files to their messages" ON message_attachments;
+CREATE POLICY "Senders can attach files to their messages" ON message_attachments
+  FOR INSERT WITH CHECK (
+    uploaded_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM messages
+      WHERE messages.id = message_attachments.message_id
+        AND messages.sender_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Staff can record attachment promotions" ON message_attachments;
+CREATE POLICY "Staff can record attachment promotions" ON message_attachments
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.is_admin = true)
+  );
+
+-- 4. Keep read-only "view as client" sessions read-only (see impersonation-migration.sql)
+DO $$
+BEGIN
+  IF to_regprocedure('impersonation_allows(boolean)') IS NOT NULL THEN
+    DROP POLICY IF EXISTS "Impersonation can read" ON message_attachments;
+    DROP POLICY IF EXISTS "Impersonation can insert" ON message_attachments;
+    DROP POLICY IF EXISTS "Impersonation can update" ON message_attachments;
+    DROP POLICY IF EXISTS "Impersonation can delete" ON message_attachments;
+    CREATE POLICY "Impersonation can read" ON message_attachments AS RESTRICTIVE FOR SELECT USING (impersonation_allows(false));
+    CREATE POLICY "Impersonation can insert" ON message_attachments AS RESTRICTIVE FOR INSERT WITH CHECK (impersonation_allows(true));
+    CREATE POLICY "Impersonation can update" ON message_attachments AS RESTRICTIVE FOR UPDATE USING (impersonation_allows(true));
+    CREATE POLICY "Impersonation can delete" ON message_attachments AS RESTRICTIVE FOR DELETE USING (impersonation_allows(true));
+  END IF;
+END $$;
+
+-- 5. Private bucket for the files. Its policies follow the message_attachments rows above: a file can
+-- be read by the people in its message and by staff while its row exists, and senders upload into
+-- their own folder.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('message-attachments', 'message-attachments', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+DROP POLICY IF EXISTS "Participants can read message attachment files" ON storage.objects;
+CREATE POLICY "Participants can read message attachment files" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'message-attachments'
+    AND EXISTS (
+      SELECT 1 FROM message_attachments
+      JOIN messages ON messages.id = message_attachments.message_id
+      WHERE message_attachments.file_path = storage.objects.name
+        AND (
+          messages.sender_id = auth.uid()
+          OR messages.receiver_id = auth.uid()
+          OR EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.is_admin = true)
+        )
+    )
+  );
+
+DROP POLICY IF EXISTS "Senders can upload message attachment files" ON storage.objects;
+CREATE POLICY "Senders can upload message attachment files" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'message-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Senders clear out the uploads from a send that failed or a message they deleted
+DROP POLICY IF EXISTS "Senders can remove message attachment files" ON storage.objects;
+CREATE POLICY "Senders can remove message attachment files" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'message-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- 6. Send a message and record its attachments in one transaction, so a failed attachment insert
+-- never leaves the message behind. Runs as the caller, so the insert policies on both tables apply.
+CREATE OR REPLACE FUNCTION send_message_with_attachments(
+  target_receiver_id UUID,
+  message_content TEXT,
+  message_project_id UUID,
+  attachments JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  new_message_id UUID;
+BEGIN
+  INSERT INTO messages (sender_id, receiver_id, content, project_id, is_read)
+  VALUES (auth.uid(), target_receiver_id, BTRIM(COALESCE(message_content, '')), message_project_id, false)
+  RETURNING id INTO new_message_id;
+
+  INSERT INTO message_attachments (message_id, uploaded_by, file_name, file_path, file_size, file_type)
+  SELECT new_message_id, auth.uid(), file.file_name, file.file_path, file.file_size, file.file_type
+  FROM jsonb_to_recordset(COALESCE(attachments, '[]'::jsonb))
+    AS file(file_name TEXT, file_path TEXT, file_size BIGINT, file_type TEXT);
+
+  RETURN new_message_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION send_message_with_attachments(UUID, TEXT, UUID, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION send_message_with_attachments(UUID, TEXT, UUID, JSONB) TO authenticated;
@@ -0,0 +1,111 @@
+-- Message Edits Migration Script
+-- Run this in your Supabase SQL Editor before deploying message editing and deletion.
+-- Requires rbac-migration.sql (for has_permission) and message-attachments-migration.sql.
+
+-- 1. Track edits and soft deletes on messages
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- 2. Keep the text a message had before each edit or delete; only staff can read it
+CREATE TABLE IF NOT EXISTS message_revisions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('edit', 'delete')),
+  previous_content TEXT NOT NULL,
+  revised_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_revisions_message ON message_revisions(message_id, created_at);
+
+ALTER TABLE message_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view message revisions" ON message_revisions;
+CREATE POLICY "Staff can view message revisions" ON message_revisions
+  FOR SELECT USING (has_permission('messages.read_all'));
+
+-- 3. How long after sending a message can still be edited, set in Admin > Settings > General.
+-- Public so clients can tell which of their messages are still editable.
+INSERT INTO system_settings (setting_key, setting_value, setting_type, category, description, is_public)
+VALUES ('message_edit_window_minutes', '15', 'number', 'general', 'Minutes after sending during which a message can be edited', true)
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- 4. Senders edit and delete through these functions, which record the revision in the same
+-- transaction. Staff viewing the portal as a client cannot change the client's messages.
+CREATE OR REPLACE FUNCTION edit_message(target_message_id UUID, new_content TEXT)
+RETURNS TABLE (id UUID, content TEXT, edited_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target messages%ROWTYPE;
+  window_minutes INTEGER;
+BEGIN
+  IF (auth.jwt() ->> 'impersonator_id') IS NOT NULL THEN
+    RAISE EXCEPTION 'Messages cannot be edited while viewing as a client' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(BTRIM(new_content), '') = '' THEN
+    RAISE EXCEPTION 'Message cannot be empty' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO target FROM messages WHERE messages.id = target_message_id FOR UPDATE;
+  IF NOT FOUND OR target.sender_id::text <> auth.uid()::text OR target.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Message not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT CASE WHEN setting_value ~ '^\d+$' THEN setting_value::INTEGER END INTO window_minutes
+  FROM system_settings WHERE setting_key = 'message_edit_window_minutes';
+  IF target.created_at < NOW() - make_interval(mins => COALESCE(window_minutes, 15)) THEN
+    RAISE EXCEPTION 'The edit window for this message has passed' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO message_revisions (message_id, action, previous_content, revised_by)
+  VALUES (target.id, 'edit', target.content, auth.uid());
+
+  RETURN QUERY
+  UPDATE messages
+  SET content = BTRIM(new_content), edited_at = NOW()
+  WHERE messages.id = target.id
+  RETURNING messages.id, messages.content, messages.edited_at;
+END;
+$$;
+
+-- Deleting blanks the text for both parties and drops its attachments, so their files can no
+-- longer be read; the original text stays in message_revisions
+CREATE OR REPLACE FUNCTION delete_message(target_message_id UUID)
+RETURNS TABLE (id UUID, deleted_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target messages%ROWTYPE;
+BEGIN
+  IF (auth.jwt() ->> 'impersonator_id') IS NOT NULL THEN
+    RAISE EXCEPTION 'Messages cannot be deleted while viewing as a client' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO target FROM messages WHERE messages.id = target_message_id FOR UPDATE;
+  IF NOT FOUND OR target.sender_id::text <> auth.uid()::text OR target.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Message not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO message_revisions (message_id, action, previous_content, revised_by)
+  VALUES (target.id, 'delete', target.content, auth.uid());
+
+  DELETE FROM message_attachments WHERE message_attachments.message_id = target.id;
+
+  RETURN QUERY
+  UPDATE messages
+  SET content = '', deleted_at = NOW()
+  WHERE messages.id = target.id
+  RETURNING messages.id, messages.deleted_at;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION edit_message(UUID, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION delete_message(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION edit_message(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_message(UUID) TO authenticated;
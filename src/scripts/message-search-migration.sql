@@ -0,0 +1,71 @@
+-- Message Search Migration Script
+-- Run this in your Supabase SQL Editor before deploying message search on the admin Messages page.
+-- Requires rbac-migration.sql (for has_permission) and project-threads-migration.sql (for messages.project_id).
+
+-- 1. Index the content for search. An expression index keeps the vector out of every message row
+-- that clients fetch; queries must use the same to_tsvector('english', ...) expression to hit it.
+CREATE INDEX IF NOT EXISTS idx_messages_content_search ON messages USING GIN (to_tsvector('english', content));
+
+-- 2. Search across every conversation (staff with messages.read_all only).
+-- Matches are wrapped in [[ ]] in the headline; the client is whichever participant is not staff.
+CREATE OR REPLACE FUNCTION search_messages(
+  search_query TEXT,
+  filter_client_id UUID DEFAULT NULL,
+  filter_project_id UUID DEFAULT NULL,
+  from_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  to_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  result_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  client_id UUID,
+  client_name TEXT,
+  sender_id UUID,
+  sender_is_admin BOOLEAN,
+  project_id UUID,
+  project_name TEXT,
+  content TEXT,
+  headline TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  ts_query TSQUERY := websearch_to_tsquery('english', search_query);
+BEGIN
+  IF NOT has_permission('messages.read_all') THEN
+    RAISE EXCEPTION 'Not allowed to search messages' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    client.id::uuid,
+    client.full_name::text,
+    m.sender_id,
+    COALESCE(sender.is_admin, false),
+    m.project_id,
+    p.name::text,
+    m.content,
+    ts_headline('english', m.content, ts_query, 'StartSel=[[, StopSel=]], MaxFragments=2, MaxWords=20, MinWords=5'),
+    m.created_at,
+    ts_rank(to_tsvector('english', m.content), ts_query)
+  FROM messages m
+  JOIN users sender ON sender.id::text = m.sender_id::text
+  JOIN users client ON client.id::text = (CASE WHEN sender.is_admin THEN m.receiver_id ELSE m.sender_id END)::text
+  LEFT JOIN projects p ON p.id = m.project_id
+  WHERE to_tsvector('english', m.content) @@ ts_query
+    AND (filter_client_id IS NULL OR client.id::text = filter_client_id::text)
+    AND (filter_project_id IS NULL OR m.project_id = filter_project_id)
+    AND (from_date IS NULL OR m.created_at >= from_date)
+    AND (to_date IS NULL OR m.created_at < to_date)
+  ORDER BY ts_rank(to_tsvector('english', m.content), ts_query) DESC, m.created_at DESC
+  LIMIT LEAST(GREATEST(result_limit, 1), 200);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_messages(TEXT, UUID, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER) TO authenticated;
@@ -0,0 +1,202 @@
+-- Client Organizations Migration Script
+-- Run this in your Supabase SQL Editor before deploying the `organizations` Edge Function.
+-- Keep the role ranks in step 4 in sync with organizationRoleAllows() in src/lib/permissions.ts
+-- approve_deliverable() in step 7 needs impersonation-migration.sql (for impersonation_allows).
+
+-- 1. Create organizations table (one per client company, owned by the account that created it)
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- 2. Turn collaborations into organization memberships
+ALTER TABLE collaborations ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE collaborations ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE CASCADE;
+ALTER TABLE collaborations ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'viewer';
+ALTER TABLE collaborations ADD COLUMN IF NOT EXISTS requested_phone TEXT;
+ALTER TABLE collaborations ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+ALTER TABLE collaborations DROP CONSTRAINT IF EXISTS collaborations_role_check;
+ALTER TABLE collaborations ADD CONSTRAINT collaborations_role_check
+  CHECK (role IN ('owner', 'approver', 'editor', 'viewer'));
+
+ALTER TABLE collaborations DROP CONSTRAINT IF EXISTS collaborations_organization_user_key;
+ALTER TABLE collaborations ADD CONSTRAINT collaborations_organization_user_key UNIQUE (organization_id, user_id);
+
+-- status: 'pending' until an invited colleague sets their password, then 'active'; 'removed' keeps history
+CREATE INDEX IF NOT EXISTS idx_collaborations_active_user ON collaborations(user_id) WHERE status = 'active';
+
+-- 3. Projects shared with an organization
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_organization_id ON projects(organization_id);
+
+-- 4. Project access check used by RLS policies. The project's own user always has full access;
+-- colleagues need an active membership whose role reaches the requested level:
+--   view: viewer and up, edit: editor and up, approve: approver and owner
+CREATE OR REPLACE FUNCTION can_access_project(target_project_id UUID, required_level TEXT DEFAULT 'view')
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM projects
+    WHERE projects.id = target_project_id
+      AND (
+        projects.user_id = auth.uid()::text
+        OR EXISTS (
+          SELECT 1
+          FROM collaborations
+          WHERE collaborations.organization_id = projects.organization_id
+            AND collaborations.user_id = auth.uid()
+            AND collaborations.status = 'active'
+            AND CASE collaborations.role
+                  WHEN 'owner' THEN 4
+                  WHEN 'approver' THEN 3
+                  WHEN 'editor' THEN 2
+                  ELSE 1
+                END >= CASE required_level
+                  WHEN 'approve' THEN 3
+                  WHEN 'edit' THEN 2
+                  ELSE 1
+                END
+        )
+      )
+  );
+$$;
+
+-- 5. Resolve client access to projects and their contents through the organization
+DROP POLICY IF EXISTS "Users can view their own projects" ON projects;
+CREATE POLICY "Users can view their own projects" ON projects
+  FOR SELECT USING (can_access_project(id, 'view'));
+
+DROP POLICY IF EXISTS "Users can update their own projects" ON projects;
+CREATE POLICY "Users can update their own projects" ON projects
+  FOR UPDATE USING (can_access_project(id, 'edit'));
+
+DROP POLICY IF EXISTS "Users can access folders in their projects" ON folders;
+CREATE POLICY "Users can access folders in their projects" ON folders
+  FOR SELECT USING (can_access_project(project_id, 'view'));
+
+DROP POLICY IF EXISTS "Users can edit folders in their projects" ON folders;
+CREATE POLICY "Users can edit folders in their projects" ON folders
+  FOR ALL USING (can_access_project(project_id, 'edit'));
+
+DROP POLICY IF EXISTS "Users can access inputs in their folders" ON folder_inputs;
+CREATE POLICY "Users can access inputs in their folders" ON folder_inputs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM folders
+      WHERE folders.id = folder_inputs.folder_id
+      AND can_access_project(folders.project_id, 'view')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can edit inputs in their folders" ON folder_inputs;
+CREATE POLICY "Users can edit inputs in their folders" ON folder_inputs
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM folders
+      WHERE folders.id = folder_inputs.folder_id
+      AND can_access_project(folders.project_id, 'edit')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view deliverables for their projects" ON deliverables;
+CREATE POLICY "Users can view deliverables for their projects" ON deliverables
+  FOR SELECT USING (can_access_project(project_id, 'view'));
+
+DROP POLICY IF EXISTS "Users can view files for their projects" ON file_uploads;
+CREATE POLICY "Users can view files for their projects" ON file_uploads
+  FOR SELECT USING (can_access_project(project_id, 'view'));
+
+-- 6. Members can see their organization and team; all changes go through the Edge Function.
+-- current_organization_id() is SECURITY DEFINER so the collaborations policy does not recurse
+CREATE OR REPLACE FUNCTION current_organization_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id
+  FROM collaborations
+  WHERE user_id = auth.uid()
+    AND status = 'active'
+  LIMIT 1;
+$$;
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collaborations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their organization" ON organizations;
+CREATE POLICY "Members can view their organization" ON organizations
+  FOR SELECT USING (id = current_organization_id());
+
+DROP POLICY IF EXISTS "Members can view their team" ON collaborations;
+CREATE POLICY "Members can view their team" ON collaborations
+  FOR SELECT USING (organization_id = current_organization_id());
+
+DROP POLICY IF EXISTS "Staff can view all organizations" ON organizations;
+CREATE POLICY "Staff can view all organizations" ON organizations
+  FOR SELECT USING (has_permission('projects.read_all'));
+
+DROP POLICY IF EXISTS "Staff can view all collaborations" ON collaborations;
+CREATE POLICY "Staff can view all collaborations" ON collaborations
+  FOR SELECT USING (has_permission('projects.read_all'));
+
+-- 7. Deliverable sign-off. Clients only read deliverables, so approvers record theirs through
+-- approve_deliverable(), which checks the approve level on the deliverable's project
+ALTER TABLE deliverables ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE deliverables ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION approve_deliverable(target_deliverable_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_project_id UUID;
+  target_is_sent BOOLEAN;
+  result TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- SECURITY DEFINER skips the restrictive impersonation policies, so check them here
+  IF (auth.jwt() ->> 'impersonator_id') IS NOT NULL AND NOT impersonation_allows(true) THEN
+    RAISE EXCEPTION 'Deliverables cannot be approved in a read-only view as a client' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT project_id, is_sent INTO target_project_id, target_is_sent
+  FROM deliverables
+  WHERE id = target_deliverable_id;
+
+  IF target_project_id IS NULL OR NOT can_access_project(target_project_id, 'approve') THEN
+    RAISE EXCEPTION 'You do not have permission to approve this deliverable';
+  END IF;
+
+  IF NOT COALESCE(target_is_sent, false) THEN
+    RAISE EXCEPTION 'Only delivered items can be approved';
+  END IF;
+
+  UPDATE deliverables
+  SET approved_at = COALESCE(approved_at, NOW()),
+      approved_by = COALESCE(approved_by, auth.uid())
+  WHERE id = target_deliverable_id
+  RETURNING approved_at INTO result;
+
+  RETURN result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION approve_deliverable(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION approve_deliverable(UUID) TO authenticated;
+
+-- 8. Deploy (run from the project root):
+--   supabase functions deploy organizations
+--   supabase functions deploy invitations
@@ -0,0 +1,22 @@
+-- Password Policy Migration Script
+-- Run this in your Supabase SQL Editor before redeploying the `password-reset` Edge Function
+
+-- 1. Track when each password was last changed (existing accounts start their clock today)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- 2. Seed the password policy edited in Admin > Security > Settings
+INSERT INTO system_settings (setting_key, setting_value, setting_type, category, description, is_public)
+VALUES
+  ('security_password_min_length', '8', 'number', 'security', 'Minimum password length', true),
+  ('security_password_require_uppercase', 'true', 'boolean', 'security', 'Passwords must contain an uppercase letter', true),
+  ('security_password_require_lowercase', 'true', 'boolean', 'security', 'Passwords must contain a lowercase letter', true),
+  ('security_password_require_numbers', 'true', 'boolean', 'security', 'Passwords must contain a number', true),
+  ('security_password_require_symbols', 'false', 'boolean', 'security', 'Passwords must contain a symbol', true),
+  ('security_password_max_age_days', '90', 'number', 'security', 'Days before a password must be changed (0 disables expiry)', true)
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- 3. Signup and password reset run signed out, so the policy must be readable by everyone
+UPDATE system_settings SET is_public = true WHERE setting_key LIKE 'security_password_%';
+
+-- 4. Deploy (run from the project root):
+--   supabase functions deploy password-reset
@@ -0,0 +1,49 @@
+-- Password Reset Migration Script
+-- Run this in your Supabase SQL Editor before deploying the `password-reset` Edge Function
+
+-- 1. Create password_reset_codes table for one-time reset codes
+CREATE TABLE IF NOT EXISTS password_reset_codes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL, -- bcrypt hash, the raw code is only ever sent to the user
+  channel TEXT DEFAULT 'sms' CHECK (channel IN ('sms', 'whatsapp')),
+  attempts INTEGER DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  consumed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 2. Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_password_reset_codes_user ON password_reset_codes(user_id, created_at DESC);
+
+-- 3. Enable RLS without policies so only the service role (the Edge Function) can touch it
+ALTER TABLE password_reset_codes ENABLE ROW LEVEL SECURITY;
+
+-- 4. Take one verification attempt for a code, in a single statement so parallel guesses cannot
+-- share an attempt. Returns false once the code has no attempts left or has been used.
+CREATE OR REPLACE FUNCTION use_password_reset_attempt(p_code_id UUID, p_max_attempts INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE password_reset_codes
+  SET attempts = COALESCE(attempts, 0) + 1
+  WHERE id = p_code_id
+    AND consumed_at IS NULL
+    AND COALESCE(attempts, 0) < p_max_attempts;
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION use_password_reset_attempt(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION use_password_reset_attempt(UUID, INTEGER) TO service_role;
+
+-- 5. Configure the message transport and deploy (run from the project root). Reset requests are
+-- refused until a transport is set:
+--   supabase secrets set MESSAGE_TRANSPORT=twilio   # 'console' or 'file' for local development only
+--   supabase secrets set TWILIO_ACCOUNT_SID=... TWILIO_AUTH_TOKEN=...
+--   supabase secrets set TWILIO_SMS_FROM=+1... TWILIO_WHATSAPP_FROM=+1...
+--   supabase functions deploy password-reset
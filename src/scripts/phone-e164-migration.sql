@@ -0,0 +1,70 @@
+-- Phone Number E.164 Migration Script
+-- Run this in your Supabase SQL Editor to re-normalize existing users.phone_number values.
+-- Numbers without a country code are treated as Nigerian (+234), matching the old signup behaviour.
+
+-- 1. Keep a copy of the original values so the migration can be audited or reverted
+CREATE TABLE IF NOT EXISTS users_phone_number_backup (
+  user_id UUID PRIMARY KEY,
+  phone_number TEXT NOT NULL,
+  backed_up_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO users_phone_number_backup (user_id, phone_number)
+SELECT id, phone_number FROM users
+ON CONFLICT (user_id) DO NOTHING;
+
+-- 2. Create the normalization function (mirrors normalizePhoneNumber in src/lib/phone.ts)
+CREATE OR REPLACE FUNCTION normalize_phone_e164(phone TEXT, default_dial_code TEXT DEFAULT '234')
+RETURNS TEXT AS $$
+DECLARE
+  trimmed TEXT := btrim(phone);
+  digits TEXT := regexp_replace(phone, '\D', '', 'g');
+BEGIN
+  IF digits = '' THEN
+    RETURN phone;
+  END IF;
+
+  -- Already international
+  IF trimmed LIKE '+%' THEN
+    RETURN '+' || digits;
+  END IF;
+
+  IF trimmed LIKE '00%' THEN
+    RETURN '+' || substr(digits, 3);
+  END IF;
+
+  -- Country code without the +, e.g. 2348012345678
+  IF digits LIKE default_dial_code || '%' AND length(digits) = length(default_dial_code) + 10 THEN
+    RETURN '+' || digits;
+  END IF;
+
+  -- National number with trunk prefix, e.g. 08012345678
+  IF digits LIKE '0%' THEN
+    RETURN '+' || default_dial_code || substr(digits, 2);
+  END IF;
+
+  RETURN '+' || default_dial_code || digits;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 3. Re-normalize, skipping rows whose normalized number already belongs to another account
+UPDATE users u
+SET phone_number = normalize_phone_e164(u.phone_number),
+    updated_at = NOW()
+WHERE u.phone_number IS DISTINCT FROM normalize_phone_e164(u.phone_number)
+  AND NOT EXISTS (
+    SELECT 1 FROM users other
+    WHERE other.id <> u.id
+      AND other.phone_number = normalize_phone_e164(u.phone_number)
+  );
+
+-- 4. Reject non-E.164 values from now on (NOT VALID leaves any rows skipped above untouched)
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_phone_number_e164;
+ALTER TABLE users ADD CONSTRAINT users_phone_number_e164
+  CHECK (phone_number ~ '^\+[1-9][0-9]{6,14}$') NOT VALID;
+
+-- 5. Review accounts that still need manual attention (duplicates or malformed numbers)
+SELECT id, full_name, phone_number, normalize_phone_e164(phone_number) AS normalized
+FROM users
+WHERE phone_number !~ '^\+[1-9][0-9]{6,14}$'
+ORDER BY created_at;
@@ -0,0 +1,61 @@
+-- Presence Migration Script
+-- Run this in your Supabase SQL Editor before deploying the presence indicators in messaging.
+-- Online/away state travels over private Supabase Realtime presence channels; only "last seen" is stored.
+-- After running it, turn off "Allow public access" under Realtime settings so only the policies in step 3 apply.
+
+-- 1. Add the last-seen timestamp to users
+ALTER TABLE users ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP WITH TIME ZONE;
+
+-- 2. Let signed-in users stamp their own last-seen time without general UPDATE rights on users.
+-- Staff viewing the portal as a client must not make the client look active.
+CREATE OR REPLACE FUNCTION touch_last_seen()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE users
+  SET last_seen_at = NOW()
+  WHERE id::text = auth.uid()::text
+    AND (auth.jwt() ->> 'impersonator_id') IS NULL;
+$$;
+
+REVOKE ALL ON FUNCTION touch_last_seen() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION touch_last_seen() TO authenticated;
+
+-- 3. Authorize the private Realtime channels used for presence and typing.
+-- presence:staff carries staff presence and every signed-in user may watch it; presence:client:<id>
+-- and typing:<id> belong to one client and are open only to that client and to staff.
+DROP POLICY IF EXISTS "Users can receive their presence and typing channels" ON realtime.messages;
+CREATE POLICY "Users can receive their presence and typing channels" ON realtime.messages
+  FOR SELECT TO authenticated
+  USING (
+    realtime.topic() = 'presence:staff'
+    OR realtime.topic() = 'presence:client:' || auth.uid()::text
+    OR realtime.topic() = 'typing:' || auth.uid()::text
+    OR (
+      (realtime.topic() LIKE 'presence:client:%' OR realtime.topic() LIKE 'typing:%')
+      AND EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.is_admin = true)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can share their presence and typing" ON realtime.messages;
+CREATE POLICY "Users can share their presence and typing" ON realtime.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    (
+      realtime.messages.extension = 'presence'
+      AND realtime.topic() = 'presence:client:' || auth.uid()::text
+    )
+    OR (
+      realtime.messages.extension = 'broadcast'
+      AND realtime.topic() = 'typing:' || auth.uid()::text
+    )
+    OR (
+      EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.is_admin = true)
+      AND (
+        (realtime.messages.extension = 'presence' AND realtime.topic() = 'presence:staff')
+        OR (realtime.messages.extension = 'broadcast' AND realtime.topic() LIKE 'typing:%')
+      )
+    )
+  );
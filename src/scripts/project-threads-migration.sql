@@ -0,0 +1,18 @@
+-- Project Threads Migration Script
+-- Run this in your Supabase SQL Editor before deploying per-project conversation threads.
+-- Requires organizations-migration.sql (for can_access_project).
+
+-- 1. Tie messages to a project; NULL keeps a message in the client's general thread
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES projects(id) ON DELETE SET NULL;
+
+-- 2. Create indexes for thread views and per-project unread counts
+CREATE INDEX IF NOT EXISTS idx_messages_project_id ON messages(project_id);
+CREATE INDEX IF NOT EXISTS idx_messages_unread_by_project ON messages(receiver_id, project_id) WHERE is_read = false;
+
+-- 3. Clients may only file messages under projects they can see (staff keep their own insert policy)
+DROP POLICY IF EXISTS "Users can send messages" ON messages;
+CREATE POLICY "Users can send messages" ON messages
+  FOR INSERT WITH CHECK (
+    sender_id = auth.uid()
+    AND (project_id IS NULL OR can_access_project(project_id))
+  );
@@ -0,0 +1,167 @@
+-- Role-Based Access Control Migration Script
+-- Run this in your Supabase SQL Editor. Keep the matrix in step 3 in sync with src/lib/permissions.ts
+
+-- 1. Add a role to every user, backfilled from is_admin
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'client';
+
+UPDATE users SET role = 'admin' WHERE is_admin = true AND role = 'client';
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ADD CONSTRAINT users_role_check CHECK (role IN ('admin', 'manager', 'client'));
+
+-- 2. Keep is_admin meaning "staff" (admin or manager) for code that still reads it
+CREATE OR REPLACE FUNCTION sync_users_is_admin()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.is_admin := NEW.role IN ('admin', 'manager');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS users_sync_is_admin ON users;
+CREATE TRIGGER users_sync_is_admin
+  BEFORE INSERT OR UPDATE OF role ON users
+  FOR EACH ROW EXECUTE FUNCTION sync_users_is_admin();
+
+-- 3. Create the permission matrix
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role TEXT NOT NULL CHECK (role IN ('admin', 'manager', 'client')),
+  permission TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('admin', 'admin.access'),
+  ('admin', 'projects.read_all'),
+  ('admin', 'projects.manage'),
+  ('admin', 'deliverables.send'),
+  ('admin', 'messages.read_all'),
+  ('admin', 'broadcasts.send'),
+  ('admin', 'users.manage'),
+  ('admin', 'settings.edit'),
+  ('admin', 'security.manage'),
+  ('admin', 'storage.manage'),
+  ('manager', 'admin.access'),
+  ('manager', 'projects.read_all'),
+  ('manager', 'projects.manage'),
+  ('manager', 'deliverables.send'),
+  ('manager', 'messages.read_all'),
+  ('manager', 'broadcasts.send')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Readable by anyone signed in; only the service role can change it
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read role permissions" ON role_permissions;
+CREATE POLICY "Authenticated users can read role permissions" ON role_permissions
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- 4. Permission check used by RLS policies. SECURITY DEFINER so it can read users without
+-- recursing into the users table's own policies
+CREATE OR REPLACE FUNCTION has_permission(required_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM users
+    JOIN role_permissions ON role_permissions.role = users.role
+    WHERE users.id = auth.uid()::text
+      AND role_permissions.permission = required_permission
+  );
+$$;
+
+-- 5. Replace the is_admin policies with permission checks
+DROP POLICY IF EXISTS "Admins can view all users" ON users;
+CREATE POLICY "Admins can view all users" ON users
+  FOR SELECT USING (has_permission('admin.access'));
+
+DROP POLICY IF EXISTS "Staff can manage users" ON users;
+CREATE POLICY "Staff can manage users" ON users
+  FOR ALL USING (has_permission('users.manage'));
+
+DROP POLICY IF EXISTS "Admins can view all projects" ON projects;
+CREATE POLICY "Admins can view all projects" ON projects
+  FOR ALL USING (has_permission('projects.manage'));
+
+DROP POLICY IF EXISTS "Admins can access all folders" ON folders;
+CREATE POLICY "Admins can access all folders" ON folders
+  FOR ALL USING (has_permission('projects.manage'));
+
+DROP POLICY IF EXISTS "Admins can access all folder inputs" ON folder_inputs;
+CREATE POLICY "Admins can access all folder inputs" ON folder_inputs
+  FOR ALL USING (has_permission('projects.manage'));
+
+-- Read only: staff send through their insert policy and change messages through the
+-- edit_message / delete_message RPCs, which keep the revision history
+DROP POLICY IF EXISTS "Admins can view all messages" ON messages;
+CREATE POLICY "Admins can view all messages" ON messages
+  FOR SELECT USING (has_permission('messages.read_all'));
+
+DROP POLICY IF EXISTS "Admins can create notifications" ON notifications;
+CREATE POLICY "Admins can create notifications" ON notifications
+  FOR INSERT WITH CHECK (has_permission('admin.access'));
+
+DROP POLICY IF EXISTS "Admins can manage all deliverables" ON deliverables;
+CREATE POLICY "Admins can manage all deliverables" ON deliverables
+  FOR ALL USING (has_permission('deliverables.send'));
+
+DROP POLICY IF EXISTS "Admins can manage all file uploads" ON file_uploads;
+CREATE POLICY "Admins can manage all file uploads" ON file_uploads
+  FOR ALL USING (has_permission('projects.manage'));
+
+-- 6. is_admin now also covers managers, so narrow the admin-area tables to their permission
+DROP POLICY IF EXISTS "Admins can manage all system settings" ON system_settings;
+CREATE POLICY "Admins can manage all system settings" ON system_settings
+  FOR ALL USING (has_permission('settings.edit'));
+
+DROP POLICY IF EXISTS "Admins can manage all system alerts" ON system_alerts;
+CREATE POLICY "Admins can manage all system alerts" ON system_alerts
+  FOR ALL USING (has_permission('settings.edit'));
+
+DROP POLICY IF EXISTS "Admins can manage all security alerts" ON security_alerts;
+CREATE POLICY "Admins can manage all security alerts" ON security_alerts
+  FOR ALL USING (has_permission('security.manage'));
+
+DROP POLICY IF EXISTS "Admins can manage all broadcasts" ON broadcasts;
+CREATE POLICY "Admins can manage all broadcasts" ON broadcasts
+  FOR ALL USING (has_permission('broadcasts.send'));
+
+DROP POLICY IF EXISTS "Admins can manage all project templates" ON project_templates;
+CREATE POLICY "Admins can manage all project templates" ON project_templates
+  FOR ALL USING (has_permission('projects.manage'));
+
+-- 7. Users may edit their own profile, but only user managers, Edge Functions (service role) and
+-- the SQL Editor (no request role) may change a role or the staff flag
+CREATE OR REPLACE FUNCTION guard_users_role_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.role IS DISTINCT FROM OLD.role OR NEW.is_admin IS DISTINCT FROM OLD.is_admin)
+    AND auth.role() IS NOT NULL
+    AND auth.role() <> 'service_role'
+    AND NOT has_permission('users.manage') THEN
+    RAISE EXCEPTION 'Only user managers can change a role' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS users_guard_role_change ON users;
+CREATE TRIGGER users_guard_role_change
+  BEFORE UPDATE ON users
+  FOR EACH ROW EXECUTE FUNCTION guard_users_role_change();
+
+-- 8. Redeploy the Edge Functions that read roles (run from the project root):
+--   supabase functions deploy auth-token
+--   supabase functions deploy two-factor
+--
+-- Promote a user to manager with:
+--   UPDATE users SET role = 'manager' WHERE phone_number = '+234...';
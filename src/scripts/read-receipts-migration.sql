@@ -0,0 +1,89 @@
+-- Read Receipts Migration Script
+-- Run this in your Supabase SQL Editor before deploying delivery and read receipts in messaging.
+-- Requires rbac-migration.sql (for has_permission).
+
+-- 1. Delivery timestamps. is_read stays as the unread flag; read_at is only recorded while the
+-- reader shares read receipts. Messages read before this migration keep no timestamps and are
+-- left out of the read-time statistics.
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS read_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_messages_undelivered ON messages(receiver_id) WHERE delivered_at IS NULL;
+
+-- 2. Privacy setting: clients can stop senders from seeing when they read a message
+ALTER TABLE users ADD COLUMN IF NOT EXISTS read_receipts_enabled BOOLEAN NOT NULL DEFAULT true;
+
+-- 3. Receivers stamp their own messages without general UPDATE rights on messages.
+-- Staff viewing the portal as a client must not mark the client's messages as delivered or read.
+CREATE OR REPLACE FUNCTION mark_messages_delivered()
+RETURNS TABLE (id UUID, sender_id UUID, receiver_id UUID, delivered_at TIMESTAMP WITH TIME ZONE, read_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE messages
+  SET delivered_at = NOW()
+  WHERE messages.receiver_id = auth.uid()
+    AND messages.delivered_at IS NULL
+    AND (auth.jwt() ->> 'impersonator_id') IS NULL
+  RETURNING messages.id, messages.sender_id, messages.receiver_id, messages.delivered_at, messages.read_at;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_messages_read(message_ids UUID[])
+RETURNS TABLE (id UUID, sender_id UUID, receiver_id UUID, delivered_at TIMESTAMP WITH TIME ZONE, read_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE messages
+  SET is_read = true,
+      delivered_at = COALESCE(messages.delivered_at, NOW()),
+      read_at = CASE WHEN reader.read_receipts_enabled THEN COALESCE(messages.read_at, NOW()) ELSE messages.read_at END
+  FROM users reader
+  WHERE reader.id::text = auth.uid()::text
+    AND messages.receiver_id = auth.uid()
+    AND messages.id = ANY(message_ids)
+    AND (messages.is_read IS NOT TRUE OR messages.delivered_at IS NULL)
+    AND (auth.jwt() ->> 'impersonator_id') IS NULL
+  RETURNING messages.id, messages.sender_id, messages.receiver_id, messages.delivered_at, messages.read_at;
+$$;
+
+REVOKE ALL ON FUNCTION mark_messages_delivered() FROM PUBLIC;
+REVOKE ALL ON FUNCTION mark_messages_read(UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mark_messages_delivered() TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_messages_read(UUID[]) TO authenticated;
+
+-- 4. Time-to-read statistics for the admin analytics, split by who the message was sent to
+CREATE OR REPLACE FUNCTION get_message_read_stats(since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+  direction TEXT,
+  sent_count BIGINT,
+  read_count BIGINT,
+  avg_seconds_to_read DOUBLE PRECISION,
+  median_seconds_to_read DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('messages.read_all') THEN
+    RAISE EXCEPTION 'Not allowed to view message statistics' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    CASE WHEN sender.is_admin THEN 'to_clients' ELSE 'to_staff' END,
+    COUNT(*),
+    COUNT(m.read_at),
+    AVG(EXTRACT(EPOCH FROM (m.read_at - m.created_at)))::DOUBLE PRECISION,
+    (percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (m.read_at - m.created_at))))::DOUBLE PRECISION
+  FROM messages m
+  JOIN users sender ON sender.id::text = m.sender_id::text
+  WHERE m.created_at >= since
+  GROUP BY 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_message_read_stats(TIMESTAMP WITH TIME ZONE) TO authenticated;
@@ -0,0 +1,101 @@
+-- Saved Replies Migration Script
+-- Run this in your Supabase SQL Editor before deploying saved replies in the message composer.
+-- Requires rbac-migration.sql (for has_permission).
+
+-- 1. Reusable message snippets. Personal replies are only visible to their author; shared
+-- replies are visible to all staff
+CREATE TABLE IF NOT EXISTS saved_replies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  shortcut TEXT NOT NULL CHECK (shortcut ~ '^[a-z0-9][a-z0-9_-]*$'),
+  content TEXT NOT NULL,
+  is_shared BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_replies_created_by ON saved_replies(created_by);
+
+ALTER TABLE saved_replies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view shared and own saved replies" ON saved_replies;
+CREATE POLICY "Staff can view shared and own saved replies" ON saved_replies
+  FOR SELECT USING (
+    has_permission('messages.read_all')
+    AND (is_shared OR created_by::text = auth.uid()::text)
+  );
+
+DROP POLICY IF EXISTS "Staff can create saved replies" ON saved_replies;
+CREATE POLICY "Staff can create saved replies" ON saved_replies
+  FOR INSERT WITH CHECK (
+    has_permission('messages.read_all')
+    AND created_by::text = auth.uid()::text
+  );
+
+-- Authors manage their own replies; admins with settings.edit can also tidy up shared ones
+DROP POLICY IF EXISTS "Authors can manage their saved replies" ON saved_replies;
+CREATE POLICY "Authors can manage their saved replies" ON saved_replies
+  FOR UPDATE USING (
+    created_by::text = auth.uid()::text
+    OR (is_shared AND has_permission('settings.edit'))
+  );
+
+DROP POLICY IF EXISTS "Authors can delete their saved replies" ON saved_replies;
+CREATE POLICY "Authors can delete their saved replies" ON saved_replies
+  FOR DELETE USING (
+    created_by::text = auth.uid()::text
+    OR (is_shared AND has_permission('settings.edit'))
+  );
+
+-- 2. One row each time a reply is inserted into the composer
+CREATE TABLE IF NOT EXISTS saved_reply_uses (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  reply_id UUID NOT NULL REFERENCES saved_replies(id) ON DELETE CASCADE,
+  used_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  used_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_reply_uses_reply ON saved_reply_uses(reply_id, used_at);
+
+ALTER TABLE saved_reply_uses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can record their saved reply uses" ON saved_reply_uses;
+CREATE POLICY "Staff can record their saved reply uses" ON saved_reply_uses
+  FOR INSERT WITH CHECK (
+    has_permission('messages.read_all')
+    AND used_by::text = auth.uid()::text
+  );
+
+-- 3. Usage per reply since a given time, for the replies the caller can see
+CREATE OR REPLACE FUNCTION get_saved_reply_stats(since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+  reply_id UUID,
+  use_count BIGINT,
+  user_count BIGINT,
+  last_used_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('messages.read_all') THEN
+    RAISE EXCEPTION 'Not allowed to view saved reply statistics' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    COUNT(u.id),
+    COUNT(DISTINCT u.used_by),
+    MAX(u.used_at)
+  FROM saved_replies r
+  LEFT JOIN saved_reply_uses u ON u.reply_id = r.id AND u.used_at >= since
+  WHERE r.is_shared OR r.created_by::text = auth.uid()::text
+  GROUP BY r.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_saved_reply_stats(TIMESTAMP WITH TIME ZONE) TO authenticated;
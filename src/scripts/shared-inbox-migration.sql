@@ -0,0 +1,200 @@
+-- Shared Inbox Migration Script
+-- Run this in your Supabase SQL Editor before deploying the shared admin inbox.
+-- Requires rbac-migration.sql (for has_permission) and read-receipts-migration.sql.
+
+-- 1. One inbox entry per client conversation. Client messages are routed to the assignee;
+-- every staff member with messages.read_all still sees every conversation.
+CREATE TABLE IF NOT EXISTS inbox_conversations (
+  client_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  assigned_to UUID REFERENCES users(id) ON DELETE SET NULL,
+  assigned_at TIMESTAMP WITH TIME ZONE,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'pending', 'closed')),
+  last_client_message_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_conversations_assignee ON inbox_conversations(assigned_to, status);
+
+ALTER TABLE inbox_conversations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can manage the inbox" ON inbox_conversations;
+CREATE POLICY "Staff can manage the inbox" ON inbox_conversations
+  FOR ALL USING (has_permission('messages.read_all'));
+
+-- Backfill every client who already has messages as open and unassigned
+INSERT INTO inbox_conversations (client_id, last_client_message_at)
+SELECT u.id, MAX(m.created_at) FILTER (WHERE m.sender_id::text = u.id::text)
+FROM users u
+JOIN messages m ON m.sender_id::text = u.id::text OR m.receiver_id::text = u.id::text
+WHERE u.is_admin IS NOT TRUE
+GROUP BY u.id
+ON CONFLICT (client_id) DO NOTHING;
+
+-- 2. Round-robin auto-assignment, switched in Admin > Settings > General
+INSERT INTO system_settings (setting_key, setting_value, setting_type, category, description, is_public)
+VALUES ('inbox_auto_assign', 'true', 'boolean', 'general', 'Assign new client conversations to staff in turn', false)
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- When each staff member last had a client message routed to them, assigned or not. Only the
+-- functions below read or write it.
+CREATE TABLE IF NOT EXISTS inbox_turns (
+  staff_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  last_turn_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE inbox_turns ENABLE ROW LEVEL SECURITY;
+
+-- The active staff member whose turn came least recently, counting both routed messages and
+-- conversations assigned to them
+CREATE OR REPLACE FUNCTION next_inbox_assignee()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id::uuid
+  FROM users u
+  JOIN role_permissions rp ON rp.role = u.role AND rp.permission = 'messages.read_all'
+  LEFT JOIN inbox_conversations ic ON ic.assigned_to::text = u.id::text
+  LEFT JOIN inbox_turns t ON t.staff_id::text = u.id::text
+  WHERE u.is_active IS NOT FALSE
+    AND u.is_suspended IS NOT TRUE
+  GROUP BY u.id, u.created_at, t.last_turn_at
+  ORDER BY GREATEST(MAX(ic.assigned_at), t.last_turn_at) ASC NULLS FIRST, u.created_at ASC
+  LIMIT 1;
+$$;
+
+-- 3. Who a client's message goes to: the conversation's assignee, auto-assigning an unassigned
+-- conversation in turn. With auto-assignment off the message is still addressed to the next
+-- staff member in turn, but the conversation stays unassigned for the team to pick up. Either way
+-- the turn is recorded, so the next message goes to someone else.
+CREATE OR REPLACE FUNCTION get_inbox_recipient_id()
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  conversation inbox_conversations%ROWTYPE;
+  auto_assign BOOLEAN;
+  recipient_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+
+  IF has_permission('messages.read_all') THEN
+    RAISE EXCEPTION 'Staff send messages to a client directly' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO inbox_conversations (client_id)
+  VALUES (auth.uid())
+  ON CONFLICT (client_id) DO NOTHING;
+
+  SELECT * INTO conversation FROM inbox_conversations WHERE client_id = auth.uid() FOR UPDATE;
+  IF conversation.assigned_to IS NOT NULL THEN
+    RETURN conversation.assigned_to;
+  END IF;
+
+  recipient_id := next_inbox_assignee();
+
+  SELECT COALESCE(setting_value = 'true', true) INTO auto_assign
+  FROM system_settings WHERE setting_key = 'inbox_auto_assign';
+
+  IF recipient_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO inbox_turns (staff_id, last_turn_at)
+  VALUES (recipient_id, NOW())
+  ON CONFLICT (staff_id) DO UPDATE SET last_turn_at = EXCLUDED.last_turn_at;
+
+  IF COALESCE(auto_assign, true) THEN
+    UPDATE inbox_conversations
+    SET assigned_to = recipient_id, assigned_at = NOW(), updated_at = NOW()
+    WHERE client_id = auth.uid();
+  END IF;
+
+  RETURN recipient_id;
+END;
+$$;
+
+-- Kept for existing callers; no longer picks an arbitrary admin
+CREATE OR REPLACE FUNCTION get_admin_user_id()
+RETURNS UUID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT get_inbox_recipient_id();
+$$;
+
+REVOKE ALL ON FUNCTION next_inbox_assignee() FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_inbox_recipient_id() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_inbox_recipient_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_admin_user_id() TO authenticated;
+
+-- 4. A new client message reopens a pending or closed conversation
+CREATE OR REPLACE FUNCTION reopen_inbox_conversation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM users WHERE id::text = NEW.sender_id::text AND is_admin IS NOT TRUE) THEN
+    INSERT INTO inbox_conversations (client_id, last_client_message_at)
+    VALUES (NEW.sender_id, NEW.created_at)
+    ON CONFLICT (client_id) DO UPDATE
+    SET status = 'open',
+        last_client_message_at = EXCLUDED.last_client_message_at,
+        updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS messages_reopen_inbox_conversation ON messages;
+CREATE TRIGGER messages_reopen_inbox_conversation
+  AFTER INSERT ON messages
+  FOR EACH ROW EXECUTE FUNCTION reopen_inbox_conversation();
+
+-- 5. Read state follows inbox access, the same way the unread counts do: a client's message is read
+-- for the team once its assignee or anyone with messages.read_all opens it, whoever it was routed to.
+-- Replaces the receiver-only version from read-receipts-migration.sql.
+CREATE OR REPLACE FUNCTION mark_messages_read(message_ids UUID[])
+RETURNS TABLE (id UUID, sender_id UUID, receiver_id UUID, delivered_at TIMESTAMP WITH TIME ZONE, read_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE messages
+  SET is_read = true,
+      delivered_at = COALESCE(messages.delivered_at, NOW()),
+      read_at = CASE WHEN reader.read_receipts_enabled THEN COALESCE(messages.read_at, NOW()) ELSE messages.read_at END
+  FROM users reader
+  WHERE reader.id::text = auth.uid()::text
+    AND messages.id = ANY(message_ids)
+    AND (
+      messages.receiver_id = auth.uid()
+      OR (
+        EXISTS (SELECT 1 FROM users sender WHERE sender.id::text = messages.sender_id::text AND sender.is_admin IS NOT TRUE)
+        AND (
+          has_permission('messages.read_all')
+          OR EXISTS (
+            SELECT 1 FROM inbox_conversations ic
+            WHERE ic.client_id::text = messages.sender_id::text
+              AND ic.assigned_to::text = auth.uid()::text
+          )
+        )
+      )
+    )
+    AND (messages.is_read IS NOT TRUE OR messages.delivered_at IS NULL)
+    AND (auth.jwt() ->> 'impersonator_id') IS NULL
+  RETURNING messages.id, messages.sender_id, messages.receiver_id, messages.delivered_at, messages.read_at;
+$$;
+
+REVOKE ALL ON FUNCTION mark_messages_read(UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mark_messages_read(UUID[]) TO authenticated;
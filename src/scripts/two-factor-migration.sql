@@ -0,0 +1,29 @@
+-- Two-Factor Authentication Migration Script
+-- Run this in your Supabase SQL Editor before deploying the `two-factor` Edge Function
+
+-- 1. Add the two-factor flag to users (read by the login flow to decide whether to ask for a code)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_enabled BOOLEAN DEFAULT FALSE;
+
+-- 2. Create user_two_factor table for TOTP secrets and recovery codes
+CREATE TABLE IF NOT EXISTS user_two_factor (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  secret TEXT, -- base32 TOTP secret, set once enrollment is confirmed
+  pending_secret TEXT, -- secret awaiting its first valid code
+  recovery_code_hashes TEXT[] DEFAULT '{}', -- bcrypt hashes, each removed once used
+  last_used_step BIGINT, -- last accepted TOTP time step, prevents code replay
+  enabled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 3. Enable RLS without policies so only the service role (the Edge Functions) can read secrets
+ALTER TABLE user_two_factor ENABLE ROW LEVEL SECURITY;
+
+-- 4. Seed the admin 2FA requirement (toggled from Admin > Security > Security Settings)
+INSERT INTO system_settings (setting_key, setting_value, setting_type, category, description)
+VALUES ('security_require_2fa', 'false', 'boolean', 'security', 'Require two-factor authentication for administrators')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- 5. Deploy (run from the project root):
+--   supabase functions deploy two-factor
+--   supabase functions deploy auth-token
@@ -0,0 +1,32 @@
+-- User Sessions Migration Script
+-- Run this in your Supabase SQL Editor before deploying the `sessions` Edge Function
+
+-- 1. Create user_sessions table (one row per login; its id is the session_id of the issued tokens)
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  device TEXT, -- e.g. "Chrome on Windows", derived from the user agent
+  user_agent TEXT,
+  ip_address TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- updated on every token refresh
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+-- 2. Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_user_sessions_active ON user_sessions(user_id, created_at DESC) WHERE revoked_at IS NULL;
+
+-- 3. Enable RLS without policies so only the service role (the Edge Functions) can touch it
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+
+-- 4. Seed the concurrent-session limit (oldest sessions are evicted at login once it is exceeded)
+INSERT INTO system_settings (setting_key, setting_value, setting_type, category, description)
+VALUES ('security_max_concurrent_sessions', '3', 'number', 'security', 'Maximum number of simultaneous sessions per user')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- 5. Deploy (run from the project root):
+--   supabase functions deploy sessions
+--   supabase functions deploy auth-token
+--
+-- Refresh tokens issued before this migration have no session row and will be rejected,
+-- so everyone signs in once more after deploying.
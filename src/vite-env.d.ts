@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Backend for src/lib/redis.ts: 'browser' (default), 'server' or 'memory'
+  readonly VITE_KV_BACKEND?: 'browser' | 'server' | 'memory';
+}
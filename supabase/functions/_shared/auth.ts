@@ -0,0 +1,66 @@
+// Identify the caller of an Edge Function from the Supabase JWT issued by `auth-token`
+
+import { jwtVerify } from 'npm:jose@6';
+import { supabaseAdmin } from './supabaseAdmin.ts';
+
+export interface Caller {
+  id: string;
+  isAdmin: boolean;
+  role: string;
+  sessionId?: string;
+  // Set when staff are viewing the portal as this client through the `impersonation` function
+  impersonatorId?: string;
+  readOnly?: boolean;
+}
+
+interface GetCallerOptions {
+  // Account-level functions (sessions, passwords, 2FA) refuse impersonation tokens unless they opt in
+  allowImpersonation?: boolean;
+}
+
+export const getCaller = async (req: Request, options: GetCallerOptions = {}): Promise<Caller | null> => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const secret = Deno.env.get('JWT_SECRET');
+  if (!token || !secret) return null;
+
+  try {
+    const { payload } = await jwtVerify(token, new TextEncoder().encode(secret), { audience: 'authenticated' });
+    if (!payload.sub) return null;
+
+    const impersonatorId = typeof payload.impersonator_id === 'string' ? payload.impersonator_id : undefined;
+    if (impersonatorId && !options.allowImpersonation) return null;
+
+    const metadata = payload.user_metadata as { is_admin?: boolean; user_role?: string } | undefined;
+    return {
+      id: payload.sub,
+      isAdmin: metadata?.is_admin === true,
+      role: metadata?.user_role ?? (metadata?.is_admin ? 'admin' : 'client'),
+      sessionId: typeof payload.session_id === 'string' ? payload.session_id : undefined,
+      impersonatorId,
+      readOnly: impersonatorId ? payload.read_only !== false : undefined
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Checks the role_permissions matrix against the caller's current role (not the one in the token,
+// so a demotion takes effect immediately)
+export const callerHasPermission = async (caller: Caller, permission: string): Promise<boolean> => {
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('role')
+    .eq('id', caller.id)
+    .single();
+
+  if (!user?.role) return false;
+
+  const { data } = await supabaseAdmin
+    .from('role_permissions')
+    .select('permission')
+    .eq('role', user.role)
+    .eq('permission', permission)
+    .maybeSingle();
+
+  return !!data;
+};
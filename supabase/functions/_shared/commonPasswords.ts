@@ -0,0 +1,28 @@
+// Passwords that show up at the top of public breach lists. Compared case-insensitively,
+// so "Password1" is rejected along with "password1".
+// Server-side mirror of src/lib/commonPasswords.ts
+
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456', '123456789', '12345678', '1234567890', '12345', '1234567', 'password', 'password1',
+  'password12', 'password123', 'password1234', 'password!', 'password1!', 'passw0rd', 'p@ssw0rd',
+  'p@ssword', 'qwerty', 'qwerty123', 'qwerty1', 'qwertyuiop', '1q2w3e4r', '1q2w3e4r5t', '1qaz2wsx',
+  'zaq12wsx', 'abc123', 'abcd1234', 'abc12345', 'a1b2c3d4', '111111', '000000', '123123', '123321',
+  '654321', '666666', '696969', '777777', '888888', '112233', '121212', 'aaaaaa', 'iloveyou',
+  'iloveyou1', 'admin', 'admin123', 'admin1234', 'administrator', 'welcome', 'welcome1',
+  'welcome123', 'welcome@123', 'letmein', 'letmein1', 'monkey', 'dragon', 'football', 'baseball',
+  'soccer', 'basketball', 'master', 'sunshine', 'princess', 'shadow', 'superman', 'batman',
+  'trustno1', 'starwars', 'whatever', 'freedom', 'computer', 'michael', 'jennifer', 'jordan23',
+  'hello123', 'hello1234', 'login', 'login123', 'secret', 'secret123', 'test123', 'test1234',
+  'changeme', 'changeme123', 'default', 'guest', 'user123', 'pass123', 'pass1234', 'mypassword',
+  'mypassword1', 'lovely', 'charlie', 'donald', 'football1', 'liverpool', 'chelsea', 'arsenal',
+  'manchester', 'nigeria', 'nigeria123', 'lagos123', 'abuja123', 'ghana123', 'kenya123',
+  'jesus123', 'god123', 'blessed', 'blessing', 'blessing1', 'godisgood', 'qwe123', 'asdfgh',
+  'asdfghjkl', 'zxcvbnm', 'zxcvbn', '1qazxsw2', 'q1w2e3r4', 'q1w2e3r4t5', 'aa123456', 'a123456',
+  'a12345678', 'abcdef', 'abcdefg', 'abcdefgh', 'summer2024', 'summer2025', 'winter2024',
+  'spring2024', 'autumn2024', 'january1', 'december1', 'password2024', 'password2025', 'admin@123',
+  'muahib123'
+]);
+
+export const isCommonPassword = (password: string): boolean => {
+  return COMMON_PASSWORDS.has(password.trim().toLowerCase());
+};
@@ -0,0 +1,124 @@
+// Signed, single-use invitation links shared by the `invitations` and `organizations` Edge Functions.
+// The link is a JWT whose `jti` is the user_invitations row, so it can be revoked and used only once.
+
+import { SignJWT, jwtVerify } from 'npm:jose@6';
+import { supabaseAdmin } from './supabaseAdmin.ts';
+import { getMessageTransport } from './transports.ts';
+
+// Placeholder hash of accounts created for an invitee; nothing matches it, and invitations may only
+// set a password on accounts that still have it
+export const PENDING_PASSWORD_HASH = 'temp_password_hash';
+
+const DEFAULT_EXPIRY_DAYS = 7;
+const MAX_EXPIRY_DAYS = 30;
+const INVITATION_AUDIENCE = 'invitation';
+
+export interface IssuedInvitation {
+  invitation_id: string;
+  invite_url: string;
+  expires_at: string;
+  sent: boolean;
+}
+
+interface IssueInvitationOptions {
+  user: { id: string; phone_number: string | null };
+  invitedBy: string;
+  projectId?: string | null;
+  expiresInDays?: number;
+  send?: boolean;
+}
+
+const getSecret = () => new TextEncoder().encode(Deno.env.get('JWT_SECRET')!);
+
+const getAppUrl = (req: Request): string => {
+  return (Deno.env.get('APP_URL') || req.headers.get('origin') || '').replace(/\/$/, '');
+};
+
+export const issueInvitation = async (
+  req: Request,
+  { user, invitedBy, projectId, expiresInDays, send }: IssueInvitationOptions
+): Promise<IssuedInvitation | null> => {
+  const expiryDays = Math.min(Math.max(expiresInDays || DEFAULT_EXPIRY_DAYS, 1), MAX_EXPIRY_DAYS);
+  const expiresAt = new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000);
+  const now = new Date().toISOString();
+
+  // Only the newest link is valid
+  await supabaseAdmin
+    .from('user_invitations')
+    .update({ revoked_at: now })
+    .eq('user_id', user.id)
+    .is('accepted_at', null)
+    .is('revoked_at', null);
+
+  const { data: invitation, error } = await supabaseAdmin
+    .from('user_invitations')
+    .insert({
+      user_id: user.id,
+      project_id: projectId || null,
+      invited_by: invitedBy,
+      expires_at: expiresAt.toISOString()
+    })
+    .select('id')
+    .single();
+
+  if (error || !invitation) {
+    console.error('Error creating invitation:', error);
+    return null;
+  }
+
+  const token = await new SignJWT({})
+    .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+    .setAudience(INVITATION_AUDIENCE)
+    .setSubject(user.id)
+    .setJti(invitation.id)
+    .setIssuedAt()
+    .setExpirationTime(Math.floor(expiresAt.getTime() / 1000))
+    .sign(getSecret());
+
+  const inviteUrl = `${getAppUrl(req)}/accept-invite?token=${encodeURIComponent(token)}`;
+
+  let sent = false;
+  if (send && user.phone_number) {
+    try {
+      await getMessageTransport().send(
+        user.phone_number,
+        `You've been invited to Muahib Solution. Set your password here: ${inviteUrl} (expires in ${expiryDays} days)`,
+        'sms'
+      );
+      sent = true;
+    } catch (sendError) {
+      console.error('Error sending invitation:', sendError);
+    }
+  }
+
+  return {
+    invitation_id: invitation.id,
+    invite_url: inviteUrl,
+    expires_at: expiresAt.toISOString(),
+    sent
+  };
+};
+
+// Verify the signature and expiry, then make sure the invitation is still the open one
+export const loadInvitation = async (token: string) => {
+  let invitationId: string | undefined;
+  try {
+    const { payload } = await jwtVerify(token || '', getSecret(), { audience: INVITATION_AUDIENCE });
+    invitationId = payload.jti;
+  } catch {
+    return null;
+  }
+
+  if (!invitationId) return null;
+
+  const { data: invitation } = await supabaseAdmin
+    .from('user_invitations')
+    .select('id, user_id, project_id, expires_at, accepted_at, revoked_at')
+    .eq('id', invitationId)
+    .single();
+
+  if (!invitation || invitation.accepted_at || invitation.revoked_at) return null;
+  if (new Date(invitation.expires_at).getTime() < Date.now()) return null;
+
+  return invitation;
+};
@@ -0,0 +1,78 @@
+// Server-side mirror of validatePassword in src/lib/auth.ts and the policy in src/lib/passwordPolicy.ts
+
+import { supabaseAdmin } from './supabaseAdmin.ts';
+import { isCommonPassword } from './commonPasswords.ts';
+
+export interface PasswordPolicy {
+  min_length: number;
+  require_uppercase: boolean;
+  require_lowercase: boolean;
+  require_numbers: boolean;
+  require_symbols: boolean;
+  max_age_days: number;
+}
+
+const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  min_length: 8,
+  require_uppercase: true,
+  require_lowercase: true,
+  require_numbers: true,
+  require_symbols: false,
+  max_age_days: 90
+};
+
+// Reads the `security_password_*` rows saved from Admin > Security
+export const getPasswordPolicy = async (): Promise<PasswordPolicy> => {
+  const { data } = await supabaseAdmin
+    .from('system_settings')
+    .select('setting_key, setting_value')
+    .like('setting_key', 'security_password_%');
+
+  const policy = { ...DEFAULT_PASSWORD_POLICY };
+  for (const setting of data || []) {
+    const field = setting.setting_key.replace('security_password_', '') as keyof PasswordPolicy;
+    if (!(field in policy)) continue;
+
+    if (typeof policy[field] === 'boolean') {
+      (policy as Record<string, number | boolean>)[field] = setting.setting_value === 'true';
+    } else {
+      const value = parseInt(setting.setting_value, 10);
+      if (!Number.isNaN(value)) (policy as Record<string, number | boolean>)[field] = value;
+    }
+  }
+
+  return policy;
+};
+
+export const validatePassword = (password: string, policy: PasswordPolicy): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (password.length < policy.min_length) {
+    errors.push(`Password must be at least ${policy.min_length} characters long`);
+  }
+
+  if (policy.require_uppercase && !/[A-Z]/.test(password)) {
+    errors.push('Password must contain at least one uppercase letter');
+  }
+
+  if (policy.require_lowercase && !/[a-z]/.test(password)) {
+    errors.push('Password must contain at least one lowercase letter');
+  }
+
+  if (policy.require_numbers && !/\d/.test(password)) {
+    errors.push('Password must contain at least one number');
+  }
+
+  if (policy.require_symbols && !/[^A-Za-z0-9]/.test(password)) {
+    errors.push('Password must contain at least one symbol');
+  }
+
+  if (isCommonPassword(password)) {
+    errors.push('This password is too common. Please choose a less predictable one');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+};
@@ -0,0 +1,120 @@
+// Persisted login sessions. Every password login creates a `user_sessions` row whose id is the
+// `session_id` claim of the access token and the session of its refresh tokens.
+
+import { supabaseAdmin } from './supabaseAdmin.ts';
+
+const DEFAULT_MAX_CONCURRENT_SESSIONS = 3;
+
+// Short human-readable device description, e.g. "Chrome on Windows"
+export const describeDevice = (userAgent: string): string => {
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    'Unknown browser';
+
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    'Unknown OS';
+
+  return `${browser} on ${os}`;
+};
+
+export const getClientIp = (req: Request): string | null => {
+  const forwardedFor = req.headers.get('x-forwarded-for');
+  if (forwardedFor) return forwardedFor.split(',')[0].trim();
+  return req.headers.get('cf-connecting-ip') || req.headers.get('x-real-ip');
+};
+
+const getMaxConcurrentSessions = async (): Promise<number> => {
+  const { data } = await supabaseAdmin
+    .from('system_settings')
+    .select('setting_value')
+    .eq('setting_key', 'security_max_concurrent_sessions')
+    .maybeSingle();
+
+  const limit = parseInt(data?.setting_value ?? '', 10);
+  return limit > 0 ? limit : DEFAULT_MAX_CONCURRENT_SESSIONS;
+};
+
+// Revoke sessions together with all of their refresh tokens
+export const revokeSessions = async (userId: string, sessionIds: string[]) => {
+  if (sessionIds.length === 0) return;
+  const now = new Date().toISOString();
+
+  await supabaseAdmin
+    .from('user_sessions')
+    .update({ revoked_at: now })
+    .eq('user_id', userId)
+    .in('id', sessionIds)
+    .is('revoked_at', null);
+
+  await supabaseAdmin
+    .from('auth_refresh_tokens')
+    .update({ revoked_at: now })
+    .eq('user_id', userId)
+    .in('session_id', sessionIds)
+    .is('revoked_at', null);
+};
+
+// Evict the oldest active sessions once the user is over the configured limit
+const enforceSessionLimit = async (userId: string) => {
+  const limit = await getMaxConcurrentSessions();
+
+  const { data: sessions } = await supabaseAdmin
+    .from('user_sessions')
+    .select('id')
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false });
+
+  const evicted = (sessions || []).slice(limit).map(session => session.id);
+  await revokeSessions(userId, evicted);
+};
+
+export const createSession = async (userId: string, req: Request): Promise<string | null> => {
+  const userAgent = req.headers.get('user-agent') || '';
+
+  const { data, error } = await supabaseAdmin
+    .from('user_sessions')
+    .insert({
+      user_id: userId,
+      device: describeDevice(userAgent),
+      user_agent: userAgent,
+      ip_address: getClientIp(req)
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error('Error creating session:', error);
+    return null;
+  }
+
+  await enforceSessionLimit(userId);
+  return data.id;
+};
+
+// Returns false when the session was revoked, otherwise records activity on it
+export const touchSession = async (sessionId: string, req: Request): Promise<boolean> => {
+  const { data: session } = await supabaseAdmin
+    .from('user_sessions')
+    .select('revoked_at')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (!session || session.revoked_at) return false;
+
+  await supabaseAdmin
+    .from('user_sessions')
+    .update({ last_seen_at: new Date().toISOString(), ip_address: getClientIp(req) })
+    .eq('id', sessionId);
+
+  return true;
+};
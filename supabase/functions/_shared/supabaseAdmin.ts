@@ -0,0 +1,9 @@
+// Service-role Supabase client for Edge Functions. Bypasses RLS, so it must never leave the server.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+export const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+
+export const supabaseAdmin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+  auth: { persistSession: false, autoRefreshToken: false }
+});
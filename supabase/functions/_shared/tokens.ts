@@ -0,0 +1,95 @@
+// Supabase-compatible access tokens. Shared by `auth-token` (normal logins) and `impersonation`
+// (short-lived tokens that let staff see the portal as a client).
+
+import { SignJWT } from 'npm:jose@6';
+import { supabaseUrl } from './supabaseAdmin.ts';
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // 15 minutes
+
+interface SupabaseJWTPayload {
+  aud: string;
+  exp: number;
+  iat: number;
+  iss: string;
+  sub: string;
+  email?: string;
+  phone?: string;
+  app_metadata: {
+    provider: string;
+    providers: string[];
+  };
+  user_metadata: {
+    full_name?: string;
+    company_name?: string;
+    is_admin?: boolean;
+    user_role?: string;
+  };
+  role: string;
+  aal: string;
+  amr: Array<{ method: string; timestamp: number }>;
+  session_id: string;
+  // Set on impersonation tokens; RLS reads these through impersonation_allows()
+  impersonation_id?: string;
+  impersonator_id?: string;
+  read_only?: boolean;
+}
+
+export interface TokenUser {
+  id: string;
+  phone_number: string;
+  full_name?: string | null;
+  company_name?: string | null;
+  is_admin: boolean | null;
+  role?: string | null;
+}
+
+export interface ImpersonationClaims {
+  impersonation_id: string;
+  impersonator_id: string;
+  read_only: boolean;
+}
+
+interface MintOptions {
+  ttlSeconds?: number;
+  impersonation?: ImpersonationClaims;
+}
+
+export const getJwtSecret = (): string | undefined => Deno.env.get('JWT_SECRET');
+
+export const mintAccessToken = async (user: TokenUser, sessionId: string, method: string, options: MintOptions = {}) => {
+  const now = Math.floor(Date.now() / 1000);
+  const exp = now + (options.ttlSeconds ?? ACCESS_TOKEN_TTL_SECONDS);
+
+  const payload: SupabaseJWTPayload = {
+    aud: 'authenticated',
+    exp,
+    iat: now,
+    iss: `${supabaseUrl}/auth/v1`,
+    sub: user.id,
+    email: `${user.phone_number}@placeholder.com`, // Placeholder email since we use phone auth
+    phone: user.phone_number,
+    app_metadata: {
+      provider: 'custom',
+      providers: ['custom']
+    },
+    user_metadata: {
+      full_name: user.full_name ?? undefined,
+      company_name: user.company_name ?? undefined,
+      is_admin: user.is_admin ?? false,
+      user_role: user.role ?? (user.is_admin ? 'admin' : 'client')
+    },
+    role: 'authenticated',
+    aal: method === 'totp' ? 'aal2' : 'aal1',
+    amr: [{ method, timestamp: now }],
+    session_id: sessionId,
+    ...options.impersonation
+  };
+
+  const accessToken = await new SignJWT({ ...payload })
+    .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+    .setIssuedAt(now)
+    .setExpirationTime(exp)
+    .sign(new TextEncoder().encode(getJwtSecret()));
+
+  return { accessToken, expiresAt: exp };
+};
@@ -0,0 +1,80 @@
+// Pluggable outbound message transports (SMS / WhatsApp) for Edge Functions.
+// Select one with the MESSAGE_TRANSPORT secret: 'twilio', or 'console' / 'file' for local development.
+// There is no default: messages carry one-time codes, so they are never logged unless asked for.
+
+export type MessageChannel = 'sms' | 'whatsapp';
+
+export interface MessageTransport {
+  name: string;
+  send: (to: string, body: string, channel: MessageChannel) => Promise<void>;
+}
+
+// Local development: print the message to the function logs
+const consoleTransport: MessageTransport = {
+  name: 'console',
+  send: async (to, body, channel) => {
+    console.log(`[${channel}] to ${to}: ${body}`);
+  }
+};
+
+// Local development: append the message to a file (MESSAGE_LOG_FILE, defaults to /tmp)
+const fileTransport: MessageTransport = {
+  name: 'file',
+  send: async (to, body, channel) => {
+    const path = Deno.env.get('MESSAGE_LOG_FILE') || '/tmp/outbound-messages.log';
+    const line = `${new Date().toISOString()} [${channel}] to ${to}: ${body}\n`;
+    await Deno.writeTextFile(path, line, { append: true });
+  }
+};
+
+// Production: Twilio Programmable Messaging, which serves both SMS and WhatsApp
+const twilioTransport: MessageTransport = {
+  name: 'twilio',
+  send: async (to, body, channel) => {
+    const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+    const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+    const from = channel === 'whatsapp'
+      ? `whatsapp:${Deno.env.get('TWILIO_WHATSAPP_FROM')}`
+      : Deno.env.get('TWILIO_SMS_FROM');
+
+    if (!accountSid || !authToken || !from) {
+      throw new Error('Twilio transport is not configured');
+    }
+
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({
+        To: channel === 'whatsapp' ? `whatsapp:${to}` : to,
+        From: from,
+        Body: body
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Twilio responded with ${response.status}: ${await response.text()}`);
+    }
+  }
+};
+
+const transports: Record<string, MessageTransport> = {
+  console: consoleTransport,
+  file: fileTransport,
+  twilio: twilioTransport
+};
+
+export const getMessageTransport = (): MessageTransport => {
+  const name = Deno.env.get('MESSAGE_TRANSPORT');
+  if (!name) {
+    throw new Error('No message transport is configured (set MESSAGE_TRANSPORT)');
+  }
+
+  const transport = transports[name];
+  if (!transport) {
+    throw new Error(`Unknown message transport: ${name}`);
+  }
+  return transport;
+};
@@ -0,0 +1,45 @@
+// Shared two-factor checks used by `auth-token` (login) and `two-factor` (management)
+
+import bcrypt from 'npm:bcryptjs@3';
+import { supabaseAdmin } from './supabaseAdmin.ts';
+import { verifyTotp } from './totp.ts';
+
+/**
+ * Verify a TOTP code or an unused recovery code for a user with 2FA enabled.
+ * Successful codes are marked as used so they cannot be replayed.
+ */
+export const verifyTwoFactorCode = async (userId: string, code: string): Promise<boolean> => {
+  const { data: factor } = await supabaseAdmin
+    .from('user_two_factor')
+    .select('secret, recovery_code_hashes, last_used_step')
+    .eq('user_id', userId)
+    .not('enabled_at', 'is', null)
+    .single();
+
+  if (!factor?.secret) return false;
+
+  const normalized = code.replace(/[\s-]/g, '');
+
+  const step = await verifyTotp(factor.secret, normalized, factor.last_used_step);
+  if (step !== null) {
+    await supabaseAdmin
+      .from('user_two_factor')
+      .update({ last_used_step: step })
+      .eq('user_id', userId);
+    return true;
+  }
+
+  // Fall back to single-use recovery codes
+  const hashes: string[] = factor.recovery_code_hashes || [];
+  for (const hash of hashes) {
+    if (await bcrypt.compare(normalized.toUpperCase(), hash)) {
+      await supabaseAdmin
+        .from('user_two_factor')
+        .update({ recovery_code_hashes: hashes.filter(h => h !== hash) })
+        .eq('user_id', userId);
+      return true;
+    }
+  }
+
+  return false;
+};
@@ -0,0 +1,317 @@
+// Supabase Edge Function that issues Supabase-compatible JWTs for our custom
+// phone/password authentication. The signing secret only lives here (set it with
+// `supabase secrets set JWT_SECRET=...`) and never ships in the browser bundle.
+
+import bcrypt from 'npm:bcryptjs@3';
+import { corsHeaders, json } from '../_shared/cors.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { verifyTwoFactorCode } from '../_shared/twoFactor.ts';
+import { createSession, getClientIp, touchSession } from '../_shared/sessions.ts';
+import { ACCESS_TOKEN_TTL_SECONDS, TokenUser, getJwtSecret, mintAccessToken } from '../_shared/tokens.ts';
+
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+// Wrong passwords and two-factor codes both count towards the lockout
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MINUTES = 30;
+
+const INVALID_CREDENTIALS_MESSAGE = 'Invalid phone number or password';
+const ACCOUNT_LOCKED_MESSAGE = 'Too many failed attempts. Your account is temporarily locked.';
+
+// `verify_only` checks the credentials (and counts a failure) without starting a session
+type TokenRequest =
+  | { grant_type: 'password'; phone_number: string; password: string; two_factor_code?: string; verify_only?: boolean }
+  | { grant_type: 'refresh_token'; refresh_token: string };
+
+interface LoginUser {
+  id: string;
+  full_name: string | null;
+}
+
+const jwtSecret = getJwtSecret();
+
+// Refresh tokens are opaque random strings; only their SHA-256 digest is stored
+const generateRefreshToken = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const hashToken = async (token: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Issue an access token plus a fresh refresh token for the given session
+const issueTokens = async (user: TokenUser, sessionId: string, method: string) => {
+  const { accessToken, expiresAt } = await mintAccessToken(user, sessionId, method);
+  const refreshToken = generateRefreshToken();
+
+  const { error } = await supabaseAdmin
+    .from('auth_refresh_tokens')
+    .insert({
+      user_id: user.id,
+      session_id: sessionId,
+      token_hash: await hashToken(refreshToken),
+      expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000).toISOString()
+    });
+
+  if (error) {
+    console.error('Error storing refresh token:', error);
+    return json({ error: 'Failed to issue tokens' }, 500);
+  }
+
+  return json({
+    access_token: accessToken,
+    token_type: 'bearer',
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    expires_at: expiresAt,
+    refresh_token: refreshToken,
+    session_id: sessionId
+  });
+};
+
+const getFailedLoginSeverity = (attempts = 0): string => {
+  if (attempts >= MAX_FAILED_LOGINS) return 'high';
+  return attempts >= 3 ? 'medium' : 'low';
+};
+
+// Raise a security alert for the failed attempt (shown under Admin > Security)
+const logFailedLogin = async (req: Request, phoneNumber: string, user: LoginUser | null, attempts?: number) => {
+  const severity = user ? getFailedLoginSeverity(attempts) : 'medium';
+  const title = user ? 'Failed Login Attempt' : 'Failed Login - Invalid User';
+  const description = user
+    ? `Failed login attempt for user ${user.full_name} (${phoneNumber}). Attempt ${attempts}/${MAX_FAILED_LOGINS}.`
+    : `Failed login attempt for non-existent phone number: ${phoneNumber}`;
+
+  const { error } = await supabaseAdmin
+    .from('security_alerts')
+    .insert({
+      type: 'failed_login',
+      severity,
+      title,
+      description,
+      ip_address: getClientIp(req),
+      user_id: user?.id ?? null,
+      user_agent: req.headers.get('user-agent'),
+      metadata: { attempts, phone_number: phoneNumber },
+      resolved: false
+    });
+
+  if (error) {
+    console.error('Error logging failed login:', error);
+  }
+
+  // A lockout also goes on the admin dashboard
+  if (severity === 'high') {
+    await supabaseAdmin
+      .from('system_alerts')
+      .insert({
+        title: `Security Alert: ${title}`,
+        message: description,
+        type: 'error',
+        priority: 'high',
+        is_active: true,
+        is_dismissible: true,
+        target_audience: 'admins',
+        created_by: 'Security System'
+      });
+  }
+};
+
+// Count the failure and lock the account once it reaches the limit; `rejection` is the body sent while it is not locked
+const rejectLogin = async (req: Request, phoneNumber: string, user: LoginUser, rejection: Record<string, unknown>) => {
+  const { data, error } = await supabaseAdmin.rpc('record_failed_login', {
+    p_user_id: user.id,
+    p_max_attempts: MAX_FAILED_LOGINS,
+    p_lock_minutes: LOCKOUT_MINUTES
+  });
+
+  if (error) {
+    console.error('Error recording failed login:', error);
+  }
+
+  const result = (data as { attempts: number; locked_until: string | null }[] | null)?.[0];
+  await logFailedLogin(req, phoneNumber, user, result?.attempts);
+
+  if (result?.locked_until && new Date(result.locked_until).getTime() > Date.now()) {
+    return json({ error: ACCOUNT_LOCKED_MESSAGE, error_code: 'ACCOUNT_LOCKED', locked_until: result.locked_until }, 403);
+  }
+  return json({ error_code: 'INVALID_CREDENTIALS', ...rejection }, 401);
+};
+
+const handlePasswordGrant = async (
+  req: Request,
+  phoneNumber: string,
+  password: string,
+  twoFactorCode?: string,
+  verifyOnly = false
+) => {
+  if (!phoneNumber || !password) {
+    return json({ error: 'Phone number and password are required' }, 400);
+  }
+
+  const { data: user, error } = await supabaseAdmin
+    .from('users')
+    .select('id, phone_number, full_name, company_name, is_admin, role, password_hash, is_active, is_suspended, locked_until, two_factor_enabled')
+    .eq('phone_number', phoneNumber)
+    .single();
+
+  if (error || !user) {
+    await logFailedLogin(req, phoneNumber, null);
+    return json({ error: INVALID_CREDENTIALS_MESSAGE, error_code: 'INVALID_CREDENTIALS' }, 401);
+  }
+
+  // Blocked users cannot obtain tokens
+  if (user.is_active === false) {
+    return json({
+      error: 'This account has been deactivated. Please contact support.',
+      error_code: 'ACCOUNT_DEACTIVATED'
+    }, 403);
+  }
+
+  if (user.is_suspended) {
+    return json({
+      error: 'This account has been suspended. Please contact support.',
+      error_code: 'ACCOUNT_SUSPENDED'
+    }, 403);
+  }
+
+  if (user.locked_until && new Date(user.locked_until).getTime() > Date.now()) {
+    return json({ error: ACCOUNT_LOCKED_MESSAGE, error_code: 'ACCOUNT_LOCKED', locked_until: user.locked_until }, 403);
+  }
+
+  const isValidPassword = await bcrypt.compare(password, user.password_hash);
+  if (!isValidPassword) {
+    return await rejectLogin(req, phoneNumber, user, { error: INVALID_CREDENTIALS_MESSAGE });
+  }
+
+  // Accounts with 2FA need a valid TOTP or recovery code as a second factor
+  if (user.two_factor_enabled) {
+    if (!twoFactorCode) {
+      return json({ error: 'Two-factor code required', mfa_required: true }, 401);
+    }
+    if (!await verifyTwoFactorCode(user.id, twoFactorCode)) {
+      return await rejectLogin(req, phoneNumber, user, { error: 'Invalid two-factor code', mfa_required: true });
+    }
+  }
+
+  // Only a complete sign in clears the failure count
+  const { error: resetError } = await supabaseAdmin
+    .from('users')
+    .update({ login_attempts: 0, locked_until: null, last_login: new Date().toISOString() })
+    .eq('id', user.id);
+
+  if (resetError) {
+    console.error('Error resetting login attempts:', resetError);
+  }
+
+  if (verifyOnly) {
+    return json({ verified: true });
+  }
+
+  // Each login is a new session; this may evict the user's oldest session
+  const sessionId = await createSession(user.id, req);
+  if (!sessionId) {
+    return json({ error: 'Failed to create session' }, 500);
+  }
+
+  const { password_hash, is_active, is_suspended, locked_until, two_factor_enabled, ...tokenUser } = user;
+  return await issueTokens(tokenUser, sessionId, two_factor_enabled ? 'totp' : 'password');
+};
+
+const handleRefreshGrant = async (req: Request, refreshToken: string) => {
+  if (!refreshToken) {
+    return json({ error: 'Refresh token is required' }, 400);
+  }
+
+  const { data: stored, error } = await supabaseAdmin
+    .from('auth_refresh_tokens')
+    .select('id, user_id, session_id, expires_at, revoked_at')
+    .eq('token_hash', await hashToken(refreshToken))
+    .single();
+
+  if (error || !stored) {
+    return json({ error: 'Invalid refresh token' }, 401);
+  }
+
+  if (stored.revoked_at) {
+    // A rotated token was replayed: revoke the whole session to be safe
+    await supabaseAdmin
+      .from('auth_refresh_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('session_id', stored.session_id)
+      .is('revoked_at', null);
+    return json({ error: 'Refresh token has been revoked' }, 401);
+  }
+
+  if (new Date(stored.expires_at).getTime() < Date.now()) {
+    return json({ error: 'Refresh token has expired' }, 401);
+  }
+
+  // The session may have been revoked from another device or evicted by the session limit
+  if (!await touchSession(stored.session_id, req)) {
+    return json({ error: 'Session has been revoked' }, 401);
+  }
+
+  // Rotate: every refresh token can only be used once, so two requests racing with the same token
+  // cannot both claim it
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from('auth_refresh_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', stored.id)
+    .is('revoked_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (claimError || !claimed) {
+    return json({ error: 'Refresh token has been revoked' }, 401);
+  }
+
+  const { data: user, error: userError } = await supabaseAdmin
+    .from('users')
+    .select('id, phone_number, full_name, company_name, is_admin, role, is_active, is_suspended')
+    .eq('id', stored.user_id)
+    .single();
+
+  if (userError || !user) {
+    return json({ error: 'User not found' }, 401);
+  }
+
+  if (user.is_active === false || user.is_suspended) {
+    return json({ error: 'Account is not active' }, 403);
+  }
+
+  const { is_active, is_suspended, ...tokenUser } = user;
+  return await issueTokens(tokenUser, stored.session_id, 'refresh_token');
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  if (!jwtSecret) {
+    console.error('JWT_SECRET is not configured');
+    return json({ error: 'Token service is not configured' }, 500);
+  }
+
+  try {
+    const body = (await req.json()) as TokenRequest;
+
+    switch (body.grant_type) {
+      case 'password':
+        return await handlePasswordGrant(req, body.phone_number, body.password, body.two_factor_code, body.verify_only);
+      case 'refresh_token':
+        return await handleRefreshGrant(req, body.refresh_token);
+      default:
+        return json({ error: 'Unsupported grant type' }, 400);
+    }
+  } catch (error) {
+    console.error('Token endpoint error:', error);
+    return json({ error: 'An unexpected error occurred' }, 500);
+  }
+});
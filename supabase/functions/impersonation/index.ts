@@ -0,0 +1,217 @@
+// Supabase Edge Function for "view as client".
+// Staff with `users.impersonate` get a short-lived access token for a client account. The token
+// carries the impersonation id, so RLS can block writes in read-only mode and cut access as soon
+// as the session is stopped, even before the token itself expires. Starts, stops and the pages
+// viewed in between are written to `impersonation_events`.
+
+import { corsHeaders, json } from '../_shared/cors.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { getCaller, callerHasPermission } from '../_shared/auth.ts';
+import { getJwtSecret, mintAccessToken } from '../_shared/tokens.ts';
+
+const IMPERSONATION_TTL_SECONDS = 30 * 60; // 30 minutes
+const MAX_EVENT_DETAILS_LENGTH = 2000;
+
+type ImpersonationRequest =
+  | { action: 'start'; client_id: string; read_only?: boolean }
+  | { action: 'stop'; impersonation_id: string; reason?: string }
+  | { action: 'log_action'; impersonation_id: string; event_action: string; details?: Record<string, unknown> };
+
+interface ImpersonationEvent {
+  impersonation_id: string;
+  admin_id: string;
+  client_id: string;
+  event: 'started' | 'stopped' | 'action';
+  details: Record<string, unknown>;
+}
+
+const recordEvent = async (event: ImpersonationEvent): Promise<boolean> => {
+  const { error } = await supabaseAdmin.from('impersonation_events').insert(event);
+  if (error) {
+    console.error('Error recording impersonation event:', error);
+    return false;
+  }
+  return true;
+};
+
+const handleStart = async (req: Request, body: Extract<ImpersonationRequest, { action: 'start' }>) => {
+  // Impersonation tokens cannot be used to start another impersonation
+  const caller = await getCaller(req);
+  if (!caller) {
+    return json({ error: 'Authentication required' }, 401);
+  }
+
+  if (!await callerHasPermission(caller, 'users.impersonate')) {
+    return json({ error: 'You do not have permission to view as a client' }, 403);
+  }
+
+  const { data: client } = await supabaseAdmin
+    .from('users')
+    .select('id, phone_number, full_name, company_name, is_admin, role, two_factor_enabled, password_changed_at, created_at, updated_at')
+    .eq('id', body.client_id)
+    .single();
+
+  if (!client) {
+    return json({ error: 'Client not found' }, 404);
+  }
+
+  if (client.is_admin) {
+    return json({ error: 'Staff accounts cannot be impersonated' }, 400);
+  }
+
+  const readOnly = body.read_only !== false;
+  const expiresAt = new Date(Date.now() + IMPERSONATION_TTL_SECONDS * 1000).toISOString();
+
+  const { data: impersonation, error } = await supabaseAdmin
+    .from('impersonation_sessions')
+    .insert({
+      admin_id: caller.id,
+      client_id: client.id,
+      read_only: readOnly,
+      expires_at: expiresAt
+    })
+    .select('id')
+    .single();
+
+  if (error || !impersonation) {
+    console.error('Error starting impersonation:', error);
+    return json({ error: 'Failed to start impersonation' }, 500);
+  }
+
+  // No token is handed out unless the start is on record
+  const recorded = await recordEvent({
+    impersonation_id: impersonation.id,
+    admin_id: caller.id,
+    client_id: client.id,
+    event: 'started',
+    details: { read_only: readOnly, expires_at: expiresAt }
+  });
+
+  if (!recorded) {
+    await supabaseAdmin
+      .from('impersonation_sessions')
+      .update({ ended_at: new Date().toISOString() })
+      .eq('id', impersonation.id);
+    return json({ error: 'Failed to start impersonation' }, 500);
+  }
+
+  const { accessToken, expiresAt: tokenExpiresAt } = await mintAccessToken(client, caller.sessionId ?? impersonation.id, 'impersonation', {
+    ttlSeconds: IMPERSONATION_TTL_SECONDS,
+    impersonation: {
+      impersonation_id: impersonation.id,
+      impersonator_id: caller.id,
+      read_only: readOnly
+    }
+  });
+
+  return json({
+    id: impersonation.id,
+    access_token: accessToken,
+    expires_at: tokenExpiresAt,
+    read_only: readOnly,
+    client
+  });
+};
+
+// Works with either the staff member's own token or the impersonation token itself
+const handleStop = async (req: Request, body: Extract<ImpersonationRequest, { action: 'stop' }>) => {
+  const caller = await getCaller(req, { allowImpersonation: true });
+  if (!caller) {
+    return json({ error: 'Authentication required' }, 401);
+  }
+
+  const { data: stopped } = await supabaseAdmin
+    .from('impersonation_sessions')
+    .update({ ended_at: new Date().toISOString() })
+    .eq('id', body.impersonation_id)
+    .eq('admin_id', caller.impersonatorId ?? caller.id)
+    .is('ended_at', null)
+    .select('id, admin_id, client_id')
+    .maybeSingle();
+
+  if (stopped) {
+    await recordEvent({
+      impersonation_id: stopped.id,
+      admin_id: stopped.admin_id,
+      client_id: stopped.client_id,
+      event: 'stopped',
+      details: { reason: body.reason ?? 'stopped' }
+    });
+  }
+
+  return json({ success: true, stopped: !!stopped });
+};
+
+// Something the staff member did while viewing as the client, e.g. a page they opened. Only
+// accepted for the caller's own session while it is still live.
+const handleLogAction = async (req: Request, body: Extract<ImpersonationRequest, { action: 'log_action' }>) => {
+  const caller = await getCaller(req, { allowImpersonation: true });
+  if (!caller) {
+    return json({ error: 'Authentication required' }, 401);
+  }
+
+  if (!body.event_action) {
+    return json({ error: 'Action is required' }, 400);
+  }
+
+  const details = { ...(body.details ?? {}), action: body.event_action };
+  if (JSON.stringify(details).length > MAX_EVENT_DETAILS_LENGTH) {
+    return json({ error: 'Action details are too large' }, 400);
+  }
+
+  const { data: session } = await supabaseAdmin
+    .from('impersonation_sessions')
+    .select('id, admin_id, client_id')
+    .eq('id', body.impersonation_id)
+    .eq('admin_id', caller.impersonatorId ?? caller.id)
+    .is('ended_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (!session) {
+    return json({ error: 'Impersonation session not found' }, 404);
+  }
+
+  const recorded = await recordEvent({
+    impersonation_id: session.id,
+    admin_id: session.admin_id,
+    client_id: session.client_id,
+    event: 'action',
+    details
+  });
+
+  return recorded ? json({ success: true }) : json({ error: 'Failed to record action' }, 500);
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  if (!getJwtSecret()) {
+    console.error('JWT_SECRET is not configured');
+    return json({ error: 'Token service is not configured' }, 500);
+  }
+
+  try {
+    const body = (await req.json()) as ImpersonationRequest;
+
+    switch (body.action) {
+      case 'start':
+        return await handleStart(req, body);
+      case 'stop':
+        return await handleStop(req, body);
+      case 'log_action':
+        return await handleLogAction(req, body);
+      default:
+        return json({ error: 'Unsupported action' }, 400);
+    }
+  } catch (error) {
+    console.error('Impersonation error:', error);
+    return json({ error: 'An unexpected error occurred' }, 500);
+  }
+});
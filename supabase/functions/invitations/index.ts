@@ -0,0 +1,214 @@
+// Supabase Edge Function for invitation-based onboarding.
+// Staff with `users.manage` create a signed, expiring link for an account they created; the invitee
+// opens it on /accept-invite and sets their password. Accounts that already have a password cannot
+// be invited, so a link can never take over an active account. Each link works once and only the newest
+// link per user is valid. Links for organization colleagues are issued by `organizations`.
+
+import bcrypt from 'npm:bcryptjs@3';
+import { corsHeaders, json } from '../_shared/cors.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { getCaller, callerHasPermission } from '../_shared/auth.ts';
+import { getPasswordPolicy, validatePassword } from '../_shared/password.ts';
+import { issueInvitation, loadInvitation, PENDING_PASSWORD_HASH } from '../_shared/invitations.ts';
+
+type InvitationRequest =
+  | { action: 'create'; user_id: string; project_id?: string; expires_in_days?: number; send?: boolean }
+  | { action: 'verify'; token: string }
+  | { action: 'accept'; token: string; password: string };
+
+// Staff create placeholder projects for clients who do not have an account yet; only those can be
+// handed to an invitee, never a project that already belongs to another client
+const canAttachProject = async (projectId: string, userId: string): Promise<boolean> => {
+  const { data: project } = await supabaseAdmin
+    .from('projects')
+    .select('user_id, users!inner(is_admin)')
+    .eq('id', projectId)
+    .single();
+
+  if (!project) return false;
+  return project.user_id === userId || project.users.is_admin === true;
+};
+
+const handleCreate = async (req: Request, body: Extract<InvitationRequest, { action: 'create' }>) => {
+  const caller = await getCaller(req);
+  if (!caller) {
+    return json({ error: 'Authentication required' }, 401);
+  }
+
+  if (!await callerHasPermission(caller, 'users.manage')) {
+    return json({ error: 'You do not have permission to invite users' }, 403);
+  }
+
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('id, full_name, phone_number, password_hash')
+    .eq('id', body.user_id)
+    .single();
+
+  if (!user) {
+    return json({ error: 'User not found' }, 404);
+  }
+
+  if (user.password_hash !== PENDING_PASSWORD_HASH) {
+    return json({ error: 'This account has already been set up, so it cannot be invited' }, 409);
+  }
+
+  if (body.project_id && !await canAttachProject(body.project_id, user.id)) {
+    return json({ error: 'That project already belongs to another client' }, 400);
+  }
+
+  const issued = await issueInvitation(req, {
+    user,
+    invitedBy: caller.id,
+    projectId: body.project_id,
+    expiresInDays: body.expires_in_days,
+    send: body.send
+  });
+
+  if (!issued) {
+    return json({ error: 'Failed to create invitation' }, 500);
+  }
+
+  return json({ success: true, ...issued });
+};
+
+const handleVerify = async (token: string) => {
+  const invitation = await loadInvitation(token);
+  if (!invitation) {
+    return json({ error: 'This invitation is invalid or has expired' }, 400);
+  }
+
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('full_name, company_name, phone_number, password_hash')
+    .eq('id', invitation.user_id)
+    .single();
+
+  if (user && user.password_hash !== PENDING_PASSWORD_HASH) {
+    return json({ error: 'This account has already been set up. Please sign in instead.' }, 400);
+  }
+
+  let projectName: string | null = null;
+  if (invitation.project_id) {
+    const { data: project } = await supabaseAdmin
+      .from('projects')
+      .select('name')
+      .eq('id', invitation.project_id)
+      .single();
+    projectName = project?.name ?? null;
+  }
+
+  return json({
+    full_name: user?.full_name ?? null,
+    company_name: user?.company_name ?? null,
+    phone_number: user?.phone_number ?? null,
+    project_name: projectName,
+    expires_at: invitation.expires_at
+  });
+};
+
+const handleAccept = async (token: string, password: string) => {
+  const invitation = await loadInvitation(token);
+  if (!invitation) {
+    return json({ error: 'This invitation is invalid or has expired' }, 400);
+  }
+
+  const passwordValidation = validatePassword(password || '', await getPasswordPolicy());
+  if (!passwordValidation.isValid) {
+    return json({ error: passwordValidation.errors.join(', ') }, 400);
+  }
+
+  const { data: invitee } = await supabaseAdmin
+    .from('users')
+    .select('password_hash')
+    .eq('id', invitation.user_id)
+    .single();
+
+  if (!invitee || invitee.password_hash !== PENDING_PASSWORD_HASH) {
+    return json({ error: 'This account has already been set up. Please sign in instead.' }, 400);
+  }
+
+  const now = new Date().toISOString();
+
+  // Claim the invitation first so a link cannot be used twice in parallel
+  const { data: claimed } = await supabaseAdmin
+    .from('user_invitations')
+    .update({ accepted_at: now })
+    .eq('id', invitation.id)
+    .is('accepted_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (!claimed) {
+    return json({ error: 'This invitation has already been used' }, 400);
+  }
+
+  const { data: user, error } = await supabaseAdmin
+    .from('users')
+    .update({
+      password_hash: await bcrypt.hash(password, 12),
+      password_changed_at: now,
+      is_active: true,
+      updated_at: now
+    })
+    .eq('id', invitation.user_id)
+    // Never replace a password that was set in the meantime
+    .eq('password_hash', PENDING_PASSWORD_HASH)
+    .select('id, phone_number, full_name, company_name, is_admin, role, two_factor_enabled, password_changed_at, created_at, updated_at')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error accepting invitation:', error);
+    return json({ error: 'Failed to set up your account' }, 500);
+  }
+
+  if (!user) {
+    return json({ error: 'This account has already been set up. Please sign in instead.' }, 400);
+  }
+
+  let projectId: string | null = null;
+  if (invitation.project_id && await canAttachProject(invitation.project_id, user.id)) {
+    await supabaseAdmin
+      .from('projects')
+      .update({ user_id: user.id, updated_at: now })
+      .eq('id', invitation.project_id);
+    projectId = invitation.project_id;
+  }
+
+  // Colleagues invited by a client organization owner join the organization once they accept
+  await supabaseAdmin
+    .from('collaborations')
+    .update({ status: 'active', updated_at: now })
+    .eq('user_id', user.id)
+    .eq('status', 'pending');
+
+  return json({ success: true, user, project_id: projectId });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const body = (await req.json()) as InvitationRequest;
+
+    switch (body.action) {
+      case 'create':
+        return await handleCreate(req, body);
+      case 'verify':
+        return await handleVerify(body.token);
+      case 'accept':
+        return await handleAccept(body.token, body.password);
+      default:
+        return json({ error: 'Unsupported action' }, 400);
+    }
+  } catch (error) {
+    console.error('Invitations error:', error);
+    return json({ error: 'An unexpected error occurred' }, 500);
+  }
+});
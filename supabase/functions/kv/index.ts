@@ -0,0 +1,273 @@
+// Supabase Edge Function backing `src/lib/redis.ts` when VITE_KV_BACKEND=server.
+// Keys and channels live in the Redis instance at REDIS_URL. Sessions are keyed by their
+// server-issued id; every other key is scoped to the caller so clients never share a cache.
+// `subscribe` holds the request open as a server-sent event stream of channel messages.
+//
+// Deploy:
+//   supabase secrets set REDIS_URL=redis://default:<password>@<host>:<port>
+//   supabase functions deploy kv
+// then build the app with VITE_KV_BACKEND=server.
+
+import { createClient } from 'npm:redis@5';
+import { corsHeaders, json } from '../_shared/cors.ts';
+import { getCaller, Caller } from '../_shared/auth.ts';
+
+const SESSION_PREFIX = 'session:';
+const NOTIFICATION_PREFIX = 'notification:';
+const MESSAGE_PREFIX = 'message:';
+
+const MAX_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const MAX_SCAN_COUNT = 1000;
+
+type KvRequest =
+  | { action: 'get'; key: string }
+  | { action: 'set'; key: string; value: string; ttl_seconds: number }
+  | { action: 'del'; key: string }
+  | { action: 'keys'; pattern?: string }
+  | { action: 'scan'; cursor?: string; match?: string; count?: number }
+  | { action: 'publish'; channel: string; message: string }
+  | { action: 'subscribe'; channel: string };
+
+type RedisClient = ReturnType<typeof createClient>;
+
+let redisClient: Promise<RedisClient> | null = null;
+
+// One connection per isolate, reused across requests
+const getRedis = (): Promise<RedisClient> => {
+  if (!redisClient) {
+    const client = createClient({ url: Deno.env.get('REDIS_URL') });
+    client.on('error', (error) => console.error('Redis client error:', error));
+    redisClient = client.connect().catch((error) => {
+      redisClient = null;
+      throw error;
+    });
+  }
+  return redisClient;
+};
+
+const isSessionKey = (key: string) => key.startsWith(SESSION_PREFIX);
+
+const scopeKey = (caller: Caller, key: string) => `user:${caller.id}:${key}`;
+
+// Server-side code publishes with the service role key rather than a user token
+const isServiceRoleRequest = (req: Request): boolean => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return !!token && !!serviceRoleKey && token === serviceRoleKey;
+};
+
+// Notifications are sent by staff and only read by their recipient; message rooms are
+// named after both participants, so only they (and staff) can use them
+const canUseChannel = (caller: Caller, channel: string, mode: 'publish' | 'subscribe'): boolean => {
+  if (channel.startsWith(NOTIFICATION_PREFIX)) {
+    return mode === 'publish' ? caller.isAdmin : channel.slice(NOTIFICATION_PREFIX.length) === caller.id;
+  }
+
+  if (channel.startsWith(MESSAGE_PREFIX)) {
+    return caller.isAdmin || channel.slice(MESSAGE_PREFIX.length).includes(caller.id);
+  }
+
+  return false;
+};
+
+// Session ids are unguessable and read while the browser is still restoring its access token,
+// so they are looked up by id alone; writing one requires the session's own user
+const handleGet = async (caller: Caller | null, key: string) => {
+  if (!isSessionKey(key) && !caller) {
+    return json({ error: 'Authentication required' }, 401);
+  }
+
+  const redis = await getRedis();
+  const value = await redis.get(isSessionKey(key) ? key : scopeKey(caller!, key));
+  return json({ value });
+};
+
+const handleSet = async (caller: Caller | null, body: Extract<KvRequest, { action: 'set' }>) => {
+  if (!caller) {
+    return json({ error: 'Authentication required' }, 401);
+  }
+
+  if (isSessionKey(body.key) && (body.value !== caller.id || caller.impersonatorId)) {
+    return json({ error: 'Sessions can only be stored for your own account' }, 403);
+  }
+
+  const ttlSeconds = Math.floor(Number(body.ttl_seconds));
+  if (!Number.isFinite(ttlSeconds) || ttlSeconds <= 0 || ttlSeconds > MAX_TTL_SECONDS) {
+    return json({ error: 'Invalid expiry' }, 400);
+  }
+
+  const redis = await getRedis();
+  await redis.setEx(isSessionKey(body.key) ? body.key : scopeKey(caller, body.key), ttlSeconds, String(body.value));
+  return json({ success: true });
+};
+
+// Like writing one, removing a session requires the session's own user
+const handleDel = async (caller: Caller | null, key: string) => {
+  if (!caller) {
+    return json({ error: 'Authentication required' }, 401);
+  }
+
+  const redis = await getRedis();
+  if (!isSessionKey(key)) {
+    await redis.del(scopeKey(caller, key));
+    return json({ success: true });
+  }
+
+  if (caller.impersonatorId) {
+    return json({ error: 'Sessions can only be removed for your own account' }, 403);
+  }
+
+  const owner = await redis.get(key);
+  if (owner !== null && owner !== caller.id) {
+    return json({ error: 'Sessions can only be removed for your own account' }, 403);
+  }
+
+  await redis.del(key);
+  return json({ success: true });
+};
+
+// Lists the caller's own keys; the namespace prefix is stripped so keys match what the client set
+const handleKeys = async (caller: Caller | null, pattern = '*') => {
+  if (!caller) {
+    return json({ error: 'Authentication required' }, 401);
+  }
+
+  const redis = await getRedis();
+  const namespace = scopeKey(caller, '');
+  const keys: string[] = [];
+  let cursor = '0';
+  do {
+    const reply = await redis.scan(cursor, { MATCH: `${namespace}${pattern}`, COUNT: MAX_SCAN_COUNT });
+    cursor = String(reply.cursor);
+    keys.push(...reply.keys.map((key) => key.slice(namespace.length)));
+  } while (cursor !== '0');
+
+  return json({ keys: [...new Set(keys)].sort() });
+};
+
+const handleScan = async (caller: Caller | null, body: Extract<KvRequest, { action: 'scan' }>) => {
+  if (!caller) {
+    return json({ error: 'Authentication required' }, 401);
+  }
+
+  const redis = await getRedis();
+  const namespace = scopeKey(caller, '');
+  const count = Math.min(Math.max(Math.floor(Number(body.count) || 10), 1), MAX_SCAN_COUNT);
+  const reply = await redis.scan(body.cursor || '0', { MATCH: `${namespace}${body.match ?? '*'}`, COUNT: count });
+
+  return json({
+    cursor: String(reply.cursor),
+    keys: reply.keys.map((key) => key.slice(namespace.length))
+  });
+};
+
+const handlePublish = async (req: Request, caller: Caller | null, channel: string, message: string) => {
+  if (!isServiceRoleRequest(req)) {
+    if (!caller) {
+      return json({ error: 'Authentication required' }, 401);
+    }
+
+    if (caller.readOnly || !canUseChannel(caller, channel, 'publish')) {
+      return json({ error: 'You cannot publish to this channel' }, 403);
+    }
+  }
+
+  const redis = await getRedis();
+  const receivers = await redis.publish(channel, String(message));
+  return json({ success: true, receivers });
+};
+
+// Streams each message on the channel as an SSE `data:` line holding the JSON-encoded string
+const handleSubscribe = async (req: Request, caller: Caller | null, channel: string) => {
+  if (!caller) {
+    return json({ error: 'Authentication required' }, 401);
+  }
+
+  if (!canUseChannel(caller, channel, 'subscribe')) {
+    return json({ error: 'You cannot subscribe to this channel' }, 403);
+  }
+
+  const subscriber = (await getRedis()).duplicate();
+  await subscriber.connect();
+
+  const encoder = new TextEncoder();
+  let heartbeat: number | undefined;
+  let isClosed = false;
+
+  const close = () => {
+    if (isClosed) return;
+    isClosed = true;
+    clearInterval(heartbeat);
+    subscriber.unsubscribe(channel).catch(() => undefined).finally(() => subscriber.destroy());
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+
+      await subscriber.subscribe(channel, (message: string) => send(`data: ${JSON.stringify(message)}\n\n`));
+      send(': subscribed\n\n');
+      heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+      req.signal.addEventListener('abort', close);
+    },
+    cancel: close
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    }
+  });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  if (!Deno.env.get('REDIS_URL')) {
+    console.error('REDIS_URL is not configured');
+    return json({ error: 'Key-value store is not configured' }, 500);
+  }
+
+  try {
+    const body = (await req.json()) as KvRequest;
+    const caller = await getCaller(req, { allowImpersonation: true });
+
+    switch (body.action) {
+      case 'get':
+        return await handleGet(caller, body.key);
+      case 'set':
+        return await handleSet(caller, body);
+      case 'del':
+        return await handleDel(caller, body.key);
+      case 'keys':
+        return await handleKeys(caller, body.pattern);
+      case 'scan':
+        return await handleScan(caller, body);
+      case 'publish':
+        return await handlePublish(req, caller, body.channel, body.message);
+      case 'subscribe':
+        return await handleSubscribe(req, caller, body.channel);
+      default:
+        return json({ error: 'Unsupported action' }, 400);
+    }
+  } catch (error) {
+    console.error('Key-value store error:', error);
+    return json({ error: 'An unexpected error occurred' }, 500);
+  }
+});
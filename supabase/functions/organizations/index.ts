@@ -0,0 +1,295 @@
+// Supabase Edge Function for client organizations.
+// A client owner invites colleagues as viewer, editor or approver. Memberships are rows in
+// `collaborations`; projects shared with the team carry the organization's id. The owner's
+// organization is created on their first invite, taking their existing projects with it.
+
+import { corsHeaders, json } from '../_shared/cors.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { getCaller, Caller } from '../_shared/auth.ts';
+import { issueInvitation, PENDING_PASSWORD_HASH } from '../_shared/invitations.ts';
+
+const MEMBER_ROLES = ['viewer', 'editor', 'approver'] as const;
+type MemberRole = typeof MEMBER_ROLES[number];
+
+type OrganizationRequest =
+  | { action: 'list_members' }
+  | { action: 'invite_member'; full_name: string; phone_number: string; role: MemberRole }
+  | { action: 'update_member'; member_id: number; role: MemberRole }
+  | { action: 'remove_member'; member_id: number };
+
+const isMemberRole = (role: string): role is MemberRole => (MEMBER_ROLES as readonly string[]).includes(role);
+
+const getActiveMembership = async (userId: string) => {
+  const { data } = await supabaseAdmin
+    .from('collaborations')
+    .select('id, organization_id, role')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  return data;
+};
+
+// The caller's organization if they own one, creating it the first time they build a team
+const getOrCreateOwnedOrganization = async (caller: Caller): Promise<string | null> => {
+  const membership = await getActiveMembership(caller.id);
+  if (membership) {
+    return membership.role === 'owner' ? membership.organization_id : null;
+  }
+
+  const { data: owner } = await supabaseAdmin
+    .from('users')
+    .select('full_name, company_name, is_admin')
+    .eq('id', caller.id)
+    .single();
+
+  if (!owner || owner.is_admin) return null;
+
+  const { data: organization, error } = await supabaseAdmin
+    .from('organizations')
+    .insert({
+      name: owner.company_name || `${owner.full_name || 'My'} Team`,
+      owner_id: caller.id
+    })
+    .select('id')
+    .single();
+
+  if (error || !organization) {
+    console.error('Error creating organization:', error);
+    return null;
+  }
+
+  await supabaseAdmin.from('collaborations').insert({
+    organization_id: organization.id,
+    user_id: caller.id,
+    requester_id: caller.id,
+    role: 'owner',
+    status: 'active'
+  });
+
+  await supabaseAdmin
+    .from('projects')
+    .update({ organization_id: organization.id })
+    .eq('user_id', caller.id)
+    .is('organization_id', null);
+
+  return organization.id;
+};
+
+// Any active member can see the team; names come from users, which clients cannot read directly
+const handleListMembers = async (caller: Caller) => {
+  const membership = await getActiveMembership(caller.id);
+  if (!membership) {
+    return json({ organization: null, role: null, members: [] });
+  }
+
+  const [{ data: organization }, { data: collaborations }] = await Promise.all([
+    supabaseAdmin.from('organizations').select('id, name').eq('id', membership.organization_id).single(),
+    supabaseAdmin
+      .from('collaborations')
+      .select('id, user_id, role, status, created_at')
+      .eq('organization_id', membership.organization_id)
+      .neq('status', 'removed')
+      .order('created_at', { ascending: true })
+  ]);
+
+  const userIds = (collaborations || []).map(collaboration => collaboration.user_id);
+  const { data: users } = userIds.length > 0
+    ? await supabaseAdmin.from('users').select('id, full_name, phone_number').in('id', userIds)
+    : { data: [] };
+
+  const usersById = new Map((users || []).map(user => [user.id, user]));
+  const members = (collaborations || []).map(collaboration => ({
+    id: collaboration.id,
+    user_id: collaboration.user_id,
+    full_name: usersById.get(collaboration.user_id)?.full_name ?? null,
+    phone_number: usersById.get(collaboration.user_id)?.phone_number ?? null,
+    role: collaboration.role,
+    status: collaboration.status,
+    created_at: collaboration.created_at
+  }));
+
+  return json({ organization, role: membership.role, members });
+};
+
+const handleInviteMember = async (req: Request, caller: Caller, body: Extract<OrganizationRequest, { action: 'invite_member' }>) => {
+  if (!body.full_name?.trim() || !body.phone_number) {
+    return json({ error: 'Name and phone number are required' }, 400);
+  }
+
+  if (!isMemberRole(body.role)) {
+    return json({ error: 'Role must be viewer, editor or approver' }, 400);
+  }
+
+  const organizationId = await getOrCreateOwnedOrganization(caller);
+  if (!organizationId) {
+    return json({ error: 'Only the organization owner can invite colleagues' }, 403);
+  }
+
+  const { data: existingUser } = await supabaseAdmin
+    .from('users')
+    .select('id, phone_number, is_admin, password_hash')
+    .eq('phone_number', body.phone_number)
+    .maybeSingle();
+
+  if (existingUser?.is_admin) {
+    return json({ error: 'This phone number belongs to a staff account' }, 400);
+  }
+
+  if (existingUser) {
+    const membership = await getActiveMembership(existingUser.id);
+    if (membership) {
+      return json({
+        error: membership.organization_id === organizationId
+          ? 'This person is already on your team'
+          : 'This person already belongs to another organization'
+      }, 400);
+    }
+  }
+
+  const { data: organization } = await supabaseAdmin
+    .from('organizations')
+    .select('name')
+    .eq('id', organizationId)
+    .single();
+
+  let member = existingUser;
+  if (!member) {
+    const { data: createdUser, error } = await supabaseAdmin
+      .from('users')
+      .insert({
+        phone_number: body.phone_number,
+        full_name: body.full_name.trim(),
+        company_name: organization?.name ?? null,
+        password_hash: PENDING_PASSWORD_HASH, // Unusable until the invitee sets a password
+        is_admin: false,
+        role: 'client',
+        is_active: true
+      })
+      .select('id, phone_number, is_admin, password_hash')
+      .single();
+
+    if (error || !createdUser) {
+      console.error('Error creating member account:', error);
+      return json({ error: 'Failed to invite colleague' }, 500);
+    }
+    member = createdUser;
+  }
+
+  // People who already have a password join straight away; new accounts join when they accept
+  const needsInvitation = !existingUser || existingUser.password_hash === PENDING_PASSWORD_HASH;
+
+  const { data: collaboration, error: collaborationError } = await supabaseAdmin
+    .from('collaborations')
+    .upsert({
+      organization_id: organizationId,
+      user_id: member.id,
+      requester_id: caller.id,
+      requested_phone: body.phone_number,
+      role: body.role,
+      status: needsInvitation ? 'pending' : 'active',
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'organization_id,user_id' })
+    .select('id')
+    .single();
+
+  if (collaborationError || !collaboration) {
+    console.error('Error adding member:', collaborationError);
+    return json({ error: 'Failed to invite colleague' }, 500);
+  }
+
+  if (!needsInvitation) {
+    return json({ success: true, member_id: collaboration.id, invitation: null });
+  }
+
+  const invitation = await issueInvitation(req, { user: member, invitedBy: caller.id, send: true });
+  return json({ success: true, member_id: collaboration.id, invitation });
+};
+
+// Loads a member of the caller's organization, or null when the caller is not its owner
+const getManagedMember = async (caller: Caller, memberId: number) => {
+  const membership = await getActiveMembership(caller.id);
+  if (membership?.role !== 'owner') return null;
+
+  const { data: member } = await supabaseAdmin
+    .from('collaborations')
+    .select('id, user_id, role')
+    .eq('id', memberId)
+    .eq('organization_id', membership.organization_id)
+    .neq('status', 'removed')
+    .maybeSingle();
+
+  return member;
+};
+
+const handleUpdateMember = async (caller: Caller, memberId: number, role: string) => {
+  if (!isMemberRole(role)) {
+    return json({ error: 'Role must be viewer, editor or approver' }, 400);
+  }
+
+  const member = await getManagedMember(caller, memberId);
+  if (!member || member.role === 'owner') {
+    return json({ error: 'Member not found' }, 404);
+  }
+
+  await supabaseAdmin
+    .from('collaborations')
+    .update({ role, updated_at: new Date().toISOString() })
+    .eq('id', member.id);
+
+  return json({ success: true });
+};
+
+const handleRemoveMember = async (caller: Caller, memberId: number) => {
+  const member = await getManagedMember(caller, memberId);
+  if (!member || member.role === 'owner') {
+    return json({ error: 'Member not found' }, 404);
+  }
+
+  await supabaseAdmin
+    .from('collaborations')
+    .update({ status: 'removed', updated_at: new Date().toISOString() })
+    .eq('id', member.id);
+
+  return json({ success: true });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  // Staff viewing the portal as a client can see the team but not change it
+  const caller = await getCaller(req, { allowImpersonation: true });
+  if (!caller) {
+    return json({ error: 'Authentication required' }, 401);
+  }
+
+  try {
+    const body = (await req.json()) as OrganizationRequest;
+
+    if (caller.impersonatorId && body.action !== 'list_members') {
+      return json({ error: 'Not available while viewing as a client' }, 403);
+    }
+
+    switch (body.action) {
+      case 'list_members':
+        return await handleListMembers(caller);
+      case 'invite_member':
+        return await handleInviteMember(req, caller, body);
+      case 'update_member':
+        return await handleUpdateMember(caller, body.member_id, body.role);
+      case 'remove_member':
+        return await handleRemoveMember(caller, body.member_id);
+      default:
+        return json({ error: 'Unsupported action' }, 400);
+    }
+  } catch (error) {
+    console.error('Organizations error:', error);
+    return json({ error: 'An unexpected error occurred' }, 500);
+  }
+});
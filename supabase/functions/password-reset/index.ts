@@ -0,0 +1,291 @@
+// Supabase Edge Function for self-service password reset with a one-time code.
+// Codes are stored hashed, expire after 10 minutes, allow a limited number of
+// guesses and are delivered through the configured SMS/WhatsApp transport.
+// Signed-in users also change their password here (`change`), which requires the current one.
+
+import bcrypt from 'npm:bcryptjs@3';
+import { corsHeaders, json } from '../_shared/cors.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { getMessageTransport, MessageChannel, MessageTransport } from '../_shared/transports.ts';
+import { getPasswordPolicy, validatePassword } from '../_shared/password.ts';
+import { getCaller, Caller } from '../_shared/auth.ts';
+import { revokeSessions } from '../_shared/sessions.ts';
+
+const CODE_LENGTH = 6;
+const CODE_TTL_MINUTES = 10;
+const MAX_VERIFY_ATTEMPTS = 5;
+const MAX_REQUESTS_PER_HOUR = 3;
+
+type ResetRequest =
+  | { action: 'request'; phone_number: string; channel?: MessageChannel }
+  | { action: 'confirm'; phone_number: string; code: string; new_password: string }
+  | { action: 'change'; current_password: string; new_password: string };
+
+// Uniform response for unknown numbers so the endpoint cannot be used to enumerate accounts
+const CODE_SENT_RESPONSE = { success: true, message: 'If an account exists for this number, a reset code has been sent' };
+
+const generateCode = (): string => {
+  const value = crypto.getRandomValues(new Uint32Array(1))[0] % 10 ** CODE_LENGTH;
+  return value.toString().padStart(CODE_LENGTH, '0');
+};
+
+const handleRequest = async (phoneNumber: string, channel: MessageChannel = 'sms') => {
+  if (!phoneNumber) {
+    return json({ error: 'Phone number is required' }, 400);
+  }
+
+  // Refuse every request alike when codes cannot be delivered
+  let transport: MessageTransport;
+  try {
+    transport = getMessageTransport();
+  } catch (configError) {
+    console.error('Password reset is unavailable:', configError);
+    return json({ error: 'Password reset is not available right now' }, 503);
+  }
+
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('id, is_active, is_suspended')
+    .eq('phone_number', phoneNumber)
+    .single();
+
+  if (!user || user.is_active === false || user.is_suspended) {
+    return json(CODE_SENT_RESPONSE);
+  }
+
+  // Rate limit code requests per account
+  const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  const { count } = await supabaseAdmin
+    .from('password_reset_codes')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', user.id)
+    .gte('created_at', oneHourAgo);
+
+  // Answered like any other request, so the limit does not reveal that the account exists
+  if ((count || 0) >= MAX_REQUESTS_PER_HOUR) {
+    return json(CODE_SENT_RESPONSE);
+  }
+
+  // Only the newest code is valid
+  await supabaseAdmin
+    .from('password_reset_codes')
+    .update({ consumed_at: new Date().toISOString() })
+    .eq('user_id', user.id)
+    .is('consumed_at', null);
+
+  const code = generateCode();
+  const { error } = await supabaseAdmin
+    .from('password_reset_codes')
+    .insert({
+      user_id: user.id,
+      code_hash: await bcrypt.hash(code, 10),
+      channel,
+      expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000).toISOString()
+    });
+
+  if (error) {
+    console.error('Error storing reset code:', error);
+    return json({ error: 'Failed to create reset code' }, 500);
+  }
+
+  try {
+    await transport.send(
+      phoneNumber,
+      `Your Muahib Solution password reset code is ${code}. It expires in ${CODE_TTL_MINUTES} minutes.`,
+      channel
+    );
+  } catch (sendError) {
+    // Not reported to the caller, which would only happen for existing accounts
+    console.error('Error sending reset code:', sendError);
+  }
+
+  return json(CODE_SENT_RESPONSE);
+};
+
+const handleConfirm = async (phoneNumber: string, code: string, newPassword: string) => {
+  if (!phoneNumber || !code || !newPassword) {
+    return json({ error: 'Phone number, code and new password are required' }, 400);
+  }
+
+  const passwordValidation = validatePassword(newPassword, await getPasswordPolicy());
+  if (!passwordValidation.isValid) {
+    return json({ error: passwordValidation.errors.join(', ') }, 400);
+  }
+
+  const invalidCode = () => json({ error: 'Invalid or expired reset code' }, 400);
+
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('id')
+    .eq('phone_number', phoneNumber)
+    .single();
+
+  if (!user) return invalidCode();
+
+  const { data: resetCode } = await supabaseAdmin
+    .from('password_reset_codes')
+    .select('id, code_hash, expires_at')
+    .eq('user_id', user.id)
+    .is('consumed_at', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!resetCode || new Date(resetCode.expires_at).getTime() < Date.now()) {
+    return invalidCode();
+  }
+
+  // Every guess takes one attempt before the code is compared, in a single statement, so
+  // parallel guesses cannot share an attempt
+  const { data: attemptClaimed, error: attemptError } = await supabaseAdmin.rpc('use_password_reset_attempt', {
+    p_code_id: resetCode.id,
+    p_max_attempts: MAX_VERIFY_ATTEMPTS
+  });
+
+  if (attemptError) {
+    console.error('Error recording reset code attempt:', attemptError);
+    return json({ error: 'Failed to reset password' }, 500);
+  }
+
+  if (!attemptClaimed) {
+    return json({ error: 'Too many incorrect attempts. Please request a new code.' }, 429);
+  }
+
+  const isValidCode = await bcrypt.compare(code, resetCode.code_hash);
+  if (!isValidCode) {
+    return invalidCode();
+  }
+
+  const now = new Date().toISOString();
+
+  // Only one request can consume the code
+  const { data: consumed } = await supabaseAdmin
+    .from('password_reset_codes')
+    .update({ consumed_at: now })
+    .eq('id', resetCode.id)
+    .is('consumed_at', null)
+    .select('id');
+
+  if (!consumed?.length) {
+    return invalidCode();
+  }
+
+  const { error } = await supabaseAdmin
+    .from('users')
+    .update({
+      password_hash: await bcrypt.hash(newPassword, 12),
+      password_changed_at: now,
+      login_attempts: 0,
+      locked_until: null,
+      updated_at: now
+    })
+    .eq('id', user.id);
+
+  if (error) {
+    console.error('Error updating password:', error);
+    return json({ error: 'Failed to reset password' }, 500);
+  }
+
+  // Sign out every existing session for this account
+  const { data: activeSessions } = await supabaseAdmin
+    .from('user_sessions')
+    .select('id')
+    .eq('user_id', user.id)
+    .is('revoked_at', null);
+
+  await revokeSessions(user.id, (activeSessions || []).map(session => session.id));
+
+  // Including refresh tokens issued outside a tracked session
+  await supabaseAdmin
+    .from('auth_refresh_tokens')
+    .update({ revoked_at: now })
+    .eq('user_id', user.id)
+    .is('revoked_at', null);
+
+  return json({ success: true });
+};
+
+const handleChange = async (caller: Caller, currentPassword: string, newPassword: string) => {
+  if (!currentPassword || !newPassword) {
+    return json({ error: 'Current and new password are required' }, 400);
+  }
+
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('id, password_hash')
+    .eq('id', caller.id)
+    .single();
+
+  if (!user || !await bcrypt.compare(currentPassword, user.password_hash)) {
+    return json({ error: 'Current password is incorrect' }, 400);
+  }
+
+  if (await bcrypt.compare(newPassword, user.password_hash)) {
+    return json({ error: 'New password must be different from the current one' }, 400);
+  }
+
+  const passwordValidation = validatePassword(newPassword, await getPasswordPolicy());
+  if (!passwordValidation.isValid) {
+    return json({ error: passwordValidation.errors.join(', ') }, 400);
+  }
+
+  const now = new Date().toISOString();
+  const { error } = await supabaseAdmin
+    .from('users')
+    .update({
+      password_hash: await bcrypt.hash(newPassword, 12),
+      password_changed_at: now,
+      updated_at: now
+    })
+    .eq('id', user.id);
+
+  if (error) {
+    console.error('Error changing password:', error);
+    return json({ error: 'Failed to change password' }, 500);
+  }
+
+  // Keep the caller signed in but end every other session
+  const { data: activeSessions } = await supabaseAdmin
+    .from('user_sessions')
+    .select('id')
+    .eq('user_id', user.id)
+    .is('revoked_at', null);
+
+  const otherSessions = (activeSessions || []).filter(session => session.id !== caller.sessionId);
+  await revokeSessions(user.id, otherSessions.map(session => session.id));
+
+  return json({ success: true });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const body = (await req.json()) as ResetRequest;
+
+    switch (body.action) {
+      case 'request':
+        return await handleRequest(body.phone_number, body.channel);
+      case 'confirm':
+        return await handleConfirm(body.phone_number, body.code, body.new_password);
+      case 'change': {
+        const caller = await getCaller(req);
+        if (!caller) {
+          return json({ error: 'Unauthorized' }, 401);
+        }
+        return await handleChange(caller, body.current_password, body.new_password);
+      }
+      default:
+        return json({ error: 'Unsupported action' }, 400);
+    }
+  } catch (error) {
+    console.error('Password reset error:', error);
+    return json({ error: 'An unexpected error occurred' }, 500);
+  }
+});
@@ -0,0 +1,89 @@
+// Supabase Edge Function that lists and revokes the caller's login sessions.
+// Revoking a session also revokes its refresh tokens, so the device is signed out at its next refresh.
+
+import { corsHeaders, json } from '../_shared/cors.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { getCaller, Caller } from '../_shared/auth.ts';
+import { revokeSessions } from '../_shared/sessions.ts';
+
+type SessionsRequest =
+  | { action: 'list' }
+  | { action: 'revoke'; session_id?: string }
+  | { action: 'revoke_all' };
+
+const handleList = async (caller: Caller) => {
+  const { data, error } = await supabaseAdmin
+    .from('user_sessions')
+    .select('id, device, user_agent, ip_address, created_at, last_seen_at')
+    .eq('user_id', caller.id)
+    .is('revoked_at', null)
+    .order('last_seen_at', { ascending: false });
+
+  if (error) {
+    console.error('Error listing sessions:', error);
+    return json({ error: 'Failed to load sessions' }, 500);
+  }
+
+  return json({
+    sessions: (data || []).map(session => ({
+      ...session,
+      is_current: session.id === caller.sessionId
+    }))
+  });
+};
+
+// Revoke one session; without a session_id the caller's own session is ended (logout)
+const handleRevoke = async (caller: Caller, sessionId?: string) => {
+  const targetId = sessionId || caller.sessionId;
+  if (!targetId) {
+    return json({ error: 'Session ID is required' }, 400);
+  }
+
+  await revokeSessions(caller.id, [targetId]);
+  return json({ success: true });
+};
+
+const handleRevokeAll = async (caller: Caller) => {
+  const { data: sessions } = await supabaseAdmin
+    .from('user_sessions')
+    .select('id')
+    .eq('user_id', caller.id)
+    .is('revoked_at', null);
+
+  const sessionIds = (sessions || []).map(session => session.id);
+  await revokeSessions(caller.id, sessionIds);
+  return json({ success: true, revoked: sessionIds.length });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const caller = await getCaller(req);
+  if (!caller) {
+    return json({ error: 'Authentication required' }, 401);
+  }
+
+  try {
+    const body = (await req.json()) as SessionsRequest;
+
+    switch (body.action) {
+      case 'list':
+        return await handleList(caller);
+      case 'revoke':
+        return await handleRevoke(caller, body.session_id);
+      case 'revoke_all':
+        return await handleRevokeAll(caller);
+      default:
+        return json({ error: 'Unsupported action' }, 400);
+    }
+  } catch (error) {
+    console.error('Sessions error:', error);
+    return json({ error: 'An unexpected error occurred' }, 500);
+  }
+});
@@ -0,0 +1,177 @@
+// Supabase Edge Function for TOTP two-factor enrollment and management.
+// TOTP secrets and recovery codes live in `user_two_factor`, which only the service role can read.
+
+import bcrypt from 'npm:bcryptjs@3';
+import { corsHeaders, json } from '../_shared/cors.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { getCaller, callerHasPermission, Caller } from '../_shared/auth.ts';
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotp } from '../_shared/totp.ts';
+import { verifyTwoFactorCode } from '../_shared/twoFactor.ts';
+
+const ISSUER = 'Muahib Solution';
+const RECOVERY_CODE_COUNT = 10;
+
+type TwoFactorRequest =
+  | { action: 'enroll' }
+  | { action: 'activate'; code: string }
+  | { action: 'disable'; code: string }
+  | { action: 'admin_reset'; user_id: string };
+
+const generateRecoveryCode = (): string => {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  const bytes = crypto.getRandomValues(new Uint8Array(10));
+  const code = Array.from(bytes, b => alphabet[b % alphabet.length]).join('');
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+const isTwoFactorRequiredForAdmins = async (): Promise<boolean> => {
+  const { data } = await supabaseAdmin
+    .from('system_settings')
+    .select('setting_value')
+    .eq('setting_key', 'security_require_2fa')
+    .maybeSingle();
+  return data?.setting_value === 'true';
+};
+
+const setTwoFactorEnabled = async (userId: string, enabled: boolean) => {
+  await supabaseAdmin
+    .from('users')
+    .update({ two_factor_enabled: enabled, updated_at: new Date().toISOString() })
+    .eq('id', userId);
+};
+
+// Start enrollment: store a pending secret and return it for the authenticator app
+const handleEnroll = async (caller: Caller) => {
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('phone_number, two_factor_enabled')
+    .eq('id', caller.id)
+    .single();
+
+  if (!user) return json({ error: 'User not found' }, 404);
+  if (user.two_factor_enabled) return json({ error: 'Two-factor authentication is already enabled' }, 409);
+
+  const secret = generateTotpSecret();
+  const { error } = await supabaseAdmin
+    .from('user_two_factor')
+    .upsert({
+      user_id: caller.id,
+      pending_secret: secret,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id' });
+
+  if (error) {
+    console.error('Error starting 2FA enrollment:', error);
+    return json({ error: 'Failed to start enrollment' }, 500);
+  }
+
+  return json({ secret, otpauth_url: buildOtpAuthUrl(secret, user.phone_number, ISSUER) });
+};
+
+// Finish enrollment: the first valid code proves the authenticator is set up
+const handleActivate = async (caller: Caller, code: string) => {
+  const { data: factor } = await supabaseAdmin
+    .from('user_two_factor')
+    .select('pending_secret')
+    .eq('user_id', caller.id)
+    .single();
+
+  if (!factor?.pending_secret) {
+    return json({ error: 'No enrollment in progress' }, 400);
+  }
+
+  const step = await verifyTotp(factor.pending_secret, code || '');
+  if (step === null) {
+    return json({ error: 'Invalid verification code' }, 400);
+  }
+
+  const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  const recoveryCodeHashes = await Promise.all(
+    recoveryCodes.map(recoveryCode => bcrypt.hash(recoveryCode.replace('-', ''), 10))
+  );
+
+  const now = new Date().toISOString();
+  const { error } = await supabaseAdmin
+    .from('user_two_factor')
+    .update({
+      secret: factor.pending_secret,
+      pending_secret: null,
+      recovery_code_hashes: recoveryCodeHashes,
+      last_used_step: step,
+      enabled_at: now,
+      updated_at: now
+    })
+    .eq('user_id', caller.id);
+
+  if (error) {
+    console.error('Error activating 2FA:', error);
+    return json({ error: 'Failed to enable two-factor authentication' }, 500);
+  }
+
+  await setTwoFactorEnabled(caller.id, true);
+  return json({ success: true, recovery_codes: recoveryCodes });
+};
+
+const handleDisable = async (caller: Caller, code: string) => {
+  if (caller.isAdmin && await isTwoFactorRequiredForAdmins()) {
+    return json({ error: 'Two-factor authentication is required for admin accounts' }, 403);
+  }
+
+  if (!await verifyTwoFactorCode(caller.id, code || '')) {
+    return json({ error: 'Invalid verification code' }, 400);
+  }
+
+  await supabaseAdmin.from('user_two_factor').delete().eq('user_id', caller.id);
+  await setTwoFactorEnabled(caller.id, false);
+  return json({ success: true });
+};
+
+// Admins can clear 2FA for a user who lost their authenticator and recovery codes
+const handleAdminReset = async (caller: Caller, userId: string) => {
+  if (!await callerHasPermission(caller, 'security.manage')) {
+    return json({ error: 'You do not have permission to reset two-factor authentication' }, 403);
+  }
+
+  if (!userId) {
+    return json({ error: 'User ID is required' }, 400);
+  }
+
+  await supabaseAdmin.from('user_two_factor').delete().eq('user_id', userId);
+  await setTwoFactorEnabled(userId, false);
+  return json({ success: true });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const caller = await getCaller(req);
+  if (!caller) {
+    return json({ error: 'Authentication required' }, 401);
+  }
+
+  try {
+    const body = (await req.json()) as TwoFactorRequest;
+
+    switch (body.action) {
+      case 'enroll':
+        return await handleEnroll(caller);
+      case 'activate':
+        return await handleActivate(caller, body.code);
+      case 'disable':
+        return await handleDisable(caller, body.code);
+      case 'admin_reset':
+        return await handleAdminReset(caller, body.user_id);
+      default:
+        return json({ error: 'Unsupported action' }, 400);
+    }
+  } catch (error) {
+    console.error('Two-factor error:', error);
+    return json({ error: 'An unexpected error occurred' }, 500);
+  }
+});